@@ -0,0 +1,21 @@
+-- Dead letter queue for events the consumer could not project after retrying
+
+CREATE TABLE IF NOT EXISTS dead_letter_events (
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    event_id TEXT NOT NULL,
+    consumer_id VARCHAR(100) NOT NULL,
+    project_id TEXT,
+    event_type VARCHAR(100),
+    event JSONB NOT NULL, -- full event row as it was when processing failed
+    error TEXT NOT NULL,
+    error_stack TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'replayed', 'discarded'
+    first_failed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_failed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE(event_id, consumer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letter_events_status ON dead_letter_events(status, last_failed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dead_letter_events_project ON dead_letter_events(project_id);
@@ -0,0 +1,44 @@
+-- Named projections with (created_at, id) composite cursors
+
+-- Each projection keeps one row; last_seen_at + last_event_id form the cursor
+ALTER TABLE projection_offsets ADD COLUMN IF NOT EXISTS events_processed BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE projection_offsets ADD COLUMN IF NOT EXISTS checkpointed_at TIMESTAMP WITH TIME ZONE;
+
+-- Upgrades from the single-cursor consumer: every projection starts where it stopped instead of
+-- replaying the whole log. Its row was named by CONSUMER_ID, 'default' unless set; migration 002
+-- also created 'mcp-orchestrator-default'. Rows that already exist are left alone.
+INSERT INTO projection_offsets (id, last_event_id, last_seen_at, checkpointed_at)
+SELECT projection.id, legacy.last_event_id, legacy.last_seen_at, NOW()
+FROM (VALUES ('blocks'), ('github-entities'), ('embeddings'), ('analytics')) AS projection(id)
+CROSS JOIN (
+    SELECT last_event_id, last_seen_at
+    FROM projection_offsets
+    WHERE id IN ('default', 'mcp-orchestrator-default')
+    ORDER BY id = 'default' DESC
+    LIMIT 1
+) AS legacy
+ON CONFLICT (id) DO NOTHING;
+
+-- Keyset pagination over the event log
+CREATE INDEX IF NOT EXISTS idx_events_created_id ON events(created_at, id);
+
+-- Analytics projection: one row per event, aggregated by the view below
+CREATE TABLE IF NOT EXISTS project_activity (
+    event_id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    actor_id TEXT,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_activity_project ON project_activity(project_id, occurred_at);
+
+CREATE OR REPLACE VIEW project_activity_daily AS
+SELECT
+    project_id,
+    date_trunc('day', occurred_at)::date AS day,
+    event_type,
+    COUNT(*) AS event_count,
+    COUNT(DISTINCT actor_id) AS active_actors
+FROM project_activity
+GROUP BY project_id, date_trunc('day', occurred_at)::date, event_type;
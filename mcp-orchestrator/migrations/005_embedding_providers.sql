@@ -0,0 +1,119 @@
+-- Embeddings from pluggable providers (OpenAI or the offline local model)
+
+-- Record which model produced each vector and how many dimensions it has
+ALTER TABLE context_items ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+ALTER TABLE context_items ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+ALTER TABLE blocks ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+ALTER TABLE blocks ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+
+-- Vectors written before this migration all came from OpenAI
+UPDATE context_items SET embedding_model = 'text-embedding-3-small', embedding_dimension = 1536
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+UPDATE blocks SET embedding_model = 'text-embedding-3-small', embedding_dimension = 1536
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- Providers differ in dimension, so the columns no longer pin one. ivfflat indexes need a fixed
+-- dimension; searches are scoped to one project and model, which keeps exact scans cheap.
+DROP INDEX IF EXISTS context_items_embedding_idx;
+DROP INDEX IF EXISTS blocks_embedding_idx;
+DROP VIEW IF EXISTS items_needing_embeddings;
+ALTER TABLE context_items ALTER COLUMN embedding TYPE vector;
+ALTER TABLE blocks ALTER COLUMN embedding TYPE vector;
+
+CREATE INDEX IF NOT EXISTS idx_context_items_embedding_model ON context_items(project_id, embedding_model);
+CREATE INDEX IF NOT EXISTS idx_blocks_embedding_model ON blocks(project_id, embedding_model);
+
+-- Clearing an embedding also clears its provenance
+CREATE OR REPLACE FUNCTION update_context_item_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.embedding = NULL;
+  NEW.embedding_model = NULL;
+  NEW.embedding_dimension = NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_block_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.embedding = NULL;
+  NEW.embedding_model = NULL;
+  NEW.embedding_dimension = NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE VIEW items_needing_embeddings AS
+SELECT
+  'context_item' as item_type,
+  id,
+  project_id,
+  COALESCE(title, '') || ' ' || content as text_content,
+  created_at
+FROM context_items
+WHERE embedding IS NULL
+UNION ALL
+SELECT
+  'block' as item_type,
+  id,
+  project_id,
+  title || COALESCE(' ' || content, '') as text_content,
+  created_at
+FROM blocks
+WHERE embedding IS NULL
+ORDER BY created_at DESC;
+
+-- Semantic search only compares vectors produced by the query's model
+DROP FUNCTION IF EXISTS semantic_search(UUID, vector, INTEGER, FLOAT);
+CREATE OR REPLACE FUNCTION semantic_search(
+  p_project_id UUID,
+  p_query_embedding vector,
+  p_limit INTEGER DEFAULT 10,
+  p_threshold FLOAT DEFAULT 0.7,
+  p_model VARCHAR DEFAULT 'text-embedding-3-small'
+) RETURNS TABLE (
+  item_type TEXT,
+  id UUID,
+  title TEXT,
+  content TEXT,
+  similarity FLOAT,
+  created_at TIMESTAMP
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT
+      'context_item'::text as item_type,
+      ci.id,
+      ci.title,
+      ci.content,
+      (1 - (ci.embedding <=> p_query_embedding)) as similarity,
+      ci.created_at
+    FROM context_items ci
+    WHERE ci.project_id = p_project_id
+      AND ci.embedding IS NOT NULL
+      AND ci.embedding_model = p_model
+      AND ci.embedding_dimension = vector_dims(p_query_embedding)
+      AND (1 - (ci.embedding <=> p_query_embedding)) >= p_threshold
+
+    UNION ALL
+
+    SELECT
+      'block'::text as item_type,
+      b.id,
+      b.title,
+      b.content,
+      (1 - (b.embedding <=> p_query_embedding)) as similarity,
+      b.created_at
+    FROM blocks b
+    WHERE b.project_id = p_project_id
+      AND b.embedding IS NOT NULL
+      AND b.embedding_model = p_model
+      AND b.embedding_dimension = vector_dims(p_query_embedding)
+      AND (1 - (b.embedding <=> p_query_embedding)) >= p_threshold
+  ) combined
+  ORDER BY similarity DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
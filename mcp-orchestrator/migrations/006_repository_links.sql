@@ -0,0 +1,29 @@
+-- Registry of GitHub repositories linked to Frizy projects
+
+CREATE TABLE IF NOT EXISTS repository_links (
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    project_id TEXT NOT NULL,
+    repository_full_name VARCHAR(255) NOT NULL, -- owner/name, stored lowercased
+    webhook_secret TEXT NOT NULL,               -- per-repository secret for X-Hub-Signature-256
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(repository_full_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_repository_links_project ON repository_links(project_id);
+
+-- Deliveries from repositories that are not linked to any project, held for later assignment
+CREATE TABLE IF NOT EXISTS quarantined_webhook_deliveries (
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    delivery_id VARCHAR(100),
+    repository_full_name VARCHAR(255),
+    event_name VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'assigned', 'discarded'
+    assigned_project_id TEXT,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_deliveries_status ON quarantined_webhook_deliveries(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quarantined_deliveries_repository ON quarantined_webhook_deliveries(repository_full_name);
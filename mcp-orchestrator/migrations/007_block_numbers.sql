@@ -0,0 +1,39 @@
+-- Per-project block numbers, so branches, PRs and commits can reference blocks as BLK-<number>
+
+ALTER TABLE blocks ADD COLUMN IF NOT EXISTS number INTEGER;
+
+-- Number existing blocks in creation order
+WITH numbered AS (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY project_id ORDER BY created_at, id) AS number
+    FROM blocks
+    WHERE number IS NULL
+)
+UPDATE blocks
+SET number = numbered.number + COALESCE((
+    SELECT MAX(b.number) FROM blocks b WHERE b.project_id = blocks.project_id
+), 0)
+FROM numbered
+WHERE blocks.id = numbered.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_blocks_project_number ON blocks(project_id, number);
+
+-- Blocks are inserted by the projection and directly by the app, so numbers are assigned here.
+-- The advisory lock serializes inserts within a project so two blocks never get the same number.
+CREATE OR REPLACE FUNCTION assign_block_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.number IS NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('blocks:' || NEW.project_id::text));
+        SELECT COALESCE(MAX(number), 0) + 1 INTO NEW.number
+        FROM blocks
+        WHERE project_id = NEW.project_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS blocks_assign_number ON blocks;
+CREATE TRIGGER blocks_assign_number
+    BEFORE INSERT ON blocks
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_block_number();
@@ -0,0 +1,26 @@
+-- Log of every GitHub webhook delivery, for idempotency, signature audits and replays
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    delivery_id VARCHAR(100),                  -- X-GitHub-Delivery
+    event_name VARCHAR(100) NOT NULL,
+    repository_full_name VARCHAR(255),
+    project_id TEXT,
+    headers JSONB NOT NULL DEFAULT '{}',
+    payload JSONB NOT NULL,
+    raw_body TEXT,                             -- exact bytes GitHub signed
+    signature_status VARCHAR(20) NOT NULL,     -- 'valid', 'invalid', 'missing', 'unverified'
+    outcome VARCHAR(20) NOT NULL DEFAULT 'received', -- 'received', 'processed', 'ignored', 'quarantined', 'rejected', 'failed'
+    outcome_message TEXT,
+    event_ids TEXT[] NOT NULL DEFAULT '{}',
+    quarantine_id TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+    last_replayed_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE(delivery_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received ON webhook_deliveries(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_outcome ON webhook_deliveries(outcome, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_repository ON webhook_deliveries(repository_full_name);
@@ -0,0 +1,17 @@
+-- Hashed API tokens for the REST, GraphQL and MCP HTTP APIs
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    user_id UUID NOT NULL,
+    project_id TEXT,                          -- NULL for personal tokens
+    name VARCHAR(100) NOT NULL,
+    token_prefix VARCHAR(20) NOT NULL,        -- first characters, to recognise a token in the UI
+    token_hash CHAR(64) NOT NULL UNIQUE,      -- sha256 of the token; the token itself is never stored
+    scopes TEXT[] NOT NULL,                   -- 'events:write', 'context:read', 'graph:read'
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id, created_at DESC);
@@ -0,0 +1,6 @@
+-- Indexes for the batched GraphQL loaders and the recursive relation walk.
+-- from_block_id and context_id are already covered by the leading columns of the unique constraints.
+
+CREATE INDEX IF NOT EXISTS idx_block_relations_to_block ON block_relations(to_block_id);
+CREATE INDEX IF NOT EXISTS idx_block_relations_project ON block_relations(project_id);
+CREATE INDEX IF NOT EXISTS idx_context_links_block ON context_links(block_id);
@@ -0,0 +1,21 @@
+-- Full-text search for hybrid (keyword + semantic) context search.
+-- Titles weigh more than bodies; the vectors are kept up to date by Postgres itself.
+
+ALTER TABLE blocks ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(content, '')), 'B')
+  ) STORED;
+
+ALTER TABLE context_items ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(content, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_blocks_search_vector ON blocks USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_context_items_search_vector ON context_items USING GIN (search_vector);
+
+-- Date range filters
+CREATE INDEX IF NOT EXISTS idx_blocks_project_created ON blocks(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_context_items_project_created ON context_items(project_id, created_at);
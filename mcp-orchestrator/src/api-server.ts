@@ -2,11 +2,43 @@ import express from 'express';
 import cors from 'cors';
 import crypto from 'crypto';
 import http from 'http';
-import { v4 as uuidv4 } from 'uuid';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import { Database } from './database.js';
 import { ContextService } from './context-service.js';
 import { GraphQLServer } from './graphql-server.js';
-import { ApiResponse } from './types.js';
+import { DeadLetterQueue } from './dead-letter-queue.js';
+import { EventConsumer } from './event-consumer.js';
+import { createDefaultProjections } from './projections/index.js';
+import { assertNoDependencyCycle, DependencyCycleError } from './critical-path.js';
+import { RepositoryLinkRegistry } from './repository-links.js';
+import { WebhookQuarantine } from './webhook-quarantine.js';
+import { WebhookDeliveryLog } from './webhook-deliveries.js';
+import { FrizyMCPServer } from './mcp-server.js';
+import { ApiTokenStore } from './api-tokens.js';
+import { Authenticator, ForbiddenError, Principal, sendAuthError } from './auth.js';
+import {
+  ApiResponse,
+  ApiTokenScopeSchema,
+  CreateApiTokenSchema,
+  DeadLetterStatusSchema,
+  CreateRepositoryLinkSchema,
+  UpdateRepositoryLinkSchema,
+  QuarantineStatusSchema,
+  DeliveryOutcome,
+  DeliveryOutcomeSchema,
+  RepositoryLink,
+  SignatureStatus,
+  WebhookDelivery
+} from './types.js';
+
+// SSE comment sent to keep idle MCP streams open through proxies
+const MCP_HEARTBEAT_MS = 25000;
+
+interface MCPSession {
+  transport: SSEServerTransport;
+  server: FrizyMCPServer;
+  userId: string;
+}
 
 export class APIServer {
   private app: express.Application;
@@ -14,11 +46,28 @@ export class APIServer {
   private db: Database;
   private contextService: ContextService;
   private graphqlServer: GraphQLServer;
+  private deadLetters: DeadLetterQueue;
+  private repositoryLinks: RepositoryLinkRegistry;
+  private quarantine: WebhookQuarantine;
+  private webhookDeliveries: WebhookDeliveryLog;
+  private authenticator: Authenticator;
+  private apiTokens: ApiTokenStore;
+  // Open MCP-over-HTTP sessions by session id; each has its own MCP server bound to the user
+  private mcpSessions = new Map<string, MCPSession>();
+  // Never started here; used to replay dead letters and manage projection cursors
+  private projectionRunner: EventConsumer;
 
   constructor(database: Database, contextService: ContextService) {
     this.db = database;
     this.contextService = contextService;
     this.graphqlServer = new GraphQLServer(database, contextService);
+    this.deadLetters = new DeadLetterQueue(database);
+    this.repositoryLinks = new RepositoryLinkRegistry(database);
+    this.quarantine = new WebhookQuarantine(database);
+    this.webhookDeliveries = new WebhookDeliveryLog(database);
+    this.authenticator = new Authenticator(database);
+    this.apiTokens = new ApiTokenStore(database);
+    this.projectionRunner = new EventConsumer(database, createDefaultProjections(database));
     this.app = express();
     this.httpServer = http.createServer(this.app);
     this.setupMiddleware();
@@ -31,7 +80,13 @@ export class APIServer {
       credentials: true
     }));
     
-    this.app.use(express.json({ limit: '10mb' }));
+    // Keep the raw body: webhook signatures are computed over the exact bytes GitHub sent
+    this.app.use(express.json({
+      limit: '10mb',
+      verify: (req, res, buf) => {
+        (req as any).rawBody = buf;
+      }
+    }));
     this.app.use(express.urlencoded({ extended: true }));
 
     // Basic request logging
@@ -42,6 +97,13 @@ export class APIServer {
   }
 
   private setupRoutes() {
+    const auth = this.authenticator;
+    // Operational endpoints (dead letters, projections, webhook logs) need a signed-in user, and
+    // show each user only the records of their own projects
+    const requireSession = auth.middleware({ session: true });
+    // Endpoints that affect every project, e.g. rebuilding a projection
+    const requireOperator = auth.middleware({ session: true, operator: true });
+
     // Health check
     this.app.get('/health', async (req, res) => {
       const dbHealthy = await this.db.healthCheck();
@@ -53,9 +115,10 @@ export class APIServer {
     });
 
     // Event ingestion endpoint
-    this.app.post('/api/events', async (req, res) => {
+    this.app.post('/api/events', auth.requireProject('events:write', req => req.body?.project_id), async (req, res) => {
       try {
-        const { project_id, type, actor_id, payload } = req.body;
+        const { project_id, type, payload } = req.body;
+        const principal = res.locals.principal as Principal;
         
         if (!project_id || !type) {
           return res.status(400).json({
@@ -64,10 +127,22 @@ export class APIServer {
           } as ApiResponse);
         }
 
+        // Turn away relations that would close a dependency cycle; the blocks projection re-checks in log order
+        if (type === 'block.relation_added') {
+          const { from_block_id, to_block_id, relation_type = 'depends_on' } = payload || {};
+          if (!from_block_id || !to_block_id) {
+            return res.status(400).json({
+              success: false,
+              error: 'Missing required payload fields: from_block_id, to_block_id'
+            } as ApiResponse);
+          }
+          await assertNoDependencyCycle(this.db, project_id, { from_block_id, to_block_id, relation_type });
+        }
+
         const event = await this.db.createEvent({
           project_id,
           type,
-          actor_id,
+          actor_id: principal.user.id,
           payload: payload || {}
         });
 
@@ -78,6 +153,14 @@ export class APIServer {
         } as ApiResponse);
 
       } catch (error) {
+        if (error instanceof DependencyCycleError) {
+          return res.status(409).json({
+            success: false,
+            error: error.message,
+            data: { cycle: error.cycle }
+          } as ApiResponse);
+        }
+
         console.error('Error creating event:', error);
         res.status(500).json({
           success: false,
@@ -87,7 +170,7 @@ export class APIServer {
     });
 
     // Get project graph
-    this.app.get('/api/projects/:projectId/graph', async (req, res) => {
+    this.app.get('/api/projects/:projectId/graph', auth.requireProject('graph:read', req => req.params.projectId), async (req, res) => {
       try {
         const { projectId } = req.params;
         const graph = await this.db.getProjectGraph(projectId);
@@ -107,7 +190,7 @@ export class APIServer {
     });
 
     // Get context preview
-    this.app.get('/api/projects/:projectId/context-preview', async (req, res) => {
+    this.app.get('/api/projects/:projectId/context-preview', auth.requireProject('context:read', req => req.params.projectId), async (req, res) => {
       try {
         const { projectId } = req.params;
         const { 
@@ -141,27 +224,25 @@ export class APIServer {
     });
 
     // MCP connection management
-    this.app.post('/api/mcp/connections', async (req, res) => {
+    this.app.post('/api/mcp/connections', auth.requireProject(undefined, req => req.body?.project_id, { session: true }), async (req, res) => {
       try {
-        const { project_id, user_id } = req.body;
-        
-        if (!project_id) {
-          return res.status(400).json({
-            success: false,
-            error: 'Missing project_id'
-          } as ApiResponse);
-        }
+        const { project_id } = req.body;
+        const principal = res.locals.principal as Principal;
+
+        // The connection authenticates with a token bound to this project; only its hash is stored
+        const { token, record } = await this.apiTokens.create(principal.user.id, {
+          name: 'MCP connection',
+          project_id,
+          scopes: [...ApiTokenScopeSchema.options]
+        });
 
-        // Generate connection info for Claude Code
         const connectionInfo = {
           project_id,
           connection_string: this.generateMCPConnectionString(project_id),
-          api_key: this.generateAPIKey(),
-          created_at: new Date().toISOString()
+          api_key: token,
+          created_at: record.created_at
         };
 
-        // Store connection info (in a real implementation, you'd save this)
-        // For now, just return it
         res.json({
           success: true,
           data: connectionInfo
@@ -176,6 +257,89 @@ export class APIServer {
       }
     });
 
+    // API tokens of the signed-in user
+    this.app.get('/api/tokens', requireSession, async (req, res) => {
+      try {
+        const principal = res.locals.principal as Principal;
+        const tokens = await this.apiTokens.listByUser(principal.user.id);
+
+        res.json({
+          success: true,
+          data: tokens
+        } as ApiResponse);
+
+      } catch (error) {
+        console.error('Error listing API tokens:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list API tokens'
+        } as ApiResponse);
+      }
+    });
+
+    this.app.post('/api/tokens', requireSession, async (req, res) => {
+      try {
+        const parsed = CreateApiTokenSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            success: false,
+            error: parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+          } as ApiResponse);
+        }
+
+        const principal = res.locals.principal as Principal;
+        if (parsed.data.project_id) {
+          await this.authenticator.authorize(principal, parsed.data.project_id);
+        }
+
+        const { token, record } = await this.apiTokens.create(principal.user.id, parsed.data);
+
+        console.log(`🔑 Created API token ${record.token_prefix}… for user ${principal.user.id}`);
+
+        // The token is returned this once; only its hash is kept
+        res.status(201).json({
+          success: true,
+          data: { ...record, token }
+        } as ApiResponse);
+
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        console.error('Error creating API token:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create API token'
+        } as ApiResponse);
+      }
+    });
+
+    this.app.delete('/api/tokens/:id', requireSession, async (req, res) => {
+      try {
+        const principal = res.locals.principal as Principal;
+        const revoked = await this.apiTokens.revoke(principal.user.id, req.params.id);
+
+        if (!revoked) {
+          return res.status(404).json({
+            success: false,
+            error: 'API token not found'
+          } as ApiResponse);
+        }
+
+        res.json({
+          success: true,
+          message: 'API token revoked'
+        } as ApiResponse);
+
+      } catch (error) {
+        console.error('Error revoking API token:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to revoke API token'
+        } as ApiResponse);
+      }
+    });
+
     // GitHub webhook handler with signature verification
     this.app.post('/api/webhooks/github', async (req, res) => {
       try {
@@ -191,36 +355,69 @@ export class APIServer {
           } as ApiResponse);
         }
 
-        // Verify webhook signature if secret is configured
-        if (process.env.GITHUB_WEBHOOK_SECRET && signature) {
-          const isValid = this.verifyGitHubSignature(
-            JSON.stringify(payload),
-            signature,
-            process.env.GITHUB_WEBHOOK_SECRET
-          );
-          
-          if (!isValid) {
-            console.warn(`Invalid GitHub webhook signature for delivery: ${delivery}`);
-            return res.status(401).json({
-              success: false,
-              error: 'Invalid webhook signature'
-            } as ApiResponse);
+        // Linked repositories are verified with their own secret; the global secret covers the rest
+        const repository: string | undefined = payload.repository?.full_name;
+        const link = repository ? await this.repositoryLinks.findByRepository(repository) : null;
+        const rawBody: string = (req as any).rawBody?.toString('utf8') ?? JSON.stringify(payload);
+        const signatureStatus = this.checkGitHubSignature(
+          rawBody,
+          signature,
+          link?.webhook_secret || process.env.GITHUB_WEBHOOK_SECRET
+        );
+
+        // Every delivery is logged, including ones that fail verification
+        const { delivery: logged, duplicate, claimed } = await this.webhookDeliveries.record({
+          deliveryId: delivery,
+          eventName: event,
+          repository,
+          headers: WebhookDeliveryLog.pickHeaders(req.headers),
+          payload,
+          rawBody,
+          signatureStatus
+        });
+
+        if (signatureStatus === 'invalid' || signatureStatus === 'missing') {
+          console.warn(`Invalid GitHub webhook signature for delivery: ${delivery}`);
+          if (!duplicate) {
+            await this.webhookDeliveries.complete(logged.id, {
+              outcome: 'rejected',
+              message: `Signature ${signatureStatus}`
+            });
           }
+          return res.status(401).json({
+            success: false,
+            error: 'Invalid webhook signature'
+          } as ApiResponse);
         }
 
-        // Process GitHub webhook
-        const result = await this.processGitHubWebhook(event, payload);
-        
-        if (result.processed) {
-          console.log(`✅ Processed GitHub ${event} event: ${result.message}`);
-        } else {
-          console.log(`ℹ️  Ignored GitHub ${event} event: ${result.message}`);
+        // GitHub redelivers on timeouts; a delivery that already went through, or is still going
+        // through another request, is not applied twice
+        if (!claimed) {
+          const state = WebhookDeliveryLog.isSettled(logged) ? logged.outcome : 'in progress';
+          console.log(`♻️  Skipping redelivery ${delivery}: already ${state}`);
+          return res.json({
+            success: true,
+            message: `Delivery already ${state}`,
+            processed: false,
+            data: { delivery_log_id: logged.id, duplicate: true, event_ids: logged.event_ids }
+          } as ApiResponse);
         }
-        
+
+        const result = await this.dispatchGitHubDelivery(logged, link);
+
+        if (result.outcome === 'quarantined') {
+          return res.status(202).json({
+            success: true,
+            message: result.message,
+            data: { delivery_log_id: logged.id, quarantine_id: result.quarantineId }
+          } as ApiResponse);
+        }
+
         res.json({
           success: true,
           message: result.message,
-          processed: result.processed
+          processed: result.outcome === 'processed',
+          data: { delivery_log_id: logged.id, event_ids: result.eventIds }
         } as ApiResponse);
 
       } catch (error) {
@@ -232,110 +429,891 @@ export class APIServer {
       }
     });
 
-    // Get project events
-    this.app.get('/api/projects/:projectId/events', async (req, res) => {
+    // Repositories linked to a project
+    this.app.get('/api/projects/:projectId/repositories', auth.requireProject(undefined, req => req.params.projectId, { session: true }), async (req, res) => {
       try {
-        const { projectId } = req.params;
-        const { limit = '100' } = req.query;
-        
-        const events = await this.db.getEventsByProject(projectId, parseInt(limit as string));
-        
+        const links = await this.repositoryLinks.listByProject(req.params.projectId);
+
         res.json({
           success: true,
-          data: events
+          data: links.map(RepositoryLinkRegistry.redact)
         } as ApiResponse);
 
       } catch (error) {
-        console.error('Error fetching events:', error);
+        console.error('Error listing repository links:', error);
         res.status(500).json({
           success: false,
-          error: error instanceof Error ? error.message : 'Failed to fetch events'
+          error: error instanceof Error ? error.message : 'Failed to list repository links'
         } as ApiResponse);
       }
     });
 
-    // Get project blocks
-    this.app.get('/api/projects/:projectId/blocks', async (req, res) => {
+    this.app.post('/api/projects/:projectId/repositories', auth.requireProject(undefined, req => req.params.projectId, { session: true }), async (req, res) => {
       try {
-        const { projectId } = req.params;
-        const blocks = await this.db.getBlocksByProject(projectId);
-        
+        const parsed = CreateRepositoryLinkSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            success: false,
+            error: parsed.error.errors.map(e => e.message).join(', ')
+          } as ApiResponse);
+        }
+
+        const link = await this.repositoryLinks.create(
+          req.params.projectId,
+          parsed.data.repository_full_name,
+          parsed.data.webhook_secret
+        );
+
+        if (!link) {
+          return res.status(409).json({
+            success: false,
+            error: `Repository ${parsed.data.repository_full_name} is already linked to a project`
+          } as ApiResponse);
+        }
+
+        console.log(`🔗 Linked ${link.repository_full_name} to project ${link.project_id}`);
+
+        // The secret is returned this once so it can be pasted into the GitHub webhook settings
+        res.status(201).json({
+          success: true,
+          data: link
+        } as ApiResponse);
+
+      } catch (error) {
+        console.error('Error linking repository:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to link repository'
+        } as ApiResponse);
+      }
+    });
+
+    this.app.patch('/api/repositories/:id', requireSession, this.requireRepositoryLinkAccess(), async (req, res) => {
+      try {
+        const parsed = UpdateRepositoryLinkSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            success: false,
+            error: parsed.error.errors.map(e => e.message).join(', ')
+          } as ApiResponse);
+        }
+
+        // Moving a link needs membership of the target project too
+        if (parsed.data.project_id) {
+          await this.authenticator.authorize(res.locals.principal as Principal, parsed.data.project_id);
+        }
+
+        const link = await this.repositoryLinks.update(req.params.id, parsed.data);
+
+        if (!link) {
+          return res.status(404).json({
+            success: false,
+            error: 'Repository link not found'
+          } as ApiResponse);
+        }
+
         res.json({
           success: true,
-          data: blocks
+          data: RepositoryLinkRegistry.redact(link)
         } as ApiResponse);
 
       } catch (error) {
-        console.error('Error fetching blocks:', error);
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        console.error('Error updating repository link:', error);
         res.status(500).json({
           success: false,
-          error: error instanceof Error ? error.message : 'Failed to fetch blocks'
+          error: error instanceof Error ? error.message : 'Failed to update repository link'
         } as ApiResponse);
       }
     });
 
-    // Error handling middleware
-    this.app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-      console.error('Unhandled error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Internal server error'
-      } as ApiResponse);
+    this.app.post('/api/repositories/:id/rotate-secret', requireSession, this.requireRepositoryLinkAccess(), async (req, res) => {
+      try {
+        const link = await this.repositoryLinks.update(req.params.id, {
+          webhook_secret: RepositoryLinkRegistry.generateSecret()
+        });
+
+        if (!link) {
+          return res.status(404).json({
+            success: false,
+            error: 'Repository link not found'
+          } as ApiResponse);
+        }
+
+        res.json({
+          success: true,
+          data: link
+        } as ApiResponse);
+
+      } catch (error) {
+        console.error('Error rotating webhook secret:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to rotate webhook secret'
+        } as ApiResponse);
+      }
     });
 
-    // 404 handler
-    this.app.use((req, res) => {
-      res.status(404).json({
-        success: false,
-        error: `Route ${req.method} ${req.path} not found`
-      } as ApiResponse);
+    this.app.delete('/api/repositories/:id', requireSession, this.requireRepositoryLinkAccess(), async (req, res) => {
+      try {
+        const deleted = await this.repositoryLinks.delete(req.params.id);
+
+        if (!deleted) {
+          return res.status(404).json({
+            success: false,
+            error: 'Repository link not found'
+          } as ApiResponse);
+        }
+
+        res.json({
+          success: true,
+          message: 'Repository unlinked; further deliveries will be quarantined'
+        } as ApiResponse);
+
+      } catch (error) {
+        console.error('Error unlinking repository:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to unlink repository'
+        } as ApiResponse);
+      }
     });
-  }
 
-  private generateMCPConnectionString(projectId: string): string {
-    // In a real implementation, this would be a proper MCP connection string
-    // For now, return a placeholder that includes the server endpoint
-    const serverUrl = process.env.MCP_SERVER_URL || 'stdio://frizy-mcp-server';
-    return `${serverUrl}?project_id=${projectId}`;
-  }
+    // Quarantined webhook deliveries
+    this.app.get('/api/webhooks/github/quarantine', requireSession, async (req, res) => {
+      try {
+        const { status, repository, limit = '50', offset = '0' } = req.query;
 
-  private generateAPIKey(): string {
-    // In a real implementation, use a proper API key generation system
-    return `frizy_${uuidv4().replace(/-/g, '')}`;
-  }
+        const parsedStatus = status ? QuarantineStatusSchema.safeParse(status) : null;
+        if (parsedStatus && !parsedStatus.success) {
+          return res.status(400).json({
+            success: false,
+            error: `Invalid status: ${status}`
+          } as ApiResponse);
+        }
 
-  private verifyGitHubSignature(payload: string, signature: string, secret: string): boolean {
-    if (!signature.startsWith('sha256=')) {
-      return false;
-    }
+        const deliveries = await this.quarantine.list({
+          status: parsedStatus?.data,
+          repository: repository as string | undefined,
+          projectIds: await auth.visibleProjects(res.locals.principal as Principal),
+          limit: parseInt(limit as string),
+          offset: parseInt(offset as string)
+        });
 
-    const expectedSignature = crypto
-      .createHmac('sha256', secret)
-      .update(payload, 'utf8')
-      .digest('hex');
+        res.json({
+          success: true,
+          data: deliveries
+        } as ApiResponse);
 
-    const actualSignature = signature.slice(7); // Remove 'sha256=' prefix
-    
-    return crypto.timingSafeEqual(
-      Buffer.from(expectedSignature, 'hex'),
-      Buffer.from(actualSignature, 'hex')
-    );
-  }
+      } catch (error) {
+        console.error('Error listing quarantined deliveries:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list quarantined deliveries'
+        } as ApiResponse);
+      }
+    });
 
-  private async processGitHubWebhook(event: string, payload: any): Promise<{processed: boolean, message: string}> {
-    // Extract project_id from webhook payload or configuration
-    let projectId = payload.repository?.name || 'default-project';
-    
-    // In production, you'd have a mapping from repository to project ID
-    if (process.env.REPO_PROJECT_MAPPING) {
+    // Process a quarantined delivery as if it had come from a repository linked to project_id
+    this.app.post('/api/webhooks/github/quarantine/:id/assign', auth.requireProject(undefined, req => req.body?.project_id, { session: true }), async (req, res) => {
       try {
-        const mapping = JSON.parse(process.env.REPO_PROJECT_MAPPING);
-        projectId = mapping[payload.repository?.full_name] || projectId;
+        const { project_id } = req.body;
+        if (!project_id) {
+          return res.status(400).json({
+            success: false,
+            error: 'Missing required field: project_id'
+          } as ApiResponse);
+        }
+
+        const delivery = await this.quarantine.get(req.params.id);
+
+        if (!delivery) {
+          return res.status(404).json({
+            success: false,
+            error: 'Quarantined delivery not found'
+          } as ApiResponse);
+        }
+
+        // Pending deliveries come from unlinked repositories and belong to no project yet
+        await auth.authorizeRecord(res.locals.principal as Principal, delivery.assigned_project_id);
+
+        if (delivery.status !== 'pending') {
+          return res.status(409).json({
+            success: false,
+            error: `Delivery already ${delivery.status}`
+          } as ApiResponse);
+        }
+
+        const result = await this.processGitHubWebhook(delivery.event_name, delivery.payload, project_id);
+        const assigned = await this.quarantine.markAssigned(delivery.id, project_id);
+
+        if (delivery.delivery_id) {
+          await this.webhookDeliveries.completeByDeliveryId(delivery.delivery_id, {
+            outcome: result.processed ? 'processed' : 'ignored',
+            message: result.message,
+            projectId: project_id,
+            eventIds: result.eventIds
+          });
+        }
+
+        res.json({
+          success: true,
+          message: result.message,
+          data: assigned
+        } as ApiResponse);
+
       } catch (error) {
-        console.warn('Invalid REPO_PROJECT_MAPPING configuration:', error);
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        console.error('Error assigning quarantined delivery:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to assign quarantined delivery'
+        } as ApiResponse);
       }
-    }
+    });
+
+    this.app.post('/api/webhooks/github/quarantine/:id/discard', requireSession, async (req, res) => {
+      try {
+        const delivery = await this.quarantine.get(req.params.id);
+
+        if (!delivery) {
+          return res.status(404).json({
+            success: false,
+            error: 'Quarantined delivery not found'
+          } as ApiResponse);
+        }
+
+        // Pending deliveries come from unlinked repositories and belong to no project yet
+        await auth.authorizeRecord(res.locals.principal as Principal, delivery.assigned_project_id);
+
+        if (delivery.status !== 'pending') {
+          return res.status(409).json({
+            success: false,
+            error: `Delivery already ${delivery.status}`
+          } as ApiResponse);
+        }
+
+        const discarded = await this.quarantine.markDiscarded(delivery.id);
+
+        res.json({
+          success: true,
+          data: discarded
+        } as ApiResponse);
+
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        console.error('Error discarding quarantined delivery:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to discard quarantined delivery'
+        } as ApiResponse);
+      }
+    });
+
+    // Delivery log: every webhook received, its signature check, outcome and resulting events
+    this.app.get('/api/webhooks/github/deliveries', requireSession, async (req, res) => {
+      try {
+        const { outcome, repository, event, limit = '50', offset = '0' } = req.query;
+
+        const parsedOutcome = outcome ? DeliveryOutcomeSchema.safeParse(outcome) : null;
+        if (parsedOutcome && !parsedOutcome.success) {
+          return res.status(400).json({
+            success: false,
+            error: `Invalid outcome: ${outcome}`
+          } as ApiResponse);
+        }
+
+        const deliveries = await this.webhookDeliveries.list({
+          outcome: parsedOutcome?.data,
+          repository: repository as string | undefined,
+          event: event as string | undefined,
+          projectIds: await auth.visibleProjects(res.locals.principal as Principal),
+          limit: parseInt(limit as string),
+          offset: parseInt(offset as string)
+        });
+
+        res.json({
+          success: true,
+          data: deliveries
+        } as ApiResponse);
+
+      } catch (error) {
+        console.error('Error listing webhook deliveries:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list webhook deliveries'
+        } as ApiResponse);
+      }
+    });
+
+    // Accepts the log id or the X-GitHub-Delivery id
+    this.app.get('/api/webhooks/github/deliveries/:id', requireSession, async (req, res) => {
+      try {
+        const delivery = await this.webhookDeliveries.get(req.params.id);
+
+        if (!delivery) {
+          return res.status(404).json({
+            success: false,
+            error: 'Webhook delivery not found'
+          } as ApiResponse);
+        }
+
+        // Deliveries that never reached a project belong to whichever project links the repository now
+        const link = !delivery.project_id && delivery.repository_full_name
+          ? await this.repositoryLinks.findByRepository(delivery.repository_full_name)
+          : null;
+        await auth.authorizeRecord(res.locals.principal as Principal, delivery.project_id ?? link?.project_id ?? null);
+
+        res.json({
+          success: true,
+          data: delivery
+        } as ApiResponse);
+
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        console.error('Error fetching webhook delivery:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch webhook delivery'
+        } as ApiResponse);
+      }
+    });
+
+    // Run a stored delivery through the pipeline again, e.g. to recover a PR update that was missed.
+    // The signature is re-checked against the repository's current secret; pass force to replay anyway.
+    this.app.post('/api/webhooks/github/deliveries/:id/replay', requireSession, async (req, res) => {
+      try {
+        const delivery = await this.webhookDeliveries.get(req.params.id);
+
+        if (!delivery) {
+          return res.status(404).json({
+            success: false,
+            error: 'Webhook delivery not found'
+          } as ApiResponse);
+        }
+
+        const link = delivery.repository_full_name
+          ? await this.repositoryLinks.findByRepository(delivery.repository_full_name)
+          : null;
+
+        if (!link) {
+          return res.status(409).json({
+            success: false,
+            error: `Repository ${delivery.repository_full_name || '(none)'} is not linked to a project; assign its quarantined delivery instead`
+          } as ApiResponse);
+        }
+
+        // The replay writes events into the linked project
+        await auth.authorizeRecord(res.locals.principal as Principal, link.project_id);
+
+        const signatureStatus = this.checkGitHubSignature(
+          delivery.raw_body ?? JSON.stringify(delivery.payload),
+          delivery.headers['x-hub-signature-256'],
+          link.webhook_secret
+        );
+
+        if ((signatureStatus === 'invalid' || signatureStatus === 'missing') && req.body?.force !== true) {
+          return res.status(409).json({
+            success: false,
+            error: `Signature ${signatureStatus} for the repository's current secret; pass force to replay anyway`,
+            data: { signature_status: signatureStatus }
+          } as ApiResponse);
+        }
+
+        await this.webhookDeliveries.markReplayed(delivery.id, signatureStatus);
+        const result = await this.dispatchGitHubDelivery(delivery, link);
+        console.log(`🔁 Replayed GitHub ${delivery.event_name} delivery ${delivery.delivery_id || delivery.id}: ${result.message}`);
+
+        res.json({
+          success: true,
+          message: result.message,
+          data: {
+            outcome: result.outcome,
+            signature_status: signatureStatus,
+            event_ids: result.eventIds
+          }
+        } as ApiResponse);
+
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        console.error('Error replaying webhook delivery:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to replay webhook delivery'
+        } as ApiResponse);
+      }
+    });
+
+    // Get project events
+    this.app.get('/api/projects/:projectId/events', auth.requireProject('graph:read', req => req.params.projectId), async (req, res) => {
+      try {
+        const { projectId } = req.params;
+        const { limit = '100' } = req.query;
+        
+        const events = await this.db.getEventsByProject(projectId, parseInt(limit as string));
+        
+        res.json({
+          success: true,
+          data: events
+        } as ApiResponse);
+
+      } catch (error) {
+        console.error('Error fetching events:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch events'
+        } as ApiResponse);
+      }
+    });
+
+    // Get project blocks
+    this.app.get('/api/projects/:projectId/blocks', auth.requireProject('graph:read', req => req.params.projectId), async (req, res) => {
+      try {
+        const { projectId } = req.params;
+        const blocks = await this.db.getBlocksByProject(projectId);
+        
+        res.json({
+          success: true,
+          data: blocks
+        } as ApiResponse);
+
+      } catch (error) {
+        console.error('Error fetching blocks:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch blocks'
+        } as ApiResponse);
+      }
+    });
+
+    // Dead-lettered events
+    this.app.get('/api/dead-letters', requireSession, async (req, res) => {
+      try {
+        const { status, consumer_id, project_id, limit = '50', offset = '0' } = req.query;
+
+        const parsedStatus = status ? DeadLetterStatusSchema.safeParse(status) : null;
+        if (parsedStatus && !parsedStatus.success) {
+          return res.status(400).json({
+            success: false,
+            error: `Invalid status: ${status}`
+          } as ApiResponse);
+        }
+
+        const deadLetters = await this.deadLetters.list({
+          status: parsedStatus?.data,
+          consumerId: consumer_id as string | undefined,
+          projectIds: await auth.visibleProjects(res.locals.principal as Principal, project_id as string | undefined),
+          limit: parseInt(limit as string),
+          offset: parseInt(offset as string)
+        });
+
+        res.json({
+          success: true,
+          data: deadLetters
+        } as ApiResponse);
+
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        console.error('Error listing dead letters:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list dead letters'
+        } as ApiResponse);
+      }
+    });
+
+    this.app.get('/api/dead-letters/:id', requireSession, async (req, res) => {
+      try {
+        const deadLetter = await this.deadLetters.get(req.params.id);
+
+        if (!deadLetter) {
+          return res.status(404).json({
+            success: false,
+            error: 'Dead letter not found'
+          } as ApiResponse);
+        }
+
+        await auth.authorizeRecord(res.locals.principal as Principal, deadLetter.project_id);
+
+        res.json({
+          success: true,
+          data: deadLetter
+        } as ApiResponse);
+
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        console.error('Error fetching dead letter:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch dead letter'
+        } as ApiResponse);
+      }
+    });
+
+    this.app.post('/api/dead-letters/:id/replay', requireSession, async (req, res) => {
+      try {
+        const deadLetter = await this.deadLetters.get(req.params.id);
+
+        if (!deadLetter) {
+          return res.status(404).json({
+            success: false,
+            error: 'Dead letter not found'
+          } as ApiResponse);
+        }
+
+        await auth.authorizeRecord(res.locals.principal as Principal, deadLetter.project_id);
+
+        if (deadLetter.status !== 'pending') {
+          return res.status(409).json({
+            success: false,
+            error: `Dead letter already ${deadLetter.status}`
+          } as ApiResponse);
+        }
+
+        if (!this.projectionRunner.projectionNames().includes(deadLetter.consumer_id)) {
+          return res.status(409).json({
+            success: false,
+            error: `Dead letter belongs to unknown projection: ${deadLetter.consumer_id}`
+          } as ApiResponse);
+        }
+
+        // Replay through the projection that failed it; its cursor is not touched
+        try {
+          await this.projectionRunner.replay(deadLetter.event, deadLetter.consumer_id);
+        } catch (error) {
+          await this.deadLetters.recordReplayFailure(deadLetter.id, error);
+          return res.status(422).json({
+            success: false,
+            error: `Replay failed: ${error instanceof Error ? error.message : String(error)}`
+          } as ApiResponse);
+        }
+
+        const resolved = await this.deadLetters.markResolved(deadLetter.id, 'replayed');
+        console.log(`♻️  Replayed dead-lettered event ${deadLetter.event_id}`);
+
+        res.json({
+          success: true,
+          data: resolved
+        } as ApiResponse);
+
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        console.error('Error replaying dead letter:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to replay dead letter'
+        } as ApiResponse);
+      }
+    });
+
+    this.app.post('/api/dead-letters/:id/discard', requireSession, async (req, res) => {
+      try {
+        const deadLetter = await this.deadLetters.get(req.params.id);
+
+        if (!deadLetter) {
+          return res.status(404).json({
+            success: false,
+            error: 'Dead letter not found'
+          } as ApiResponse);
+        }
+
+        await auth.authorizeRecord(res.locals.principal as Principal, deadLetter.project_id);
+
+        if (deadLetter.status !== 'pending') {
+          return res.status(409).json({
+            success: false,
+            error: `Dead letter already ${deadLetter.status}`
+          } as ApiResponse);
+        }
+
+        const resolved = await this.deadLetters.markResolved(deadLetter.id, 'discarded');
+        console.log(`🗑️ Discarded dead-lettered event ${deadLetter.event_id}`);
+
+        res.json({
+          success: true,
+          data: resolved
+        } as ApiResponse);
+
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        console.error('Error discarding dead letter:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to discard dead letter'
+        } as ApiResponse);
+      }
+    });
+
+    // Projection cursors
+    this.app.get('/api/projections', requireSession, async (req, res) => {
+      try {
+        const cursors = await this.projectionRunner.getCursors();
+        const projections = this.projectionRunner.projectionNames().map(name => {
+          const cursor = cursors.find(c => c.projection === name);
+          return cursor || {
+            projection: name,
+            last_event_id: null,
+            last_seen_at: null,
+            events_processed: 0,
+            checkpointed_at: null
+          };
+        });
+
+        res.json({
+          success: true,
+          data: projections
+        } as ApiResponse);
+
+      } catch (error) {
+        console.error('Error fetching projections:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch projections'
+        } as ApiResponse);
+      }
+    });
+
+    this.app.post('/api/projections/:name/reset', requireOperator, async (req, res) => {
+      try {
+        if (!this.projectionRunner.projectionNames().includes(req.params.name)) {
+          return res.status(404).json({
+            success: false,
+            error: 'Projection not found'
+          } as ApiResponse);
+        }
+
+        // The running consumer picks up the rewound cursor on its next poll
+        await this.projectionRunner.resetProjection(req.params.name);
+
+        res.json({
+          success: true,
+          message: `Projection ${req.params.name} reset; it will be rebuilt from the event log`
+        } as ApiResponse);
+
+      } catch (error) {
+        console.error('Error resetting projection:', error);
+        res.status(500).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to reset projection'
+        } as ApiResponse);
+      }
+    });
+
+    this.setupMCPTransport();
+
+    // Error handling middleware
+    this.app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+      console.error('Unhandled error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      } as ApiResponse);
+    });
+
+    // 404 handler
+    this.app.use((req, res) => {
+      res.status(404).json({
+        success: false,
+        error: `Route ${req.method} ${req.path} not found`
+      } as ApiResponse);
+    });
+  }
+
+  // MCP over HTTP: a client opens an SSE stream with GET /mcp/sse, which announces the URL
+  // (with a sessionId) to POST its JSON-RPC messages to. Both requests need a bearer token.
+  private setupMCPTransport() {
+    const requireUser = this.authenticator.middleware();
+
+    // Tools both write events and read context
+    this.app.get('/mcp/sse', this.authenticator.middleware({ scopes: ['events:write', 'context:read'] }), async (req, res) => {
+      const principal = res.locals.principal as Principal;
+      const user = principal.user;
+      const transport = new SSEServerTransport('/mcp/messages', res);
+      const server = new FrizyMCPServer(this.db, this.contextService, {
+        actorId: user.id,
+        authorizeProject: projectId => this.authenticator.authorize(principal, projectId),
+        visibleProjects: () => this.authenticator.memberProjects(principal)
+      });
+      const sessionId = transport.sessionId;
+
+      this.mcpSessions.set(sessionId, { transport, server, userId: user.id });
+
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), MCP_HEARTBEAT_MS);
+      res.on('close', () => {
+        clearInterval(heartbeat);
+        this.mcpSessions.delete(sessionId);
+        server.close().catch(error => console.error(`Error closing MCP session ${sessionId}:`, error));
+        console.log(`🔌 MCP session ${sessionId} closed`);
+      });
+
+      try {
+        await server.connect(transport);
+        console.log(`🔌 MCP session ${sessionId} opened for user ${user.id}`);
+      } catch (error) {
+        console.error('Error opening MCP session:', error);
+        res.end();
+      }
+    });
+
+    this.app.post('/mcp/messages', requireUser, async (req, res) => {
+      const user = (res.locals.principal as Principal).user;
+      const session = this.mcpSessions.get(req.query.sessionId as string);
+
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: 'Unknown or closed MCP session'
+        } as ApiResponse);
+      }
+
+      // A session id alone must not let another user act as the session's owner
+      if (session.userId !== user.id) {
+        return res.status(403).json({
+          success: false,
+          error: 'MCP session belongs to another user'
+        } as ApiResponse);
+      }
+
+      try {
+        // The body is already parsed by express.json, so hand the message over directly
+        await session.transport.handleMessage(req.body);
+        res.status(202).end();
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid JSON-RPC message'
+        } as ApiResponse);
+      }
+    });
+  }
+
+  private generateMCPConnectionString(projectId: string): string {
+    // In a real implementation, this would be a proper MCP connection string
+    // For now, return a placeholder that includes the server endpoint
+    const serverUrl = process.env.MCP_SERVER_URL || 'stdio://frizy-mcp-server';
+    return `${serverUrl}?project_id=${projectId}`;
+  }
+
+  // Checks the signed-in user is a member of the project owning the repository link in :id
+  private requireRepositoryLinkAccess(): express.RequestHandler {
+    return async (req, res, next) => {
+      try {
+        const link = await this.repositoryLinks.get(req.params.id);
+        if (!link) {
+          return res.status(404).json({
+            success: false,
+            error: 'Repository link not found'
+          } as ApiResponse);
+        }
+
+        await this.authenticator.authorize(res.locals.principal as Principal, link.project_id);
+        next();
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        next(error);
+      }
+    };
+  }
+
+  private checkGitHubSignature(rawBody: string, signature: string | undefined, secret: string | undefined): SignatureStatus {
+    if (!secret) return 'unverified';
+    if (!signature) return 'missing';
+    return this.verifyGitHubSignature(rawBody, signature, secret) ? 'valid' : 'invalid';
+  }
+
+  // Route a verified delivery: hold it in quarantine when no project has linked the repository,
+  // otherwise turn it into events. The outcome is written back to the delivery log.
+  private async dispatchGitHubDelivery(
+    delivery: WebhookDelivery,
+    link: RepositoryLink | null
+  ): Promise<{ outcome: DeliveryOutcome; message: string; eventIds: string[]; quarantineId?: string }> {
+    if (!link) {
+      const quarantined = await this.quarantine.add({
+        deliveryId: delivery.delivery_id || undefined,
+        repository: delivery.repository_full_name || undefined,
+        eventName: delivery.event_name,
+        payload: delivery.payload
+      });
+      const message = `Repository ${delivery.repository_full_name || '(none)'} is not linked to a project; delivery quarantined`;
+      console.log(`🚧 Quarantined GitHub ${delivery.event_name} delivery from unlinked repository ${delivery.repository_full_name || '(none)'}`);
+
+      await this.webhookDeliveries.complete(delivery.id, { outcome: 'quarantined', message, quarantineId: quarantined.id });
+      return { outcome: 'quarantined', message, eventIds: [], quarantineId: quarantined.id };
+    }
+
+    try {
+      const result = await this.processGitHubWebhook(delivery.event_name, delivery.payload, link.project_id);
+      const outcome: DeliveryOutcome = result.processed ? 'processed' : 'ignored';
+
+      if (result.processed) {
+        console.log(`✅ Processed GitHub ${delivery.event_name} event: ${result.message}`);
+      } else {
+        console.log(`ℹ️  Ignored GitHub ${delivery.event_name} event: ${result.message}`);
+      }
+
+      await this.webhookDeliveries.complete(delivery.id, {
+        outcome,
+        message: result.message,
+        projectId: link.project_id,
+        eventIds: result.eventIds
+      });
+      return { outcome, message: result.message, eventIds: result.eventIds };
+    } catch (error) {
+      await this.webhookDeliveries.complete(delivery.id, {
+        outcome: 'failed',
+        message: error instanceof Error ? error.message : String(error),
+        projectId: link.project_id
+      });
+      throw error;
+    }
+  }
+
+  private verifyGitHubSignature(payload: string, signature: string, secret: string): boolean {
+    if (!signature.startsWith('sha256=')) {
+      return false;
+    }
+
+    const expectedSignature = crypto
+      .createHmac('sha256', secret)
+      .update(payload, 'utf8')
+      .digest('hex');
+
+    const actualSignature = signature.slice(7); // Remove 'sha256=' prefix
+    if (actualSignature.length !== expectedSignature.length) {
+      return false;
+    }
     
+    return crypto.timingSafeEqual(
+      Buffer.from(expectedSignature, 'hex'),
+      Buffer.from(actualSignature, 'hex')
+    );
+  }
+
+  private async processGitHubWebhook(
+    event: string,
+    payload: any,
+    projectId: string
+  ): Promise<{processed: boolean, message: string, eventIds: string[]}> {
     let eventType = '';
     let eventPayload = {};
     let message = '';
@@ -351,6 +1329,7 @@ export class APIServer {
             title: payload.pull_request.title,
             status: 'open',
             author: payload.pull_request.user.login,
+            body: payload.pull_request.body || '',
             branch: payload.pull_request.head.ref,
             base_branch: payload.pull_request.base.ref,
             draft: payload.pull_request.draft
@@ -366,6 +1345,7 @@ export class APIServer {
             status: 'merged',
             author: payload.pull_request.user.login,
             merged_by: payload.pull_request.merged_by?.login,
+            body: payload.pull_request.body || '',
             branch: payload.pull_request.head.ref,
             base_branch: payload.pull_request.base.ref
           };
@@ -379,18 +1359,19 @@ export class APIServer {
             title: payload.pull_request.title,
             status: 'closed',
             author: payload.pull_request.user.login,
+            body: payload.pull_request.body || '',
             branch: payload.pull_request.head.ref
           };
           message = `PR #${payload.pull_request.number} closed: ${payload.pull_request.title}`;
         } else {
-          return { processed: false, message: `Ignored PR action: ${payload.action}` };
+          return { processed: false, message: `Ignored PR action: ${payload.action}`, eventIds: [] };
         }
         break;
         
       case 'push':
         // Skip branch deletions and empty pushes
         if (payload.deleted || !payload.commits || payload.commits.length === 0) {
-          return { processed: false, message: 'Skipped empty or deletion push' };
+          return { processed: false, message: 'Skipped empty or deletion push', eventIds: [] };
         }
         
         eventType = 'github.commit.pushed';
@@ -403,7 +1384,8 @@ export class APIServer {
           author: payload.head_commit?.author?.name,
           commits: payload.commits.length,
           branch: payload.ref.replace('refs/heads/', ''),
-          repository: payload.repository.full_name
+          repository: payload.repository.full_name,
+          commit_messages: payload.commits.map((c: any) => c.message)
         };
         message = `${payload.commits.length} commit(s) pushed to ${payload.ref.replace('refs/heads/', '')}`;
         break;
@@ -423,7 +1405,7 @@ export class APIServer {
           };
           message = `Issue #${payload.issue.number} ${payload.action}: ${payload.issue.title}`;
         } else {
-          return { processed: false, message: `Ignored issue action: ${payload.action}` };
+          return { processed: false, message: `Ignored issue action: ${payload.action}`, eventIds: [] };
         }
         break;
 
@@ -443,7 +1425,7 @@ export class APIServer {
           };
           message = `Release ${payload.release.tag_name} published`;
         } else {
-          return { processed: false, message: `Ignored release action: ${payload.action}` };
+          return { processed: false, message: `Ignored release action: ${payload.action}`, eventIds: [] };
         }
         break;
 
@@ -463,25 +1445,25 @@ export class APIServer {
           };
           message = `Comment added to PR #${payload.issue.number}`;
         } else {
-          return { processed: false, message: `Ignored comment action: ${payload.action}` };
+          return { processed: false, message: `Ignored comment action: ${payload.action}`, eventIds: [] };
         }
         break;
 
       default:
-        return { processed: false, message: `Unsupported event type: ${event}` };
+        return { processed: false, message: `Unsupported event type: ${event}`, eventIds: [] };
     }
 
     if (eventType) {
-      await this.db.createEvent({
+      const created = await this.db.createEvent({
         project_id: projectId,
         type: eventType as any,
         payload: eventPayload
       });
       
-      return { processed: true, message };
+      return { processed: true, message, eventIds: [created.id] };
     }
 
-    return { processed: false, message: 'No event created' };
+    return { processed: false, message: 'No event created', eventIds: [] };
   }
 
   async start(port: number = 4000): Promise<void> {
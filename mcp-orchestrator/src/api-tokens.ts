@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import { Database } from './database.js';
+import { ApiToken, ApiTokenScope } from './types.js';
+
+// Every token starts with this, so bearer tokens can be told apart from session JWTs
+export const API_TOKEN_PREFIX = 'frizy_';
+
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+const TOKEN_COLUMNS = `
+  id, user_id, project_id, name, token_prefix, scopes,
+  last_used_at, expires_at, revoked_at, created_at
+`;
+
+export class ApiTokenStore {
+  private db: Database;
+
+  constructor(database: Database) {
+    this.db = database;
+  }
+
+  // Tokens carry 256 random bits, so a plain sha256 is enough to make the stored hash useless
+  static hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  static isApiToken(token: string): boolean {
+    return token.startsWith(API_TOKEN_PREFIX);
+  }
+
+  // Returns the token in plain text; this is the only time it is available
+  async create(userId: string, input: {
+    name: string;
+    project_id?: string;
+    scopes: ApiTokenScope[];
+    expires_in_days?: number;
+  }): Promise<{ token: string; record: ApiToken }> {
+    const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+
+    const result = await this.db.query(`
+      INSERT INTO api_tokens (user_id, project_id, name, token_prefix, token_hash, scopes, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6,
+        CASE WHEN $7::int IS NULL THEN NULL ELSE NOW() + make_interval(days => $7::int) END)
+      RETURNING ${TOKEN_COLUMNS}
+    `, [
+      userId,
+      input.project_id || null,
+      input.name,
+      token.slice(0, DISPLAY_PREFIX_LENGTH),
+      ApiTokenStore.hash(token),
+      Array.from(new Set(input.scopes)),
+      input.expires_in_days ?? null
+    ]);
+
+    return { token, record: result.rows[0] as ApiToken };
+  }
+
+  async listByUser(userId: string): Promise<ApiToken[]> {
+    const result = await this.db.query(`
+      SELECT ${TOKEN_COLUMNS}
+      FROM api_tokens
+      WHERE user_id = $1
+      ORDER BY created_at DESC
+    `, [userId]);
+
+    return result.rows as ApiToken[];
+  }
+
+  // Only the owner can revoke; returns false if the token does not exist, is someone else's or is already revoked
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const result = await this.db.query(`
+      UPDATE api_tokens
+      SET revoked_at = NOW()
+      WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+    `, [id, userId]);
+
+    return result.rowCount > 0;
+  }
+
+  // Resolves a presented token to its record, or null if it is unknown, revoked or expired
+  async verify(token: string): Promise<ApiToken | null> {
+    const result = await this.db.query(`
+      UPDATE api_tokens
+      SET last_used_at = NOW()
+      WHERE token_hash = $1
+        AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > NOW())
+      RETURNING ${TOKEN_COLUMNS}
+    `, [ApiTokenStore.hash(token)]);
+
+    return result.rows[0] as ApiToken || null;
+  }
+}
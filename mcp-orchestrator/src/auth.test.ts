@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { Authenticator, ForbiddenError, Principal } from './auth.js';
+import { Database } from './database.js';
+
+const SECRET = 'test-secret';
+const USER = { id: 'user-1', email: 'user@example.com', full_name: null };
+
+const sign = (claims: Record<string, any>): string => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${unsigned}.${crypto.createHmac('sha256', SECRET).update(unsigned).digest('base64url')}`;
+};
+
+// Owns project-a only
+const database = {
+  async query() {
+    return { rows: [USER] };
+  },
+  async isProjectMember(userId: string, projectId: string) {
+    return userId === USER.id && projectId === 'project-a';
+  },
+  async getProjectsByUser() {
+    return [{ id: 'project-a' }];
+  }
+} as unknown as Database;
+
+const authenticator = new Authenticator(database, SECRET);
+
+const principal = (operator: boolean): Principal => ({
+  user: USER,
+  scopes: ['events:write', 'context:read', 'graph:read'],
+  projectId: null,
+  tokenId: null,
+  operator
+});
+
+describe('Authenticator operators', () => {
+  it('takes the operator flag from the session app_metadata role', async () => {
+    expect((await authenticator.authenticate(`Bearer ${sign({ sub: USER.id, app_metadata: { role: 'operator' } })}`)).operator).toBe(true);
+    expect((await authenticator.authenticate(`Bearer ${sign({ sub: USER.id, user_metadata: { role: 'admin' } })}`)).operator).toBe(false);
+  });
+
+  it('limits records to the user\'s projects unless the caller is an operator', async () => {
+    await expect(authenticator.authorizeRecord(principal(false), 'project-a')).resolves.toBeUndefined();
+    await expect(authenticator.authorizeRecord(principal(false), 'project-b')).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(authenticator.authorizeRecord(principal(false), null)).rejects.toBeInstanceOf(ForbiddenError);
+
+    await expect(authenticator.authorizeRecord(principal(true), 'project-b')).resolves.toBeUndefined();
+    await expect(authenticator.authorizeRecord(principal(true), null)).resolves.toBeUndefined();
+  });
+
+  it('scopes list queries to the projects the caller may see', async () => {
+    expect(await authenticator.visibleProjects(principal(false))).toEqual(['project-a']);
+    expect(await authenticator.visibleProjects(principal(true))).toBeUndefined();
+    expect(await authenticator.visibleProjects(principal(true), 'project-b')).toEqual(['project-b']);
+    await expect(authenticator.visibleProjects(principal(false), 'project-b')).rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('lists member projects for operators too, and only the bound project for a token', async () => {
+    expect(await authenticator.memberProjects(principal(true))).toEqual(['project-a']);
+    expect(await authenticator.memberProjects({ ...principal(false), projectId: 'project-a', tokenId: 'token-1' })).toEqual(['project-a']);
+  });
+});
@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import express from 'express';
+import { Database } from './database.js';
+import { ApiTokenStore } from './api-tokens.js';
+import { ApiTokenScope, ApiTokenScopeSchema } from './types.js';
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  full_name: string | null;
+}
+
+// Who is calling and what they may do. Signed-in sessions carry every scope;
+// API tokens carry their own scopes and may be bound to one project. Operators (sessions whose
+// app_metadata.role is admin or operator) may run the operational endpoints across all projects.
+export interface Principal {
+  user: AuthenticatedUser;
+  scopes: ApiTokenScope[];
+  projectId: string | null;
+  tokenId: string | null;
+  operator: boolean;
+}
+
+// Supabase app_metadata can only be set with the service role, so users cannot grant it themselves
+const OPERATOR_ROLES = ['admin', 'operator'];
+
+// Raised when a request carries no usable credentials; maps to 401
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Raised when valid credentials do not allow the request; maps to 403
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export function sendAuthError(res: express.Response, error: AuthError | ForbiddenError) {
+  if (error instanceof AuthError) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+  }
+  return res.status(error instanceof AuthError ? 401 : 403).json({
+    success: false,
+    error: error.message
+  });
+}
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+// Verifies an HS256 JWT (Supabase access tokens are signed with the project's JWT secret)
+// and returns its claims
+export function verifyJwt(token: string, secret: string): Record<string, any> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthError('Malformed token');
+  }
+
+  const [header, payload, signature] = parts;
+  let claims: Record<string, any>;
+  try {
+    if (decodeSegment(header).alg !== 'HS256') {
+      throw new AuthError('Unsupported token algorithm');
+    }
+    claims = decodeSegment(payload);
+  } catch (error) {
+    throw error instanceof AuthError ? error : new AuthError('Malformed token');
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new AuthError('Invalid token signature');
+  }
+
+  if (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now()) {
+    throw new AuthError('Token expired');
+  }
+
+  return claims;
+}
+
+// Resolves `Authorization: Bearer <token>` headers (a session JWT or an API token) to principals
+// and checks them against project membership
+export class Authenticator {
+  private db: Database;
+  private tokens: ApiTokenStore;
+  private jwtSecret: string | undefined;
+
+  constructor(database: Database, jwtSecret = process.env.SUPABASE_JWT_SECRET) {
+    this.db = database;
+    this.tokens = new ApiTokenStore(database);
+    this.jwtSecret = jwtSecret;
+  }
+
+  async authenticate(authorization: string | undefined): Promise<Principal> {
+    const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!token) {
+      throw new AuthError('Missing bearer token');
+    }
+
+    if (ApiTokenStore.isApiToken(token)) {
+      const record = await this.tokens.verify(token);
+      if (!record) {
+        throw new AuthError('Invalid, expired or revoked API token');
+      }
+
+      return {
+        user: await this.loadUser(record.user_id),
+        scopes: record.scopes,
+        projectId: record.project_id,
+        tokenId: record.id,
+        operator: false
+      };
+    }
+
+    // Fail closed: without a secret no session token can be verified
+    if (!this.jwtSecret) {
+      throw new AuthError('Bearer authentication is not configured');
+    }
+
+    const claims = verifyJwt(token, this.jwtSecret);
+    if (typeof claims.sub !== 'string') {
+      throw new AuthError('Token has no subject');
+    }
+
+    return {
+      user: await this.loadUser(claims.sub),
+      scopes: [...ApiTokenScopeSchema.options],
+      projectId: null,
+      tokenId: null,
+      operator: OPERATOR_ROLES.includes(claims.app_metadata?.role)
+    };
+  }
+
+  // Throws ForbiddenError unless the principal has the scope (when given), its token is not bound
+  // to another project, and the user is a member of the project
+  async authorize(principal: Principal, projectId: string, scope?: ApiTokenScope): Promise<void> {
+    if (scope && !principal.scopes.includes(scope)) {
+      throw new ForbiddenError(`Token lacks the ${scope} scope`);
+    }
+
+    if (principal.projectId && principal.projectId !== projectId) {
+      throw new ForbiddenError('Token is bound to a different project');
+    }
+
+    if (!await this.db.isProjectMember(principal.user.id, projectId)) {
+      throw new ForbiddenError(`Not a member of project ${projectId}`);
+    }
+  }
+
+  // Operators may act on any project, including records that belong to none (e.g. deliveries from
+  // unlinked repositories); everyone else goes through the project check
+  async authorizeRecord(principal: Principal, projectId: string | null, scope?: ApiTokenScope): Promise<void> {
+    if (principal.operator) return;
+    if (!projectId) {
+      throw new ForbiddenError('Only an admin or operator can access records that belong to no project');
+    }
+    await this.authorize(principal, projectId, scope);
+  }
+
+  // Projects a list endpoint may show: the requested one if the principal may see it, otherwise every
+  // project the user is a member of. Undefined means unrestricted (operators asking for everything).
+  async visibleProjects(principal: Principal, requested?: string): Promise<string[] | undefined> {
+    if (requested) {
+      await this.authorizeRecord(principal, requested);
+      return [requested];
+    }
+    if (principal.operator) return undefined;
+    return this.memberProjects(principal);
+  }
+
+  // Projects authorize() can let the principal into: its token's project, or every project the user is a member of
+  async memberProjects(principal: Principal): Promise<string[]> {
+    if (principal.projectId) return [principal.projectId];
+
+    const projects = await this.db.getProjectsByUser(principal.user.id);
+    return projects.map((project: { id: string }) => project.id);
+  }
+
+  // Express middleware; the principal is available as res.locals.principal. With `session: true`
+  // API tokens are refused, e.g. for managing tokens or repository links. With `operator: true`
+  // only admin or operator sessions get through.
+  middleware(options: { scopes?: ApiTokenScope[]; session?: boolean; operator?: boolean } = {}): express.RequestHandler {
+    return async (req, res, next) => {
+      try {
+        const principal = await this.authenticate(req.headers.authorization);
+
+        if (options.session && principal.tokenId) {
+          throw new ForbiddenError('This endpoint requires a signed-in session, not an API token');
+        }
+
+        if (options.operator && !principal.operator) {
+          throw new ForbiddenError('This endpoint requires an admin or operator');
+        }
+
+        const missing = (options.scopes || []).filter(scope => !principal.scopes.includes(scope));
+        if (missing.length > 0) {
+          throw new ForbiddenError(`Token lacks the ${missing.join(', ')} scope`);
+        }
+
+        res.locals.principal = principal;
+        next();
+      } catch (error) {
+        if (error instanceof AuthError || error instanceof ForbiddenError) {
+          return sendAuthError(res, error);
+        }
+        next(error);
+      }
+    };
+  }
+
+  // Authenticates and checks membership of the project named by the request
+  requireProject(
+    scope: ApiTokenScope | undefined,
+    projectIdOf: (req: express.Request) => string | undefined,
+    options: { session?: boolean } = {}
+  ): express.RequestHandler {
+    const authenticate = this.middleware(options);
+
+    return (req, res, next) => authenticate(req, res, async (error?: any) => {
+      if (error) {
+        return next(error);
+      }
+
+      const projectId = projectIdOf(req);
+      if (!projectId) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing project_id'
+        });
+      }
+
+      try {
+        await this.authorize(res.locals.principal as Principal, projectId, scope);
+        next();
+      } catch (authError) {
+        if (authError instanceof ForbiddenError) {
+          return sendAuthError(res, authError);
+        }
+        next(authError);
+      }
+    });
+  }
+
+  private async loadUser(userId: string): Promise<AuthenticatedUser> {
+    const result = await this.db.query(`
+      SELECT id, email, full_name
+      FROM users
+      WHERE id = $1
+    `, [userId]);
+
+    if (result.rows.length === 0) {
+      throw new AuthError('Unknown user');
+    }
+
+    return result.rows[0] as AuthenticatedUser;
+  }
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BlockLinker, BlocksNotProjectedError, extractBlockReferences, parseBlockNumbers, parseBlockTrailers } from './block-linker.js';
+import { Database } from './database.js';
+import { Event } from './types.js';
+
+const PROJECT_ID = '11111111-1111-1111-1111-111111111111';
+const BLOCK_ID = '22222222-2222-4222-8222-222222222222';
+
+const githubEvent = (type: Event['type'], payload: Record<string, any>): Event => ({
+  id: '33333333-3333-4333-8333-333333333333',
+  project_id: PROJECT_ID,
+  type,
+  payload: { provider_type: 'pr', provider_id: '42', title: 'Login form', url: 'https://github.com/acme/app/pull/42', ...payload },
+  created_at: '2024-05-01T10:00:00.000Z'
+});
+
+describe('parseBlockNumbers', () => {
+  it('finds BLK-n anywhere in text, case-insensitively', () => {
+    expect(parseBlockNumbers('frizy/BLK-123-login-form fixes blk-7')).toEqual([{ number: 123 }, { number: 7 }]);
+  });
+
+  it('ignores lookalikes that are not whole tokens', () => {
+    expect(parseBlockNumbers('XBLK-1 BLK-x BLK-12a')).toEqual([]);
+    expect(parseBlockNumbers(undefined)).toEqual([]);
+  });
+});
+
+describe('parseBlockTrailers', () => {
+  it('reads numbers and block ids from Frizy-Block trailers', () => {
+    const message = `Add login form\n\nMentions BLK-9 in prose\n\nFrizy-Block: BLK-12, BLK-14\nFrizy-Block: ${BLOCK_ID.toUpperCase()}`;
+    expect(parseBlockTrailers(message)).toEqual([{ number: 12 }, { number: 14 }, { id: BLOCK_ID }]);
+  });
+
+  it('only matches trailers at the start of a line', () => {
+    expect(parseBlockTrailers('see Frizy-Block: BLK-3')).toEqual([]);
+  });
+});
+
+describe('extractBlockReferences', () => {
+  it('reads pull requests from branch, title and body, without duplicates', () => {
+    const event = githubEvent('github.pr.opened', {
+      branch: 'frizy/BLK-1-login',
+      title: 'BLK-1: login',
+      body: 'Also touches BLK-2\n\nFrizy-Block: BLK-3'
+    });
+    expect(extractBlockReferences(event)).toEqual([{ number: 1 }, { number: 2 }, { number: 3 }]);
+  });
+
+  it('reads pushes from the branch and commit trailers but not commit prose', () => {
+    const event = githubEvent('github.commit.pushed', {
+      provider_type: 'commit',
+      branch: 'BLK-4-cleanup',
+      commit_messages: ['Tidy BLK-5', 'Wire it up\n\nFrizy-Block: BLK-6']
+    });
+    expect(extractBlockReferences(event)).toEqual([{ number: 4 }, { number: 6 }]);
+  });
+
+  it('ignores PR comments and other GitHub events', () => {
+    expect(extractBlockReferences(githubEvent('github.pr.commented', { body: 'BLK-1' }))).toEqual([]);
+    expect(extractBlockReferences(githubEvent('github.issue.opened', { title: 'BLK-1' }))).toEqual([]);
+  });
+});
+
+describe('BlockLinker', () => {
+  let blocks: { id: string; number: number; status: string }[];
+  let projected: boolean;
+  let appended: { id: string; type: string; payload: any }[];
+  let linker: BlockLinker;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    blocks = [{ id: BLOCK_ID, number: 1, status: 'not_started' }];
+    projected = true;
+    appended = [];
+
+    const db = {
+      async query(text: string, params: any[] = []) {
+        if (text.includes('FROM blocks')) {
+          return { rows: blocks.filter(block => params[1].includes(block.number) || params[2].includes(block.id)) };
+        }
+        if (text.includes('FROM projection_offsets')) {
+          return { rows: [{ projected }] };
+        }
+        throw new Error(`Unexpected query: ${text}`);
+      },
+      async createEventWithId(id: string, event: { type: string; payload: any }) {
+        if (!appended.some(existing => existing.id === id)) {
+          appended.push({ id, type: event.type, payload: event.payload });
+        }
+      }
+    };
+    linker = new BlockLinker(db as unknown as Database);
+  });
+
+  it('appends events for the blocks projection instead of writing read models', async () => {
+    blocks.push({ id: '44444444-4444-4444-8444-444444444444', number: 2, status: 'completed' });
+
+    await linker.link(githubEvent('github.pr.opened', { branch: 'BLK-1-login', body: 'BLK-2' }));
+
+    expect(appended.map(event => event.type)).toEqual([
+      'context.captured',
+      'context.linked',
+      'context.linked',
+      'block.relation_added',
+      'block.updated'
+    ]);
+    expect(appended[4].payload).toEqual({ id: BLOCK_ID, status: 'in_progress' });
+  });
+
+  it('completes open blocks when the PR merges', async () => {
+    await linker.link(githubEvent('github.pr.merged', { branch: 'BLK-1-login' }));
+
+    expect(appended.at(-1)).toMatchObject({ type: 'block.progress_updated', payload: { id: BLOCK_ID, progress: 100 } });
+  });
+
+  it('appends nothing new when the same event is linked again', async () => {
+    const event = githubEvent('github.pr.opened', { branch: 'BLK-1-login' });
+    await linker.link(event);
+    const count = appended.length;
+
+    await linker.link(event);
+
+    expect(appended).toHaveLength(count);
+  });
+
+  it('throws while the blocks projection is behind an unresolved reference', async () => {
+    projected = false;
+
+    await expect(linker.link(githubEvent('github.pr.opened', { branch: 'BLK-9-later' })))
+      .rejects.toBeInstanceOf(BlocksNotProjectedError);
+    expect(appended).toEqual([]);
+  });
+
+  it('skips references to blocks that do not exist once the projection has caught up', async () => {
+    const linked = await linker.link(githubEvent('github.pr.opened', { branch: 'BLK-9-gone', title: 'BLK-1' }));
+
+    expect(linked.map(block => block.id)).toEqual([BLOCK_ID]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('BLK-9'));
+  });
+});
@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import { Database } from './database.js';
+import { Event, EventType } from './types.js';
+
+// A block named in GitHub activity, either by its per-project number (BLK-123) or, in
+// Frizy-Block trailers, by its id
+export interface BlockReference {
+  number?: number;
+  id?: string;
+}
+
+interface LinkedBlock {
+  id: string;
+  number: number | null;
+  status: string;
+}
+
+const BLOCK_NUMBER_PATTERN = /\bBLK-(\d+)\b/gi;
+const TRAILER_PATTERN = /^Frizy-Block:\s*(.+)$/gim;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// BLK-<number> anywhere in free text or a branch name, e.g. frizy/BLK-123-login-form
+export function parseBlockNumbers(text: string | undefined | null): BlockReference[] {
+  if (!text) return [];
+
+  return Array.from(text.matchAll(BLOCK_NUMBER_PATTERN), match => ({ number: parseInt(match[1], 10) }));
+}
+
+// Git-style trailer lines: "Frizy-Block: BLK-12, BLK-14" or "Frizy-Block: <block id>"
+export function parseBlockTrailers(message: string | undefined | null): BlockReference[] {
+  if (!message) return [];
+
+  const refs: BlockReference[] = [];
+  for (const [, value] of message.matchAll(TRAILER_PATTERN)) {
+    for (const token of value.split(/[\s,]+/).filter(Boolean)) {
+      if (UUID_PATTERN.test(token)) {
+        refs.push({ id: token.toLowerCase() });
+      } else {
+        refs.push(...parseBlockNumbers(token));
+      }
+    }
+  }
+  return refs;
+}
+
+// References carried by a GitHub event. Pull requests are matched on branch, title and body;
+// pushes on branch and commit trailers only, so prose mentions in commit messages don't link.
+export function extractBlockReferences(event: Event): BlockReference[] {
+  const { branch, title, body, commit_messages } = event.payload;
+
+  let refs: BlockReference[];
+  if (event.type.startsWith('github.pr.') && event.type !== 'github.pr.commented') {
+    refs = [...parseBlockNumbers(branch), ...parseBlockNumbers(title), ...parseBlockNumbers(body), ...parseBlockTrailers(body)];
+  } else if (event.type === 'github.commit.pushed') {
+    refs = [...parseBlockNumbers(branch), ...(commit_messages || []).flatMap(parseBlockTrailers)];
+  } else {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return refs.filter(ref => {
+    const key = ref.id ?? `#${ref.number}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Thrown while the blocks projection is still behind the GitHub event, so references to blocks it
+// hasn't created yet can't be resolved. The consumer retries the event, then dead-letters it.
+export class BlocksNotProjectedError extends Error {
+  constructor(public readonly refs: BlockReference[]) {
+    super(`Blocks projection has not caught up with ${refs.map(formatReference).join(', ')}`);
+    this.name = 'BlocksNotProjectedError';
+  }
+}
+
+// Links GitHub activity to the blocks it references: the PR or push becomes a context item
+// linked to each block, blocks referenced together are related, and PRs advance block status.
+// All of it is appended as events for the blocks projection to apply. Event ids are derived from
+// what they record, so re-linking after a retry or rebuild appends nothing new.
+export class BlockLinker {
+  private db: Database;
+
+  constructor(database: Database) {
+    this.db = database;
+  }
+
+  async link(event: Event): Promise<LinkedBlock[]> {
+    const refs = extractBlockReferences(event);
+    if (refs.length === 0) return [];
+
+    const blocks = await this.resolveBlocks(event.project_id, refs);
+    const missing = refs.filter(ref => !blocks.some(block => ref.id ? block.id === ref.id : block.number === ref.number));
+    if (missing.length > 0) {
+      if (!(await this.blocksProjectedPast(event))) {
+        throw new BlocksNotProjectedError(missing);
+      }
+      console.warn(`🔍 ${event.type} references unknown blocks: ${missing.map(formatReference).join(', ')}`);
+    }
+    if (blocks.length === 0) return [];
+
+    const contextId = await this.captureEntity(event);
+
+    for (const block of blocks) {
+      await this.append(event, deterministicId(contextId, 'linked', block.id), 'context.linked', {
+        context_id: contextId,
+        block_id: block.id
+      });
+    }
+
+    for (let i = 0; i < blocks.length; i++) {
+      for (let j = i + 1; j < blocks.length; j++) {
+        await this.append(event, deterministicId(blocks[i].id, 'relates_to', blocks[j].id), 'block.relation_added', {
+          from_block_id: blocks[i].id,
+          to_block_id: blocks[j].id,
+          relation_type: 'relates_to'
+        });
+      }
+    }
+
+    await this.advanceStatus(event, blocks);
+
+    console.log(`🔗 Linked ${event.payload.provider_type} ${event.payload.provider_id} to ${blocks.map(b => b.number ? `BLK-${b.number}` : b.id).join(', ')}`);
+    return blocks;
+  }
+
+  private async resolveBlocks(projectId: string, refs: BlockReference[]): Promise<LinkedBlock[]> {
+    const numbers = refs.filter(r => r.number !== undefined).map(r => r.number);
+    const ids = refs.filter(r => r.id !== undefined).map(r => r.id);
+
+    const result = await this.db.query(`
+      SELECT id, number, status
+      FROM blocks
+      WHERE project_id = $1 AND (number = ANY($2::int[]) OR id::text = ANY($3::text[]))
+      ORDER BY number NULLS LAST, id
+    `, [projectId, numbers, ids]);
+
+    return result.rows as LinkedBlock[];
+  }
+
+  // Whether the blocks projection's cursor is at or past the event, i.e. every block created
+  // before it is in the blocks table. Compared in SQL so created_at keeps its microseconds.
+  private async blocksProjectedPast(event: Event): Promise<boolean> {
+    const result = await this.db.query(`
+      SELECT (o.last_seen_at, o.last_event_id) >= (e.created_at, e.id) AS projected
+      FROM projection_offsets o, events e
+      WHERE o.id = 'blocks' AND e.id = $1
+    `, [event.id]);
+
+    return result.rows[0]?.projected === true;
+  }
+
+  // One context item per GitHub entity, keyed deterministically so it is only captured once
+  private async captureEntity(event: Event): Promise<string> {
+    const { provider_type, provider_id, url, title, body } = event.payload;
+    const id = deterministicId(event.project_id, 'github', provider_type, provider_id);
+    const label = provider_type === 'pr' ? `PR #${provider_id}` : `Commit ${String(provider_id).slice(0, 7)}`;
+
+    await this.append(event, deterministicId(id, 'captured'), 'context.captured', {
+      id,
+      type: 'reference',
+      title: `${label}: ${title}`,
+      content: [url, body].filter(Boolean).join('\n\n') || title,
+      source: 'github'
+    });
+
+    return id;
+  }
+
+  // PR opened starts work that hasn't started; PR merged completes it. Blocks never move backwards.
+  private async advanceStatus(event: Event, blocks: LinkedBlock[]): Promise<void> {
+    if (event.type === 'github.pr.opened') {
+      const starting = blocks.filter(block => block.status === 'not_started');
+      for (const block of starting) {
+        await this.append(event, deterministicId(event.id, 'started', block.id), 'block.updated', {
+          id: block.id,
+          status: 'in_progress'
+        });
+      }
+      if (starting.length > 0) console.log(`🚧 ${starting.length} block(s) moved to in_progress by PR #${event.payload.provider_id}`);
+    } else if (event.type === 'github.pr.merged') {
+      const finishing = blocks.filter(block => !['completed', 'cancelled'].includes(block.status));
+      for (const block of finishing) {
+        // The blocks projection completes a block when its progress reaches 100
+        await this.append(event, deterministicId(event.id, 'completed', block.id), 'block.progress_updated', {
+          id: block.id,
+          progress: 100
+        });
+      }
+      if (finishing.length > 0) console.log(`✅ ${finishing.length} block(s) completed by PR #${event.payload.provider_id}`);
+    }
+  }
+
+  private async append(source: Event, id: string, type: EventType, payload: Record<string, any>): Promise<void> {
+    await this.db.createEventWithId(id, {
+      project_id: source.project_id,
+      type,
+      actor_id: source.actor_id,
+      payload
+    });
+  }
+}
+
+function formatReference(ref: BlockReference): string {
+  return ref.id ?? `BLK-${ref.number}`;
+}
+
+// Name-based UUID (version 5 layout) so the same inputs always produce the same row id
+function deterministicId(...parts: string[]): string {
+  const hash = crypto.createHash('sha1').update(parts.join(':')).digest('hex');
+  return [
+    hash.slice(0, 8),
+    hash.slice(8, 12),
+    `5${hash.slice(13, 16)}`,
+    ((parseInt(hash.slice(16, 18), 16) & 0x3f) | 0x80).toString(16) + hash.slice(18, 20),
+    hash.slice(20, 32)
+  ].join('-');
+}
@@ -3,6 +3,7 @@
 import dotenv from 'dotenv';
 import { Database } from './database.js';
 import { EventConsumer } from './event-consumer.js';
+import { createDefaultProjections } from './projections/index.js';
 
 // Load environment variables
 dotenv.config();
@@ -27,11 +28,30 @@ async function main() {
   console.log('✅ Database connection established');
 
   // Get consumer configuration from environment
-  const consumerId = process.env.CONSUMER_ID || 'default';
+  const projectionNames = process.env.PROJECTIONS?.split(',').map(name => name.trim()).filter(Boolean);
   const pollInterval = parseInt(process.env.POLL_INTERVAL_MS || '1000');
+  const retryPolicy = {
+    maxAttempts: parseInt(process.env.EVENT_MAX_ATTEMPTS || '5'),
+    baseDelayMs: parseInt(process.env.EVENT_RETRY_BASE_MS || '200'),
+    maxDelayMs: parseInt(process.env.EVENT_RETRY_MAX_MS || '10000')
+  };
+
+  // Initialize event consumer with one independent cursor per projection
+  const projections = createDefaultProjections(db, projectionNames);
+  const consumer = new EventConsumer(db, projections, pollInterval, retryPolicy);
 
-  // Initialize and start event consumer
-  const consumer = new EventConsumer(db, consumerId, pollInterval);
+  // `consumer --reset <projection>` rewinds a projection and exits; the next run rebuilds it
+  const resetIndex = process.argv.indexOf('--reset');
+  if (resetIndex !== -1) {
+    const name = process.argv[resetIndex + 1];
+    if (!name) {
+      console.error('❌ --reset requires a projection name');
+      process.exit(1);
+    }
+    await consumer.resetProjection(name);
+    await db.close();
+    process.exit(0);
+  }
 
   // Handle graceful shutdown
   const cleanup = async () => {
@@ -46,7 +66,7 @@ async function main() {
   process.on('SIGTERM', cleanup);
 
   // Start the consumer
-  console.log(`🔄 Starting Frizy Event Consumer (${consumerId})`);
+  console.log(`🔄 Starting Frizy Event Consumer (${consumer.projectionNames().join(', ')})`);
   await consumer.start();
 }
 
@@ -1,4 +1,5 @@
 import OpenAI from 'openai';
+import { countTokens, truncateToTokens } from '@frizy/tokenizer';
 import { Database } from './database.js';
 import { EmbeddingService } from './embedding-service.js';
 import { ContextPreview, ContextPreviewItem } from './types.js';
@@ -52,16 +53,18 @@ export class ContextService {
     let semanticBoosts = new Map<string, number>();
     if (userQuery) {
       try {
+        const threshold = this.embeddingService.similarityThreshold;
         const semanticResults = await this.embeddingService.searchSemantic(projectId, userQuery, {
           limit: 50,
-          threshold: 0.6,
+          threshold,
           includeBlocks: true,
           includeContext: true
         });
         
-        // Create semantic relevance boost map
+        // Create semantic relevance boost map; similarity is rescaled from the provider's
+        // threshold so every model yields boosts between 0.1 and 0.5
         semanticResults.forEach((result: any, index: number) => {
-          const boost = Math.max(0, result.similarity - 0.5); // Use similarity score as boost
+          const boost = 0.1 + 0.4 * Math.max(0, result.similarity - threshold) / (1 - threshold);
           semanticBoosts.set(result.id, boost);
         });
       } catch (error) {
@@ -86,7 +89,8 @@ export class ContextService {
           score,
           source: 'block',
           links: [`/blocks/${block.id}`],
-          created_at: block.created_at
+          created_at: block.created_at,
+          token_count: this.countItemTokens(block.title, this.formatBlockContent(block))
         });
       });
     }
@@ -108,7 +112,8 @@ export class ContextService {
           score,
           source: item.source,
           links: [`/context/${item.id}`],
-          created_at: item.created_at
+          created_at: item.created_at,
+          token_count: this.countItemTokens(item.title || '', item.content)
         });
       });
     }
@@ -117,15 +122,17 @@ export class ContextService {
     if (includeGitHub) {
       githubEntities.forEach(entity => {
         const score = this.scoreGitHubEntity(entity);
+        const content = `${entity.provider_type}: ${entity.title}`;
         scoredItems.push({
           id: entity.id,
           type: `github_${entity.provider_type}`,
           title: entity.title || '',
-          content: `${entity.provider_type}: ${entity.title}`,
+          content,
           score,
           source: 'github',
           links: [entity.url || ''],
-          created_at: entity.created_at
+          created_at: entity.created_at,
+          token_count: this.countItemTokens(entity.title || '', content)
         });
       });
     }
@@ -144,6 +151,8 @@ export class ContextService {
       preview: compressedItems,
       summary,
       total_items: scoredItems.length,
+      total_tokens: compressedItems.reduce((total, item) => total + item.token_count, 0),
+      max_tokens: maxTokens,
       generated_at: new Date().toISOString()
     };
   }
@@ -243,17 +252,19 @@ export class ContextService {
     return parts.join(' | ');
   }
 
+  // Tokens an item costs in the context: its title line plus its content
+  private countItemTokens(title: string, content: string): number {
+    return countTokens(title ? `${title}\n${content}` : content);
+  }
+
   private async compressItems(items: ContextPreviewItem[], maxTokens: number, userQuery?: string): Promise<ContextPreviewItem[]> {
-    // Estimate tokens (rough approximation: 1 token ≈ 4 characters)
-    const estimateTokens = (text: string) => Math.ceil(text.length / 4);
-    
     let currentTokens = 0;
     const selectedItems: ContextPreviewItem[] = [];
     const itemsToCompress: ContextPreviewItem[] = [];
 
     // First pass: include high-scoring items that fit
     for (const item of items) {
-      const itemTokens = estimateTokens(item.content);
+      const itemTokens = item.token_count;
       
       if (currentTokens + itemTokens <= maxTokens * 0.8) { // Reserve 20% for summaries
         selectedItems.push(item);
@@ -298,27 +309,35 @@ Provide a bulleted summary that captures the essential information:
         temperature: 0.3
       });
 
-      const summary = response.choices[0]?.message?.content || '';
+      // The model does not always respect the target, so hold it to the budget
+      const summary = truncateToTokens(response.choices[0]?.message?.content || '', maxTokens);
+      const title = `Summary of ${items.length} items`;
 
       // Return as a single compressed item
       return [{
         id: 'compressed-items',
         type: 'summary',
-        title: `Summary of ${items.length} items`,
+        title,
         content: summary,
         score: 0.9,
         source: 'ai_compressed',
         links: items.flatMap(item => item.links),
-        created_at: new Date().toISOString()
+        created_at: new Date().toISOString(),
+        token_count: this.countItemTokens(title, summary)
       }];
 
     } catch (error) {
       console.error('AI compression failed:', error);
-      // Fallback: return top items by score, truncated
-      return items.slice(0, 3).map(item => ({
-        ...item,
-        content: item.content.slice(0, 100) + '...'
-      }));
+      // Fallback: return top items by score, truncated to share the remaining budget
+      const perItem = Math.floor(maxTokens / 3);
+      return items.slice(0, 3).map(item => {
+        const content = truncateToTokens(item.content, Math.max(0, perItem - countTokens(item.title || '') - 1));
+        return {
+          ...item,
+          content,
+          token_count: this.countItemTokens(item.title || '', content)
+        };
+      }).filter(item => item.content.length > 0);
     }
   }
 
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Database } from './database.js';
+import { BlockProjection } from './projections/block-projection.js';
+import {
+  DependencyCycleError,
+  DependencyEdge,
+  assertNoDependencyCycle,
+  computeCriticalPath,
+  findCycleForEdge
+} from './critical-path.js';
+import { Block, Event } from './types.js';
+
+const PROJECT_ID = '11111111-1111-1111-1111-111111111111';
+
+const block = (id: string, effort?: number, status: Block['status'] = 'not_started'): Block => ({
+  id,
+  project_id: PROJECT_ID,
+  title: id,
+  lane: 'current',
+  status,
+  priority: 'medium',
+  progress: 0,
+  effort,
+  created_at: '2024-05-01T10:00:00.000Z',
+  updated_at: '2024-05-01T10:00:00.000Z'
+});
+
+// from has to finish before to
+const dependsOn = (from: string, to: string): DependencyEdge => ({
+  from_block_id: from,
+  to_block_id: to,
+  relation_type: 'depends_on'
+});
+
+// Serves block_relations reads and records inserts
+const relationsDatabase = (edges: DependencyEdge[]) => ({
+  inserted: [] as any[][],
+  async query(text: string, params: any[] = []) {
+    if (text.includes('FROM block_relations')) {
+      return { rows: edges.filter(edge => params[1].includes(edge.relation_type)) };
+    }
+    if (text.includes('INSERT INTO block_relations')) {
+      this.inserted.push(params);
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  }
+});
+
+describe('findCycleForEdge', () => {
+  it('returns null when the graph stays acyclic', () => {
+    expect(findCycleForEdge([dependsOn('a', 'b'), dependsOn('b', 'c')], 'a', 'c')).toBeNull();
+  });
+
+  it('reports the loop a new edge would close', () => {
+    expect(findCycleForEdge([dependsOn('a', 'b'), dependsOn('b', 'c')], 'c', 'a')).toEqual(['c', 'a', 'b', 'c']);
+  });
+
+  it('treats a self-relation as a cycle', () => {
+    expect(findCycleForEdge([], 'a', 'a')).toEqual(['a', 'a']);
+  });
+});
+
+describe('assertNoDependencyCycle', () => {
+  it('throws DependencyCycleError for an ordering relation that closes a loop', async () => {
+    const db = relationsDatabase([dependsOn('a', 'b')]) as unknown as Database;
+    await expect(assertNoDependencyCycle(db, PROJECT_ID, dependsOn('b', 'a'))).rejects.toBeInstanceOf(DependencyCycleError);
+  });
+
+  it('ignores relations that do not order work', async () => {
+    const db = relationsDatabase([dependsOn('a', 'b')]) as unknown as Database;
+    await expect(assertNoDependencyCycle(db, PROJECT_ID, {
+      from_block_id: 'b',
+      to_block_id: 'a',
+      relation_type: 'relates_to'
+    })).resolves.toBeUndefined();
+  });
+});
+
+describe('computeCriticalPath', () => {
+  it('follows the longest chain of unfinished prerequisites to the goal', () => {
+    const blocks = [block('design', 2), block('api', 3), block('docs', 1), block('ship', 1)];
+    const edges = [dependsOn('design', 'api'), dependsOn('api', 'ship'), dependsOn('docs', 'ship')];
+
+    const result = computeCriticalPath(blocks, edges, 'ship');
+
+    expect(result.cycle).toBeNull();
+    expect(result.path.map(b => b.id)).toEqual(['design', 'api', 'ship']);
+    expect(result.total_effort).toBe(6);
+
+    const docs = result.nodes.find(node => node.block.id === 'docs')!;
+    expect(docs).toMatchObject({ earliest_start: 0, latest_start: 4, slack: 4, critical: false });
+    expect(result.nodes.filter(node => node.critical).map(node => node.block.id).sort()).toEqual(['api', 'design', 'ship']);
+  });
+
+  it('skips finished blocks and falls back to the default effort', () => {
+    const blocks = [block('done', 5, 'completed'), block('todo'), block('goal', 2)];
+    const edges = [dependsOn('done', 'goal'), dependsOn('todo', 'goal')];
+
+    const result = computeCriticalPath(blocks, edges, 'goal');
+
+    expect(result.path.map(b => b.id)).toEqual(['todo', 'goal']);
+    expect(result.total_effort).toBe(3);
+    expect(result.nodes.find(node => node.block.id === 'todo')).toMatchObject({ duration: 1, estimated: false });
+  });
+
+  it('reports a cycle instead of a schedule', () => {
+    const blocks = [block('a'), block('b'), block('goal')];
+    const edges = [dependsOn('a', 'b'), dependsOn('b', 'a'), dependsOn('b', 'goal')];
+
+    const result = computeCriticalPath(blocks, edges, 'goal');
+
+    expect(result.cycle).toEqual(['a', 'b', 'a']);
+    expect(result.nodes).toEqual([]);
+  });
+});
+
+describe('BlockProjection relations', () => {
+  const relationAdded = (from: string, to: string): Event => ({
+    id: '00000000-0000-0000-0000-000000000001',
+    project_id: PROJECT_ID,
+    type: 'block.relation_added',
+    payload: dependsOn(from, to),
+    created_at: '2024-05-01T10:00:00.000Z'
+  });
+
+  it('refuses a relation that raced past the check made before appending', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const db = relationsDatabase([dependsOn('a', 'b')]);
+    const projection = new BlockProjection(db as unknown as Database);
+
+    await expect(projection.apply(relationAdded('b', 'a'))).rejects.toBeInstanceOf(DependencyCycleError);
+    await projection.apply(relationAdded('b', 'c'));
+
+    expect(db.inserted.map(params => params.slice(1, 3))).toEqual([['b', 'c']]);
+  });
+});
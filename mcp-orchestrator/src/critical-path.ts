@@ -0,0 +1,243 @@
+import { Database } from './database.js';
+import { Block } from './types.js';
+
+// Relation types that order work. In both, from_block_id has to finish before to_block_id:
+// the dependencies/dependents resolvers read depends_on rows that way, and "A blocks B" says it outright.
+export const ORDERING_RELATION_TYPES = ['depends_on', 'blocks'];
+
+// Finished blocks no longer gate anything
+const FINISHED_STATUSES = ['completed', 'cancelled'];
+
+// Duration given to blocks without an effort estimate
+const DEFAULT_EFFORT = 1;
+
+export interface DependencyEdge {
+  from_block_id: string;
+  to_block_id: string;
+  relation_type: string;
+}
+
+export interface CriticalPathNode {
+  block: Block;
+  duration: number;
+  estimated: boolean;
+  earliest_start: number;
+  earliest_finish: number;
+  latest_start: number;
+  latest_finish: number;
+  slack: number;
+  critical: boolean;
+}
+
+export interface CriticalPathResult {
+  goal: Block;
+  // Unfinished blocks from the first one to start through the goal
+  path: Block[];
+  total_effort: number;
+  // Every unfinished block the goal waits on, with its schedule
+  nodes: CriticalPathNode[];
+  // Block ids forming a dependency loop (first id repeated at the end), or null
+  cycle: string[] | null;
+}
+
+export class DependencyCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Relation would create a dependency cycle: ${cycle.join(' -> ')}`);
+    this.name = 'DependencyCycleError';
+  }
+}
+
+export async function loadDependencyEdges(db: Database, projectId: string): Promise<DependencyEdge[]> {
+  const result = await db.query(`
+    SELECT from_block_id, to_block_id, relation_type
+    FROM block_relations
+    WHERE project_id = $1 AND relation_type = ANY($2)
+  `, [projectId, ORDERING_RELATION_TYPES]);
+  return result.rows;
+}
+
+function adjacency(edges: DependencyEdge[], key: 'from_block_id' | 'to_block_id'): Map<string, string[]> {
+  const other = key === 'from_block_id' ? 'to_block_id' : 'from_block_id';
+  const map = new Map<string, string[]>();
+  for (const edge of edges) {
+    const list = map.get(edge[key]) || [];
+    list.push(edge[other]);
+    map.set(edge[key], list);
+  }
+  return map;
+}
+
+// The loop a new from -> to edge would close, or null if the graph stays acyclic
+export function findCycleForEdge(edges: DependencyEdge[], fromBlockId: string, toBlockId: string): string[] | null {
+  if (fromBlockId === toBlockId) {
+    return [fromBlockId, fromBlockId];
+  }
+
+  // A cycle exists if from is already reachable from to
+  const successors = adjacency(edges, 'from_block_id');
+  const parent = new Map<string, string>();
+  const queue = [toBlockId];
+  const visited = new Set(queue);
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of successors.get(current) || []) {
+      if (visited.has(next)) continue;
+      visited.add(next);
+      parent.set(next, current);
+
+      if (next === fromBlockId) {
+        const loop = [fromBlockId];
+        let step = fromBlockId;
+        while (step !== toBlockId) {
+          step = parent.get(step)!;
+          loop.unshift(step);
+        }
+        return [fromBlockId, ...loop];
+      }
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
+
+// Reject an ordering relation that would make blocks wait on themselves. Called before appending
+// this is best-effort: it reads block_relations, which misses relations still in the log or appended
+// concurrently. The blocks projection runs the same check as it applies each relation and has the final say.
+export async function assertNoDependencyCycle(
+  db: Database,
+  projectId: string,
+  relation: DependencyEdge
+): Promise<void> {
+  if (!ORDERING_RELATION_TYPES.includes(relation.relation_type)) return;
+
+  const edges = await loadDependencyEdges(db, projectId);
+  const cycle = findCycleForEdge(edges, relation.from_block_id, relation.to_block_id);
+  if (cycle) {
+    throw new DependencyCycleError(cycle);
+  }
+}
+
+// Critical path method over the unfinished blocks the goal waits on, using effort as duration
+export function computeCriticalPath(
+  blocks: Block[],
+  edges: DependencyEdge[],
+  goalBlockId: string
+): CriticalPathResult {
+  const blocksById = new Map(blocks.map(block => [block.id, block]));
+  const goal = blocksById.get(goalBlockId);
+  if (!goal) {
+    throw new Error(`Block ${goalBlockId} not found`);
+  }
+
+  const isOpen = (id: string) => {
+    const block = blocksById.get(id);
+    return Boolean(block) && !FINISHED_STATUSES.includes(block!.status);
+  };
+
+  const prerequisites = adjacency(edges, 'to_block_id');
+  const result: CriticalPathResult = { goal, path: [], total_effort: 0, nodes: [], cycle: null };
+  if (!isOpen(goalBlockId)) {
+    return result;
+  }
+
+  // Depth-first walk back from the goal; the post-order is a topological order
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const prerequisite of prerequisites.get(id) || []) {
+      if (!isOpen(prerequisite)) continue;
+      if (state.get(prerequisite) === 'visiting') {
+        // Report the loop in dependency order: each block waits on the one before it
+        const loop = stack.slice(stack.indexOf(prerequisite)).reverse();
+        return [...loop, loop[0]];
+      }
+      if (!state.has(prerequisite)) {
+        const cycle = visit(prerequisite);
+        if (cycle) return cycle;
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+    order.push(id);
+    return null;
+  };
+
+  result.cycle = visit(goalBlockId);
+  if (result.cycle) {
+    return result;
+  }
+
+  const inScope = new Set(order);
+  const duration = (id: string) => blocksById.get(id)!.effort ?? DEFAULT_EFFORT;
+  const earliestFinish = new Map<string, number>();
+  const latestFinish = new Map<string, number>();
+
+  // Forward pass: a block starts once all of its prerequisites have finished
+  for (const id of order) {
+    const start = Math.max(0, ...(prerequisites.get(id) || [])
+      .filter(p => inScope.has(p))
+      .map(p => earliestFinish.get(p)!));
+    earliestFinish.set(id, start + duration(id));
+  }
+
+  // Backward pass: a block must finish before any dependent has to start
+  const projectEnd = earliestFinish.get(goalBlockId)!;
+  const dependents = adjacency(edges, 'from_block_id');
+  for (const id of [...order].reverse()) {
+    const deadlines = (dependents.get(id) || [])
+      .filter(d => inScope.has(d) && latestFinish.has(d))
+      .map(d => latestFinish.get(d)! - duration(d));
+    latestFinish.set(id, deadlines.length > 0 ? Math.min(...deadlines) : projectEnd);
+  }
+
+  result.nodes = order.map(id => {
+    const earliest_finish = earliestFinish.get(id)!;
+    const latest_finish = latestFinish.get(id)!;
+    const slack = latest_finish - earliest_finish;
+    return {
+      block: blocksById.get(id)!,
+      duration: duration(id),
+      estimated: blocksById.get(id)!.effort != null,
+      earliest_start: earliest_finish - duration(id),
+      earliest_finish,
+      latest_start: latest_finish - duration(id),
+      latest_finish,
+      slack,
+      critical: slack === 0
+    };
+  });
+
+  // Walk back from the goal through the prerequisite that finishes last
+  const path: string[] = [goalBlockId];
+  let current = goalBlockId;
+  for (;;) {
+    const gating = (prerequisites.get(current) || [])
+      .filter(p => inScope.has(p))
+      .sort((a, b) => earliestFinish.get(b)! - earliestFinish.get(a)! || a.localeCompare(b))[0];
+    if (!gating) break;
+    path.unshift(gating);
+    current = gating;
+  }
+
+  result.path = path.map(id => blocksById.get(id)!);
+  result.total_effort = projectEnd;
+  return result;
+}
+
+export async function getCriticalPath(
+  db: Database,
+  projectId: string,
+  goalBlockId: string
+): Promise<CriticalPathResult> {
+  const [blocks, edges] = await Promise.all([
+    db.getBlocksByProject(projectId),
+    loadDependencyEdges(db, projectId)
+  ]);
+  return computeCriticalPath(blocks, edges, goalBlockId);
+}
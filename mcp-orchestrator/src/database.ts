@@ -61,6 +61,16 @@ export class Database {
     }
   }
 
+  // Append under a caller-chosen id; appending the same id again is a no-op. Projections derive
+  // events this way, since they re-apply their last batch after a crash.
+  async createEventWithId(id: string, event: Omit<Event, 'id' | 'created_at'>): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO events (id, project_id, type, actor_id, payload)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (id) DO NOTHING
+    `, [id, event.project_id, event.type, event.actor_id || null, event.payload]);
+  }
+
   async getEventsByProject(projectId: string, limit = 100): Promise<Event[]> {
     const query = `
       SELECT id, project_id, type, actor_id, payload, created_at
@@ -182,6 +192,16 @@ export class Database {
     return result.rows[0] || null;
   }
 
+  // Membership follows the ownership model of the multi-tenant Supabase RLS policies:
+  // a user belongs to the projects they own
+  async isProjectMember(userId: string, projectId: string): Promise<boolean> {
+    const result = await this.pool.query(`
+      SELECT 1 FROM projects WHERE id = $1 AND created_by = $2
+    `, [projectId, userId]);
+
+    return result.rows.length > 0;
+  }
+
   async getProjectsByUser(userId: string) {
     const query = `
       SELECT id, name, description, created_by as owner_id, metadata, created_at, updated_at
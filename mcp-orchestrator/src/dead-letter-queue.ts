@@ -0,0 +1,124 @@
+import { Database } from './database.js';
+import { DeadLetterEvent, DeadLetterStatus, Event } from './types.js';
+
+export interface DeadLetterFilters {
+  status?: DeadLetterStatus;
+  consumerId?: string;
+  projectId?: string;
+  // Restricts the list to these projects; omit for every project
+  projectIds?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export class DeadLetterQueue {
+  private db: Database;
+
+  constructor(database: Database) {
+    this.db = database;
+  }
+
+  // Record (or re-record) an event that exhausted its retries
+  async add(consumerId: string, event: Event, error: unknown, attempts: number): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const stack = error instanceof Error ? error.stack || null : null;
+
+    await this.db.query(`
+      INSERT INTO dead_letter_events (
+        event_id, consumer_id, project_id, event_type, event, error, error_stack, attempts, status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'pending')
+      ON CONFLICT (event_id, consumer_id) DO UPDATE SET
+        event = EXCLUDED.event,
+        error = EXCLUDED.error,
+        error_stack = EXCLUDED.error_stack,
+        attempts = dead_letter_events.attempts + EXCLUDED.attempts,
+        status = 'pending',
+        last_failed_at = NOW(),
+        resolved_at = NULL
+    `, [
+      event.id,
+      consumerId,
+      event.project_id || null,
+      event.type || null,
+      event,
+      message,
+      stack,
+      attempts
+    ]);
+  }
+
+  async list(filters: DeadLetterFilters = {}): Promise<DeadLetterEvent[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filters.consumerId) {
+      values.push(filters.consumerId);
+      conditions.push(`consumer_id = $${values.length}`);
+    }
+    if (filters.projectId) {
+      values.push(filters.projectId);
+      conditions.push(`project_id = $${values.length}`);
+    }
+    if (filters.projectIds) {
+      values.push(filters.projectIds);
+      conditions.push(`project_id = ANY($${values.length}::text[])`);
+    }
+
+    values.push(filters.limit || 50, filters.offset || 0);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await this.db.query(`
+      SELECT *
+      FROM dead_letter_events
+      ${where}
+      ORDER BY last_failed_at DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length}
+    `, values);
+
+    return result.rows as DeadLetterEvent[];
+  }
+
+  async get(id: string): Promise<DeadLetterEvent | null> {
+    const result = await this.db.query(`
+      SELECT * FROM dead_letter_events WHERE id = $1
+    `, [id]);
+
+    return result.rows[0] as DeadLetterEvent || null;
+  }
+
+  async markResolved(id: string, status: Exclude<DeadLetterStatus, 'pending'>): Promise<DeadLetterEvent | null> {
+    const result = await this.db.query(`
+      UPDATE dead_letter_events
+      SET status = $2, resolved_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [id, status]);
+
+    return result.rows[0] as DeadLetterEvent || null;
+  }
+
+  // A failed replay goes back to pending with the new error
+  async recordReplayFailure(id: string, error: unknown): Promise<void> {
+    await this.db.query(`
+      UPDATE dead_letter_events
+      SET error = $2, error_stack = $3, attempts = attempts + 1, last_failed_at = NOW()
+      WHERE id = $1
+    `, [
+      id,
+      error instanceof Error ? error.message : String(error),
+      error instanceof Error ? error.stack || null : null
+    ]);
+  }
+
+  async countPending(): Promise<number> {
+    const result = await this.db.query(`
+      SELECT COUNT(*)::int AS count FROM dead_letter_events WHERE status = 'pending'
+    `);
+
+    return result.rows[0]?.count || 0;
+  }
+}
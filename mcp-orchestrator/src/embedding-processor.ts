@@ -14,11 +14,6 @@ async function main() {
     process.exit(1);
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    console.error('❌ OPENAI_API_KEY environment variable is required for embedding generation');
-    process.exit(1);
-  }
-
   // Initialize database
   const db = new Database(process.env.DATABASE_URL);
   
@@ -37,7 +32,7 @@ async function main() {
   // Check embedding service health
   const health = await embeddingService.healthCheck();
   console.log('🏥 Embedding Service Health Check:');
-  console.log(`   OpenAI Configured: ${health.openai_configured}`);
+  console.log(`   Provider: ${health.provider} (${health.model}, ${health.dimension} dimensions)`);
   console.log(`   pgvector Available: ${health.pgvector_available}`);
   console.log(`   Pending Embeddings: ${health.pending_embeddings}`);
 
@@ -46,6 +41,9 @@ async function main() {
     process.exit(1);
   }
 
+  // Vectors from a previous provider can't be compared with new ones; queue them for re-embedding
+  await embeddingService.resetStaleEmbeddings();
+
   // Get configuration
   const batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || '50');
   const intervalMs = parseInt(process.env.EMBEDDING_INTERVAL_MS || '30000'); // 30 seconds
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { LocalHashingEmbeddingProvider } from './embedding-providers.js';
+
+const provider = new LocalHashingEmbeddingProvider(4096);
+
+// Vectors are L2-normalized, so the dot product is the cosine similarity
+const similarity = async (a: string, b: string) => {
+  const [left, right] = await Promise.all([provider.embed(a), provider.embed(b)]);
+  return left.reduce((sum, value, i) => sum + value * right[i], 0);
+};
+
+describe('LocalHashingEmbeddingProvider', () => {
+  it('returns unit vectors of the configured dimension', async () => {
+    const vector = await provider.embed('Fix the login form');
+
+    expect(vector).toHaveLength(4096);
+    expect(Math.hypot(...vector)).toBeCloseTo(1);
+    expect(await provider.embed('the and of')).toEqual(new Array(4096).fill(0));
+  });
+
+  it('scores identical text as 1', async () => {
+    expect(await similarity('Refactor the auth middleware', 'Refactor the auth middleware')).toBeCloseTo(1);
+  });
+
+  it('scores related text above unrelated text', async () => {
+    const related = await similarity('Fix login form validation', 'Login form validation errors');
+    const unrelated = await similarity('Fix login form validation', 'Deploy database migrations nightly');
+
+    expect(related).toBeGreaterThan(0.3);
+    expect(related).toBeGreaterThan(unrelated);
+  });
+
+  it('weights a trigram seen once at a quarter of a word', async () => {
+    // One word and its three padded trigrams: ^xq, xqz, qz$
+    const magnitudes = (await provider.embed('xqz'))
+      .map(Math.abs)
+      .filter(value => value > 0)
+      .sort((a, b) => a - b);
+
+    expect(magnitudes).toHaveLength(4);
+    magnitudes.slice(0, 3).forEach(value => expect(value * 4).toBeCloseTo(magnitudes[3]));
+  });
+
+  it('keeps a phrase similar to itself repeated', async () => {
+    expect(await similarity('deploy pipeline', 'deploy pipeline deploy pipeline')).toBeGreaterThan(0.9);
+  });
+});
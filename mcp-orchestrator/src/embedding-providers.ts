@@ -0,0 +1,113 @@
+import OpenAI from 'openai';
+
+// A source of embedding vectors. Stored vectors are tagged with model and dimension, so vectors
+// from different providers are never compared and a provider switch can be detected.
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimension: number;
+  // Cosine similarity below which a match is not worth returning for this model
+  readonly similarityThreshold: number;
+  // Pause between items when embedding in bulk (API rate limits)
+  readonly batchDelayMs: number;
+  embed(text: string): Promise<number[]>;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model = 'text-embedding-3-small';
+  readonly dimension = 1536;
+  readonly similarityThreshold = 0.7;
+  readonly batchDelayMs = 350; // 3 requests per second
+  private openai: OpenAI;
+
+  constructor(apiKey: string) {
+    this.openai = new OpenAI({ apiKey });
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: text.slice(0, 8192), // Truncate to model limit
+      encoding_format: 'float'
+    });
+    return response.data[0].embedding;
+  }
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'if',
+  'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'then', 'there',
+  'this', 'to', 'was', 'we', 'were', 'will', 'with'
+]);
+
+// 32-bit FNV-1a
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Offline embeddings with the hashing trick: words, word bigrams and character trigrams are hashed
+// into a fixed number of signed buckets with sublinear term frequency, then L2-normalized.
+// Each kind of feature has a fixed weight, applied after the sublinear transform.
+// Stop-word removal stands in for corpus IDF so a stored vector never drifts as the corpus grows.
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = 'frizy-hashing-tf-v2';
+  readonly similarityThreshold = 0.2;
+  readonly batchDelayMs = 0;
+
+  constructor(readonly dimension: number = 512) {}
+
+  async embed(text: string): Promise<number[]> {
+    const words = (text.toLowerCase().match(/[a-z0-9_]+/g) || []).filter(word => !STOP_WORDS.has(word));
+    // Raw occurrence counts; weighting them first would take the log of counts below 1
+    const features = new Map<string, { count: number; weight: number }>();
+    const add = (feature: string, weight: number) => {
+      const seen = features.get(feature);
+      features.set(feature, { count: (seen?.count || 0) + 1, weight });
+    };
+
+    words.forEach((word, i) => {
+      add(`w:${word}`, 1);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`, 0.5);
+      // Trigrams let related forms ("auth", "authentication") share buckets
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    features.forEach(({ count, weight }, feature) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimension] += sign * weight * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+// EMBEDDING_PROVIDER picks the backend ('openai' or 'local'); without it OpenAI is used when a key
+// is configured and the local provider otherwise
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const requested = process.env.EMBEDDING_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+
+  switch (requested) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('EMBEDDING_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      return new OpenAIEmbeddingProvider(process.env.OPENAI_API_KEY);
+    case 'local':
+      return new LocalHashingEmbeddingProvider(parseInt(process.env.LOCAL_EMBEDDING_DIMENSION || '512'));
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER: ${requested}`);
+  }
+}
@@ -1,39 +1,25 @@
-import OpenAI from 'openai';
 import { Database } from './database.js';
+import { EmbeddingProvider, createEmbeddingProvider } from './embedding-providers.js';
 
 export class EmbeddingService {
-  private openai: OpenAI | null = null;
+  private provider: EmbeddingProvider;
   private db: Database;
   private embeddingCache = new Map<string, number[]>();
 
-  constructor(database: Database) {
+  constructor(database: Database, provider: EmbeddingProvider = createEmbeddingProvider()) {
     this.db = database;
-    if (process.env.OPENAI_API_KEY) {
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY
-      });
-    }
+    this.provider = provider;
   }
 
   async generateEmbedding(text: string): Promise<number[]> {
-    if (!this.openai) {
-      throw new Error('OpenAI client not configured - OPENAI_API_KEY required');
-    }
-
     // Check cache first
-    const cacheKey = this.hashText(text);
+    const cacheKey = `${this.provider.model}:${this.hashText(text)}`;
     if (this.embeddingCache.has(cacheKey)) {
       return this.embeddingCache.get(cacheKey)!;
     }
 
     try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-3-small', // 1536 dimensions
-        input: text.slice(0, 8192), // Truncate to model limit
-        encoding_format: 'float'
-      });
-
-      const embedding = response.data[0].embedding;
+      const embedding = await this.provider.embed(text);
       
       // Cache the embedding (with size limit)
       this.cacheEmbedding(cacheKey, embedding);
@@ -45,16 +31,67 @@ export class EmbeddingService {
     }
   }
 
+  isConfigured(): boolean {
+    return !!this.provider;
+  }
+
+  get similarityThreshold(): number {
+    return this.provider.similarityThreshold;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  // Clear vectors written by a different model or dimension so they are regenerated with the
+  // current provider; until then they are left out of semantic search. Returns the number cleared.
+  async resetStaleEmbeddings(): Promise<number> {
+    let cleared = 0;
+    for (const table of ['blocks', 'context_items']) {
+      const result = await this.db.query(`
+        UPDATE ${table}
+        SET embedding = NULL, embedding_model = NULL, embedding_dimension = NULL
+        WHERE embedding IS NOT NULL
+          AND (embedding_model IS DISTINCT FROM $1 OR embedding_dimension IS DISTINCT FROM $2)
+      `, [this.provider.model, this.provider.dimension]);
+      cleared += result.rowCount || 0;
+    }
+
+    if (cleared > 0) {
+      console.log(`♻️  Cleared ${cleared} embeddings from another provider; re-embedding with ${this.provider.model}`);
+    }
+    return cleared;
+  }
+
+  // Embed one block or context item from its current row. Returns false when the row doesn't exist (yet).
+  async embedItem(itemType: 'block' | 'context_item', itemId: string): Promise<boolean> {
+    const table = itemType === 'block' ? 'blocks' : 'context_items';
+    const result = await this.db.query(`
+      SELECT COALESCE(title, '') || COALESCE(' ' || content, '') AS text_content
+      FROM ${table}
+      WHERE id = $1
+    `, [itemId]);
+
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    const embedding = await this.generateEmbedding(result.rows[0].text_content);
+
+    if (itemType === 'block') {
+      await this.updateBlockEmbedding(itemId, embedding);
+    } else {
+      await this.updateContextItemEmbedding(itemId, embedding);
+    }
+
+    return true;
+  }
+
   async processAllPendingEmbeddings(projectId?: string): Promise<{
     processed: number;
     errors: number;
     skipped: number;
   }> {
-    if (!this.openai) {
-      console.log('⚠️  OpenAI not configured, skipping embedding generation');
-      return { processed: 0, errors: 0, skipped: 1 };
-    }
-
     let processed = 0;
     let errors = 0;
     let skipped = 0;
@@ -89,8 +126,10 @@ export class EmbeddingService {
           processed++;
           console.log(`✅ Generated embedding for ${item.item_type}: ${item.id}`);
           
-          // Rate limiting to avoid API limits (3 requests per second for OpenAI)
-          await this.sleep(350);
+          // Rate limiting for remote providers
+          if (this.provider.batchDelayMs > 0) {
+            await this.sleep(this.provider.batchDelayMs);
+          }
           
         } catch (error) {
           errors++;
@@ -121,24 +160,19 @@ export class EmbeddingService {
   ): Promise<any[]> {
     const {
       limit = 10,
-      threshold = 0.7,
+      threshold = this.provider.similarityThreshold,
       includeBlocks = true,
       includeContext = true
     } = options;
 
-    if (!this.openai) {
-      console.warn('OpenAI not configured, falling back to keyword search');
-      return await this.keywordSearch(projectId, query, limit);
-    }
-
     try {
       // Generate query embedding
       const queryEmbedding = await this.generateEmbedding(query);
       
-      // Use the database function for semantic search
+      // Use the database function for semantic search; only vectors from the same model are compared
       const result = await this.db.query(`
-        SELECT * FROM semantic_search($1, $2, $3, $4)
-      `, [projectId, JSON.stringify(queryEmbedding), limit, threshold]);
+        SELECT * FROM semantic_search($1, $2, $3, $4, $5)
+      `, [projectId, JSON.stringify(queryEmbedding), limit, threshold, this.provider.model]);
 
       // Filter results based on options
       let filteredResults = result.rows;
@@ -201,17 +235,17 @@ export class EmbeddingService {
   private async updateContextItemEmbedding(itemId: string, embedding: number[]): Promise<void> {
     await this.db.query(`
       UPDATE context_items 
-      SET embedding = $1::vector
-      WHERE id = $2
-    `, [JSON.stringify(embedding), itemId]);
+      SET embedding = $1::vector, embedding_model = $2, embedding_dimension = $3
+      WHERE id = $4
+    `, [JSON.stringify(embedding), this.provider.model, embedding.length, itemId]);
   }
 
   private async updateBlockEmbedding(blockId: string, embedding: number[]): Promise<void> {
     await this.db.query(`
       UPDATE blocks 
-      SET embedding = $1::vector
-      WHERE id = $2
-    `, [JSON.stringify(embedding), blockId]);
+      SET embedding = $1::vector, embedding_model = $2, embedding_dimension = $3
+      WHERE id = $4
+    `, [JSON.stringify(embedding), this.provider.model, embedding.length, blockId]);
   }
 
   private cacheEmbedding(key: string, embedding: number[]): void {
@@ -246,13 +280,22 @@ export class EmbeddingService {
 
   // Health check for embedding service
   async healthCheck(): Promise<{
+    provider: string;
+    model: string;
+    dimension: number;
     openai_configured: boolean;
     pgvector_available: boolean;
     pending_embeddings: number;
   }> {
+    const providerInfo = {
+      provider: this.provider.name,
+      model: this.provider.model,
+      dimension: this.provider.dimension
+    };
+
     try {
       // Check if OpenAI is configured
-      const openaiConfigured = !!this.openai;
+      const openaiConfigured = !!process.env.OPENAI_API_KEY;
 
       // Check if pgvector is available
       let pgvectorAvailable = false;
@@ -273,6 +316,7 @@ export class EmbeddingService {
       }
 
       return {
+        ...providerInfo,
         openai_configured: openaiConfigured,
         pgvector_available: pgvectorAvailable,
         pending_embeddings: pendingCount
@@ -281,6 +325,7 @@ export class EmbeddingService {
     } catch (error) {
       console.error('Embedding service health check failed:', error);
       return {
+        ...providerInfo,
         openai_configured: false,
         pgvector_available: false,
         pending_embeddings: 0
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { EventBus } from './event-bus.js';
+
+describe('EventBus', () => {
+  it('delivers to a waiting subscriber and queues for a busy one', async () => {
+    const bus = new EventBus();
+    const subscription = bus.subscribe<number>('topic');
+
+    const waiting = subscription.next();
+    bus.publish('topic', 1);
+    bus.publish('topic', 2);
+    bus.publish('other', 99);
+
+    expect(await waiting).toEqual({ value: 1, done: false });
+    expect(await subscription.next()).toEqual({ value: 2, done: false });
+  });
+
+  it('gives every subscriber its own copy', async () => {
+    const bus = new EventBus();
+    const first = bus.subscribe<string>('topic');
+    const second = bus.subscribe<string>('topic');
+
+    bus.publish('topic', 'hello');
+
+    expect((await first.next()).value).toBe('hello');
+    expect((await second.next()).value).toBe('hello');
+  });
+
+  it('drops the oldest messages once a subscriber falls 1000 behind', async () => {
+    const bus = new EventBus();
+    const subscription = bus.subscribe<number>('topic');
+
+    for (let n = 0; n < 1005; n++) bus.publish('topic', n);
+
+    expect((await subscription.next()).value).toBe(5);
+  });
+
+  it('ends a pending next() on return() and forgets the subscriber', async () => {
+    const bus = new EventBus();
+    const subscription = bus.subscribe<number>('topic');
+    const pending = subscription.next();
+
+    expect(bus.subscriberCount('topic')).toBe(1);
+    await subscription.return!();
+
+    expect(await pending).toEqual({ value: undefined, done: true });
+    expect(await subscription.next()).toEqual({ value: undefined, done: true });
+    expect(bus.subscriberCount('topic')).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+// In-process pub/sub feeding GraphQL subscriptions. Each subscriber gets its own bounded
+// queue, so a slow websocket client drops its oldest messages instead of growing without limit.
+const MAX_QUEUED_MESSAGES = 1000;
+
+interface Subscriber<T> {
+  queue: T[];
+  waiting: ((result: IteratorResult<T>) => void) | null;
+}
+
+export class EventBus {
+  private topics = new Map<string, Set<Subscriber<any>>>();
+
+  publish<T>(topic: string, message: T): void {
+    for (const subscriber of this.topics.get(topic) || []) {
+      if (subscriber.waiting) {
+        const resolve = subscriber.waiting;
+        subscriber.waiting = null;
+        resolve({ value: message, done: false });
+        continue;
+      }
+
+      subscriber.queue.push(message);
+      if (subscriber.queue.length > MAX_QUEUED_MESSAGES) {
+        subscriber.queue.shift();
+      }
+    }
+  }
+
+  subscriberCount(topic: string): number {
+    return this.topics.get(topic)?.size || 0;
+  }
+
+  // Ends when the consumer calls return(), e.g. when graphql-ws completes the subscription
+  subscribe<T>(topic: string): AsyncIterableIterator<T> {
+    const subscriber: Subscriber<T> = { queue: [], waiting: null };
+    const subscribers = this.topics.get(topic) || new Set();
+    subscribers.add(subscriber);
+    this.topics.set(topic, subscribers);
+
+    const close = (): IteratorResult<T> => {
+      subscribers.delete(subscriber);
+      if (subscribers.size === 0 && this.topics.get(topic) === subscribers) {
+        this.topics.delete(topic);
+      }
+      subscriber.waiting?.({ value: undefined, done: true });
+      subscriber.waiting = null;
+      subscriber.queue = [];
+      return { value: undefined, done: true };
+    };
+
+    return {
+      next: () => {
+        if (subscriber.queue.length > 0) {
+          return Promise.resolve({ value: subscriber.queue.shift()!, done: false });
+        }
+        if (!subscribers.has(subscriber)) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => {
+          subscriber.waiting = resolve;
+        });
+      },
+      return: () => Promise.resolve(close()),
+      throw: (error: unknown) => {
+        close();
+        return Promise.reject(error);
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      }
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from './database.js';
+import { EventConsumer } from './event-consumer.js';
+import { Projection } from './projections/index.js';
+import { Event } from './types.js';
+
+type Offset = { last_event_id: string | null; last_seen_at: string | null; events_processed: number };
+
+// Just enough of Postgres for the consumer: the events table, projection_offsets and dead letters
+class FakeDatabase {
+  events: Event[] = [];
+  offsets = new Map<string, Offset>();
+  deadLetters: { eventId: string; consumerId: string; error: string; attempts: number }[] = [];
+
+  async query(text: string, params: any[] = []): Promise<any> {
+    if (text.includes('INSERT INTO projection_offsets')) {
+      if (!this.offsets.has(params[0])) {
+        this.offsets.set(params[0], { last_event_id: null, last_seen_at: null, events_processed: 0 });
+      }
+      return { rows: [] };
+    }
+    if (text.includes('UPDATE projection_offsets')) {
+      const offset = this.offsets.get(params[0])!;
+      offset.last_event_id = params[1];
+      offset.last_seen_at = params[2];
+      offset.events_processed += params[3];
+      return { rows: [] };
+    }
+    if (text.includes('FROM projection_offsets')) {
+      const offset = this.offsets.get(params[0]);
+      return { rows: offset ? [offset] : [] };
+    }
+    if (text.includes('FROM events')) {
+      const [seenAt, eventId, limit] = params;
+      const rows = this.events
+        .filter(event => seenAt === '-infinity'
+          || event.created_at > seenAt
+          || (event.created_at === seenAt && event.id > eventId))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id))
+        .slice(0, limit)
+        .map(event => ({ ...event, cursor_created_at: event.created_at }));
+      return { rows };
+    }
+    if (text.includes('INSERT INTO dead_letter_events')) {
+      this.deadLetters.push({ eventId: params[0], consumerId: params[1], error: params[5], attempts: params[7] });
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  }
+}
+
+const event = (n: number, createdAt: string): Event => ({
+  id: `00000000-0000-0000-0000-${String(n).padStart(12, '0')}`,
+  project_id: '11111111-1111-1111-1111-111111111111',
+  type: 'block.created',
+  payload: { n },
+  created_at: createdAt
+});
+
+class RecordingProjection implements Projection {
+  readonly name = 'recording';
+  applied: string[] = [];
+  failures = new Map<string, number>();
+
+  handles(): boolean {
+    return true;
+  }
+
+  async apply(event: Event): Promise<void> {
+    const remaining = this.failures.get(event.id) ?? 0;
+    if (remaining > 0) {
+      this.failures.set(event.id, remaining - 1);
+      throw new Error(`boom ${event.id}`);
+    }
+    this.applied.push(event.id);
+  }
+}
+
+describe('EventConsumer', () => {
+  let db: FakeDatabase;
+  let projection: RecordingProjection;
+  let consumer: EventConsumer;
+
+  // Drives one poll of the consumer's loop for the projection
+  const poll = (): Promise<number> => (consumer as any).processNextBatch(projection);
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    db = new FakeDatabase();
+    projection = new RecordingProjection();
+    consumer = new EventConsumer(db as unknown as Database, [projection], 1000, {
+      maxAttempts: 3,
+      baseDelayMs: 0,
+      maxDelayMs: 0
+    }, 2);
+    await (consumer as any).initializeOffset(projection.name);
+  });
+
+  it('walks events sharing a timestamp in (created_at, id) order across batches', async () => {
+    const sameTime = '2024-05-01 10:00:00.123456+00';
+    db.events = [event(3, sameTime), event(1, sameTime), event(2, sameTime), event(4, '2024-05-01 10:00:01+00')];
+
+    expect(await poll()).toBe(2);
+    expect(await poll()).toBe(2);
+    expect(await poll()).toBe(0);
+
+    expect(projection.applied).toEqual([1, 2, 3, 4].map(n => event(n, sameTime).id));
+    expect(db.offsets.get('recording')).toMatchObject({
+      last_event_id: event(4, sameTime).id,
+      last_seen_at: '2024-05-01 10:00:01+00',
+      events_processed: 4
+    });
+  });
+
+  it('picks up events appended after the cursor without replaying earlier ones', async () => {
+    db.events = [event(1, '2024-05-01 10:00:00+00')];
+    await poll();
+
+    db.events.push(event(2, '2024-05-01 10:00:00+00'));
+    await poll();
+
+    expect(projection.applied).toEqual([event(1, '').id, event(2, '').id]);
+  });
+
+  it('retries a failing event and moves on once it succeeds', async () => {
+    db.events = [event(1, '2024-05-01 10:00:00+00')];
+    projection.failures.set(event(1, '').id, 2);
+
+    await poll();
+
+    expect(projection.applied).toEqual([event(1, '').id]);
+    expect(db.deadLetters).toEqual([]);
+  });
+
+  it('dead-letters an event that exhausts its retries and checkpoints past it', async () => {
+    db.events = [event(1, '2024-05-01 10:00:00+00'), event(2, '2024-05-01 10:00:01+00')];
+    projection.failures.set(event(1, '').id, 5);
+
+    await poll();
+
+    expect(projection.applied).toEqual([event(2, '').id]);
+    expect(db.deadLetters).toEqual([
+      { eventId: event(1, '').id, consumerId: 'recording', error: `boom ${event(1, '').id}`, attempts: 3 }
+    ]);
+    expect(db.offsets.get('recording')?.last_event_id).toBe(event(2, '').id);
+  });
+
+  it('leaves the cursor alone when recording a dead letter fails', async () => {
+    db.events = [event(1, '2024-05-01 10:00:00+00')];
+    projection.failures.set(event(1, '').id, 5);
+    const query = db.query.bind(db);
+    db.query = async (text, params) => {
+      if (text.includes('INSERT INTO dead_letter_events')) throw new Error('db down');
+      return query(text, params);
+    };
+
+    await expect(poll()).rejects.toThrow('db down');
+    expect(db.offsets.get('recording')?.last_event_id).toBeNull();
+  });
+});
@@ -1,16 +1,56 @@
 import { Database } from './database.js';
-import { Event, EventType } from './types.js';
+import { DeadLetterQueue } from './dead-letter-queue.js';
+import { Projection } from './projections/index.js';
+import { Event } from './types.js';
+
+// Per-event retry policy; delays double each attempt up to maxDelayMs
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 200,
+  maxDelayMs: 10000
+};
+
+// Position of a projection in the event log. Events are totally ordered by (created_at, id),
+// so events sharing a timestamp are neither skipped nor processed twice.
+export interface ProjectionCursor {
+  projection: string;
+  last_event_id: string | null;
+  last_seen_at: string | null;
+  events_processed: number;
+  checkpointed_at: string | null;
+}
+
+// Sorts before every real event id, uuid or text
+const START_EVENT_ID = '00000000-0000-0000-0000-000000000000';
 
 export class EventConsumer {
   private db: Database;
+  private deadLetters: DeadLetterQueue;
+  private projections: Map<string, Projection>;
   private isRunning = false;
-  private consumerId: string;
   private pollIntervalMs: number;
-
-  constructor(database: Database, consumerId = 'default', pollIntervalMs = 1000) {
+  private batchSize: number;
+  private retryPolicy: RetryPolicy;
+
+  constructor(
+    database: Database,
+    projections: Projection[],
+    pollIntervalMs = 1000,
+    retryPolicy: Partial<RetryPolicy> = {},
+    batchSize = 50
+  ) {
     this.db = database;
-    this.consumerId = consumerId;
+    this.deadLetters = new DeadLetterQueue(database);
+    this.projections = new Map(projections.map(projection => [projection.name, projection]));
     this.pollIntervalMs = pollIntervalMs;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+    this.batchSize = batchSize;
   }
 
   async start(): Promise<void> {
@@ -20,10 +60,12 @@ export class EventConsumer {
     }
 
     this.isRunning = true;
-    console.log(`🔄 Starting event consumer: ${this.consumerId}`);
+    console.log(`🔄 Starting event consumer with projections: ${this.projectionNames().join(', ')}`);
 
-    // Initialize consumer offset if not exists
-    await this.initializeOffset();
+    // Initialize cursors for projections seen for the first time
+    for (const name of this.projections.keys()) {
+      await this.initializeOffset(name);
+    }
 
     // Start the polling loop
     this.pollLoop();
@@ -31,26 +73,104 @@ export class EventConsumer {
 
   async stop(): Promise<void> {
     this.isRunning = false;
-    console.log(`🛑 Stopping event consumer: ${this.consumerId}`);
+    console.log('🛑 Stopping event consumer');
+  }
+
+  projectionNames(): string[] {
+    return Array.from(this.projections.keys());
+  }
+
+  async getCursors(): Promise<ProjectionCursor[]> {
+    const result = await this.db.query(`
+      SELECT id AS projection, last_event_id, last_seen_at, events_processed, checkpointed_at
+      FROM projection_offsets
+      WHERE id = ANY($1)
+    `, [this.projectionNames()]);
+
+    return result.rows as ProjectionCursor[];
+  }
+
+  // Clear a projection's state and rewind its cursor so it replays the whole log
+  async resetProjection(name: string): Promise<void> {
+    const projection = this.getProjection(name);
+
+    await projection.reset?.();
+    await this.db.query(`
+      INSERT INTO projection_offsets (id, last_event_id, last_seen_at, events_processed, checkpointed_at)
+      VALUES ($1, NULL, NULL, 0, NOW())
+      ON CONFLICT (id) DO UPDATE SET
+        last_event_id = NULL,
+        last_seen_at = NULL,
+        events_processed = 0,
+        checkpointed_at = NOW()
+    `, [name]);
+
+    console.log(`⏪ Reset projection ${name}; it will replay from the start of the event log`);
+  }
+
+  // Move a projection's cursor to the head of the log so it only sees events appended from now on,
+  // e.g. for projections that push live notifications rather than build state
+  async fastForward(name: string): Promise<void> {
+    this.getProjection(name);
+
+    await this.db.query(`
+      INSERT INTO projection_offsets (id, last_event_id, last_seen_at, events_processed, checkpointed_at)
+      SELECT $1, latest.id, latest.created_at, 0, NOW()
+      FROM (SELECT NULL) AS anchor
+      LEFT JOIN LATERAL (
+        SELECT id, created_at FROM events ORDER BY created_at DESC, id DESC LIMIT 1
+      ) AS latest ON true
+      ON CONFLICT (id) DO UPDATE SET
+        last_event_id = EXCLUDED.last_event_id,
+        last_seen_at = EXCLUDED.last_seen_at,
+        checkpointed_at = NOW()
+    `, [name]);
   }
 
-  private async initializeOffset(): Promise<void> {
+  // Run a single event through one projection again, e.g. when replaying a dead letter.
+  // Cursors are left untouched; errors propagate to the caller.
+  async replay(event: Event, projectionName: string): Promise<void> {
+    await this.getProjection(projectionName).apply(event);
+  }
+
+  private getProjection(name: string): Projection {
+    const projection = this.projections.get(name);
+    if (!projection) {
+      throw new Error(`Unknown projection: ${name}`);
+    }
+    return projection;
+  }
+
+  private async initializeOffset(name: string): Promise<void> {
     try {
+      // New projections start from the beginning of the log
       await this.db.query(`
         INSERT INTO projection_offsets (id, last_event_id, last_seen_at)
-        VALUES ($1, NULL, NOW())
+        VALUES ($1, NULL, NULL)
         ON CONFLICT (id) DO NOTHING
-      `, [this.consumerId]);
+      `, [name]);
     } catch (error) {
-      console.error('Failed to initialize consumer offset:', error);
+      console.error(`Failed to initialize offset for projection ${name}:`, error);
     }
   }
 
   private async pollLoop(): Promise<void> {
     while (this.isRunning) {
       try {
-        await this.processNewEvents();
-        await this.sleep(this.pollIntervalMs);
+        let processed = 0;
+        for (const projection of this.projections.values()) {
+          // A failing projection backs off on its own without holding up the others
+          try {
+            processed += await this.processNextBatch(projection);
+          } catch (error) {
+            console.error(`Error in projection ${projection.name}:`, error);
+          }
+        }
+
+        // Keep draining while there is a backlog
+        if (processed === 0) {
+          await this.sleep(this.pollIntervalMs);
+        }
       } catch (error) {
         console.error('Error in event processing loop:', error);
         await this.sleep(this.pollIntervalMs * 2); // Back off on error
@@ -58,372 +178,101 @@ export class EventConsumer {
     }
   }
 
-  private async processNewEvents(): Promise<void> {
-    // Get the last processed event ID
+  private async processNextBatch(projection: Projection): Promise<number> {
     const offsetResult = await this.db.query(`
-      SELECT last_event_id, last_seen_at
+      SELECT last_event_id, last_seen_at::text AS last_seen_at
       FROM projection_offsets
       WHERE id = $1
-    `, [this.consumerId]);
-
-    const lastEventId = offsetResult.rows[0]?.last_event_id;
-    const lastSeenAt = offsetResult.rows[0]?.last_seen_at;
+    `, [projection.name]);
 
-    // Fetch new events
-    const query = lastEventId
-      ? `SELECT * FROM events WHERE created_at > $2 ORDER BY created_at ASC LIMIT 50`
-      : `SELECT * FROM events WHERE created_at > $2 ORDER BY created_at ASC LIMIT 50`;
+    const lastEventId = offsetResult.rows[0]?.last_event_id || START_EVENT_ID;
+    const lastSeenAt = offsetResult.rows[0]?.last_seen_at || '-infinity';
 
-    const eventsResult = await this.db.query(query, [
-      lastEventId,
-      lastSeenAt || new Date(0).toISOString()
-    ]);
+    // created_at is also selected as text: a JS Date would drop the microseconds and
+    // the cursor would then sit just before the event it was meant to be after
+    const eventsResult = await this.db.query(`
+      SELECT *, created_at::text AS cursor_created_at
+      FROM events
+      WHERE (created_at, id) > ($1::timestamptz, $2)
+      ORDER BY created_at ASC, id ASC
+      LIMIT $3
+    `, [lastSeenAt, lastEventId, this.batchSize]);
 
-    const events = eventsResult.rows as Event[];
+    const events = eventsResult.rows as (Event & { cursor_created_at: string })[];
 
     if (events.length === 0) {
-      return; // No new events
+      return 0; // No new events
     }
 
-    console.log(`📦 Processing ${events.length} new events...`);
-
     // Process events in order
+    let applied = 0;
+    let deadLettered = 0;
     for (const event of events) {
-      try {
-        await this.processEvent(event);
-        await this.updateOffset(event.id, event.created_at);
-      } catch (error) {
-        console.error(`Failed to process event ${event.id}:`, error);
-        // For MVP, we'll skip failed events. In production, you might want
-        // to implement retry logic or dead letter queues
+      if (!projection.handles(event)) {
+        continue;
       }
-    }
-
-    console.log(`✅ Processed ${events.length} events successfully`);
-  }
-
-  private async processEvent(event: Event): Promise<void> {
-    const { type, payload, project_id, actor_id } = event;
-
-    switch (type) {
-      case 'block.created':
-        await this.handleBlockCreated(event);
-        break;
-        
-      case 'block.moved':
-        await this.handleBlockMoved(event);
-        break;
-        
-      case 'block.progress_updated':
-        await this.handleBlockProgressUpdated(event);
-        break;
-        
-      case 'block.updated':
-        await this.handleBlockUpdated(event);
-        break;
-        
-      case 'block.deleted':
-        await this.handleBlockDeleted(event);
-        break;
-        
-      case 'context.captured':
-        await this.handleContextCaptured(event);
-        break;
-        
-      case 'context.linked':
-        await this.handleContextLinked(event);
-        break;
-        
-      case 'session.started':
-        await this.handleSessionStarted(event);
-        break;
-        
-      case 'session.ended':
-        await this.handleSessionEnded(event);
-        break;
-        
-      case 'github.pr.opened':
-      case 'github.pr.closed':
-      case 'github.pr.merged':
-      case 'github.pr.commented':
-      case 'github.issue.opened':
-      case 'github.issue.closed':
-      case 'github.issue.reopened':
-      case 'github.release.published':
-      case 'github.commit.pushed':
-        await this.handleGitHubEvent(event);
-        break;
-        
-      case 'project.created':
-        await this.handleProjectCreated(event);
-        break;
-        
-      case 'project.updated':
-        await this.handleProjectUpdated(event);
-        break;
-        
-      default:
-        console.warn(`Unknown event type: ${type}`);
-    }
-  }
-
-  private async handleBlockCreated(event: Event): Promise<void> {
-    const { id, title, content, lane, priority, effort, status = 'not_started' } = event.payload;
-
-    await this.db.query(`
-      INSERT INTO blocks (
-        id, project_id, title, content, lane, status, priority, progress, effort, 
-        last_worked_at, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $11)
-      ON CONFLICT (id) DO NOTHING
-    `, [
-      id,
-      event.project_id,
-      title,
-      content || null,
-      lane || 'current',
-      status,
-      priority || 'medium',
-      0, // Initial progress
-      effort || null,
-      null, // last_worked_at
-      event.created_at
-    ]);
-
-    console.log(`📝 Created block: ${title} (${id})`);
-  }
-
-  private async handleBlockMoved(event: Event): Promise<void> {
-    const { id, lane } = event.payload;
-
-    await this.db.query(`
-      UPDATE blocks 
-      SET lane = $2, updated_at = $3, last_worked_at = $3
-      WHERE id = $1
-    `, [id, lane, event.created_at]);
-
-    console.log(`🚀 Moved block ${id} to ${lane} lane`);
-  }
-
-  private async handleBlockProgressUpdated(event: Event): Promise<void> {
-    const { id, progress } = event.payload;
-
-    // Update progress and set status based on progress
-    let status = 'in_progress';
-    if (progress === 0) status = 'not_started';
-    else if (progress === 100) status = 'completed';
-
-    await this.db.query(`
-      UPDATE blocks 
-      SET progress = $2, status = $3, updated_at = $4, last_worked_at = $4
-      WHERE id = $1
-    `, [id, progress, status, event.created_at]);
-
-    console.log(`📊 Updated block ${id} progress to ${progress}%`);
-  }
-
-  private async handleBlockUpdated(event: Event): Promise<void> {
-    const { id, title, content, priority, status, effort } = event.payload;
 
-    // Build dynamic update query
-    const updates = [];
-    const values = [id];
-    let valueIndex = 2;
+      const outcome = await this.processWithRetry(projection, event);
+      applied++;
 
-    if (title !== undefined) {
-      updates.push(`title = $${valueIndex++}`);
-      values.push(title);
-    }
-    if (content !== undefined) {
-      updates.push(`content = $${valueIndex++}`);
-      values.push(content);
-    }
-    if (priority !== undefined) {
-      updates.push(`priority = $${valueIndex++}`);
-      values.push(priority);
-    }
-    if (status !== undefined) {
-      updates.push(`status = $${valueIndex++}`);
-      values.push(status);
-    }
-    if (effort !== undefined) {
-      updates.push(`effort = $${valueIndex++}`);
-      values.push(effort);
+      if (!outcome.success) {
+        // If this insert fails the batch is not checkpointed and is retried on the next poll
+        await this.deadLetters.add(projection.name, event, outcome.error, outcome.attempts);
+        deadLettered++;
+        console.error(`☠️  [${projection.name}] Dead-lettered event ${event.id} (${event.type}) after ${outcome.attempts} attempts`);
+      }
     }
 
-    if (updates.length > 0) {
-      updates.push(`updated_at = $${valueIndex++}`);
-      updates.push(`last_worked_at = $${valueIndex++}`);
-      values.push(event.created_at, event.created_at);
+    const last = events[events.length - 1];
+    await this.checkpoint(projection.name, last.id, last.cursor_created_at, events.length);
 
-      await this.db.query(`
-        UPDATE blocks 
-        SET ${updates.join(', ')}
-        WHERE id = $1
-      `, values);
-
-      console.log(`✏️  Updated block ${id}`);
+    if (deadLettered > 0) {
+      console.log(`⚠️  [${projection.name}] Applied ${applied - deadLettered} events, dead-lettered ${deadLettered}`);
+    } else if (applied > 0) {
+      console.log(`✅ [${projection.name}] Applied ${applied} events`);
     }
-  }
-
-  private async handleBlockDeleted(event: Event): Promise<void> {
-    const { id } = event.payload;
-
-    await this.db.query(`
-      DELETE FROM blocks WHERE id = $1
-    `, [id]);
 
-    console.log(`🗑️ Deleted block ${id}`);
-  }
-
-  private async handleContextCaptured(event: Event): Promise<void> {
-    const { id, type, title, content, source = 'mcp' } = event.payload;
-
-    await this.db.query(`
-      INSERT INTO context_items (
-        id, project_id, type, title, content, source, author_id, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      ON CONFLICT (id) DO NOTHING
-    `, [
-      id,
-      event.project_id,
-      type,
-      title || null,
-      content,
-      source,
-      event.actor_id || null,
-      event.created_at
-    ]);
-
-    console.log(`💡 Captured context: ${type} - ${title || 'Untitled'}`);
-  }
-
-  private async handleContextLinked(event: Event): Promise<void> {
-    const { context_id, block_id } = event.payload;
-
-    await this.db.query(`
-      INSERT INTO context_links (context_id, block_id, created_at)
-      VALUES ($1, $2, $3)
-      ON CONFLICT DO NOTHING
-    `, [context_id, block_id, event.created_at]);
-
-    console.log(`🔗 Linked context ${context_id} to block ${block_id}`);
-  }
-
-  private async handleSessionStarted(event: Event): Promise<void> {
-    const { session_id, session_type, block_id } = event.payload;
-
-    await this.db.query(`
-      INSERT INTO claude_sessions (
-        id, block_id, project_id, user_id, session_type, context_data, 
-        messages_count, tokens_used, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, 0, 0, $7, $7)
-      ON CONFLICT (id) DO NOTHING
-    `, [
-      session_id,
-      block_id || null,
-      event.project_id,
-      event.actor_id,
-      session_type || 'coding',
-      {},
-      event.created_at
-    ]);
-
-    console.log(`🚀 Started Claude session: ${session_id}`);
+    return events.length;
   }
 
-  private async handleSessionEnded(event: Event): Promise<void> {
-    const { session_id, messages_count, tokens_used, outcomes } = event.payload;
+  private async processWithRetry(
+    projection: Projection,
+    event: Event
+  ): Promise<{ success: true } | { success: false; error: unknown; attempts: number }> {
+    const { maxAttempts } = this.retryPolicy;
 
-    await this.db.query(`
-      UPDATE claude_sessions 
-      SET messages_count = $2, tokens_used = $3, outcomes = $4, updated_at = $5
-      WHERE id = $1
-    `, [
-      session_id,
-      messages_count || 0,
-      tokens_used || 0,
-      outcomes || [],
-      event.created_at
-    ]);
-
-    console.log(`✅ Ended Claude session: ${session_id}`);
-  }
-
-  private async handleGitHubEvent(event: Event): Promise<void> {
-    const { provider_type, provider_id, url, title, status, author } = event.payload;
-
-    await this.db.query(`
-      INSERT INTO github_entities (
-        project_id, provider_type, provider_id, url, title, status, metadata, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      ON CONFLICT DO NOTHING
-    `, [
-      event.project_id,
-      provider_type,
-      provider_id,
-      url,
-      title,
-      status,
-      { author },
-      event.created_at
-    ]);
-
-    console.log(`🐙 GitHub ${provider_type}: ${title}`);
-  }
-
-  private async handleProjectCreated(event: Event): Promise<void> {
-    const { id, name, description, owner_id, metadata = {} } = event.payload;
-
-    await this.db.query(`
-      INSERT INTO projects (id, name, description, created_by, metadata, created_at, updated_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $6)
-      ON CONFLICT (id) DO NOTHING
-    `, [id, name, description, owner_id, metadata, event.created_at]);
-
-    console.log(`📁 Created project: ${name}`);
-  }
-
-  private async handleProjectUpdated(event: Event): Promise<void> {
-    const { id, name, description, metadata } = event.payload;
-
-    const updates = [];
-    const values = [id];
-    let valueIndex = 2;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await projection.apply(event);
+        return { success: true };
+      } catch (error) {
+        if (attempt >= maxAttempts) {
+          return { success: false, error, attempts: attempt };
+        }
 
-    if (name !== undefined) {
-      updates.push(`name = $${valueIndex++}`);
-      values.push(name);
-    }
-    if (description !== undefined) {
-      updates.push(`description = $${valueIndex++}`);
-      values.push(description);
-    }
-    if (metadata !== undefined) {
-      updates.push(`metadata = $${valueIndex++}`);
-      values.push(metadata);
+        const delay = this.retryDelay(attempt);
+        console.warn(`[${projection.name}] Failed to process event ${event.id} (attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms:`, error);
+        await this.sleep(delay);
+      }
     }
+  }
 
-    if (updates.length > 0) {
-      updates.push(`updated_at = $${valueIndex++}`);
-      values.push(event.created_at);
-
-      await this.db.query(`
-        UPDATE projects 
-        SET ${updates.join(', ')}
-        WHERE id = $1
-      `, values);
-
-      console.log(`📝 Updated project ${id}`);
-    }
+  private retryDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryPolicy;
+    const exponential = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+    // Jitter so a batch of failing events doesn't hammer a recovering database in lockstep
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
   }
 
-  private async updateOffset(eventId: string, createdAt: string): Promise<void> {
+  private async checkpoint(name: string, eventId: string, createdAt: string, count: number): Promise<void> {
     await this.db.query(`
-      UPDATE projection_offsets 
-      SET last_event_id = $2, last_seen_at = $3
+      UPDATE projection_offsets
+      SET last_event_id = $2,
+          last_seen_at = $3::timestamptz,
+          events_processed = events_processed + $4,
+          checkpointed_at = NOW()
       WHERE id = $1
-    `, [this.consumerId, eventId, createdAt]);
+    `, [name, eventId, createdAt, count]);
   }
 
   private sleep(ms: number): Promise<void> {
@@ -436,4 +285,4 @@ declare module './database.js' {
   interface Database {
     query(text: string, params?: any[]): Promise<any>;
   }
-}
\ No newline at end of file
+}
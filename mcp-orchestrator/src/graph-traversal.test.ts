@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { Database } from './database.js';
+import { BlockConnection, findConnectedBlocks } from './graph-traversal.js';
+
+interface Relation {
+  from_block_id: string;
+  to_block_id: string;
+  relation_type: string;
+}
+
+interface ReachRow {
+  block_id: string;
+  parent_id: string | null;
+  relation_type: string | null;
+  distance: number;
+}
+
+// a -depends_on-> b -blocks-> c -relates_to-> a closes a cycle; c -depends_on-> d leads out of it,
+// and e is another project's block linked to d
+const RELATIONS: (Relation & { project_id: string })[] = [
+  { project_id: 'project-1', from_block_id: 'a', to_block_id: 'b', relation_type: 'depends_on' },
+  { project_id: 'project-1', from_block_id: 'b', to_block_id: 'c', relation_type: 'blocks' },
+  { project_id: 'project-1', from_block_id: 'c', to_block_id: 'a', relation_type: 'relates_to' },
+  { project_id: 'project-1', from_block_id: 'c', to_block_id: 'd', relation_type: 'depends_on' },
+  { project_id: 'project-1', from_block_id: 'd', to_block_id: 'e', relation_type: 'relates_to' }
+];
+
+const BLOCKS = ['a', 'b', 'c', 'd'].map(id => ({ id, project_id: 'project-1', title: `Block ${id}` }))
+  .concat({ id: 'e', project_id: 'project-2', title: 'Block e' });
+
+// Evaluates the walk's recursive query the way Postgres does: reach is a set (UNION) grown one level
+// at a time up to maxDepth, then DISTINCT ON (block_id) keeps the first row ordered by distance,
+// parent_id and relation_type, where NULL sorts last
+class FakeDatabase {
+  queries = 0;
+
+  async query(text: string, params: any[]): Promise<{ rows: any[] }> {
+    this.queries++;
+
+    if (text.includes('WITH RECURSIVE')) {
+      const [projectId, startIds, maxDepth, relationTypes] = params as [string, string[], number, string[] | null];
+      const edges = RELATIONS
+        .filter(relation => relation.project_id === projectId)
+        .filter(relation => !relationTypes || relationTypes.includes(relation.relation_type))
+        .flatMap(relation => [
+          [relation.from_block_id, relation.to_block_id, relation.relation_type],
+          [relation.to_block_id, relation.from_block_id, relation.relation_type]
+        ]);
+
+      const reach = new Map<string, ReachRow>();
+      let frontier: ReachRow[] = startIds.map(id => ({ block_id: id, parent_id: null, relation_type: null, distance: 0 }));
+      frontier.forEach(row => reach.set(JSON.stringify(row), row));
+
+      while (frontier.length > 0) {
+        const next: ReachRow[] = [];
+        for (const row of frontier.filter(row => row.distance < maxDepth)) {
+          for (const [from, to, type] of edges) {
+            if (from !== row.block_id) continue;
+            const reached = { block_id: to, parent_id: row.block_id, relation_type: type, distance: row.distance + 1 };
+            const key = JSON.stringify(reached);
+            if (!reach.has(key)) {
+              reach.set(key, reached);
+              next.push(reached);
+            }
+          }
+        }
+        frontier = next;
+      }
+
+      const nullsLast = (a: string | null, b: string | null) =>
+        a === b ? 0 : a === null ? 1 : b === null ? -1 : a < b ? -1 : 1;
+      const first = new Map<string, ReachRow>();
+      [...reach.values()]
+        .sort((a, b) => a.distance - b.distance || nullsLast(a.parent_id, b.parent_id) || nullsLast(a.relation_type, b.relation_type))
+        .forEach(row => first.has(row.block_id) || first.set(row.block_id, row));
+      return { rows: [...first.values()] };
+    }
+
+    if (text.includes('FROM blocks')) {
+      const [projectId, blockIds] = params as [string, string[]];
+      return { rows: BLOCKS.filter(block => block.project_id === projectId && blockIds.includes(block.id)) };
+    }
+
+    throw new Error(`Unexpected query: ${text}`);
+  }
+}
+
+const routes = (connections: BlockConnection[]) =>
+  connections.map(connection => ({
+    path: connection.path.map(block => block.id).join(' > '),
+    distance: connection.distance,
+    relationTypes: connection.relationTypes
+  }));
+
+const related = (x: string, y: string) =>
+  RELATIONS.some(relation =>
+    (relation.from_block_id === x && relation.to_block_id === y) || (relation.from_block_id === y && relation.to_block_id === x)
+  );
+
+describe('findConnectedBlocks', () => {
+  it('rebuilds one shortest path per block around a cycle, nearest first', async () => {
+    const db = new FakeDatabase();
+
+    const connections = await findConnectedBlocks(db as unknown as Database, 'project-1', ['a'], 3);
+
+    expect(routes(connections)).toEqual([
+      { path: 'a > b', distance: 1, relationTypes: ['depends_on'] },
+      { path: 'a > c', distance: 1, relationTypes: ['relates_to'] },
+      { path: 'a > c > d', distance: 2, relationTypes: ['relates_to', 'depends_on'] }
+    ]);
+  });
+
+  it('gives every path consecutive related blocks, starting at a starting block', async () => {
+    const db = new FakeDatabase();
+
+    const connections = await findConnectedBlocks(db as unknown as Database, 'project-1', ['b', 'd'], 5);
+
+    expect(connections.map(connection => connection.path[connection.path.length - 1].id).sort()).toEqual(['a', 'c']);
+    for (const { path, distance } of connections) {
+      expect(['b', 'd']).toContain(path[0].id);
+      expect(path).toHaveLength(distance + 1);
+      path.slice(1).forEach((block, i) => expect(related(path[i].id, block.id)).toBe(true));
+    }
+  });
+
+  it('stops at maxDepth and follows only the requested relation types', async () => {
+    const db = new FakeDatabase();
+
+    expect(routes(await findConnectedBlocks(db as unknown as Database, 'project-1', ['a'], 1)).map(route => route.path))
+      .toEqual(['a > b', 'a > c']);
+    expect(routes(await findConnectedBlocks(db as unknown as Database, 'project-1', ['a'], 5, ['depends_on'])))
+      .toEqual([{ path: 'a > b', distance: 1, relationTypes: ['depends_on'] }]);
+  });
+
+  it('drops paths through blocks outside the project', async () => {
+    const db = new FakeDatabase();
+    RELATIONS.push({ project_id: 'project-1', from_block_id: 'e', to_block_id: 'a', relation_type: 'blocks' });
+
+    try {
+      const connections = await findConnectedBlocks(db as unknown as Database, 'project-1', ['a'], 2);
+
+      expect(routes(connections).map(route => route.path)).toEqual(['a > b', 'a > c', 'a > c > d']);
+    } finally {
+      RELATIONS.pop();
+    }
+  });
+
+  it('does not query for an empty walk', async () => {
+    const db = new FakeDatabase();
+
+    expect(await findConnectedBlocks(db as unknown as Database, 'project-1', [], 3)).toEqual([]);
+    expect(await findConnectedBlocks(db as unknown as Database, 'project-1', ['a'], 0)).toEqual([]);
+    expect(db.queries).toBe(0);
+  });
+});
@@ -0,0 +1,154 @@
+import { Database } from './database.js';
+import { GraphLoaders } from './graphql-loaders.js';
+import { Block } from './types.js';
+
+// A block reached from a starting block, with the blocks and relation types along the way
+export interface BlockConnection {
+  path: Block[];
+  distance: number;
+  relationTypes: string[];
+}
+
+// Per-block cap for Block.relatedBlocks, which runs once for every block in a list
+export const RELATED_BLOCKS_LIMIT = 20;
+
+interface ReachedBlock {
+  block_id: string;
+  parent_id: string | null;
+  relation_type: string | null;
+  distance: number;
+}
+
+// Every block within maxDepth relations of the starting blocks, ignoring direction, each with one
+// shortest path (starting block first). The walk runs in a single recursive query.
+export async function findConnectedBlocks(
+  db: Database,
+  projectId: string,
+  startBlockIds: string[],
+  maxDepth: number,
+  relationTypes?: string[]
+): Promise<BlockConnection[]> {
+  if (startBlockIds.length === 0 || maxDepth < 1) {
+    return [];
+  }
+
+  // Ids are compared as text so the walk works whether the tables use uuid or text keys.
+  // UNION keeps one row per (block, parent, relation, distance), so the walk grows with
+  // edges x depth instead of with the number of distinct paths. Every row at a block's shortest
+  // distance has a parent at its own shortest distance, so the paths can be rebuilt from them.
+  const result = await db.query(`
+    WITH RECURSIVE edges AS (
+      SELECT from_block_id::text AS block_id, to_block_id::text AS next_id, relation_type::text
+      FROM block_relations
+      WHERE project_id = $1 AND ($4::text[] IS NULL OR relation_type = ANY($4))
+      UNION ALL
+      SELECT to_block_id::text, from_block_id::text, relation_type::text
+      FROM block_relations
+      WHERE project_id = $1 AND ($4::text[] IS NULL OR relation_type = ANY($4))
+    ),
+    reach (block_id, parent_id, relation_type, distance) AS (
+      SELECT start_id, NULL::text, NULL::text, 0
+      FROM unnest($2::text[]) AS start_id
+      UNION
+      SELECT e.next_id, r.block_id, e.relation_type, r.distance + 1
+      FROM reach r
+      INNER JOIN edges e ON e.block_id = r.block_id
+      WHERE r.distance < $3
+    )
+    SELECT DISTINCT ON (block_id) block_id, parent_id, relation_type, distance
+    FROM reach
+    ORDER BY block_id, distance, parent_id, relation_type
+  `, [projectId, startBlockIds, maxDepth, relationTypes && relationTypes.length > 0 ? relationTypes : null]);
+
+  const reached = new Map<string, ReachedBlock>(result.rows.map((row: ReachedBlock) => [row.block_id, row]));
+  const routes = (result.rows as ReachedBlock[])
+    .filter(row => row.distance > 0)
+    .sort((a, b) => a.distance - b.distance)
+    .map(row => {
+      const blockIds = [row.block_id];
+      const types: string[] = [];
+      for (let step = row; step.parent_id; step = reached.get(step.parent_id)!) {
+        blockIds.unshift(step.parent_id);
+        types.unshift(step.relation_type!);
+      }
+      return { blockIds, distance: row.distance, relationTypes: types };
+    });
+
+  const blocks = await loadProjectBlocks(db, projectId, routes.flatMap(route => route.blockIds));
+  return routes
+    .filter(route => route.blockIds.every(id => blocks.has(id)))
+    .map(route => ({
+      path: route.blockIds.map(id => blocks.get(id)!),
+      distance: route.distance,
+      relationTypes: route.relationTypes
+    }));
+}
+
+// Breadth-first walk through the request's loaders. When a list of blocks asks for its related
+// blocks, each level is one batched query for the whole list. Paths exclude the starting block.
+export async function findRelatedBlocks(
+  loaders: GraphLoaders,
+  blockId: string,
+  maxDepth: number,
+  limit = RELATED_BLOCKS_LIMIT
+): Promise<BlockConnection[]> {
+  const visited = new Set([blockId]);
+  const found: { blockIds: string[]; relationTypes: string[] }[] = [];
+  let frontier = [{ blockId, blockIds: [] as string[], relationTypes: [] as string[] }];
+
+  for (let distance = 1; distance <= maxDepth && frontier.length > 0 && found.length < limit; distance++) {
+    const relations = await loaders.relationsByBlock.loadMany(frontier.map(entry => entry.blockId));
+    const next: typeof frontier = [];
+
+    frontier.forEach((entry, i) => {
+      const rows = relations[i];
+      if (rows instanceof Error) {
+        throw rows;
+      }
+
+      for (const relation of rows) {
+        const neighbor = relation.from_block_id === entry.blockId ? relation.to_block_id : relation.from_block_id;
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+        next.push({
+          blockId: neighbor,
+          blockIds: [...entry.blockIds, neighbor],
+          relationTypes: [...entry.relationTypes, relation.relation_type]
+        });
+      }
+    });
+
+    found.push(...next);
+    frontier = next;
+  }
+
+  const routes = found.slice(0, limit);
+  const loaded = await loaders.block.loadMany(Array.from(new Set(routes.flatMap(route => route.blockIds))));
+  const blocks = new Map<string, Block>();
+  for (const block of loaded) {
+    if (block && !(block instanceof Error)) {
+      blocks.set(block.id, block);
+    }
+  }
+
+  return routes
+    .filter(route => route.blockIds.every(id => blocks.has(id)))
+    .map(route => ({
+      path: route.blockIds.map(id => blocks.get(id)!),
+      distance: route.blockIds.length,
+      relationTypes: route.relationTypes
+    }));
+}
+
+async function loadProjectBlocks(db: Database, projectId: string, blockIds: string[]): Promise<Map<string, Block>> {
+  if (blockIds.length === 0) {
+    return new Map();
+  }
+
+  const result = await db.query(`
+    SELECT * FROM blocks
+    WHERE project_id = $1 AND id = ANY($2)
+  `, [projectId, Array.from(new Set(blockIds))]);
+
+  return new Map(result.rows.map((block: Block) => [block.id, block]));
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { OperationDefinitionNode, buildSchema, parse } from 'graphql';
+import { QueryLimits, checkQueryLimits } from './graphql-limits.js';
+
+const schema = buildSchema(`
+  type Query {
+    project(id: ID!): Project
+    exploreRelations(blockId: ID!, maxDepth: Int = 3): [BlockConnection!]!
+  }
+
+  type Project {
+    id: ID!
+    name: String!
+    blocks(limit: Int): [Block!]!
+  }
+
+  type Block {
+    id: ID!
+    title: String!
+    project: Project!
+    relatedBlocks(maxDepth: Int = 1): [BlockConnection!]!
+  }
+
+  type BlockConnection {
+    distance: Int!
+    path: [Block!]!
+  }
+`);
+
+const LIMITS: QueryLimits = { maxDepth: 10, maxComplexity: 10000, maxTraversalDepth: 5 };
+
+function check(query: string, limits: Partial<QueryLimits> = {}, variables: Record<string, unknown> = {}) {
+  const document = parse(query);
+  const operation = document.definitions.find(
+    (definition): definition is OperationDefinitionNode => definition.kind === 'OperationDefinition'
+  )!;
+  return checkQueryLimits(schema, document, operation, variables, { ...LIMITS, ...limits })
+    .map(error => error.extensions);
+}
+
+describe('checkQueryLimits', () => {
+  describe('depth', () => {
+    // project > blocks > project > blocks > id
+    const query = '{ project(id: "p") { blocks(limit: 1) { project { blocks(limit: 1) { id } } } } }';
+
+    it('accepts a query exactly at the maximum depth', () => {
+      expect(check(query, { maxDepth: 5 })).toEqual([]);
+    });
+
+    it('rejects a query one level over', () => {
+      expect(check(query, { maxDepth: 4 })).toEqual([
+        { code: 'QUERY_TOO_DEEP', depth: 5, limit: 4, http: { status: 400 } }
+      ]);
+    });
+  });
+
+  describe('complexity', () => {
+    // project (1) + 5 blocks x (id + title)
+    const query = '{ project(id: "p") { blocks(limit: 5) { id title } } }';
+
+    it('accepts a query exactly at the maximum complexity', () => {
+      expect(check(query, { maxComplexity: 12 })).toEqual([]);
+    });
+
+    it('rejects a query one point over', () => {
+      expect(check(query, { maxComplexity: 11 })).toEqual([
+        { code: 'QUERY_TOO_COMPLEX', complexity: 12, limit: 11, http: { status: 400 } }
+      ]);
+    });
+
+    it('assumes ten items for a list without a size argument and multiplies by traversal depth', () => {
+      // 10 connections x maxDepth 2 x distance, plus the field itself
+      expect(check('{ exploreRelations(blockId: "b", maxDepth: 2) { distance } }', { maxComplexity: 20 }))
+        .toMatchObject([{ code: 'QUERY_TOO_COMPLEX', complexity: 21 }]);
+    });
+
+    it('does not charge for introspection', () => {
+      expect(check('{ __schema { types { name fields { name } } } }', { maxComplexity: 0, maxDepth: 0 })).toEqual([]);
+    });
+  });
+
+  describe('traversal depth', () => {
+    it('accepts a traversal at the maximum depth', () => {
+      expect(check('{ exploreRelations(blockId: "b", maxDepth: 5) { distance } }')).toEqual([]);
+    });
+
+    it('rejects a traversal one hop over, including one asked for through a variable', () => {
+      const expected = [{ code: 'TRAVERSAL_TOO_DEEP', field: 'exploreRelations', requested: 6, limit: 5, http: { status: 400 } }];
+
+      expect(check('{ exploreRelations(blockId: "b", maxDepth: 6) { distance } }')).toEqual(expected);
+      expect(check('query ($depth: Int) { exploreRelations(blockId: "b", maxDepth: $depth) { distance } }', {}, { depth: 6 }))
+        .toEqual(expected);
+    });
+
+    it('checks nested traversal fields too', () => {
+      expect(check('{ project(id: "p") { blocks(limit: 1) { relatedBlocks(maxDepth: 9) { distance } } } }'))
+        .toMatchObject([{ code: 'TRAVERSAL_TOO_DEEP', field: 'relatedBlocks', requested: 9 }]);
+    });
+  });
+
+  describe('fragments', () => {
+    it('measures fields reached through fragments and inline fragments', () => {
+      const query = `
+        { project(id: "p") { ...ProjectBlocks } }
+        fragment ProjectBlocks on Project { blocks(limit: 5) { ... on Block { id title } } }
+      `;
+
+      expect(check(query, { maxComplexity: 11 })).toMatchObject([{ code: 'QUERY_TOO_COMPLEX', complexity: 12 }]);
+    });
+
+    it('stops at a fragment that spreads itself', () => {
+      const query = `
+        { project(id: "p") { ...Loop } }
+        fragment Loop on Project { name ...Loop }
+      `;
+
+      expect(check(query, { maxComplexity: 1 })).toMatchObject([{ code: 'QUERY_TOO_COMPLEX', complexity: 2 }]);
+    });
+
+    it('stops at fragments that spread each other through nested fields', () => {
+      const query = `
+        { project(id: "p") { ...ProjectSide } }
+        fragment ProjectSide on Project { name blocks(limit: 2) { ...BlockSide } }
+        fragment BlockSide on Block { title project { ...ProjectSide } }
+      `;
+
+      // project 1 + name 1 + blocks (1 + 2 x (title 1 + project 1)); the second ProjectSide is not expanded
+      expect(check(query)).toEqual([]);
+      expect(check(query, { maxComplexity: 6, maxDepth: 2 })).toMatchObject([
+        { code: 'QUERY_TOO_DEEP', depth: 3 },
+        { code: 'QUERY_TOO_COMPLEX', complexity: 7 }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  GraphQLError,
+  GraphQLNamedType,
+  GraphQLSchema,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  getArgumentValues,
+  getNamedType,
+  getNullableType,
+  isInterfaceType,
+  isListType,
+  isObjectType
+} from 'graphql';
+
+export interface QueryLimits {
+  maxDepth: number;
+  maxComplexity: number;
+  // Largest maxDepth / maxDegrees a traversal field may be asked for
+  maxTraversalDepth: number;
+}
+
+export const DEFAULT_QUERY_LIMITS: QueryLimits = {
+  maxDepth: parseInt(process.env.GRAPHQL_MAX_DEPTH || '10'),
+  maxComplexity: parseInt(process.env.GRAPHQL_MAX_COMPLEXITY || '10000'),
+  maxTraversalDepth: parseInt(process.env.GRAPHQL_MAX_TRAVERSAL_DEPTH || '5')
+};
+
+// Assumed size of a list field without a size argument
+const DEFAULT_LIST_SIZE = 10;
+const LIST_SIZE_ARGUMENTS = ['maxResults', 'limit', 'first'];
+const TRAVERSAL_ARGUMENTS = ['maxDepth', 'maxDegrees'];
+
+interface Measure {
+  depth: number;
+  complexity: number;
+}
+
+interface Walk {
+  schema: GraphQLSchema;
+  fragments: Map<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+  limits: QueryLimits;
+  errors: GraphQLError[];
+  // Fragments being expanded, so a cyclic spread in an unvalidated document cannot recurse forever
+  expanding: Set<string>;
+}
+
+function limitError(message: string, code: string, extensions: Record<string, unknown> = {}): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: { code, ...extensions, http: { status: 400 } }
+  });
+}
+
+// Each field costs 1 plus its selections, multiplied by the expected list size for list fields
+// and by the requested depth for traversal fields. Introspection fields are free.
+function measureSelections(walk: Walk, selectionSet: SelectionSetNode, parentType: GraphQLNamedType | undefined): Measure {
+  let depth = 0;
+  let complexity = 0;
+
+  for (const selection of selectionSet.selections) {
+    let measure: Measure;
+
+    if (selection.kind === Kind.FIELD) {
+      if (selection.name.value.startsWith('__')) continue;
+
+      const field = isObjectType(parentType) || isInterfaceType(parentType)
+        ? parentType.getFields()[selection.name.value]
+        : undefined;
+      if (!field) continue;
+
+      // Bad argument values are left for execution to report
+      let args: Record<string, unknown> = {};
+      try {
+        args = getArgumentValues(field, selection, walk.variables);
+      } catch {}
+      let multiplier = 1;
+
+      if (isListType(getNullableType(field.type))) {
+        const size = LIST_SIZE_ARGUMENTS.map(name => args[name]).find(value => typeof value === 'number');
+        multiplier *= Math.max(1, (size as number | undefined) ?? DEFAULT_LIST_SIZE);
+      }
+
+      for (const name of TRAVERSAL_ARGUMENTS) {
+        const requested = args[name];
+        if (typeof requested !== 'number') continue;
+
+        if (requested > walk.limits.maxTraversalDepth) {
+          walk.errors.push(limitError(
+            `${field.name}(${name}: ${requested}) exceeds the maximum traversal depth of ${walk.limits.maxTraversalDepth}`,
+            'TRAVERSAL_TOO_DEEP',
+            { field: field.name, requested, limit: walk.limits.maxTraversalDepth }
+          ));
+        }
+        multiplier *= Math.max(1, requested);
+      }
+
+      const children = selection.selectionSet
+        ? measureSelections(walk, selection.selectionSet, getNamedType(field.type))
+        : { depth: 0, complexity: 0 };
+      measure = { depth: children.depth + 1, complexity: 1 + multiplier * children.complexity };
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const type = selection.typeCondition ? walk.schema.getType(selection.typeCondition.name.value) : parentType;
+      measure = measureSelections(walk, selection.selectionSet, type);
+    } else {
+      const name = selection.name.value;
+      const fragment = walk.fragments.get(name);
+      if (!fragment || walk.expanding.has(name)) continue;
+
+      walk.expanding.add(name);
+      measure = measureSelections(walk, fragment.selectionSet, walk.schema.getType(fragment.typeCondition.name.value));
+      walk.expanding.delete(name);
+    }
+
+    depth = Math.max(depth, measure.depth);
+    complexity += measure.complexity;
+  }
+
+  return { depth, complexity };
+}
+
+function rootType(schema: GraphQLSchema, operation: OperationDefinitionNode): GraphQLNamedType | undefined {
+  switch (operation.operation) {
+    case 'query':
+      return schema.getQueryType() || undefined;
+    case 'mutation':
+      return schema.getMutationType() || undefined;
+    case 'subscription':
+      return schema.getSubscriptionType() || undefined;
+  }
+}
+
+// Returns the errors that should reject the operation; empty when it is within the limits
+export function checkQueryLimits(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operation: OperationDefinitionNode,
+  variables: Record<string, unknown> = {},
+  limits: QueryLimits = DEFAULT_QUERY_LIMITS
+): GraphQLError[] {
+  const walk: Walk = {
+    schema,
+    fragments: new Map(
+      document.definitions
+        .filter((definition): definition is FragmentDefinitionNode => definition.kind === Kind.FRAGMENT_DEFINITION)
+        .map(fragment => [fragment.name.value, fragment])
+    ),
+    variables,
+    limits,
+    errors: [],
+    expanding: new Set()
+  };
+
+  const { depth, complexity } = measureSelections(walk, operation.selectionSet, rootType(schema, operation));
+
+  if (depth > limits.maxDepth) {
+    walk.errors.push(limitError(
+      `Query depth ${depth} exceeds the maximum of ${limits.maxDepth}`,
+      'QUERY_TOO_DEEP',
+      { depth, limit: limits.maxDepth }
+    ));
+  }
+
+  if (complexity > limits.maxComplexity) {
+    walk.errors.push(limitError(
+      `Query complexity ${complexity} exceeds the maximum of ${limits.maxComplexity}; request fewer fields, smaller lists or shallower traversals`,
+      'QUERY_TOO_COMPLEX',
+      { complexity, limit: limits.maxComplexity }
+    ));
+  }
+
+  return walk.errors;
+}
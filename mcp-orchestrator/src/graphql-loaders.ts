@@ -0,0 +1,86 @@
+import DataLoader from 'dataloader';
+import { Database } from './database.js';
+import { Block, ContextItem } from './types.js';
+
+export interface BlockRelationRow {
+  id: string;
+  project_id: string;
+  from_block_id: string;
+  to_block_id: string;
+  relation_type: string;
+  created_at: string;
+}
+
+// Batches the per-parent lookups of nested resolvers into one query per tick, so
+// projectGraph -> blocks -> dependencies costs one query for all blocks instead of one each
+export interface GraphLoaders {
+  block: DataLoader<string, Block | null>;
+  // Relations on either side of a block
+  relationsByBlock: DataLoader<string, BlockRelationRow[]>;
+  contextItemsByBlock: DataLoader<string, ContextItem[]>;
+  blocksByContextItem: DataLoader<string, Block[]>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Ids that can't be uuids resolve to nothing rather than failing the whole batch
+function queryableIds(ids: readonly string[]): string[] {
+  return Array.from(new Set(ids.filter(id => UUID_PATTERN.test(id))));
+}
+
+function groupBy<T>(ids: readonly string[], rows: T[], keysOf: (row: T) => string[]): T[][] {
+  const groups = new Map<string, T[]>(ids.map(id => [id, []]));
+  for (const row of rows) {
+    for (const key of new Set(keysOf(row))) {
+      groups.get(key)?.push(row);
+    }
+  }
+  return ids.map(id => groups.get(id)!);
+}
+
+// One set per GraphQL request. Subscriptions reuse their context for every event, so they pass
+// `cache: false` to keep batching without serving blocks as they were when the subscription began.
+export function createGraphLoaders(db: Database, options: { cache?: boolean } = {}): GraphLoaders {
+  const loaderOptions = { cache: options.cache ?? true };
+
+  const block = new DataLoader<string, Block | null>(async ids => {
+    const result = await db.query(`
+      SELECT * FROM blocks WHERE id = ANY($1)
+    `, [queryableIds(ids)]);
+    const byId = new Map<string, Block>(result.rows.map((row: Block) => [row.id, row]));
+    return ids.map(id => byId.get(id) || null);
+  }, loaderOptions);
+
+  const relationsByBlock = new DataLoader<string, BlockRelationRow[]>(async ids => {
+    const keys = queryableIds(ids);
+    const result = await db.query(`
+      SELECT * FROM block_relations
+      WHERE from_block_id = ANY($1) OR to_block_id = ANY($1)
+      ORDER BY created_at, id
+    `, [keys]);
+    return groupBy(ids, result.rows as BlockRelationRow[], row => [row.from_block_id, row.to_block_id]);
+  }, loaderOptions);
+
+  const contextItemsByBlock = new DataLoader<string, ContextItem[]>(async ids => {
+    const result = await db.query(`
+      SELECT ci.*, cl.block_id AS linked_block_id
+      FROM context_items ci
+      INNER JOIN context_links cl ON cl.context_id = ci.id
+      WHERE cl.block_id = ANY($1)
+      ORDER BY ci.created_at DESC
+    `, [queryableIds(ids)]);
+    return groupBy(ids, result.rows, (row: any) => [row.linked_block_id]);
+  }, loaderOptions);
+
+  const blocksByContextItem = new DataLoader<string, Block[]>(async ids => {
+    const result = await db.query(`
+      SELECT b.*, cl.context_id AS linked_context_id
+      FROM blocks b
+      INNER JOIN context_links cl ON cl.block_id = b.id
+      WHERE cl.context_id = ANY($1)
+    `, [queryableIds(ids)]);
+    return groupBy(ids, result.rows, (row: any) => [row.linked_context_id]);
+  }, loaderOptions);
+
+  return { block, relationsByBlock, contextItemsByBlock, blocksByContextItem };
+}
@@ -1,8 +1,29 @@
 import { ApolloServer, BaseContext } from '@apollo/server';
-import { startStandaloneServer } from '@apollo/server/standalone';
+import { expressMiddleware } from '@apollo/server/express4';
+import { ApolloServerPluginDrainHttpServer } from '@apollo/server/plugin/drainHttpServer';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import express from 'express';
+import cors from 'cors';
+import http from 'http';
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/lib/use/ws';
 import gql from 'graphql-tag';
+import { GraphQLError, GraphQLSchema, getOperationAST, parse, validate } from 'graphql';
+import { v4 as uuidv4 } from 'uuid';
+import { FrizyToolInputs, FrizyToolName, ToolInputError, parseToolInput } from '@frizy/mcp-tools';
 import { Database } from './database.js';
 import { ContextService } from './context-service.js';
+import { EmbeddingService } from './embedding-service.js';
+import { HybridSearchFilters, hybridSearch } from './hybrid-search.js';
+import { EventBus } from './event-bus.js';
+import { EventConsumer } from './event-consumer.js';
+import { GraphLoaders, createGraphLoaders } from './graphql-loaders.js';
+import { checkQueryLimits } from './graphql-limits.js';
+import { findConnectedBlocks, findRelatedBlocks } from './graph-traversal.js';
+import { BlockChange, SubscriptionProjection, blockTopic, eventTopic } from './projections/subscription-projection.js';
+import { assertNoDependencyCycle, DependencyCycleError, getCriticalPath } from './critical-path.js';
+import { AuthError, Authenticator, ForbiddenError, Principal } from './auth.js';
+import { ApiTokenScope, Block, Event, NewEvent, NewEventSchema } from './types.js';
 
 // GraphQL type definitions
 const typeDefs = gql`
@@ -29,7 +50,63 @@ const typeDefs = gql`
       maxResults: Int = 10
       includeBlocks: Boolean = true
       includeContext: Boolean = true
+      filters: ContextSearchFilters
     ): ContextSearchResult
+    criticalPath(projectId: ID!, goalBlockId: ID!): CriticalPath!
+  }
+
+  # Every mutation appends an event to the log and returns it; read models catch up asynchronously.
+  # The id of a created block or context item is in the event payload.
+  type Mutation {
+    createBlock(projectId: ID!, input: CreateBlockInput!): Event!
+    moveBlock(projectId: ID!, blockId: ID!, lane: BlockLane!): Event!
+    updateProgress(projectId: ID!, blockId: ID!, progress: Int!, notes: String): Event!
+    captureContext(projectId: ID!, input: CaptureContextInput!): Event!
+    linkBlocks(
+      projectId: ID!
+      fromBlockId: ID!
+      toBlockId: ID!
+      relationType: String = "depends_on"
+    ): Event!
+  }
+
+  # Served over websockets (graphql-ws protocol) on the same URL
+  type Subscription {
+    eventAppended(projectId: ID!): Event!
+    blockChanged(projectId: ID!): BlockChange!
+  }
+
+  input CreateBlockInput {
+    title: String!
+    content: String
+    lane: BlockLane = current
+    priority: BlockPriority = medium
+    effort: Int
+  }
+
+  input CaptureContextInput {
+    type: String!
+    title: String
+    content: String!
+    blockIds: [ID!] = []
+    tags: [String!] = []
+    importance: String = "medium"
+    confidence: Float
+  }
+
+  type Event {
+    id: ID!
+    project_id: ID!
+    type: String!
+    actor_id: ID
+    payload: JSON!
+    created_at: DateTime!
+  }
+
+  # block is the projected state after the event, or null once the block is deleted
+  type BlockChange {
+    event: Event!
+    block: Block
   }
 
   type Project {
@@ -64,6 +141,7 @@ const typeDefs = gql`
     priority: BlockPriority!
     progress: Int!
     effort: Int
+    number: Int
     last_worked_at: DateTime
     created_at: DateTime!
     updated_at: DateTime!
@@ -130,11 +208,43 @@ const typeDefs = gql`
     max_depth_reached: Int!
   }
 
+  type CriticalPath {
+    goal: Block!
+    path: [Block!]!
+    total_effort: Int!
+    nodes: [CriticalPathNode!]!
+    cycle: [ID!]
+  }
+
+  type CriticalPathNode {
+    block: Block!
+    duration: Int!
+    estimated: Boolean!
+    earliest_start: Int!
+    earliest_finish: Int!
+    latest_start: Int!
+    latest_finish: Int!
+    slack: Int!
+    critical: Boolean!
+  }
+
+  # types matches a result type (a context item type, "block_<lane>", or "block" for every block).
+  # lanes and statuses only exist on blocks, so setting either leaves context items out.
+  input ContextSearchFilters {
+    types: [String!]
+    lanes: [BlockLane!]
+    statuses: [BlockStatus!]
+    createdAfter: DateTime
+    createdBefore: DateTime
+  }
+
   type ContextSearchResult {
     query: String!
     results: [ContextSearchItem!]!
     total_results: Int!
     processing_time: Float!
+    # False when only the keyword ranking ran (no embeddings or pgvector)
+    semantic: Boolean!
   }
 
   type ContextSearchItem {
@@ -144,8 +254,16 @@ const typeDefs = gql`
     content: String!
     relevance_score: Float!
     source: String!
+    lane: BlockLane
+    status: BlockStatus
     created_at: DateTime!
+    # Matched terms wrapped in <mark>
     highlight: String
+    token_count: Int!
+    # 1-based positions in the full-text and vector rankings; null when that ranking missed the item
+    keyword_rank: Int
+    semantic_rank: Int
+    similarity: Float
   }
 
   type ProjectStats {
@@ -185,10 +303,66 @@ const typeDefs = gql`
   }
 `;
 
+// Every root field is scoped to a project; nested fields are only reachable through an authorized root
+async function authorizeProject(context: GraphQLContext, projectId: string, scope: ApiTokenScope) {
+  if (!context.principal) {
+    throw new GraphQLError(context.authError || 'Authentication required', {
+      extensions: { code: 'UNAUTHENTICATED', http: { status: 401 } }
+    });
+  }
+
+  try {
+    await context.authenticator.authorize(context.principal, projectId, scope);
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      throw new GraphQLError(error.message, {
+        extensions: { code: 'FORBIDDEN', http: { status: 403 } }
+      });
+    }
+    throw error;
+  }
+}
+
+// Mutation arguments follow the same rules as the matching MCP tools
+function parseMutationInput<N extends FrizyToolName>(name: N, args: unknown): FrizyToolInputs[N] {
+  try {
+    return parseToolInput(name, args);
+  } catch (error) {
+    if (error instanceof ToolInputError) {
+      throw new GraphQLError(error.message, { extensions: { code: 'BAD_USER_INPUT' } });
+    }
+    throw error;
+  }
+}
+
+async function requireBlock(db: Database, blockId: string, projectId: string): Promise<Block> {
+  const block = await db.getBlock(blockId);
+  if (!block || block.project_id !== projectId) {
+    throw new GraphQLError(`Block ${blockId} not found in project ${projectId}`, {
+      extensions: { code: 'NOT_FOUND' }
+    });
+  }
+  return block;
+}
+
+// Validates the event against EventSchema before it reaches the log, attributed to the caller
+async function appendEvent(context: GraphQLContext, event: Omit<NewEvent, 'actor_id'>): Promise<Event> {
+  const parsed = NewEventSchema.safeParse({ ...event, actor_id: context.principal?.user.id });
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new GraphQLError(`Invalid ${event.type} event: ${issues}`, {
+      extensions: { code: 'BAD_USER_INPUT' }
+    });
+  }
+  return await context.db.createEvent(parsed.data);
+}
+
 // GraphQL resolvers
 const resolvers = {
   Query: {
-    async project(parent: any, { id }: { id: string }, { db }: { db: Database }) {
+    async project(parent: any, { id }: { id: string }, context: GraphQLContext) {
+      await authorizeProject(context, id, 'graph:read');
+      const { db } = context;
       const project = await db.getProject(id);
       if (!project) {
         throw new Error(`Project ${id} not found`);
@@ -196,8 +370,9 @@ const resolvers = {
       return project;
     },
 
-    async projectGraph(parent: any, { id }: { id: string }, { db }: { db: Database }) {
-      return await db.getProjectGraph(id);
+    async projectGraph(parent: any, { id }: { id: string }, context: GraphQLContext) {
+      await authorizeProject(context, id, 'graph:read');
+      return await context.db.getProjectGraph(id);
     },
 
     async exploreRelations(
@@ -208,9 +383,10 @@ const resolvers = {
         maxDepth?: number;
         relationTypes?: string[];
       },
-      { db }: { db: Database }
+      context: GraphQLContext
     ) {
-      return await exploreBlockRelations(db, projectId, startingBlockId, maxDepth, relationTypes);
+      await authorizeProject(context, projectId, 'graph:read');
+      return await exploreBlockRelations(context.db, projectId, startingBlockId, maxDepth, relationTypes);
     },
 
     async findConnectedBlocks(
@@ -220,43 +396,215 @@ const resolvers = {
         blockIds: string[];
         maxDegrees?: number;
       },
-      { db }: { db: Database }
+      context: GraphQLContext
     ) {
-      return await findBlockConnections(db, projectId, blockIds, maxDegrees);
+      await authorizeProject(context, projectId, 'graph:read');
+      return await findConnectedBlocks(context.db, projectId, blockIds, maxDegrees);
     },
 
     async contextSearch(
       parent: any,
-      { projectId, query, maxResults = 10, includeBlocks = true, includeContext = true }: {
+      { projectId, query, maxResults = 10, includeBlocks = true, includeContext = true, filters }: {
         projectId: string;
         query: string;
         maxResults?: number;
         includeBlocks?: boolean;
         includeContext?: boolean;
+        filters?: HybridSearchFilters | null;
       },
-      { db, contextService }: { db: Database; contextService: ContextService }
+      context: GraphQLContext
     ) {
+      await authorizeProject(context, projectId, 'context:read');
       const startTime = Date.now();
-      
-      const preview = await contextService.generateContextPreview(projectId, {
-        maxTokens: maxResults * 200,
+
+      const { hits, total, semantic } = await hybridSearch(context.db, context.embeddingService, projectId, query, {
+        limit: maxResults,
         includeBlocks,
         includeContext,
-        userQuery: query
+        filters: filters || undefined
       });
 
       const processingTime = (Date.now() - startTime) / 1000;
 
       return {
         query,
-        results: preview.preview.slice(0, maxResults).map(item => ({
-          ...item,
-          relevance_score: item.score,
-          highlight: generateHighlight(item.content, query)
-        })),
-        total_results: preview.total_items,
-        processing_time: processingTime
+        results: hits,
+        total_results: total,
+        processing_time: processingTime,
+        semantic
       };
+    },
+
+    async criticalPath(
+      parent: any,
+      { projectId, goalBlockId }: { projectId: string; goalBlockId: string },
+      context: GraphQLContext
+    ) {
+      await authorizeProject(context, projectId, 'graph:read');
+      return await getCriticalPath(context.db, projectId, goalBlockId);
+    }
+  },
+
+  Mutation: {
+    async createBlock(
+      parent: any,
+      { projectId, input }: { projectId: string; input: Record<string, any> },
+      context: GraphQLContext
+    ) {
+      await authorizeProject(context, projectId, 'events:write');
+      const block = parseMutationInput('frizy_create_block', { ...input, project_id: projectId });
+
+      return await appendEvent(context, {
+        project_id: projectId,
+        type: 'block.created',
+        payload: {
+          id: uuidv4(),
+          title: block.title,
+          content: block.content,
+          lane: block.lane,
+          priority: block.priority,
+          effort: block.effort
+        }
+      });
+    },
+
+    async moveBlock(
+      parent: any,
+      { projectId, blockId, lane }: { projectId: string; blockId: string; lane: string },
+      context: GraphQLContext
+    ) {
+      await authorizeProject(context, projectId, 'events:write');
+      const input = parseMutationInput('frizy_move_block', { project_id: projectId, block_id: blockId, lane });
+      const block = await requireBlock(context.db, blockId, projectId);
+
+      return await appendEvent(context, {
+        project_id: projectId,
+        type: 'block.moved',
+        payload: { id: blockId, lane: input.lane, previous_lane: block.lane }
+      });
+    },
+
+    async updateProgress(
+      parent: any,
+      { projectId, blockId, progress, notes }: { projectId: string; blockId: string; progress: number; notes?: string },
+      context: GraphQLContext
+    ) {
+      await authorizeProject(context, projectId, 'events:write');
+      const input = parseMutationInput('frizy_update_progress', {
+        project_id: projectId,
+        block_id: blockId,
+        progress,
+        notes: notes ?? undefined
+      });
+      const block = await requireBlock(context.db, blockId, projectId);
+
+      return await appendEvent(context, {
+        project_id: projectId,
+        type: 'block.progress_updated',
+        payload: {
+          id: blockId,
+          progress: input.progress,
+          previous_progress: block.progress,
+          notes: input.notes
+        }
+      });
+    },
+
+    async captureContext(
+      parent: any,
+      { projectId, input }: { projectId: string; input: Record<string, any> },
+      context: GraphQLContext
+    ) {
+      await authorizeProject(context, projectId, 'events:write');
+      const { blockIds, ...fields } = input;
+      const item = parseMutationInput('frizy_capture_context', {
+        ...fields,
+        project_id: projectId,
+        block_ids: blockIds ?? undefined,
+        tags: fields.tags ?? undefined
+      });
+
+      for (const blockId of item.block_ids) {
+        await requireBlock(context.db, blockId, projectId);
+      }
+
+      const contextId = uuidv4();
+      const event = await appendEvent(context, {
+        project_id: projectId,
+        type: 'context.captured',
+        payload: {
+          id: contextId,
+          type: item.type,
+          title: item.title,
+          content: item.content,
+          tags: item.tags,
+          importance: item.importance,
+          confidence: item.confidence,
+          source: 'graphql'
+        }
+      });
+
+      for (const blockId of item.block_ids) {
+        await appendEvent(context, {
+          project_id: projectId,
+          type: 'context.linked',
+          payload: { context_id: contextId, block_id: blockId }
+        });
+      }
+
+      return event;
+    },
+
+    async linkBlocks(
+      parent: any,
+      { projectId, fromBlockId, toBlockId, relationType = 'depends_on' }: {
+        projectId: string;
+        fromBlockId: string;
+        toBlockId: string;
+        relationType?: string;
+      },
+      context: GraphQLContext
+    ) {
+      await authorizeProject(context, projectId, 'events:write');
+      await requireBlock(context.db, fromBlockId, projectId);
+      await requireBlock(context.db, toBlockId, projectId);
+
+      const relation = { from_block_id: fromBlockId, to_block_id: toBlockId, relation_type: relationType };
+      try {
+        await assertNoDependencyCycle(context.db, projectId, relation);
+      } catch (error) {
+        if (error instanceof DependencyCycleError) {
+          throw new GraphQLError(error.message, {
+            extensions: { code: 'DEPENDENCY_CYCLE', cycle: error.cycle }
+          });
+        }
+        throw error;
+      }
+
+      return await appendEvent(context, {
+        project_id: projectId,
+        type: 'block.relation_added',
+        payload: relation
+      });
+    }
+  },
+
+  // Authorized once, when the subscription starts
+  Subscription: {
+    eventAppended: {
+      async subscribe(parent: any, { projectId }: { projectId: string }, context: GraphQLContext) {
+        await authorizeProject(context, projectId, 'graph:read');
+        return context.bus.subscribe(eventTopic(projectId));
+      },
+      resolve: (event: Event) => event
+    },
+
+    blockChanged: {
+      async subscribe(parent: any, { projectId }: { projectId: string }, context: GraphQLContext) {
+        await authorizeProject(context, projectId, 'graph:read');
+        return context.bus.subscribe(blockTopic(projectId));
+      },
+      resolve: (change: BlockChange) => change
     }
   },
 
@@ -279,48 +627,42 @@ const resolvers = {
   },
 
   Block: {
-    async relatedBlocks(block: any, { maxDepth = 1 }: { maxDepth?: number }, { db }: { db: Database }) {
-      return await findRelatedBlocks(db, block.id, maxDepth);
+    async relatedBlocks(block: any, { maxDepth = 1 }: { maxDepth?: number }, { loaders }: GraphQLContext) {
+      return await findRelatedBlocks(loaders, block.id, maxDepth);
+    },
+
+    async contextItems(block: any, args: any, { loaders }: GraphQLContext) {
+      return await loaders.contextItemsByBlock.load(block.id);
     },
 
-    async contextItems(block: any, args: any, { db }: { db: Database }) {
-      // Find context items linked to this block
-      const result = await db.query(`
-        SELECT ci.* FROM context_items ci
-        INNER JOIN context_links cl ON cl.context_id = ci.id
-        WHERE cl.block_id = $1
-        ORDER BY ci.created_at DESC
-      `, [block.id]);
-      return result.rows;
+    async dependencies(block: any, args: any, { loaders }: GraphQLContext) {
+      const relations = await loaders.relationsByBlock.load(block.id);
+      return await loadBlocks(loaders, relations
+        .filter(relation => relation.to_block_id === block.id && relation.relation_type === 'depends_on')
+        .map(relation => relation.from_block_id));
     },
 
-    async dependencies(block: any, args: any, { db }: { db: Database }) {
-      const result = await db.query(`
-        SELECT b.* FROM blocks b
-        INNER JOIN block_relations br ON br.from_block_id = b.id
-        WHERE br.to_block_id = $1 AND br.relation_type = 'depends_on'
-      `, [block.id]);
-      return result.rows;
+    async dependents(block: any, args: any, { loaders }: GraphQLContext) {
+      const relations = await loaders.relationsByBlock.load(block.id);
+      return await loadBlocks(loaders, relations
+        .filter(relation => relation.from_block_id === block.id && relation.relation_type === 'depends_on')
+        .map(relation => relation.to_block_id));
+    }
+  },
+
+  BlockRelation: {
+    async from_block(relation: any, args: any, { loaders }: GraphQLContext) {
+      return await loaders.block.load(relation.from_block_id);
     },
 
-    async dependents(block: any, args: any, { db }: { db: Database }) {
-      const result = await db.query(`
-        SELECT b.* FROM blocks b
-        INNER JOIN block_relations br ON br.to_block_id = b.id
-        WHERE br.from_block_id = $1 AND br.relation_type = 'depends_on'
-      `, [block.id]);
-      return result.rows;
+    async to_block(relation: any, args: any, { loaders }: GraphQLContext) {
+      return await loaders.block.load(relation.to_block_id);
     }
   },
 
   ContextItem: {
-    async linkedBlocks(contextItem: any, args: any, { db }: { db: Database }) {
-      const result = await db.query(`
-        SELECT b.* FROM blocks b
-        INNER JOIN context_links cl ON cl.block_id = b.id
-        WHERE cl.context_id = $1
-      `, [contextItem.id]);
-      return result.rows;
+    async linkedBlocks(contextItem: any, args: any, { loaders }: GraphQLContext) {
+      return await loaders.blocksByContextItem.load(contextItem.id);
     },
 
     async relatedItems(contextItem: any, { similarity = 0.7 }: { similarity?: number }, { db }: { db: Database }) {
@@ -351,6 +693,11 @@ const resolvers = {
 };
 
 // Helper functions for complex graph operations
+async function loadBlocks(loaders: GraphLoaders, blockIds: string[]): Promise<Block[]> {
+  const blocks = await loaders.block.loadMany(blockIds);
+  return blocks.filter((block): block is Block => Boolean(block) && !(block instanceof Error));
+}
+
 async function exploreBlockRelations(
   db: Database,
   projectId: string,
@@ -372,112 +719,20 @@ async function exploreBlockRelations(
     startBlock = result.rows[0];
   }
 
-  if (!startBlock) {
+  if (!startBlock || startBlock.project_id !== projectId) {
     throw new Error('No starting block found');
   }
 
-  const connections = await findBlockConnections(db, projectId, [startBlock.id], maxDepth);
+  const connections = await findConnectedBlocks(db, projectId, [startBlock.id], maxDepth, relationTypes);
   
   return {
     starting_block: startBlock,
     connected_blocks: connections,
     total_connections: connections.length,
-    max_depth_reached: Math.max(...connections.map(c => c.distance))
+    max_depth_reached: connections.reduce((deepest, connection) => Math.max(deepest, connection.distance), 0)
   };
 }
 
-async function findBlockConnections(
-  db: Database,
-  projectId: string,
-  startingBlockIds: string[],
-  maxDegrees: number
-): Promise<any[]> {
-  const connections: any[] = [];
-  const visited = new Set<string>();
-  const queue: { blockId: string; path: string[]; distance: number }[] = [];
-
-  // Initialize queue with starting blocks
-  for (const blockId of startingBlockIds) {
-    queue.push({ blockId, path: [blockId], distance: 0 });
-    visited.add(blockId);
-  }
-
-  while (queue.length > 0 && maxDegrees > 0) {
-    const { blockId, path, distance } = queue.shift()!;
-
-    if (distance >= maxDegrees) continue;
-
-    // Find directly connected blocks
-    const result = await db.query(`
-      SELECT br.*, b_from.title as from_title, b_to.title as to_title
-      FROM block_relations br
-      INNER JOIN blocks b_from ON br.from_block_id = b_from.id
-      INNER JOIN blocks b_to ON br.to_block_id = b_to.id
-      WHERE (br.from_block_id = $1 OR br.to_block_id = $1)
-      AND (b_from.project_id = $2 OR b_to.project_id = $2)
-    `, [blockId, projectId]);
-
-    for (const relation of result.rows) {
-      const nextBlockId = relation.from_block_id === blockId 
-        ? relation.to_block_id 
-        : relation.from_block_id;
-
-      if (!visited.has(nextBlockId)) {
-        visited.add(nextBlockId);
-        const newPath = [...path, nextBlockId];
-        
-        connections.push({
-          path: await getBlocksForPath(db, newPath),
-          distance: distance + 1,
-          relationTypes: [relation.relation_type]
-        });
-
-        queue.push({
-          blockId: nextBlockId,
-          path: newPath,
-          distance: distance + 1
-        });
-      }
-    }
-  }
-
-  return connections;
-}
-
-async function getBlocksForPath(db: Database, blockIds: string[]): Promise<any[]> {
-  if (blockIds.length === 0) return [];
-  
-  const placeholders = blockIds.map((_, i) => `$${i + 1}`).join(',');
-  const result = await db.query(`
-    SELECT * FROM blocks WHERE id IN (${placeholders})
-  `, blockIds);
-  
-  // Maintain order
-  const blockMap = new Map(result.rows.map((block: any) => [block.id, block]));
-  return blockIds.map(id => blockMap.get(id)).filter(Boolean);
-}
-
-async function findRelatedBlocks(db: Database, blockId: string, maxDepth: number): Promise<any[]> {
-  const result = await db.query(`
-    SELECT br.*, b.*
-    FROM block_relations br
-    INNER JOIN blocks b ON (
-      CASE 
-        WHEN br.from_block_id = $1 THEN br.to_block_id = b.id
-        ELSE br.from_block_id = b.id
-      END
-    )
-    WHERE br.from_block_id = $1 OR br.to_block_id = $1
-    LIMIT 20
-  `, [blockId]);
-
-  return result.rows.map((row: any) => ({
-    path: [row],
-    distance: 1,
-    relationTypes: [row.relation_type]
-  }));
-}
-
 async function generateProjectStats(db: Database, projectId: string): Promise<any> {
   const [blocksResult, contextResult, githubResult] = await Promise.all([
     db.query('SELECT status, lane, priority FROM blocks WHERE project_id = $1', [projectId]),
@@ -534,52 +789,163 @@ async function generateProjectStats(db: Database, projectId: string): Promise<an
   };
 }
 
-function generateHighlight(content: string, query: string): string {
-  const words = query.toLowerCase().split(/\s+/);
-  let highlighted = content;
-  
-  for (const word of words) {
-    if (word.length > 2) {
-      const regex = new RegExp(`(${word})`, 'gi');
-      highlighted = highlighted.replace(regex, '<mark>$1</mark>');
-    }
-  }
-  
-  return highlighted.slice(0, 200) + (highlighted.length > 200 ? '...' : '');
-}
-
 interface GraphQLContext extends BaseContext {
   db: Database;
   contextService: ContextService;
-  user?: string;
+  embeddingService: EmbeddingService;
+  authenticator: Authenticator;
+  bus: EventBus;
+  loaders: GraphLoaders;
+  // Null when the request carried no valid credentials; authError says why
+  principal: Principal | null;
+  authError?: string;
 }
 
 export class GraphQLServer {
   private server: ApolloServer<GraphQLContext>;
+  private schema: GraphQLSchema;
   private db: Database;
   private contextService: ContextService;
+  private embeddingService: EmbeddingService;
+  private authenticator: Authenticator;
+  private bus = new EventBus();
+  private subscriptionFeed: EventConsumer | null = null;
+  private httpServer: http.Server | null = null;
 
   constructor(db: Database, contextService: ContextService) {
     this.db = db;
     this.contextService = contextService;
+    this.embeddingService = new EmbeddingService(db);
+    this.authenticator = new Authenticator(db);
+    this.schema = makeExecutableSchema({ typeDefs, resolvers });
     
     this.server = new ApolloServer<GraphQLContext>({
-      typeDefs,
-      resolvers,
+      schema: this.schema,
+      plugins: [{
+        // Depth and cost are checked once the operation is known, before anything runs
+        async requestDidStart() {
+          return {
+            async didResolveOperation({ document, operation, request, schema }) {
+              if (!operation) return;
+              const [error] = checkQueryLimits(schema, document, operation, request.variables);
+              if (error) {
+                throw error;
+              }
+            }
+          };
+        }
+      }]
     });
   }
 
+  // Queries and mutations over HTTP, subscriptions over websockets (graphql-ws) on the same URL.
+  // Websocket clients pass { authorization: 'Bearer ...' } as connection params.
   async startStandalone(port: number = 4001): Promise<void> {
-    const { url } = await startStandaloneServer(this.server, {
-      listen: { port },
-      context: async ({ req }: { req: any }) => ({
-        db: this.db,
-        contextService: this.contextService,
-        user: req.headers.authorization // Add auth context as needed
-      })
+    const app = express();
+    const httpServer = http.createServer(app);
+    const wsServer = new WebSocketServer({ server: httpServer, path: '/' });
+    const wsHandlers = useServer({
+      schema: this.schema,
+      context: async ({ connectionParams }) =>
+        this.createContext(connectionParams?.authorization as string | undefined, { cacheLoaders: false }),
+      onSubscribe: async (ctx, message) => this.checkSubscriptionLimits(message.payload)
+    }, wsServer);
+
+    this.server.addPlugin(ApolloServerPluginDrainHttpServer({ httpServer }));
+    this.server.addPlugin({
+      async serverWillStart() {
+        return {
+          async drainServer() {
+            await wsHandlers.dispose();
+          }
+        };
+      }
     });
 
-    console.log(`🚀 GraphQL server ready at ${url}`);
+    await this.server.start();
+    app.use('/', cors(), express.json(), expressMiddleware(this.server, {
+      context: async ({ req }) => this.createContext(req.headers.authorization)
+    }));
+
+    await this.startSubscriptionFeed();
+    await new Promise<void>(resolve => httpServer.listen(port, resolve));
+    this.httpServer = httpServer;
+
+    console.log(`🚀 GraphQL server ready at http://localhost:${port}/ (subscriptions at ws://localhost:${port}/)`);
+  }
+
+  async stop(): Promise<void> {
+    await this.subscriptionFeed?.stop();
+    this.subscriptionFeed = null;
+    if (this.httpServer) {
+      await this.server.stop();
+      this.httpServer = null;
+    }
+  }
+
+  // Subscriptions are fed by their own consumer cursor. It only ever pushes live events, so it
+  // skips to the head of the log instead of replaying history to nobody.
+  private async startSubscriptionFeed(): Promise<void> {
+    const name = process.env.GRAPHQL_SUBSCRIPTION_CURSOR || 'graphql-subscriptions';
+    const consumer = new EventConsumer(this.db, [new SubscriptionProjection(this.db, this.bus, name)], 250);
+
+    await consumer.fastForward(name);
+    await consumer.start();
+    this.subscriptionFeed = consumer;
+  }
+
+  // Returning nothing lets graphql-ws run the operation; errors reject it
+  private checkSubscriptionLimits(payload: {
+    query: string;
+    operationName?: string | null;
+    variables?: Record<string, unknown> | null;
+  }): GraphQLError[] | void {
+    let document;
+    try {
+      document = parse(payload.query);
+    } catch (error) {
+      return [error as GraphQLError];
+    }
+
+    const validationErrors = validate(this.schema, document);
+    if (validationErrors.length > 0) {
+      return [...validationErrors];
+    }
+
+    const operation = getOperationAST(document, payload.operationName);
+    if (!operation) {
+      return;
+    }
+
+    const errors = checkQueryLimits(this.schema, document, operation, payload.variables || {});
+    return errors.length > 0 ? errors : undefined;
+  }
+
+  // Credentials are resolved up front but only enforced by resolvers, so errors stay per field
+  private async createContext(
+    authorization: string | undefined,
+    options: { cacheLoaders?: boolean } = {}
+  ): Promise<GraphQLContext> {
+    const context: GraphQLContext = {
+      db: this.db,
+      contextService: this.contextService,
+      embeddingService: this.embeddingService,
+      authenticator: this.authenticator,
+      bus: this.bus,
+      loaders: createGraphLoaders(this.db, { cache: options.cacheLoaders }),
+      principal: null
+    };
+
+    try {
+      context.principal = await this.authenticator.authenticate(authorization);
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        throw error;
+      }
+      context.authError = error.message;
+    }
+
+    return context;
   }
 
   // For integration with Express (simplified approach)
@@ -36,6 +36,7 @@ async function main() {
   // Handle graceful shutdown
   const cleanup = async () => {
     console.log('\n🛑 Shutting down GraphQL server...');
+    await graphqlServer.stop();
     await db.close();
     console.log('✅ Graceful shutdown complete');
     process.exit(0);
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { RRF_K, fuseRankings } from './hybrid-search.js';
+
+const rank = (position: number) => 1 / (RRF_K + position);
+
+describe('fuseRankings', () => {
+  it('scores a keyword-only hit from its keyword rank alone', () => {
+    expect(fuseRankings([{ id: 'a' }, { id: 'b' }], [])).toEqual([
+      { id: 'a', score: rank(1), keyword_rank: 1, semantic_rank: null, similarity: null },
+      { id: 'b', score: rank(2), keyword_rank: 2, semantic_rank: null, similarity: null }
+    ]);
+  });
+
+  it('scores a semantic-only hit from its semantic rank and keeps its similarity', () => {
+    expect(fuseRankings([], [{ id: 'a', similarity: 0.91 }, { id: 'b' }])).toEqual([
+      { id: 'a', score: rank(1), keyword_rank: null, semantic_rank: 1, similarity: 0.91 },
+      { id: 'b', score: rank(2), keyword_rank: null, semantic_rank: 2, similarity: null }
+    ]);
+  });
+
+  it('adds both ranks for an item in both rankings, lifting it above single-ranking hits', () => {
+    const fused = fuseRankings(
+      [{ id: 'keyword-top' }, { id: 'both' }, { id: 'keyword-tail' }],
+      [{ id: 'semantic-top', similarity: 0.95 }, { id: 'both', similarity: 0.8 }]
+    );
+
+    expect(fused.map(item => item.id)).toEqual(['both', 'keyword-top', 'semantic-top', 'keyword-tail']);
+    expect(fused[0]).toEqual({ id: 'both', score: rank(2) + rank(2), keyword_rank: 2, semantic_rank: 2, similarity: 0.8 });
+  });
+
+  it('breaks ties by the better keyword rank, putting keyword matches before semantic-only ones', () => {
+    expect(fuseRankings([{ id: 'x' }, { id: 'y' }], [{ id: 'y' }, { id: 'x' }]).map(item => item.id))
+      .toEqual(['x', 'y']);
+    expect(fuseRankings([{ id: 'keyword' }], [{ id: 'semantic' }]).map(item => item.id))
+      .toEqual(['keyword', 'semantic']);
+  });
+
+  it('returns nothing when neither ranking matched', () => {
+    expect(fuseRankings([], [])).toEqual([]);
+  });
+});
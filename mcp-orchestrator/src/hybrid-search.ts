@@ -0,0 +1,243 @@
+import { countTokens } from '@frizy/tokenizer';
+import { Database } from './database.js';
+import { EmbeddingService } from './embedding-service.js';
+
+// Reciprocal-rank fusion constant; larger values flatten the gap between the top ranks
+export const RRF_K = 60;
+
+// How many candidates each ranking contributes before fusion
+const CANDIDATES_PER_RANKING = 100;
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+export interface HybridSearchFilters {
+  // Result types: a context item type (e.g. "decision"), a block type (e.g. "block_current") or "block" for every block
+  types?: string[];
+  // Lanes and statuses only exist on blocks, so setting either leaves context items out
+  lanes?: string[];
+  statuses?: string[];
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+export interface HybridSearchOptions {
+  limit?: number;
+  includeBlocks?: boolean;
+  includeContext?: boolean;
+  filters?: HybridSearchFilters;
+}
+
+export interface HybridSearchHit {
+  id: string;
+  item_type: 'block' | 'context_item';
+  type: string;
+  title: string;
+  content: string;
+  source: string;
+  lane: string | null;
+  status: string | null;
+  created_at: string;
+  // Query terms wrapped in <mark>; the leading fragment when only the semantic ranking matched
+  highlight: string;
+  // Fused score scaled so an item ranked first by both rankings scores 1
+  relevance_score: number;
+  keyword_rank: number | null;
+  semantic_rank: number | null;
+  similarity: number | null;
+  token_count: number;
+}
+
+export interface HybridSearchResult {
+  hits: HybridSearchHit[];
+  // Distinct candidates from both rankings, before the limit
+  total: number;
+  // False when the semantic ranking could not run and results are keyword-only
+  semantic: boolean;
+}
+
+interface RankedId {
+  id: string;
+  similarity?: number;
+}
+
+interface FusedCandidate {
+  id: string;
+  score: number;
+  keyword_rank: number | null;
+  semantic_rank: number | null;
+  similarity: number | null;
+}
+
+// Blocks and context items of one project, narrowed by the filters. Takes parameters $1 to $8;
+// ids are compared as text so it works whether the tables use uuid or text keys.
+function searchableItems(extraColumns: string): string {
+  return `
+    WITH items AS (
+      SELECT 'block'::text AS item_type, id::text AS id, 'block_' || lane AS type, title,
+        COALESCE(content, '') AS content, 'block'::text AS source, lane::text AS lane,
+        status::text AS status, created_at${extraColumns}
+      FROM blocks
+      WHERE project_id = $1 AND $2::boolean
+      UNION ALL
+      SELECT 'context_item'::text, id::text, type::text, COALESCE(title, ''),
+        content, source::text, NULL::text, NULL::text, created_at${extraColumns}
+      FROM context_items
+      WHERE project_id = $1 AND $3::boolean
+    ),
+    filtered AS (
+      SELECT * FROM items
+      WHERE ($4::text[] IS NULL OR type = ANY($4) OR (item_type = 'block' AND 'block' = ANY($4)))
+        AND ($5::text[] IS NULL OR lane = ANY($5))
+        AND ($6::text[] IS NULL OR status = ANY($6))
+        AND ($7::timestamptz IS NULL OR created_at >= $7)
+        AND ($8::timestamptz IS NULL OR created_at < $8)
+    )
+  `;
+}
+
+function filterParams(projectId: string, options: HybridSearchOptions): any[] {
+  const { includeBlocks = true, includeContext = true, filters = {} } = options;
+  const list = (values?: string[]) => (values && values.length > 0 ? values : null);
+
+  return [
+    projectId,
+    includeBlocks,
+    includeContext,
+    list(filters.types),
+    list(filters.lanes),
+    list(filters.statuses),
+    filters.createdAfter || null,
+    filters.createdBefore || null
+  ];
+}
+
+async function keywordRanking(db: Database, projectId: string, query: string, options: HybridSearchOptions): Promise<RankedId[]> {
+  const result = await db.query(`
+    ${searchableItems(', search_vector')}
+    SELECT id
+    FROM filtered, websearch_to_tsquery('english', $9) AS tsq
+    WHERE search_vector @@ tsq
+    ORDER BY ts_rank_cd(search_vector, tsq) DESC, created_at DESC
+    LIMIT $10
+  `, [...filterParams(projectId, options), query, CANDIDATES_PER_RANKING]);
+
+  return result.rows;
+}
+
+async function semanticRanking(
+  db: Database,
+  embeddings: EmbeddingService,
+  projectId: string,
+  query: string,
+  options: HybridSearchOptions
+): Promise<RankedId[]> {
+  const queryEmbedding = JSON.stringify(await embeddings.generateEmbedding(query));
+
+  // Only vectors from the active model are comparable with the query's
+  const result = await db.query(`
+    ${searchableItems(', embedding, embedding_model, embedding_dimension')}
+    SELECT id, 1 - (embedding <=> $9::vector) AS similarity
+    FROM filtered
+    WHERE embedding IS NOT NULL
+      AND embedding_model = $10
+      AND embedding_dimension = vector_dims($9::vector)
+      AND 1 - (embedding <=> $9::vector) >= $11
+    ORDER BY embedding <=> $9::vector
+    LIMIT $12
+  `, [...filterParams(projectId, options), queryEmbedding, embeddings.model, embeddings.similarityThreshold, CANDIDATES_PER_RANKING]);
+
+  return result.rows.map((row: any) => ({ id: row.id, similarity: parseFloat(row.similarity) }));
+}
+
+// Each ranking adds 1 / (RRF_K + rank) for every item it returns
+export function fuseRankings(keyword: RankedId[], semantic: RankedId[]): FusedCandidate[] {
+  const fused = new Map<string, FusedCandidate>();
+  const candidate = (id: string) => {
+    let entry = fused.get(id);
+    if (!entry) {
+      entry = { id, score: 0, keyword_rank: null, semantic_rank: null, similarity: null };
+      fused.set(id, entry);
+    }
+    return entry;
+  };
+
+  keyword.forEach((item, index) => {
+    const entry = candidate(item.id);
+    entry.keyword_rank = index + 1;
+    entry.score += 1 / (RRF_K + index + 1);
+  });
+
+  semantic.forEach((item, index) => {
+    const entry = candidate(item.id);
+    entry.semantic_rank = index + 1;
+    entry.similarity = item.similarity ?? null;
+    entry.score += 1 / (RRF_K + index + 1);
+  });
+
+  // Ties go to the better keyword rank, which is the one a user can see in the highlight
+  return [...fused.values()].sort((a, b) =>
+    b.score - a.score || (a.keyword_rank ?? Infinity) - (b.keyword_rank ?? Infinity)
+  );
+}
+
+// Full-text and vector rankings of the project's blocks and context items, merged with
+// reciprocal-rank fusion. Items only need to match one of them.
+export async function hybridSearch(
+  db: Database,
+  embeddings: EmbeddingService,
+  projectId: string,
+  query: string,
+  options: HybridSearchOptions = {}
+): Promise<HybridSearchResult> {
+  const { limit = 10 } = options;
+
+  const [keyword, semantic] = await Promise.all([
+    keywordRanking(db, projectId, query, options),
+    semanticRanking(db, embeddings, projectId, query, options).catch(error => {
+      console.warn('Semantic ranking failed, using keyword ranking only:', error);
+      return null;
+    })
+  ]);
+
+  const fused = fuseRankings(keyword, semantic || []);
+  const top = fused.slice(0, limit);
+  if (top.length === 0) {
+    return { hits: [], total: 0, semantic: semantic !== null };
+  }
+
+  const result = await db.query(`
+    ${searchableItems('')}
+    SELECT item_type, id, type, title, content, source, lane, status, created_at,
+      ts_headline('english', CASE WHEN content = '' THEN title ELSE content END,
+        websearch_to_tsquery('english', $9), $10) AS highlight
+    FROM filtered
+    WHERE id = ANY($11::text[])
+  `, [...filterParams(projectId, options), query, HEADLINE_OPTIONS, top.map(item => item.id)]);
+
+  const rows = new Map<string, any>(result.rows.map((row: any) => [row.id, row]));
+  const bestScore = 2 / (RRF_K + 1);
+
+  // An item can disappear between ranking and loading; it is simply left out
+  const hits = top.filter(item => rows.has(item.id)).map(item => {
+    const row = rows.get(item.id);
+    return {
+      id: row.id,
+      item_type: row.item_type,
+      type: row.type,
+      title: row.title,
+      content: row.content,
+      source: row.source,
+      lane: row.lane,
+      status: row.status,
+      created_at: row.created_at,
+      highlight: row.highlight,
+      relevance_score: item.score / bestScore,
+      keyword_rank: item.keyword_rank,
+      semantic_rank: item.semantic_rank,
+      similarity: item.similarity,
+      token_count: countTokens(row.title ? `${row.title}\n${row.content}` : row.content)
+    };
+  });
+
+  return { hits, total: fused.length, semantic: semantic !== null };
+}
@@ -4,6 +4,7 @@ import dotenv from 'dotenv';
 import { Database } from './database.js';
 import { ContextService } from './context-service.js';
 import { EventConsumer } from './event-consumer.js';
+import { createDefaultProjections } from './projections/index.js';
 import { v4 as uuidv4 } from 'uuid';
 
 // Load environment variables
@@ -65,7 +66,7 @@ async function runIntegrationTest() {
 
   // Start event consumer
   console.log('3️⃣ Starting event consumer...');
-  const consumer = new EventConsumer(db, 'integration-test', 500);
+  const consumer = new EventConsumer(db, createDefaultProjections(db, ['blocks']), 500);
   consumer.start();
   
   // Wait for consumer to process the project event
@@ -156,12 +157,12 @@ async function runIntegrationTest() {
       userQuery: 'authentication and UI design'
     });
 
-    console.log(`✅ Generated context preview with ${contextPreview.preview.length} items`);
+    console.log(`✅ Generated context preview with ${contextPreview.preview.length} items (${contextPreview.total_tokens}/${contextPreview.max_tokens} tokens)`);
     console.log(`📊 Summary: ${contextPreview.summary}`);
     
     console.log('\n🔍 Top context items:');
     contextPreview.preview.slice(0, 3).forEach((item, index) => {
-      console.log(`  ${index + 1}. [${item.type}] ${item.title || 'Untitled'} (score: ${item.score.toFixed(2)})`);
+      console.log(`  ${index + 1}. [${item.type}] ${item.title || 'Untitled'} (score: ${item.score.toFixed(2)}, ${item.token_count} tokens)`);
       console.log(`     ${item.content.slice(0, 80)}...`);
     });
 
@@ -0,0 +1,190 @@
+import { Database } from './database.js';
+import { FrizyResources, ResourceContents, resourceUri } from './mcp-resources.js';
+
+export const FRIZY_PROMPTS = [
+  {
+    name: 'resume_block',
+    description: 'Resume work on a block: its details, relations, linked context and recent sessions',
+    arguments: [
+      { name: 'block_id', description: 'Block to resume', required: true }
+    ]
+  },
+  {
+    name: 'plan_next_session',
+    description: 'Plan the next work session from the project context and the open blocks in the current and next lanes',
+    arguments: [
+      { name: 'project_id', description: 'Project to plan for', required: true },
+      { name: 'focus', description: 'Optional topic to focus the context on', required: false }
+    ]
+  },
+  {
+    name: 'write_session_summary',
+    description: 'Summarize what happened during a session so it can be saved with frizy_end_session',
+    arguments: [
+      { name: 'project_id', description: 'Project the session belongs to', required: true },
+      { name: 'session_id', description: 'Session to summarize; defaults to the most recent one', required: false }
+    ]
+  }
+];
+
+export type FrizyPromptName = 'resume_block' | 'plan_next_session' | 'write_session_summary';
+
+// Raised for unknown prompts, missing arguments and entities that do not exist
+export class PromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+type PromptMessage = {
+  role: 'user';
+  content: { type: 'text'; text: string } | { type: 'resource'; resource: ResourceContents };
+};
+
+export class FrizyPrompts {
+  private db: Database;
+  private resources: FrizyResources;
+
+  constructor(database: Database, resources: FrizyResources) {
+    this.db = database;
+    this.resources = resources;
+  }
+
+  list() {
+    return FRIZY_PROMPTS;
+  }
+
+  async get(name: string, args: Record<string, string> = {}) {
+    const prompt = FRIZY_PROMPTS.find(p => p.name === name);
+    if (!prompt) {
+      throw new PromptError(`Prompt ${name} not found`);
+    }
+
+    const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]);
+    if (missing.length > 0) {
+      throw new PromptError(`Missing required argument(s) for ${name}: ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    switch (name as FrizyPromptName) {
+      case 'resume_block':
+        return this.resumeBlock(args.block_id);
+      case 'plan_next_session':
+        return this.planNextSession(args.project_id, args.focus);
+      case 'write_session_summary':
+        return this.writeSessionSummary(args.project_id, args.session_id);
+    }
+  }
+
+  private async resumeBlock(blockId: string) {
+    const block = await this.resources.read(resourceUri({ kind: 'block', blockId }));
+    if (!block) {
+      throw new PromptError(`Block ${blockId} not found`);
+    }
+
+    const { title, number, status, progress } = JSON.parse(block.text);
+
+    return {
+      description: `Resume work on "${title}"`,
+      messages: [
+        this.resource(block),
+        this.text(
+          `I'm resuming work on "${title}"${number ? ` (BLK-${number})` : ''}, currently ${status} at ${progress}%.\n\n` +
+          `Using the block above, its linked context and recent sessions:\n` +
+          `1. Summarize where this block stands and what was decided so far.\n` +
+          `2. Point out dependencies that are not completed yet.\n` +
+          `3. Propose the next concrete step.\n\n` +
+          `As we work, record decisions with frizy_capture_context (block_ids: ["${blockId}"]) and progress with frizy_update_progress.`
+        )
+      ]
+    };
+  }
+
+  private async planNextSession(projectId: string, focus?: string) {
+    const context = await this.resources.readProjectContext(projectId, focus);
+    if (!context) {
+      throw new PromptError(`Project ${projectId} not found`);
+    }
+
+    const blocks = (await this.db.getBlocksByProject(projectId))
+      .filter(block => (block.lane === 'current' || block.lane === 'next') &&
+        block.status !== 'completed' && block.status !== 'cancelled');
+
+    const blockList = blocks.length > 0
+      ? blocks.map(block => `- [${block.lane}] ${block.title} (${block.id}) - ${block.status}, ${block.progress}%, ${block.priority} priority`).join('\n')
+      : '- No open blocks in the current or next lanes';
+
+    return {
+      description: 'Plan the next work session',
+      messages: [
+        this.resource(context),
+        this.text(
+          `Help me plan my next work session${focus ? ` focused on ${focus}` : ''}.\n\n` +
+          `Open blocks:\n${blockList}\n\n` +
+          `Using the project context above, pick one to three blocks to work on and explain why, ` +
+          `noting any blockers or unfinished dependencies. Then outline the first steps for each. ` +
+          `When I agree, start the session with frizy_start_session.`
+        )
+      ]
+    };
+  }
+
+  private async writeSessionSummary(projectId: string, sessionId?: string) {
+    const sessionResult = await this.db.query(`
+      SELECT id, block_id, session_type, created_at
+      FROM claude_sessions
+      WHERE project_id = $1 AND ($2::text IS NULL OR id::text = $2)
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [projectId, sessionId || null]);
+
+    const session = sessionResult.rows[0];
+    if (!session) {
+      throw new PromptError(sessionId ? `Session ${sessionId} not found` : `Project ${projectId} has no sessions`);
+    }
+
+    const eventsResult = await this.db.query(`
+      SELECT type, payload, created_at
+      FROM events
+      WHERE project_id = $1 AND created_at >= $2
+      ORDER BY created_at ASC
+      LIMIT 100
+    `, [projectId, session.created_at]);
+
+    const activity = eventsResult.rows.length > 0
+      ? eventsResult.rows.map((event: any) =>
+          `- ${new Date(event.created_at).toLocaleTimeString()} ${event.type}` +
+          `${event.payload?.title ? `: ${event.payload.title}` : ''}` +
+          `${event.payload?.progress !== undefined ? ` (${event.payload.progress}%)` : ''}`
+        ).join('\n')
+      : '- No recorded activity';
+
+    const messages: PromptMessage[] = [];
+    if (session.block_id) {
+      const block = await this.resources.read(resourceUri({ kind: 'block', blockId: session.block_id }));
+      if (block) {
+        messages.push(this.resource(block));
+      }
+    }
+
+    messages.push(this.text(
+      `Write a summary of ${session.session_type} session ${session.id}, started ${new Date(session.created_at).toLocaleString()}.\n\n` +
+      `Recorded activity:\n${activity}\n\n` +
+      `Cover what was done, decisions made, open questions and next steps, in a few short bullet points. ` +
+      `Then save it with frizy_end_session (project_id: "${projectId}", session_id: "${session.id}", summary: <the summary>).`
+    ));
+
+    return {
+      description: `Summarize session ${session.id}`,
+      messages
+    };
+  }
+
+  private text(text: string): PromptMessage {
+    return { role: 'user', content: { type: 'text', text } };
+  }
+
+  private resource(resource: ResourceContents): PromptMessage {
+    return { role: 'user', content: { type: 'resource', resource } };
+  }
+}
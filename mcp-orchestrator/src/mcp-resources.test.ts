@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { ContextService } from './context-service.js';
+import { Database } from './database.js';
+import { FrizyResources } from './mcp-resources.js';
+
+const PROJECTS = [
+  { id: 'project-a', name: 'Alpha', updated_at: '2024-05-03' },
+  { id: 'project-b', name: 'Beta', updated_at: '2024-05-02' },
+  { id: 'project-c', name: 'Gamma', updated_at: '2024-05-01' }
+];
+
+// Applies the list query's filter and limit the way Postgres would
+const database = {
+  queries: [] as { text: string; params: any[] }[],
+  async query(text: string, params: any[]) {
+    this.queries.push({ text, params });
+    const [projectIds, limit] = params;
+    const rows = PROJECTS.filter(project => projectIds === null || projectIds.includes(project.id));
+    return { rows: rows.slice(0, limit) };
+  }
+};
+
+const resources = new FrizyResources(database as unknown as Database, {} as ContextService);
+
+const projectsIn = (listed: { uri: string }[]) =>
+  Array.from(new Set(listed.map(resource => resource.uri.match(/^frizy:\/\/project\/([^/]+)\//)![1])));
+
+describe('FrizyResources.list', () => {
+  it('lists a context and a graph resource per project, most recently updated first', async () => {
+    const listed = await resources.list();
+
+    expect(listed.slice(0, 2)).toEqual([
+      { uri: 'frizy://project/project-a/context', name: 'Alpha context', mimeType: 'text/plain' },
+      { uri: 'frizy://project/project-a/graph', name: 'Alpha graph', mimeType: 'application/json' }
+    ]);
+    expect(projectsIn(listed)).toEqual(['project-a', 'project-b', 'project-c']);
+  });
+
+  it('filters to the given projects in the query, before the limit applies', async () => {
+    const listed = await resources.list({ projectIds: ['project-c'], limit: 1 });
+
+    expect(projectsIn(listed)).toEqual(['project-c']);
+    expect(database.queries[database.queries.length - 1].params).toEqual([['project-c'], 1]);
+  });
+
+  it('lists nothing for a caller with no projects', async () => {
+    expect(await resources.list({ projectIds: [] })).toEqual([]);
+  });
+});
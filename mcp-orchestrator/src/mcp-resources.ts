@@ -0,0 +1,383 @@
+import { Database } from './database.js';
+import { ContextService } from './context-service.js';
+import { ContextPreview, Event } from './types.js';
+
+// Resources are addressed as frizy://project/{id}/context, frizy://project/{id}/graph and frizy://block/{id}
+export type FrizyResource =
+  | { kind: 'project_context'; projectId: string }
+  | { kind: 'project_graph'; projectId: string }
+  | { kind: 'block'; blockId: string };
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'frizy://project/{project_id}/context',
+    name: 'Project context',
+    description: 'Ranked context preview of a project: blocks, captured context and GitHub activity within the default token budget',
+    mimeType: 'text/plain'
+  },
+  {
+    uriTemplate: 'frizy://project/{project_id}/graph',
+    name: 'Project graph',
+    description: 'All blocks, context items and block relations of a project',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'frizy://block/{block_id}',
+    name: 'Block',
+    description: 'A block with its relations, linked context items and recent sessions',
+    mimeType: 'application/json'
+  }
+];
+
+export function resourceUri(resource: FrizyResource): string {
+  switch (resource.kind) {
+    case 'project_context':
+      return `frizy://project/${resource.projectId}/context`;
+    case 'project_graph':
+      return `frizy://project/${resource.projectId}/graph`;
+    case 'block':
+      return `frizy://block/${resource.blockId}`;
+  }
+}
+
+export function parseResourceUri(uri: string): FrizyResource | null {
+  const project = uri.match(/^frizy:\/\/project\/([^/]+)\/(context|graph)$/);
+  if (project) {
+    const projectId = decodeURIComponent(project[1]);
+    return project[2] === 'context'
+      ? { kind: 'project_context', projectId }
+      : { kind: 'project_graph', projectId };
+  }
+
+  const block = uri.match(/^frizy:\/\/block\/([^/]+)$/);
+  if (block) {
+    return { kind: 'block', blockId: decodeURIComponent(block[1]) };
+  }
+
+  return null;
+}
+
+export function formatContextPreview(preview: ContextPreview): string {
+  const sections = [
+    `🎯 Project Context Preview`,
+    `Generated: ${new Date(preview.generated_at).toLocaleString()}`,
+    `Items: ${preview.preview.length}/${preview.total_items}`,
+    `Tokens: ${preview.total_tokens}/${preview.max_tokens}`,
+    '',
+    `📖 Summary:`,
+    preview.summary,
+    '',
+    `🔍 Key Context Items:`
+  ];
+
+  preview.preview.forEach((item, index) => {
+    sections.push(
+      `${index + 1}. [${item.type}] ${item.title || 'Untitled'} (score: ${item.score.toFixed(2)}, ${item.token_count} tokens)`,
+      `   ${item.content.slice(0, 150)}${item.content.length > 150 ? '...' : ''}`,
+      `   Links: ${item.links.join(', ')}`,
+      ''
+    );
+  });
+
+  return sections.join('\n');
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export class FrizyResources {
+  private db: Database;
+  private contextService: ContextService;
+
+  constructor(database: Database, contextService: ContextService) {
+    this.db = database;
+    this.contextService = contextService;
+  }
+
+  // Concrete resources for the most recently updated projects, restricted to projectIds when given;
+  // blocks are reachable through the template
+  async list(options: { projectIds?: string[]; limit?: number } = {}) {
+    const result = await this.db.query(`
+      SELECT id, name
+      FROM projects
+      WHERE $1::text[] IS NULL OR id::text = ANY($1::text[])
+      ORDER BY updated_at DESC
+      LIMIT $2
+    `, [options.projectIds ?? null, options.limit || 20]);
+
+    return result.rows.flatMap((project: any) => [
+      {
+        uri: resourceUri({ kind: 'project_context', projectId: project.id }),
+        name: `${project.name} context`,
+        mimeType: 'text/plain'
+      },
+      {
+        uri: resourceUri({ kind: 'project_graph', projectId: project.id }),
+        name: `${project.name} graph`,
+        mimeType: 'application/json'
+      }
+    ]);
+  }
+
+  // Returns null when the URI is not a Frizy resource or the entity does not exist
+  async read(uri: string): Promise<ResourceContents | null> {
+    const resource = parseResourceUri(uri);
+    if (!resource) {
+      return null;
+    }
+
+    switch (resource.kind) {
+      case 'project_context':
+        return this.readProjectContext(resource.projectId);
+
+      case 'project_graph': {
+        const project = await this.db.getProject(resource.projectId);
+        if (!project) {
+          return null;
+        }
+        const graph = await this.db.getProjectGraph(resource.projectId);
+        return { uri, mimeType: 'application/json', text: JSON.stringify(graph, null, 2) };
+      }
+
+      case 'block': {
+        const block = await this.readBlock(resource.blockId);
+        return block && { uri, mimeType: 'application/json', text: JSON.stringify(block, null, 2) };
+      }
+    }
+  }
+
+  // The project a resource belongs to, or null if it is not a Frizy resource or does not exist
+  async projectIdOf(uri: string): Promise<string | null> {
+    const resource = parseResourceUri(uri);
+    if (!resource) {
+      return null;
+    }
+    if (resource.kind !== 'block') {
+      return resource.projectId;
+    }
+    const block = await this.db.getBlock(resource.blockId);
+    return block?.project_id ?? null;
+  }
+
+  // The context resource, optionally focused on a query (used by prompts)
+  async readProjectContext(projectId: string, query?: string): Promise<ResourceContents | null> {
+    const project = await this.db.getProject(projectId);
+    if (!project) {
+      return null;
+    }
+
+    const preview = await this.contextService.generateContextPreview(projectId, { userQuery: query });
+    return {
+      uri: resourceUri({ kind: 'project_context', projectId }),
+      mimeType: 'text/plain',
+      text: formatContextPreview(preview)
+    };
+  }
+
+  private async readBlock(blockId: string) {
+    const block = await this.db.getBlock(blockId);
+    if (!block) {
+      return null;
+    }
+
+    const [relations, contextItems, sessions] = await Promise.all([
+      this.db.query(`
+        SELECT from_block_id, to_block_id, relation_type
+        FROM block_relations
+        WHERE from_block_id = $1 OR to_block_id = $1
+      `, [blockId]),
+      this.db.query(`
+        SELECT ci.id, ci.type, ci.title, ci.content, ci.source, ci.created_at
+        FROM context_items ci
+        JOIN context_links cl ON cl.context_id = ci.id
+        WHERE cl.block_id = $1
+        ORDER BY ci.created_at DESC
+        LIMIT 20
+      `, [blockId]),
+      this.db.query(`
+        SELECT id, session_type, outcomes, created_at, updated_at
+        FROM claude_sessions
+        WHERE block_id = $1
+        ORDER BY created_at DESC
+        LIMIT 5
+      `, [blockId])
+    ]);
+
+    return {
+      ...block,
+      relations: relations.rows,
+      context_items: contextItems.rows,
+      recent_sessions: sessions.rows
+    };
+  }
+}
+
+// Projections whose read models back the resources; notifications wait until all of them have applied an event
+const WATCHED_PROJECTIONS = ['blocks', 'github-entities'];
+
+// Upper bound of events examined per poll
+const WATCH_BATCH_SIZE = 500;
+
+interface WatchCursor {
+  lastSeenAt: string;
+  lastEventId: string;
+}
+
+interface Subscription {
+  resource: FrizyResource;
+  projectId: string;
+}
+
+// Tails the event log for subscribed resources and reports which URIs changed. It only reads up to
+// the position every watched projection has checkpointed, so a client re-reading a resource on
+// notification sees the new state. Without a running consumer no notifications are sent.
+export class ResourceWatcher {
+  private db: Database;
+  private onUpdated: (uri: string) => Promise<void>;
+  private pollIntervalMs: number;
+  private subscriptions = new Map<string, Subscription>();
+  private cursor: WatchCursor | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(database: Database, onUpdated: (uri: string) => Promise<void>, pollIntervalMs = 2000) {
+    this.db = database;
+    this.onUpdated = onUpdated;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  // Returns false when the URI is not a Frizy resource or the block does not exist
+  async subscribe(uri: string): Promise<boolean> {
+    const resource = parseResourceUri(uri);
+    if (!resource) {
+      return false;
+    }
+
+    let projectId: string;
+    if (resource.kind === 'block') {
+      const block = await this.db.getBlock(resource.blockId);
+      if (!block) {
+        return false;
+      }
+      projectId = block.project_id;
+    } else {
+      projectId = resource.projectId;
+    }
+
+    this.subscriptions.set(uri, { resource, projectId });
+    this.schedule();
+    return true;
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // Changes made while nobody is subscribed are not reported on the next subscribe
+    this.cursor = null;
+  }
+
+  private schedule(): void {
+    if (this.timer || this.subscriptions.size === 0) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error('Error polling for resource changes:', error);
+      }
+      this.schedule();
+    }, this.pollIntervalMs);
+  }
+
+  private async poll(): Promise<void> {
+    const upTo = await this.projectedUpTo();
+    if (!upTo) {
+      return;
+    }
+
+    // Start from the current position rather than replaying history
+    if (!this.cursor) {
+      this.cursor = upTo;
+      return;
+    }
+
+    const projectIds = Array.from(new Set(Array.from(this.subscriptions.values()).map(s => s.projectId)));
+    const result = await this.db.query(`
+      SELECT id, project_id, type, payload, created_at::text AS cursor_created_at
+      FROM events
+      WHERE (created_at, id) > ($1::timestamptz, $2)
+        AND (created_at, id) <= ($3::timestamptz, $4)
+        AND project_id = ANY($5)
+      ORDER BY created_at ASC, id ASC
+      LIMIT $6
+    `, [this.cursor.lastSeenAt, this.cursor.lastEventId, upTo.lastSeenAt, upTo.lastEventId, projectIds, WATCH_BATCH_SIZE]);
+
+    const events = result.rows as (Event & { cursor_created_at: string })[];
+    const last = events[events.length - 1];
+    this.cursor = events.length === WATCH_BATCH_SIZE
+      ? { lastSeenAt: last.cursor_created_at, lastEventId: last.id }
+      : upTo;
+
+    const changed = new Set<string>();
+    for (const event of events) {
+      for (const uri of this.affectedUris(event)) {
+        changed.add(uri);
+      }
+    }
+
+    for (const uri of changed) {
+      await this.onUpdated(uri);
+    }
+  }
+
+  // The position the slowest watched projection has reached, or null if any has not started
+  private async projectedUpTo(): Promise<WatchCursor | null> {
+    const result = await this.db.query(`
+      SELECT last_seen_at::text AS last_seen_at, last_event_id
+      FROM projection_offsets
+      WHERE id = ANY($1)
+      ORDER BY last_seen_at ASC NULLS FIRST, last_event_id ASC NULLS FIRST
+    `, [WATCHED_PROJECTIONS]);
+
+    const slowest = result.rows[0];
+    if (result.rows.length < WATCHED_PROJECTIONS.length || !slowest?.last_seen_at) {
+      return null;
+    }
+
+    return { lastSeenAt: slowest.last_seen_at, lastEventId: slowest.last_event_id };
+  }
+
+  private affectedUris(event: Event): string[] {
+    const blockIds = new Set<string>(
+      [
+        event.type.startsWith('block.') ? event.payload.id : undefined,
+        event.payload.block_id,
+        event.payload.from_block_id,
+        event.payload.to_block_id
+      ].filter((id): id is string => typeof id === 'string')
+    );
+
+    // GitHub events can advance any block they reference, which the payload does not name directly
+    const anyBlock = event.type.startsWith('github.');
+
+    return Array.from(this.subscriptions.entries())
+      .filter(([, { resource, projectId }]) => projectId === event.project_id && (
+        resource.kind !== 'block' || anyBlock || blockIds.has(resource.blockId)
+      ))
+      .map(([uri]) => uri);
+  }
+}
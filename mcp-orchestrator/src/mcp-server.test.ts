@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { FRIZY_TOOL_NAMES } from '@frizy/mcp-tools';
+import { ContextService } from './context-service.js';
+import { Database } from './database.js';
+import { FrizyMCPServer } from './mcp-server.js';
+
+// Records every call and fails it, so a tool call shows whether it was dispatched to a handler
+function unavailable<T>(calls: string[]): T {
+  return new Proxy({}, {
+    get: (_, method) => async () => {
+      calls.push(String(method));
+      throw new Error('database unavailable');
+    }
+  }) as T;
+}
+
+// The smallest value a JSON schema property accepts
+function sampleValue(property: any): unknown {
+  if (property.enum) return property.enum[0];
+  if (property.type === 'string') return 'x'.repeat(property.minLength ?? 1);
+  if (property.type === 'integer' || property.type === 'number') return property.minimum ?? 1;
+  if (property.type === 'array') return [sampleValue(property.items)];
+  return true;
+}
+
+describe('FrizyMCPServer tools', () => {
+  let calls: string[];
+  let server: FrizyMCPServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    calls = [];
+    server = new FrizyMCPServer(unavailable<Database>(calls), unavailable<ContextService>(calls));
+    client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it('lists exactly the shared tool definitions', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toEqual(FRIZY_TOOL_NAMES);
+  });
+
+  it('dispatches every listed tool to a handler', async () => {
+    const { tools } = await client.listTools();
+
+    for (const tool of tools) {
+      const properties = Object.entries((tool.inputSchema as any).properties);
+      const args = Object.fromEntries(properties.map(([key, property]) => [key, sampleValue(property)]));
+      calls.length = 0;
+
+      const outcome = await client.callTool({ name: tool.name, arguments: args }).catch(error => error);
+
+      expect(outcome, tool.name).toBeInstanceOf(McpError);
+      expect(outcome.code, tool.name).toBe(ErrorCode.InternalError);
+      expect(calls, tool.name).not.toEqual([]);
+    }
+  });
+
+  it('reports invalid arguments and unknown tools as such', async () => {
+    await expect(client.callTool({ name: 'frizy_move_block', arguments: { project_id: 'p', block_id: 'b', lane: 'done' } }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(client.callTool({ name: 'frizy_delete_everything', arguments: {} }))
+      .rejects.toMatchObject({ code: ErrorCode.MethodNotFound });
+    expect(calls).toEqual([]);
+  });
+});
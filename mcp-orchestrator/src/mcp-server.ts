@@ -1,29 +1,68 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { v4 as uuidv4 } from 'uuid';
 import { Database } from './database.js';
 import { ContextService } from './context-service.js';
+import { loadDependencyEdges } from './critical-path.js';
+import { FrizyResources, RESOURCE_TEMPLATES, ResourceWatcher, formatContextPreview } from './mcp-resources.js';
+import { FrizyPrompts, PromptError } from './mcp-prompts.js';
+import { Event } from './types.js';
 import {
-  FrizyCreateBlockSchema,
-  FrizyMoveBlockSchema,
-  FrizyUpdateProgressSchema,
-  FrizyCaptureContextSchema,
-} from './types.js';
+  FrizyToolInputs,
+  SuggestionType,
+  ToolInputError,
+  isFrizyTool,
+  listTools,
+  parseToolInput,
+} from '@frizy/mcp-tools';
+
+// In-progress blocks untouched for this long are suggested as stale
+const STALE_AFTER_DAYS = 7;
+
+export interface FrizyMCPServerOptions {
+  // Recorded as actor_id on every event this server emits, e.g. the user behind an HTTP session
+  actorId?: string;
+  // Rejects (throws) when the session may not use a project; without it every project is open
+  authorizeProject?: (projectId: string) => Promise<void>;
+  // Projects authorizeProject lets through, used to list resources; with authorizeProject but
+  // without this no resources are listed
+  visibleProjects?: () => Promise<string[]>;
+}
 
 export class FrizyMCPServer {
   private server: Server;
   private db: Database;
   private contextService: ContextService;
+  private resources: FrizyResources;
+  private prompts: FrizyPrompts;
+  private watcher: ResourceWatcher;
+  private actorId: string | undefined;
+  private authorizeProject: FrizyMCPServerOptions['authorizeProject'];
+  private visibleProjects: FrizyMCPServerOptions['visibleProjects'];
 
-  constructor(database: Database, contextService: ContextService) {
+  constructor(database: Database, contextService: ContextService, options: FrizyMCPServerOptions = {}) {
     this.db = database;
+    this.actorId = options.actorId;
+    this.authorizeProject = options.authorizeProject;
+    this.visibleProjects = options.visibleProjects;
     this.contextService = contextService;
+    this.resources = new FrizyResources(database, contextService);
+    this.prompts = new FrizyPrompts(database, this.resources);
+    this.watcher = new ResourceWatcher(database, uri => this.server.sendResourceUpdated({ uri }));
     
     this.server = new Server(
       {
@@ -33,184 +72,24 @@ export class FrizyMCPServer {
       {
         capabilities: {
           tools: {},
-          resources: {},
+          resources: {
+            subscribe: true,
+          },
+          prompts: {},
         },
       }
     );
 
     this.setupToolHandlers();
     this.setupResourceHandlers();
+    this.setupPromptHandlers();
   }
 
   private setupToolHandlers() {
-    // List available tools
+    // Tool definitions come from the shared package so every Frizy MCP server lists the same tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
-          {
-            name: 'frizy_create_block',
-            description: 'Create a new block in the project board',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                project_id: {
-                  type: 'string',
-                  description: 'UUID of the project'
-                },
-                title: {
-                  type: 'string',
-                  description: 'Title of the block'
-                },
-                content: {
-                  type: 'string',
-                  description: 'Optional content/description of the block'
-                },
-                lane: {
-                  type: 'string',
-                  enum: ['vision', 'goals', 'current', 'next', 'context'],
-                  description: 'Which lane to place the block in',
-                  default: 'current'
-                },
-                priority: {
-                  type: 'string',
-                  enum: ['low', 'medium', 'high', 'urgent'],
-                  description: 'Priority level of the block',
-                  default: 'medium'
-                },
-                effort: {
-                  type: 'number',
-                  description: 'Effort estimation (1-10 scale)'
-                }
-              },
-              required: ['project_id', 'title']
-            }
-          },
-          {
-            name: 'frizy_move_block',
-            description: 'Move a block to a different lane',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                project_id: {
-                  type: 'string',
-                  description: 'UUID of the project'
-                },
-                block_id: {
-                  type: 'string',
-                  description: 'UUID of the block to move'
-                },
-                lane: {
-                  type: 'string',
-                  enum: ['vision', 'goals', 'current', 'next', 'context'],
-                  description: 'Target lane'
-                }
-              },
-              required: ['project_id', 'block_id', 'lane']
-            }
-          },
-          {
-            name: 'frizy_update_progress',
-            description: 'Update the progress percentage of a block',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                project_id: {
-                  type: 'string',
-                  description: 'UUID of the project'
-                },
-                block_id: {
-                  type: 'string',
-                  description: 'UUID of the block to update'
-                },
-                progress: {
-                  type: 'number',
-                  minimum: 0,
-                  maximum: 100,
-                  description: 'Progress percentage (0-100)'
-                }
-              },
-              required: ['project_id', 'block_id', 'progress']
-            }
-          },
-          {
-            name: 'frizy_capture_context',
-            description: 'Capture important context, decisions, or insights for the project',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                project_id: {
-                  type: 'string',
-                  description: 'UUID of the project'
-                },
-                type: {
-                  type: 'string',
-                  enum: ['decision', 'insight', 'blocker', 'solution', 'reference', 'note'],
-                  description: 'Type of context being captured'
-                },
-                title: {
-                  type: 'string',
-                  description: 'Optional title for the context item'
-                },
-                content: {
-                  type: 'string',
-                  description: 'The context content'
-                },
-                block_id: {
-                  type: 'string',
-                  description: 'Optional UUID of related block'
-                }
-              },
-              required: ['project_id', 'type', 'content']
-            }
-          },
-          {
-            name: 'frizy_get_context',
-            description: 'Get relevant project context for current work',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                project_id: {
-                  type: 'string',
-                  description: 'UUID of the project'
-                },
-                user_query: {
-                  type: 'string',
-                  description: 'Optional query to focus the context retrieval'
-                },
-                max_tokens: {
-                  type: 'number',
-                  description: 'Maximum tokens for the response',
-                  default: 4000
-                }
-              },
-              required: ['project_id']
-            }
-          },
-          {
-            name: 'frizy_list_blocks',
-            description: 'List all blocks in a project, optionally filtered by lane or status',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                project_id: {
-                  type: 'string',
-                  description: 'UUID of the project'
-                },
-                lane: {
-                  type: 'string',
-                  enum: ['vision', 'goals', 'current', 'next', 'context'],
-                  description: 'Optional lane filter'
-                },
-                status: {
-                  type: 'string',
-                  enum: ['not_started', 'in_progress', 'completed', 'blocked', 'cancelled'],
-                  description: 'Optional status filter'
-                }
-              },
-              required: ['project_id']
-            }
-          }
-        ],
+        tools: listTools(),
       };
     });
 
@@ -219,35 +98,58 @@ export class FrizyMCPServer {
       const { name, arguments: args } = request.params;
 
       try {
+        if (!isFrizyTool(name)) {
+          throw new McpError(
+            ErrorCode.MethodNotFound,
+            `Tool ${name} not found`
+          );
+        }
+
+        // Every tool names its project, so access is checked once before dispatching
+        await this.authorize(parseToolInput(name, args).project_id);
+
         switch (name) {
           case 'frizy_create_block':
-            return await this.handleCreateBlock(args);
+            return await this.handleCreateBlock(parseToolInput(name, args));
+            
+          case 'frizy_update_block':
+            return await this.handleUpdateBlock(parseToolInput(name, args));
             
           case 'frizy_move_block':
-            return await this.handleMoveBlock(args);
+            return await this.handleMoveBlock(parseToolInput(name, args));
             
           case 'frizy_update_progress':
-            return await this.handleUpdateProgress(args);
+            return await this.handleUpdateProgress(parseToolInput(name, args));
+            
+          case 'frizy_update_status':
+            return await this.handleUpdateStatus(parseToolInput(name, args));
+            
+          case 'frizy_list_blocks':
+            return await this.handleListBlocks(parseToolInput(name, args));
             
           case 'frizy_capture_context':
-            return await this.handleCaptureContext(args);
+            return await this.handleCaptureContext(parseToolInput(name, args));
             
           case 'frizy_get_context':
-            return await this.handleGetContext(args);
+            return await this.handleGetContext(parseToolInput(name, args));
             
-          case 'frizy_list_blocks':
-            return await this.handleListBlocks(args);
+          case 'frizy_start_session':
+            return await this.handleStartSession(parseToolInput(name, args));
+            
+          case 'frizy_end_session':
+            return await this.handleEndSession(parseToolInput(name, args));
             
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Tool ${name} not found`
-            );
+          case 'frizy_get_suggestions':
+            return await this.handleGetSuggestions(parseToolInput(name, args));
         }
       } catch (error) {
         if (error instanceof McpError) {
           throw error;
         }
+
+        if (error instanceof ToolInputError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
         
         console.error(`Error handling tool ${name}:`, error);
         throw new McpError(
@@ -259,151 +161,221 @@ export class FrizyMCPServer {
   }
 
   private setupResourceHandlers() {
-    // We can add resource handlers here later for providing context files, etc.
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      // Only list projects this session may read
+      const projectIds = this.authorizeProject ? await this.visibleProjects?.() ?? [] : undefined;
+      return { resources: await this.resources.list({ projectIds }) };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: RESOURCE_TEMPLATES,
+      };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      await this.authorizeResource(request.params.uri);
+      const contents = await this.resources.read(request.params.uri);
+      if (!contents) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${request.params.uri} not found`);
+      }
+
+      return {
+        contents: [contents],
+      };
+    });
+
+    // Subscribers get notifications/resources/updated once the consumer has projected a change
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.authorizeResource(request.params.uri);
+      const subscribed = await this.watcher.subscribe(request.params.uri);
+      if (!subscribed) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${request.params.uri} not found`);
+      }
+
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.watcher.unsubscribe(request.params.uri);
+      return {};
+    });
   }
 
-  private async handleCreateBlock(args: any) {
-    const validatedArgs = FrizyCreateBlockSchema.parse(args);
-    
-    const blockId = uuidv4();
-    const event = await this.db.createEvent({
-      project_id: validatedArgs.project_id,
-      type: 'block.created',
-      payload: {
-        id: blockId,
-        title: validatedArgs.title,
-        content: validatedArgs.content,
-        lane: validatedArgs.lane,
-        priority: validatedArgs.priority,
-        effort: validatedArgs.effort,
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.prompts.list(),
+      };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      try {
+        const args = request.params.arguments || {};
+        const projectId = args.block_id
+          ? (await this.db.getBlock(args.block_id))?.project_id
+          : args.project_id;
+        if (projectId) {
+          await this.authorize(projectId);
+        }
+        return await this.prompts.get(request.params.name, args);
+      } catch (error) {
+        if (error instanceof PromptError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        throw error;
       }
     });
+  }
+
+  private async authorize(projectId: string) {
+    if (!this.authorizeProject) {
+      return;
+    }
+    try {
+      await this.authorizeProject(projectId);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidRequest, error instanceof Error ? error.message : `Access to project ${projectId} denied`);
+    }
+  }
+
+  // Unknown resources fall through to the handlers' not-found errors
+  private async authorizeResource(uri: string) {
+    const projectId = await this.resources.projectIdOf(uri);
+    if (projectId) {
+      await this.authorize(projectId);
+    }
+  }
 
+  private textResult(text: string) {
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Created block "${validatedArgs.title}" in ${validatedArgs.lane} lane\n` +
-                `Block ID: ${blockId}\n` +
-                `Event ID: ${event.id}\n` +
-                `Priority: ${validatedArgs.priority}`
+          text
         }
       ]
     };
   }
 
-  private async handleMoveBlock(args: any) {
-    const validatedArgs = FrizyMoveBlockSchema.parse(args);
-    
-    // Verify block exists
-    const block = await this.db.getBlock(validatedArgs.block_id);
-    if (!block) {
-      throw new McpError(ErrorCode.InvalidParams, `Block ${validatedArgs.block_id} not found`);
+  private createEvent(event: Omit<Event, 'id' | 'created_at' | 'actor_id'>) {
+    return this.db.createEvent({ ...event, actor_id: this.actorId });
+  }
+
+  // The block must also belong to the project the call was authorized for
+  private async requireBlock(blockId: string, projectId: string) {
+    const block = await this.db.getBlock(blockId);
+    if (!block || block.project_id !== projectId) {
+      throw new McpError(ErrorCode.InvalidParams, `Block ${blockId} not found`);
     }
+    return block;
+  }
 
-    const event = await this.db.createEvent({
-      project_id: validatedArgs.project_id,
-      type: 'block.moved',
+  private async handleCreateBlock(input: FrizyToolInputs['frizy_create_block']) {
+    const blockId = uuidv4();
+    const event = await this.createEvent({
+      project_id: input.project_id,
+      type: 'block.created',
       payload: {
-        id: validatedArgs.block_id,
-        lane: validatedArgs.lane,
-        previous_lane: block.lane
+        id: blockId,
+        title: input.title,
+        content: input.content,
+        lane: input.lane,
+        priority: input.priority,
+        effort: input.effort,
       }
     });
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `✅ Moved block "${block.title}" from ${block.lane} to ${validatedArgs.lane}\n` +
-                `Event ID: ${event.id}`
-        }
-      ]
-    };
+    return this.textResult(
+      `✅ Created block "${input.title}" in ${input.lane} lane\n` +
+      `Block ID: ${blockId}\n` +
+      `Event ID: ${event.id}\n` +
+      `Priority: ${input.priority}`
+    );
   }
 
-  private async handleUpdateProgress(args: any) {
-    const validatedArgs = FrizyUpdateProgressSchema.parse(args);
-    
-    const block = await this.db.getBlock(validatedArgs.block_id);
-    if (!block) {
-      throw new McpError(ErrorCode.InvalidParams, `Block ${validatedArgs.block_id} not found`);
+  private async handleUpdateBlock(input: FrizyToolInputs['frizy_update_block']) {
+    const { project_id, block_id, ...changes } = input;
+    const fields = Object.keys(changes).filter(key => changes[key as keyof typeof changes] !== undefined);
+    if (fields.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'Nothing to update: pass at least one of title, content, priority, effort or status');
     }
 
-    const event = await this.db.createEvent({
-      project_id: validatedArgs.project_id,
-      type: 'block.progress_updated',
+    const block = await this.requireBlock(block_id, project_id);
+    const event = await this.createEvent({
+      project_id,
+      type: 'block.updated',
+      payload: { id: block_id, ...changes }
+    });
+
+    return this.textResult(
+      `✅ Updated ${fields.join(', ')} of "${changes.title || block.title}"\n` +
+      `Event ID: ${event.id}`
+    );
+  }
+
+  private async handleMoveBlock(input: FrizyToolInputs['frizy_move_block']) {
+    const block = await this.requireBlock(input.block_id, input.project_id);
+
+    const event = await this.createEvent({
+      project_id: input.project_id,
+      type: 'block.moved',
       payload: {
-        id: validatedArgs.block_id,
-        progress: validatedArgs.progress,
-        previous_progress: block.progress
+        id: input.block_id,
+        lane: input.lane,
+        previous_lane: block.lane
       }
     });
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `✅ Updated progress for "${block.title}" to ${validatedArgs.progress}%\n` +
-                `Previous: ${block.progress}%\n` +
-                `Event ID: ${event.id}`
-        }
-      ]
-    };
+    return this.textResult(
+      `✅ Moved block "${block.title}" from ${block.lane} to ${input.lane}\n` +
+      `Event ID: ${event.id}`
+    );
   }
 
-  private async handleCaptureContext(args: any) {
-    const validatedArgs = FrizyCaptureContextSchema.parse(args);
-    
-    const contextId = uuidv4();
-    const event = await this.db.createEvent({
-      project_id: validatedArgs.project_id,
-      type: 'context.captured',
+  private async handleUpdateProgress(input: FrizyToolInputs['frizy_update_progress']) {
+    const block = await this.requireBlock(input.block_id, input.project_id);
+
+    const event = await this.createEvent({
+      project_id: input.project_id,
+      type: 'block.progress_updated',
       payload: {
-        id: contextId,
-        type: validatedArgs.type,
-        title: validatedArgs.title,
-        content: validatedArgs.content,
-        block_id: validatedArgs.block_id,
-        source: 'mcp'
+        id: input.block_id,
+        progress: input.progress,
+        previous_progress: block.progress,
+        notes: input.notes
       }
     });
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `✅ Captured ${validatedArgs.type}: ${validatedArgs.title || 'Untitled'}\n` +
-                `Context ID: ${contextId}\n` +
-                `Event ID: ${event.id}\n` +
-                `Content: ${validatedArgs.content.slice(0, 100)}${validatedArgs.content.length > 100 ? '...' : ''}`
-        }
-      ]
-    };
+    return this.textResult(
+      `✅ Updated progress for "${block.title}" to ${input.progress}%\n` +
+      `Previous: ${block.progress}%\n` +
+      `Event ID: ${event.id}`
+    );
   }
 
-  private async handleGetContext(args: any) {
-    const { project_id, user_query, max_tokens = 4000 } = args;
-    
-    const contextPreview = await this.contextService.generateContextPreview(project_id, {
-      maxTokens: max_tokens,
-      userQuery: user_query
-    });
+  private async handleUpdateStatus(input: FrizyToolInputs['frizy_update_status']) {
+    const block = await this.requireBlock(input.block_id, input.project_id);
 
-    const formattedContent = this.formatContextPreview(contextPreview);
+    const event = await this.createEvent({
+      project_id: input.project_id,
+      type: 'block.updated',
+      payload: {
+        id: input.block_id,
+        status: input.status,
+        previous_status: block.status,
+        notes: input.notes
+      }
+    });
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: formattedContent
-        }
-      ]
-    };
+    return this.textResult(
+      `✅ Changed status of "${block.title}" from ${block.status} to ${input.status}\n` +
+      `Event ID: ${event.id}`
+    );
   }
 
-  private async handleListBlocks(args: any) {
-    const { project_id, lane, status } = args;
+  private async handleListBlocks(input: FrizyToolInputs['frizy_list_blocks']) {
+    const { project_id, lane, status } = input;
     
     const blocks = await this.db.getBlocksByProject(project_id);
     
@@ -417,50 +389,172 @@ export class FrizyMCPServer {
       `• ${block.title} [${block.lane}] - ${block.status} (${block.progress}%)`
     ).join('\n');
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `📋 Project Blocks ${lane ? `(${lane} lane)` : ''} ${status ? `(${status})` : ''}\n\n` +
-                `${formattedBlocks || 'No blocks found matching criteria'}\n\n` +
-                `Total: ${filteredBlocks.length} blocks`
-        }
-      ]
-    };
+    return this.textResult(
+      `📋 Project Blocks ${lane ? `(${lane} lane)` : ''} ${status ? `(${status})` : ''}\n\n` +
+      `${formattedBlocks || 'No blocks found matching criteria'}\n\n` +
+      `Total: ${filteredBlocks.length} blocks`
+    );
+  }
+
+  private async handleCaptureContext(input: FrizyToolInputs['frizy_capture_context']) {
+    const contextId = uuidv4();
+    const event = await this.createEvent({
+      project_id: input.project_id,
+      type: 'context.captured',
+      payload: {
+        id: contextId,
+        type: input.type,
+        title: input.title,
+        content: input.content,
+        tags: input.tags,
+        importance: input.importance,
+        confidence: input.confidence,
+        source: 'mcp'
+      }
+    });
+
+    for (const blockId of input.block_ids) {
+      await this.createEvent({
+        project_id: input.project_id,
+        type: 'context.linked',
+        payload: { context_id: contextId, block_id: blockId }
+      });
+    }
+
+    return this.textResult(
+      `✅ Captured ${input.type}: ${input.title || 'Untitled'}\n` +
+      `Context ID: ${contextId}\n` +
+      `Event ID: ${event.id}\n` +
+      (input.block_ids.length > 0 ? `Linked to ${input.block_ids.length} block(s)\n` : '') +
+      `Content: ${input.content.slice(0, 100)}${input.content.length > 100 ? '...' : ''}`
+    );
+  }
+
+  private async handleGetContext(input: FrizyToolInputs['frizy_get_context']) {
+    const contextPreview = await this.contextService.generateContextPreview(input.project_id, {
+      maxTokens: input.max_tokens,
+      userQuery: input.query
+    });
+
+    let formattedContent = formatContextPreview(contextPreview);
+
+    if (input.include_history) {
+      const sessions = await this.db.query(`
+        SELECT id, session_type, block_id, outcomes, created_at, updated_at
+        FROM claude_sessions
+        WHERE project_id = $1
+        ORDER BY created_at DESC
+        LIMIT 5
+      `, [input.project_id]);
+
+      formattedContent += '\n🕘 Recent Sessions:\n' + (sessions.rows.length > 0
+        ? sessions.rows.map((session: any) =>
+            `• ${session.session_type} session ${session.id} (${new Date(session.created_at).toLocaleString()})` +
+            `${session.outcomes?.length ? `: ${session.outcomes.join('; ')}` : ''}`
+          ).join('\n')
+        : 'No sessions yet');
+    }
+
+    return this.textResult(formattedContent);
+  }
+
+  private async handleStartSession(input: FrizyToolInputs['frizy_start_session']) {
+    const sessionId = uuidv4();
+    const event = await this.createEvent({
+      project_id: input.project_id,
+      type: 'session.started',
+      payload: {
+        session_id: sessionId,
+        session_type: input.session_type,
+        block_id: input.block_id
+      }
+    });
+
+    return this.textResult(
+      `▶️ Started ${input.session_type} session\n` +
+      `Session ID: ${sessionId}\n` +
+      `Event ID: ${event.id}`
+    );
   }
 
-  private formatContextPreview(preview: any): string {
-    const sections = [
-      `🎯 Project Context Preview`,
-      `Generated: ${new Date(preview.generated_at).toLocaleString()}`,
-      `Items: ${preview.preview.length}/${preview.total_items}`,
-      '',
-      `📖 Summary:`,
-      preview.summary,
-      '',
-      `🔍 Key Context Items:`
-    ];
-
-    preview.preview.forEach((item: any, index: number) => {
-      sections.push(
-        `${index + 1}. [${item.type}] ${item.title || 'Untitled'} (score: ${item.score.toFixed(2)})`,
-        `   ${item.content.slice(0, 150)}${item.content.length > 150 ? '...' : ''}`,
-        `   Links: ${item.links.join(', ')}`,
-        ''
-      );
+  private async handleEndSession(input: FrizyToolInputs['frizy_end_session']) {
+    const event = await this.createEvent({
+      project_id: input.project_id,
+      type: 'session.ended',
+      payload: {
+        session_id: input.session_id,
+        outcomes: input.summary ? [input.summary] : []
+      }
     });
 
-    return sections.join('\n');
+    return this.textResult(
+      `⏹️ Ended session ${input.session_id}\n` +
+      `Event ID: ${event.id}`
+    );
+  }
+
+  private async handleGetSuggestions(input: FrizyToolInputs['frizy_get_suggestions']) {
+    const [blocks, edges] = await Promise.all([
+      this.db.getBlocksByProject(input.project_id),
+      loadDependencyEdges(this.db, input.project_id)
+    ]);
+
+    const open = blocks.filter(block => block.status !== 'completed' && block.status !== 'cancelled');
+    const statusById = new Map(blocks.map(block => [block.id, block.status]));
+    const staleBefore = Date.now() - STALE_AFTER_DAYS * 24 * 60 * 60 * 1000;
+
+    const suggestions: Record<Exclude<SuggestionType, 'all'>, string[]> = {
+      stale: open
+        .filter(block => block.status === 'in_progress' &&
+          new Date(block.last_worked_at || block.updated_at).getTime() < staleBefore)
+        .map(block => `"${block.title}" has had no activity for over ${STALE_AFTER_DAYS} days`),
+      stuck: open
+        .filter(block => block.status === 'blocked')
+        .map(block => `"${block.title}" is blocked`),
+      completion_opportunity: open
+        .filter(block => block.progress >= 80)
+        .map(block => `"${block.title}" is ${block.progress}% done`),
+      // Waiting in the next lane with every prerequisite finished
+      ready_to_move: open
+        .filter(block => block.lane === 'next' && block.status === 'not_started')
+        .filter(block => edges
+          .filter(edge => edge.to_block_id === block.id)
+          .every(edge => statusById.get(edge.from_block_id) === 'completed'))
+        .map(block => `"${block.title}" has no unfinished dependencies and can move to current`)
+    };
+
+    const kinds = input.type === 'all'
+      ? (Object.keys(suggestions) as (keyof typeof suggestions)[])
+      : [input.type];
+
+    const sections = kinds
+      .filter(kind => suggestions[kind].length > 0)
+      .map(kind => `${kind}:\n${suggestions[kind].map(line => `• ${line}`).join('\n')}`);
+
+    return this.textResult(
+      `💡 Suggestions\n\n${sections.join('\n\n') || 'Nothing to suggest right now'}`
+    );
   }
 
   async start() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(transport);
     console.error('Frizy MCP Server started');
   }
 
-  async stop() {
+  // Serve one client over any transport; the HTTP transport creates a server per session
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  // Ends this server's session but leaves the shared database pool open
+  async close() {
+    this.watcher.stop();
     await this.server.close();
+  }
+
+  async stop() {
+    await this.close();
     await this.db.close();
   }
 }
\ No newline at end of file
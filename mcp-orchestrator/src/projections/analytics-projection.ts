@@ -0,0 +1,35 @@
+import { Database } from '../database.js';
+import { Event } from '../types.js';
+import { Projection } from './projection.js';
+
+// Records one activity row per event; project_activity_daily aggregates them
+export class AnalyticsProjection implements Projection {
+  readonly name = 'analytics';
+  private db: Database;
+
+  constructor(database: Database) {
+    this.db = database;
+  }
+
+  handles(): boolean {
+    return true;
+  }
+
+  async apply(event: Event): Promise<void> {
+    await this.db.query(`
+      INSERT INTO project_activity (event_id, project_id, event_type, actor_id, occurred_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (event_id) DO NOTHING
+    `, [
+      event.id,
+      event.project_id,
+      event.type,
+      event.actor_id || null,
+      event.created_at
+    ]);
+  }
+
+  async reset(): Promise<void> {
+    await this.db.query('TRUNCATE project_activity');
+  }
+}
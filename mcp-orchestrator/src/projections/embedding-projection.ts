@@ -0,0 +1,43 @@
+import { EmbeddingService } from '../embedding-service.js';
+import { Event } from '../types.js';
+import { Projection } from './projection.js';
+
+// Keeps block and context item embeddings in step with their content
+export class EmbeddingProjection implements Projection {
+  readonly name = 'embeddings';
+  private embeddingService: EmbeddingService;
+
+  constructor(embeddingService: EmbeddingService) {
+    this.embeddingService = embeddingService;
+  }
+
+  handles(event: Event): boolean {
+    switch (event.type) {
+      case 'block.created':
+      case 'context.captured':
+        return true;
+      case 'block.updated':
+        return event.payload.title !== undefined || event.payload.content !== undefined;
+      default:
+        return false;
+    }
+  }
+
+  async apply(event: Event): Promise<void> {
+    // Without a provider the embedding processor's catch-up loop is the only source of vectors
+    if (!this.embeddingService.isConfigured()) {
+      return;
+    }
+
+    const itemType = event.type === 'context.captured' ? 'context_item' : 'block';
+    const embedded = await this.embeddingService.embedItem(itemType, event.payload.id);
+
+    if (!embedded) {
+      // The row is written by the blocks projection, which may not have reached this event yet;
+      // failing here lets the retry policy wait for it
+      throw new Error(`${itemType} ${event.payload.id} has not been projected yet`);
+    }
+
+    console.log(`🧠 Embedded ${itemType}: ${event.payload.id}`);
+  }
+}
@@ -0,0 +1,48 @@
+import { BlockLinker } from '../block-linker.js';
+import { Database } from '../database.js';
+import { Event } from '../types.js';
+import { Projection } from './projection.js';
+
+// Projects GitHub webhook events into github_entities and links them to the blocks they reference
+export class GitHubEntityProjection implements Projection {
+  readonly name = 'github-entities';
+  private db: Database;
+  private linker: BlockLinker;
+
+  constructor(database: Database) {
+    this.db = database;
+    this.linker = new BlockLinker(database);
+  }
+
+  handles(event: Event): boolean {
+    return event.type.startsWith('github.');
+  }
+
+  async apply(event: Event): Promise<void> {
+    await this.handleGitHubEvent(event);
+  }
+
+  private async handleGitHubEvent(event: Event): Promise<void> {
+    const { provider_type, provider_id, url, title, status, author } = event.payload;
+
+    await this.db.query(`
+      INSERT INTO github_entities (
+        project_id, provider_type, provider_id, url, title, status, metadata, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT DO NOTHING
+    `, [
+      event.project_id,
+      provider_type,
+      provider_id,
+      url,
+      title,
+      status,
+      { author },
+      event.created_at
+    ]);
+
+    console.log(`🐙 GitHub ${provider_type}: ${title}`);
+
+    await this.linker.link(event);
+  }
+}
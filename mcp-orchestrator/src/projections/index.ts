@@ -0,0 +1,35 @@
+import { Database } from '../database.js';
+import { EmbeddingService } from '../embedding-service.js';
+import { Projection } from './projection.js';
+import { BlockProjection } from './block-projection.js';
+import { GitHubEntityProjection } from './github-projection.js';
+import { EmbeddingProjection } from './embedding-projection.js';
+import { AnalyticsProjection } from './analytics-projection.js';
+
+export { Projection } from './projection.js';
+export { BlockProjection } from './block-projection.js';
+export { GitHubEntityProjection } from './github-projection.js';
+export { EmbeddingProjection } from './embedding-projection.js';
+export { AnalyticsProjection } from './analytics-projection.js';
+export { SubscriptionProjection } from './subscription-projection.js';
+
+// The projections the consumer runs by default, optionally narrowed to a list of names
+export function createDefaultProjections(database: Database, names?: string[]): Projection[] {
+  const projections: Projection[] = [
+    new BlockProjection(database),
+    new GitHubEntityProjection(database),
+    new EmbeddingProjection(new EmbeddingService(database)),
+    new AnalyticsProjection(database)
+  ];
+
+  if (!names || names.length === 0) {
+    return projections;
+  }
+
+  const unknown = names.filter(name => !projections.some(p => p.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown projection(s): ${unknown.join(', ')}`);
+  }
+
+  return projections.filter(p => names.includes(p.name));
+}
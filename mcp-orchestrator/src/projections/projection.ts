@@ -0,0 +1,16 @@
+import { Event } from '../types.js';
+
+// A named read model built from the event log. Each projection keeps its own cursor in
+// projection_offsets, so a slow or failing projection never holds the others back.
+export interface Projection {
+  readonly name: string;
+
+  // Return false to skip an event; the cursor still advances past it
+  handles(event: Event): boolean;
+
+  // Apply one event. Must be idempotent: after a crash the last batch is applied again.
+  apply(event: Event): Promise<void>;
+
+  // Clear projected state before a replay from zero. Omit when apply alone converges.
+  reset?(): Promise<void>;
+}
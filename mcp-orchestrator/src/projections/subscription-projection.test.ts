@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Database } from '../database.js';
+import { EventBus } from '../event-bus.js';
+import { Event } from '../types.js';
+import { BlockChange, SubscriptionProjection, blockTopic, eventTopic } from './subscription-projection.js';
+
+const PROJECT_ID = '11111111-1111-1111-1111-111111111111';
+
+const blockEvent = (n: number): Event => ({
+  id: `00000000-0000-0000-0000-${String(n).padStart(12, '0')}`,
+  project_id: PROJECT_ID,
+  type: 'block.updated',
+  payload: { id: `block-${n}`, title: `Block ${n}` },
+  created_at: '2024-05-01T10:00:00.000Z'
+});
+
+describe('SubscriptionProjection', () => {
+  let projected: Set<string> | null;
+  let bus: EventBus;
+  let projection: SubscriptionProjection;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    projected = new Set();
+    bus = new EventBus();
+    const db = {
+      async query(text: string, params: any[]) {
+        if (!projected) return { rows: [] };
+        return { rows: params[0].map((id: string) => ({ id, caught_up: projected!.has(id) })) };
+      },
+      async getBlock(id: string) {
+        return { id };
+      }
+    };
+    projection = new SubscriptionProjection(db as unknown as Database, bus);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('publishes the event straight away without waiting on the blocks projection', async () => {
+    const events = bus.subscribe<Event>(eventTopic(PROJECT_ID));
+    bus.subscribe(blockTopic(PROJECT_ID));
+
+    await projection.apply(blockEvent(1));
+
+    expect((await events.next()).value).toEqual(blockEvent(1));
+  });
+
+  it('publishes a block change once, after the blocks projection applies it', async () => {
+    const subscription = bus.subscribe<BlockChange>(blockTopic(PROJECT_ID));
+    const publish = vi.spyOn(bus, 'publish');
+
+    await projection.apply(blockEvent(1));
+    await vi.advanceTimersByTimeAsync(300);
+    expect(publish).toHaveBeenCalledTimes(1); // the events topic only
+
+    projected!.add(blockEvent(1).id);
+    await vi.advanceTimersByTimeAsync(300);
+
+    const change = await subscription.next();
+    expect(change.value).toMatchObject({ event: blockEvent(1), block: { id: 'block-1' } });
+    expect(publish).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps log order when a later change is projected first', async () => {
+    const subscription = bus.subscribe<BlockChange>(blockTopic(PROJECT_ID));
+
+    await projection.apply(blockEvent(1));
+    await projection.apply(blockEvent(2));
+    projected!.add(blockEvent(2).id);
+    await vi.advanceTimersByTimeAsync(300);
+    projected!.add(blockEvent(1).id);
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect((await subscription.next()).value?.event.id).toBe(blockEvent(1).id);
+    expect((await subscription.next()).value?.event.id).toBe(blockEvent(2).id);
+  });
+
+  it('publishes anyway once the blocks projection is too far behind', async () => {
+    const subscription = bus.subscribe<BlockChange>(blockTopic(PROJECT_ID));
+
+    await projection.apply(blockEvent(1));
+    await vi.advanceTimersByTimeAsync(5200);
+
+    expect((await subscription.next()).value?.event.id).toBe(blockEvent(1).id);
+    expect(console.warn).toHaveBeenCalledOnce();
+  });
+
+  it('does not wait when no blocks projection runs against the database', async () => {
+    projected = null;
+    const subscription = bus.subscribe<BlockChange>(blockTopic(PROJECT_ID));
+
+    await projection.apply(blockEvent(1));
+    await vi.advanceTimersByTimeAsync(150);
+
+    expect((await subscription.next()).value?.event.id).toBe(blockEvent(1).id);
+  });
+});
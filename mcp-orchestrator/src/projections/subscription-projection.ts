@@ -0,0 +1,113 @@
+import { Database } from '../database.js';
+import { EventBus } from '../event-bus.js';
+import { Block, Event } from '../types.js';
+import { Projection } from './projection.js';
+
+export interface BlockChange {
+  event: Event;
+  block: Block | null;
+}
+
+export const eventTopic = (projectId: string) => `events:${projectId}`;
+export const blockTopic = (projectId: string) => `blocks:${projectId}`;
+
+// How long a block change waits for the blocks projection before it is published anyway
+const BLOCK_PROJECTION_WAIT_MS = 5000;
+const BLOCK_PROJECTION_POLL_MS = 100;
+
+interface PendingBlockChange {
+  event: Event;
+  queuedAt: number;
+}
+
+// Publishes appended events to GraphQL subscribers. Nothing is persisted, so it runs on a
+// throwaway cursor that is fast-forwarded to the head of the log on start.
+export class SubscriptionProjection implements Projection {
+  readonly name: string;
+  private db: Database;
+  private bus: EventBus;
+  // Block changes waiting for the blocks projection, in log order
+  private pending: PendingBlockChange[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(database: Database, bus: EventBus, name = 'graphql-subscriptions') {
+    this.db = database;
+    this.bus = bus;
+    this.name = name;
+  }
+
+  handles(event: Event): boolean {
+    return true;
+  }
+
+  // Never waits: block changes are queued and published once the blocks projection has applied them
+  async apply(event: Event): Promise<void> {
+    this.bus.publish(eventTopic(event.project_id), event);
+
+    if (event.type.startsWith('block.') && this.bus.subscriberCount(blockTopic(event.project_id)) > 0) {
+      this.pending.push({ event, queuedAt: Date.now() });
+      this.scheduleFlush();
+    }
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush()
+        .catch(error => console.error(`[${this.name}] Failed to publish block changes:`, error))
+        .finally(() => {
+          if (this.pending.length > 0) this.scheduleFlush();
+        });
+    }, BLOCK_PROJECTION_POLL_MS);
+    this.flushTimer.unref();
+  }
+
+  // Publishes the queued changes the blocks projection has caught up with, in order, each exactly once.
+  // Its cursor only moves forward, so those are always a prefix of the queue.
+  private async flush(): Promise<void> {
+    const projected = await this.projectedEventIds(this.pending.map(change => change.event.id));
+
+    while (this.pending.length > 0) {
+      const { event, queuedAt } = this.pending[0];
+      if (projected && !projected.has(event.id)) {
+        if (Date.now() - queuedAt < BLOCK_PROJECTION_WAIT_MS) break;
+        console.warn(`[${this.name}] Blocks projection did not reach event ${event.id} in time; publishing anyway`);
+      }
+
+      this.pending.shift();
+      await this.publishBlockChange(event);
+    }
+  }
+
+  // Subscribers want the block as it is after the change, which only the blocks projection knows
+  private async publishBlockChange(event: Event): Promise<void> {
+    for (const blockId of this.affectedBlockIds(event)) {
+      this.bus.publish<BlockChange>(blockTopic(event.project_id), {
+        event,
+        block: await this.db.getBlock(blockId)
+      });
+    }
+  }
+
+  private affectedBlockIds(event: Event): string[] {
+    const { id, from_block_id, to_block_id } = event.payload;
+    return [id, from_block_id, to_block_id].filter((blockId): blockId is string => typeof blockId === 'string');
+  }
+
+  // Which of the events the blocks projection has applied, or null when no blocks projection
+  // runs against this database and there is nothing to wait for
+  private async projectedEventIds(eventIds: string[]): Promise<Set<string> | null> {
+    const result = await this.db.query(`
+      SELECT e.id::text AS id, o.last_seen_at IS NOT NULL
+        AND (o.last_seen_at, o.last_event_id) >= (e.created_at, e.id) AS caught_up
+      FROM projection_offsets o, events e
+      WHERE o.id = 'blocks' AND e.id::text = ANY($1::text[])
+    `, [eventIds]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return new Set(result.rows.filter((row: any) => row.caught_up).map((row: any) => row.id));
+  }
+}
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { Database } from './database.js';
+import { RepositoryLink } from './types.js';
+
+export class RepositoryLinkRegistry {
+  private db: Database;
+
+  constructor(database: Database) {
+    this.db = database;
+  }
+
+  static generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  // GitHub treats owner/name case-insensitively
+  static normalize(fullName: string): string {
+    return fullName.trim().toLowerCase();
+  }
+
+  async listByProject(projectId: string): Promise<RepositoryLink[]> {
+    const result = await this.db.query(`
+      SELECT * FROM repository_links
+      WHERE project_id = $1
+      ORDER BY repository_full_name
+    `, [projectId]);
+
+    return result.rows as RepositoryLink[];
+  }
+
+  async get(id: string): Promise<RepositoryLink | null> {
+    const result = await this.db.query(`
+      SELECT * FROM repository_links WHERE id = $1
+    `, [id]);
+
+    return result.rows[0] as RepositoryLink || null;
+  }
+
+  async findByRepository(fullName: string): Promise<RepositoryLink | null> {
+    const result = await this.db.query(`
+      SELECT * FROM repository_links WHERE repository_full_name = $1
+    `, [RepositoryLinkRegistry.normalize(fullName)]);
+
+    return result.rows[0] as RepositoryLink || null;
+  }
+
+  // Returns null when the repository is already linked (to this or another project)
+  async create(projectId: string, fullName: string, webhookSecret?: string): Promise<RepositoryLink | null> {
+    const result = await this.db.query(`
+      INSERT INTO repository_links (project_id, repository_full_name, webhook_secret)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (repository_full_name) DO NOTHING
+      RETURNING *
+    `, [
+      projectId,
+      RepositoryLinkRegistry.normalize(fullName),
+      webhookSecret || RepositoryLinkRegistry.generateSecret()
+    ]);
+
+    return result.rows[0] as RepositoryLink || null;
+  }
+
+  async update(id: string, changes: { project_id?: string; webhook_secret?: string }): Promise<RepositoryLink | null> {
+    const result = await this.db.query(`
+      UPDATE repository_links
+      SET project_id = COALESCE($2, project_id),
+          webhook_secret = COALESCE($3, webhook_secret),
+          updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [id, changes.project_id || null, changes.webhook_secret || null]);
+
+    return result.rows[0] as RepositoryLink || null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.db.query(`
+      DELETE FROM repository_links WHERE id = $1
+    `, [id]);
+
+    return result.rowCount > 0;
+  }
+
+  // Secrets are shown once, when created or rotated; listings only say whether one is set
+  static redact(link: RepositoryLink): Omit<RepositoryLink, 'webhook_secret'> & { has_webhook_secret: boolean } {
+    const { webhook_secret, ...rest } = link;
+    return { ...rest, has_webhook_secret: Boolean(webhook_secret) };
+  }
+}
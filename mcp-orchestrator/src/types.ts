@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { BLOCK_LANES, BLOCK_PRIORITIES, BLOCK_STATUSES, CONTEXT_TYPES } from '@frizy/mcp-tools';
 
 // Event types for the event-sourced architecture
 export const EventTypeSchema = z.enum([
@@ -7,6 +8,8 @@ export const EventTypeSchema = z.enum([
   'block.moved',
   'block.deleted',
   'block.progress_updated',
+  'block.relation_added',
+  'block.relation_removed',
   'context.captured',
   'context.linked',
   'session.started',
@@ -38,10 +41,15 @@ export const EventSchema = z.object({
 
 export type Event = z.infer<typeof EventSchema>;
 
+// An event before it is appended; the database assigns id and created_at
+export const NewEventSchema = EventSchema.omit({ id: true, created_at: true });
+
+export type NewEvent = z.infer<typeof NewEventSchema>;
+
 // Block-related schemas
-export const BlockLaneSchema = z.enum(['vision', 'goals', 'current', 'next', 'context']);
-export const BlockStatusSchema = z.enum(['not_started', 'in_progress', 'completed', 'blocked', 'cancelled']);
-export const BlockPrioritySchema = z.enum(['low', 'medium', 'high', 'urgent']);
+export const BlockLaneSchema = z.enum(BLOCK_LANES);
+export const BlockStatusSchema = z.enum(BLOCK_STATUSES);
+export const BlockPrioritySchema = z.enum(BLOCK_PRIORITIES);
 
 export const BlockSchema = z.object({
   id: z.string().uuid(),
@@ -53,6 +61,7 @@ export const BlockSchema = z.object({
   priority: BlockPrioritySchema.default('medium'),
   progress: z.number().int().min(0).max(100).default(0),
   effort: z.number().int().min(1).optional(),
+  number: z.number().int().optional(), // Per-project, referenced as BLK-<number>
   last_worked_at: z.string().datetime().optional(),
   created_at: z.string().datetime(),
   updated_at: z.string().datetime()
@@ -61,7 +70,7 @@ export const BlockSchema = z.object({
 export type Block = z.infer<typeof BlockSchema>;
 
 // Context item schemas
-export const ContextTypeSchema = z.enum(['decision', 'insight', 'blocker', 'solution', 'reference', 'note']);
+export const ContextTypeSchema = z.enum(CONTEXT_TYPES);
 
 export const ContextItemSchema = z.object({
   id: z.string().uuid(),
@@ -76,35 +85,7 @@ export const ContextItemSchema = z.object({
 
 export type ContextItem = z.infer<typeof ContextItemSchema>;
 
-// MCP tool call schemas
-export const FrizyCreateBlockSchema = z.object({
-  project_id: z.string().uuid(),
-  title: z.string().min(1),
-  content: z.string().optional(),
-  lane: BlockLaneSchema.default('current'),
-  priority: BlockPrioritySchema.default('medium'),
-  effort: z.number().int().min(1).optional()
-});
-
-export const FrizyMoveBlockSchema = z.object({
-  project_id: z.string().uuid(),
-  block_id: z.string().uuid(),
-  lane: BlockLaneSchema
-});
-
-export const FrizyUpdateProgressSchema = z.object({
-  project_id: z.string().uuid(),
-  block_id: z.string().uuid(),
-  progress: z.number().int().min(0).max(100)
-});
-
-export const FrizyCaptureContextSchema = z.object({
-  project_id: z.string().uuid(),
-  type: ContextTypeSchema,
-  title: z.string().optional(),
-  content: z.string(),
-  block_id: z.string().uuid().optional()
-});
+// MCP tool call schemas live in @frizy/mcp-tools, shared with the standalone MCP server
 
 // API response schemas
 export const ApiResponseSchema = z.object({
@@ -125,7 +106,8 @@ export const ContextPreviewItemSchema = z.object({
   score: z.number().min(0).max(1),
   source: z.string(),
   links: z.array(z.string()).default([]),
-  created_at: z.string().datetime()
+  created_at: z.string().datetime(),
+  token_count: z.number().int()
 });
 
 export const ContextPreviewSchema = z.object({
@@ -133,12 +115,126 @@ export const ContextPreviewSchema = z.object({
   preview: z.array(ContextPreviewItemSchema),
   summary: z.string(),
   total_items: z.number(),
+  total_tokens: z.number().int(),
+  max_tokens: z.number().int(),
   generated_at: z.string().datetime()
 });
 
 export type ContextPreview = z.infer<typeof ContextPreviewSchema>;
 export type ContextPreviewItem = z.infer<typeof ContextPreviewItemSchema>;
 
+// Dead-lettered events (failed projection after all retries)
+export const DeadLetterStatusSchema = z.enum(['pending', 'replayed', 'discarded']);
+
+export type DeadLetterStatus = z.infer<typeof DeadLetterStatusSchema>;
+
+export interface DeadLetterEvent {
+  id: string;
+  event_id: string;
+  consumer_id: string;
+  project_id: string | null;
+  event_type: string | null;
+  event: Event;
+  error: string;
+  error_stack: string | null;
+  attempts: number;
+  status: DeadLetterStatus;
+  first_failed_at: string;
+  last_failed_at: string;
+  resolved_at: string | null;
+}
+
+// GitHub repositories linked to projects
+export const RepositoryFullNameSchema = z.string().regex(/^[\w.-]+\/[\w.-]+$/, 'Expected owner/name');
+
+export const CreateRepositoryLinkSchema = z.object({
+  repository_full_name: RepositoryFullNameSchema,
+  webhook_secret: z.string().min(16).optional()
+});
+
+export const UpdateRepositoryLinkSchema = z.object({
+  project_id: z.string().min(1).optional(),
+  webhook_secret: z.string().min(16).optional()
+});
+
+export interface RepositoryLink {
+  id: string;
+  project_id: string;
+  repository_full_name: string;
+  webhook_secret: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Webhook deliveries from repositories no project has linked
+export const QuarantineStatusSchema = z.enum(['pending', 'assigned', 'discarded']);
+
+export type QuarantineStatus = z.infer<typeof QuarantineStatusSchema>;
+
+export interface QuarantinedDelivery {
+  id: string;
+  delivery_id: string | null;
+  repository_full_name: string | null;
+  event_name: string;
+  payload: any;
+  status: QuarantineStatus;
+  assigned_project_id: string | null;
+  received_at: string;
+  resolved_at: string | null;
+}
+
+// Every GitHub webhook delivery, as received and as last processed
+export const SignatureStatusSchema = z.enum(['valid', 'invalid', 'missing', 'unverified']);
+export const DeliveryOutcomeSchema = z.enum(['received', 'processed', 'ignored', 'quarantined', 'rejected', 'failed']);
+
+export type SignatureStatus = z.infer<typeof SignatureStatusSchema>;
+export type DeliveryOutcome = z.infer<typeof DeliveryOutcomeSchema>;
+
+export interface WebhookDelivery {
+  id: string;
+  delivery_id: string | null;
+  event_name: string;
+  repository_full_name: string | null;
+  project_id: string | null;
+  headers: Record<string, string>;
+  payload: any;
+  raw_body: string | null;
+  signature_status: SignatureStatus;
+  outcome: DeliveryOutcome;
+  outcome_message: string | null;
+  event_ids: string[];
+  quarantine_id: string | null;
+  attempts: number;
+  received_at: string;
+  processed_at: string | null;
+  last_replayed_at: string | null;
+}
+
+// API tokens: personal (any project the user belongs to) or bound to one project
+export const ApiTokenScopeSchema = z.enum(['events:write', 'context:read', 'graph:read']);
+
+export type ApiTokenScope = z.infer<typeof ApiTokenScopeSchema>;
+
+export const CreateApiTokenSchema = z.object({
+  name: z.string().min(1).max(100),
+  project_id: z.string().min(1).optional(),
+  scopes: z.array(ApiTokenScopeSchema).min(1),
+  expires_in_days: z.number().int().min(1).max(365).optional()
+});
+
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  name: string;
+  token_prefix: string;
+  scopes: ApiTokenScope[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
 // MCP connection info
 export interface MCPConnectionInfo {
   project_id: string;
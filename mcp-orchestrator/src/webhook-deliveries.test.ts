@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Database } from './database.js';
+import { SignatureStatus, WebhookDelivery } from './types.js';
+import { WebhookDeliveryLog } from './webhook-deliveries.js';
+
+// Just enough of the webhook_deliveries table; each statement runs atomically after a tick,
+// so calls made together interleave between statements the way concurrent requests do
+class FakeDatabase {
+  rows: WebhookDelivery[] = [];
+
+  async query(text: string, params: any[] = []): Promise<any> {
+    await Promise.resolve();
+
+    if (text.includes('INSERT INTO webhook_deliveries')) {
+      if (params[0] && this.rows.some(row => row.delivery_id === params[0])) return { rows: [] };
+      const row: WebhookDelivery = {
+        id: `log-${this.rows.length + 1}`,
+        delivery_id: params[0],
+        event_name: params[1],
+        repository_full_name: params[2],
+        project_id: null,
+        headers: params[3],
+        payload: params[4],
+        raw_body: params[5],
+        signature_status: params[6],
+        outcome: 'received',
+        outcome_message: null,
+        event_ids: [],
+        quarantine_id: null,
+        attempts: 1,
+        received_at: '2024-05-01T10:00:00.000Z',
+        processed_at: null,
+        last_replayed_at: null
+      };
+      this.rows.push(row);
+      return { rows: [row] };
+    }
+    if (text.includes('UPDATE webhook_deliveries') && text.includes('delivery_id = $1')) {
+      const row = this.rows.find(row => row.delivery_id === params[0] && params[5].includes(row.outcome));
+      if (!row) return { rows: [] };
+      Object.assign(row, { payload: params[2], signature_status: params[4], outcome: 'received', attempts: row.attempts + 1 });
+      return { rows: [{ ...row }] };
+    }
+    if (text.includes('UPDATE webhook_deliveries')) {
+      const row = this.rows.find(row => row.id === params[0])!;
+      Object.assign(row, { outcome: params[1], outcome_message: params[2] });
+      return { rows: [{ ...row }] };
+    }
+    if (text.includes('SELECT * FROM webhook_deliveries')) {
+      return { rows: this.rows.filter(row => row.delivery_id === params[0]).map(row => ({ ...row })) };
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  }
+}
+
+const delivery = (signatureStatus: SignatureStatus = 'valid') => ({
+  deliveryId: 'delivery-1',
+  eventName: 'pull_request',
+  repository: 'Acme/App',
+  headers: { 'x-github-delivery': 'delivery-1' },
+  payload: { action: 'opened' },
+  signatureStatus
+});
+
+describe('WebhookDeliveryLog.record', () => {
+  let db: FakeDatabase;
+  let log: WebhookDeliveryLog;
+
+  beforeEach(() => {
+    db = new FakeDatabase();
+    log = new WebhookDeliveryLog(db as unknown as Database);
+  });
+
+  it('claims a delivery seen for the first time', async () => {
+    const { delivery: logged, duplicate, claimed } = await log.record(delivery());
+
+    expect(duplicate).toBe(false);
+    expect(claimed).toBe(true);
+    expect(logged.repository_full_name).toBe('acme/app');
+  });
+
+  it('leaves settled deliveries alone', async () => {
+    const { delivery: logged } = await log.record(delivery());
+    await log.complete(logged.id, { outcome: 'processed' });
+
+    const redelivery = await log.record(delivery());
+
+    expect(redelivery).toMatchObject({ duplicate: true, claimed: false, delivery: { outcome: 'processed', attempts: 1 } });
+  });
+
+  it('does not claim a redelivery while the first attempt is still in progress', async () => {
+    await log.record(delivery());
+
+    const redelivery = await log.record(delivery());
+
+    expect(redelivery).toMatchObject({ duplicate: true, claimed: false, delivery: { outcome: 'received' } });
+  });
+
+  it('reopens a failed delivery for exactly one of several concurrent redeliveries', async () => {
+    const { delivery: logged } = await log.record(delivery());
+    await log.complete(logged.id, { outcome: 'failed', message: 'boom' });
+
+    const redeliveries = await Promise.all([log.record(delivery()), log.record(delivery()), log.record(delivery())]);
+
+    expect(redeliveries.map(redelivery => redelivery.claimed).sort()).toEqual([false, false, true]);
+    expect(db.rows[0]).toMatchObject({ outcome: 'received', attempts: 2 });
+  });
+
+  it('never reopens a delivery for a redelivery that fails verification', async () => {
+    const { delivery: logged } = await log.record(delivery());
+    await log.complete(logged.id, { outcome: 'failed' });
+
+    const redelivery = await log.record(delivery('invalid'));
+
+    expect(redelivery).toMatchObject({ duplicate: true, claimed: false, delivery: { outcome: 'failed', signature_status: 'valid' } });
+  });
+});
@@ -0,0 +1,200 @@
+import { Database } from './database.js';
+import { DeliveryOutcome, SignatureStatus, WebhookDelivery } from './types.js';
+
+export interface DeliveryFilters {
+  outcome?: DeliveryOutcome;
+  repository?: string;
+  event?: string;
+  // Restricts the list to deliveries routed to these projects; omit for every delivery
+  projectIds?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+// Outcomes after which a redelivery of the same X-GitHub-Delivery is a no-op.
+// Rejected and failed deliveries are processed again when GitHub (or someone) redelivers them.
+const SETTLED_OUTCOMES: DeliveryOutcome[] = ['processed', 'ignored', 'quarantined'];
+const RETRYABLE_OUTCOMES: DeliveryOutcome[] = ['rejected', 'failed'];
+
+// Headers worth keeping for an audit; anything else (cookies, proxies' auth) is dropped
+const RECORDED_HEADER = /^(x-github-|x-hub-signature|user-agent$|content-type$)/;
+
+export class WebhookDeliveryLog {
+  private db: Database;
+
+  constructor(database: Database) {
+    this.db = database;
+  }
+
+  static pickHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+    const picked: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value !== undefined && RECORDED_HEADER.test(name.toLowerCase())) {
+        picked[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+    return picked;
+  }
+
+  static isSettled(delivery: WebhookDelivery): boolean {
+    return SETTLED_OUTCOMES.includes(delivery.outcome);
+  }
+
+  // Record a delivery as received. A delivery id seen before returns the existing row with
+  // duplicate set: rejected and failed rows are reopened for another attempt, anything else
+  // (settled, or still being processed) is left alone. claimed tells the caller whether it
+  // processes the delivery; of concurrent redeliveries only one reopens it.
+  // A redelivery that fails verification never overwrites what was stored.
+  async record(delivery: {
+    deliveryId?: string;
+    eventName: string;
+    repository?: string;
+    headers: Record<string, string>;
+    payload: any;
+    rawBody?: string;
+    signatureStatus: SignatureStatus;
+  }): Promise<{ delivery: WebhookDelivery; duplicate: boolean; claimed: boolean }> {
+    const inserted = await this.db.query(`
+      INSERT INTO webhook_deliveries (
+        delivery_id, event_name, repository_full_name, headers, payload, raw_body, signature_status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (delivery_id) DO NOTHING
+      RETURNING *
+    `, [
+      delivery.deliveryId || null,
+      delivery.eventName,
+      delivery.repository?.toLowerCase() || null,
+      delivery.headers,
+      delivery.payload,
+      delivery.rawBody ?? null,
+      delivery.signatureStatus
+    ]);
+
+    if (inserted.rows[0]) {
+      return { delivery: inserted.rows[0] as WebhookDelivery, duplicate: false, claimed: true };
+    }
+
+    const trusted = delivery.signatureStatus === 'valid' || delivery.signatureStatus === 'unverified';
+    if (trusted) {
+      // Reopening checks the outcome in the same statement, so the row is claimed at most once
+      const reopened = await this.db.query(`
+        UPDATE webhook_deliveries
+        SET headers = $2, payload = $3, raw_body = $4, signature_status = $5,
+            outcome = 'received', outcome_message = NULL, attempts = attempts + 1
+        WHERE delivery_id = $1 AND outcome = ANY($6::text[])
+        RETURNING *
+      `, [
+        delivery.deliveryId,
+        delivery.headers,
+        delivery.payload,
+        delivery.rawBody ?? null,
+        delivery.signatureStatus,
+        RETRYABLE_OUTCOMES
+      ]);
+
+      if (reopened.rows[0]) {
+        return { delivery: reopened.rows[0] as WebhookDelivery, duplicate: true, claimed: true };
+      }
+    }
+
+    const existing = await this.db.query(`
+      SELECT * FROM webhook_deliveries WHERE delivery_id = $1
+    `, [delivery.deliveryId]);
+
+    return { delivery: existing.rows[0] as WebhookDelivery, duplicate: true, claimed: false };
+  }
+
+  async complete(id: string, result: {
+    outcome: DeliveryOutcome;
+    message?: string;
+    projectId?: string;
+    eventIds?: string[];
+    quarantineId?: string;
+  }): Promise<WebhookDelivery | null> {
+    const updated = await this.db.query(`
+      UPDATE webhook_deliveries
+      SET outcome = $2,
+          outcome_message = $3,
+          project_id = COALESCE($4, project_id),
+          event_ids = event_ids || $5::text[],
+          quarantine_id = COALESCE($6, quarantine_id),
+          processed_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [
+      id,
+      result.outcome,
+      result.message || null,
+      result.projectId || null,
+      result.eventIds || [],
+      result.quarantineId || null
+    ]);
+
+    return updated.rows[0] as WebhookDelivery || null;
+  }
+
+  // Deliveries quarantined on arrival are completed later, when the quarantine entry is assigned
+  async completeByDeliveryId(deliveryId: string, result: Parameters<WebhookDeliveryLog['complete']>[1]): Promise<void> {
+    const existing = await this.db.query(`
+      SELECT id FROM webhook_deliveries WHERE delivery_id = $1
+    `, [deliveryId]);
+
+    if (existing.rows[0]) {
+      await this.complete(existing.rows[0].id, result);
+    }
+  }
+
+  async markReplayed(id: string, signatureStatus: SignatureStatus): Promise<void> {
+    await this.db.query(`
+      UPDATE webhook_deliveries
+      SET last_replayed_at = NOW(), signature_status = $2, attempts = attempts + 1
+      WHERE id = $1
+    `, [id, signatureStatus]);
+  }
+
+  async list(filters: DeliveryFilters = {}): Promise<WebhookDelivery[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.outcome) {
+      values.push(filters.outcome);
+      conditions.push(`outcome = $${values.length}`);
+    }
+    if (filters.repository) {
+      values.push(filters.repository.toLowerCase());
+      conditions.push(`repository_full_name = $${values.length}`);
+    }
+    if (filters.event) {
+      values.push(filters.event);
+      conditions.push(`event_name = $${values.length}`);
+    }
+    if (filters.projectIds) {
+      values.push(filters.projectIds);
+      conditions.push(`project_id = ANY($${values.length}::text[])`);
+    }
+
+    values.push(filters.limit || 50, filters.offset || 0);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Payloads and raw bodies can be large; fetch a single delivery to see them
+    const result = await this.db.query(`
+      SELECT id, delivery_id, event_name, repository_full_name, project_id, headers,
+             signature_status, outcome, outcome_message, event_ids, quarantine_id, attempts,
+             received_at, processed_at, last_replayed_at
+      FROM webhook_deliveries
+      ${where}
+      ORDER BY received_at DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length}
+    `, values);
+
+    return result.rows as WebhookDelivery[];
+  }
+
+  async get(id: string): Promise<WebhookDelivery | null> {
+    const result = await this.db.query(`
+      SELECT * FROM webhook_deliveries WHERE id = $1 OR delivery_id = $1
+    `, [id]);
+
+    return result.rows[0] as WebhookDelivery || null;
+  }
+}
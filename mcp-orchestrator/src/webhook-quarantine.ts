@@ -0,0 +1,100 @@
+import { Database } from './database.js';
+import { QuarantinedDelivery, QuarantineStatus } from './types.js';
+
+export interface QuarantineFilters {
+  status?: QuarantineStatus;
+  repository?: string;
+  // Restricts the list to deliveries assigned to these projects; omit for every delivery
+  projectIds?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export class WebhookQuarantine {
+  private db: Database;
+
+  constructor(database: Database) {
+    this.db = database;
+  }
+
+  async add(delivery: {
+    deliveryId?: string;
+    repository?: string;
+    eventName: string;
+    payload: any;
+  }): Promise<QuarantinedDelivery> {
+    const result = await this.db.query(`
+      INSERT INTO quarantined_webhook_deliveries (delivery_id, repository_full_name, event_name, payload)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `, [
+      delivery.deliveryId || null,
+      delivery.repository?.toLowerCase() || null,
+      delivery.eventName,
+      delivery.payload
+    ]);
+
+    return result.rows[0] as QuarantinedDelivery;
+  }
+
+  async list(filters: QuarantineFilters = {}): Promise<QuarantinedDelivery[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filters.repository) {
+      values.push(filters.repository.toLowerCase());
+      conditions.push(`repository_full_name = $${values.length}`);
+    }
+    if (filters.projectIds) {
+      values.push(filters.projectIds);
+      conditions.push(`assigned_project_id = ANY($${values.length}::text[])`);
+    }
+
+    values.push(filters.limit || 50, filters.offset || 0);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await this.db.query(`
+      SELECT *
+      FROM quarantined_webhook_deliveries
+      ${where}
+      ORDER BY received_at DESC
+      LIMIT $${values.length - 1} OFFSET $${values.length}
+    `, values);
+
+    return result.rows as QuarantinedDelivery[];
+  }
+
+  async get(id: string): Promise<QuarantinedDelivery | null> {
+    const result = await this.db.query(`
+      SELECT * FROM quarantined_webhook_deliveries WHERE id = $1
+    `, [id]);
+
+    return result.rows[0] as QuarantinedDelivery || null;
+  }
+
+  async markAssigned(id: string, projectId: string): Promise<QuarantinedDelivery | null> {
+    const result = await this.db.query(`
+      UPDATE quarantined_webhook_deliveries
+      SET status = 'assigned', assigned_project_id = $2, resolved_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [id, projectId]);
+
+    return result.rows[0] as QuarantinedDelivery || null;
+  }
+
+  async markDiscarded(id: string): Promise<QuarantinedDelivery | null> {
+    const result = await this.db.query(`
+      UPDATE quarantined_webhook_deliveries
+      SET status = 'discarded', resolved_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [id]);
+
+    return result.rows[0] as QuarantinedDelivery || null;
+  }
+}
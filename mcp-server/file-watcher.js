@@ -3,6 +3,7 @@ import chokidar from 'chokidar';
 import path from 'path';
 import fs from 'fs/promises';
 import { nanoid } from 'nanoid';
+import { countTokens } from '@frizy/tokenizer';
 
 export class FileSystemWatcher {
   constructor(mcpServer, options = {}) {
@@ -275,12 +276,11 @@ export class FileSystemWatcher {
   }
 
   estimateTokens(changes) {
-    // Rough estimation of tokens used
     let tokens = 0;
     changes.forEach(change => {
       tokens += 10; // Base tokens for metadata
       if (change.content) {
-        tokens += Math.ceil(change.content.length / 4);
+        tokens += countTokens(change.content);
       }
     });
     return tokens;
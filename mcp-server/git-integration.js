@@ -1,6 +1,7 @@
 // Git Integration Module for MCP Server
 import simpleGit from 'simple-git';
 import { nanoid } from 'nanoid';
+import { countTokens } from '@frizy/tokenizer';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -337,7 +338,7 @@ curl -X POST http://localhost:${this.mcpServer.port || 3333}/api/git/hook \\
   estimateCommitTokens(commits) {
     let tokens = 0;
     commits.forEach(commit => {
-      tokens += Math.ceil(commit.message.length / 4);
+      tokens += countTokens(commit.message);
       tokens += 20; // Metadata tokens
     });
     return tokens;
@@ -10,10 +10,12 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { EventEmitter } from 'events';
+import { countTokens } from '@frizy/tokenizer';
 import FileSystemWatcher from './file-watcher.js';
 import GitIntegration from './git-integration.js';
 import SupabaseSync from './supabase-sync.js';
 import AnalyticsDashboard from './analytics-dashboard.js';
+import { PROTOCOL_VERSION, StreamClient, StreamLog } from './stream-protocol.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -205,13 +207,40 @@ class MCPDatabase {
   }
 }
 
+const MAX_COALESCED_EVENTS = 500;
+
+// How a lagging framed client's queued messages merge; anything else is delivered one by one
+function coalesceMessage(message) {
+  switch (message.type) {
+    case 'events_logged':
+      return {
+        key: message.type,
+        merge: (older, newer) => older.events.length >= MAX_COALESCED_EVENTS ? null : {
+          ...newer,
+          events: [...older.events, ...newer.events],
+          count: older.count + newer.count
+        }
+      };
+    case 'context_updated':
+    case 'context_warning':
+      return { key: `${message.type}:${message.sessionId}`, merge: (older, newer) => newer };
+    case 'analytics_update':
+      return { key: message.type, merge: (older, newer) => newer };
+    default:
+      return null;
+  }
+}
+
 // WebSocket Server
 class MCPWebSocketServer extends EventEmitter {
   constructor(db) {
     super();
     this.db = db;
     this.clients = new Map();
+    this.streamLog = new StreamLog();
     this.eventBatch = [];
+    // Framed clients waiting for their log_event messages to be stored
+    this.batchAcceptances = [];
     this.batchTimer = null;
     this.port = null;
 
@@ -243,7 +272,9 @@ class MCPWebSocketServer extends EventEmitter {
         id: clientId,
         ws,
         sessionId: null,
-        subscriptions: new Set(['all'])
+        subscriptions: new Set(['all']),
+        // Set once the client opts into the framed protocol
+        stream: null
       };
 
       this.clients.set(clientId, client);
@@ -260,6 +291,15 @@ class MCPWebSocketServer extends EventEmitter {
       ws.on('message', (data) => {
         try {
           const message = JSON.parse(data);
+          if (message.type === 'hello' && !client.stream) {
+            if (message.protocol !== PROTOCOL_VERSION) {
+              this.sendToClient(client, { type: 'error', error: `Unsupported protocol version: ${message.protocol}` });
+              return;
+            }
+            client.stream = new StreamClient(ws, this.streamLog, coalesceMessage);
+          }
+          if (client.stream && client.stream.handle(message)) return;
+
           this.handleMessage(client, message);
         } catch (error) {
           console.error('Invalid message:', error);
@@ -268,6 +308,7 @@ class MCPWebSocketServer extends EventEmitter {
 
       // Handle disconnect
       ws.on('close', () => {
+        if (client.stream) client.stream.close();
         this.clients.delete(clientId);
         console.log(`Client disconnected: ${clientId}`);
       });
@@ -285,8 +326,9 @@ class MCPWebSocketServer extends EventEmitter {
         break;
 
       case 'log_event':
-        this.handleLogEvent(client, message.data);
-        break;
+        // Accepted once the batch is stored
+        this.handleLogEvent(client, message.data, message.id);
+        return;
 
       case 'update_context':
         this.handleUpdateContext(client, message.data);
@@ -302,6 +344,16 @@ class MCPWebSocketServer extends EventEmitter {
 
       default:
         console.warn(`Unknown message type: ${message.type}`);
+        return;
+    }
+
+    this.accept(client, message.id);
+  }
+
+  // Framed clients that tag a message with an id hear back once it has been handled
+  accept(client, id) {
+    if (client.stream && id) {
+      client.stream.send({ type: 'accepted', id });
     }
   }
 
@@ -318,13 +370,16 @@ class MCPWebSocketServer extends EventEmitter {
     this.emit('session:created', session);
   }
 
-  handleLogEvent(client, data) {
+  handleLogEvent(client, data, messageId) {
     // Add to batch
     this.eventBatch.push({
       ...data,
       sessionId: client.sessionId || data.sessionId,
       timestamp: Date.now()
     });
+    if (client.stream && messageId) {
+      this.batchAcceptances.push({ client, id: messageId });
+    }
 
     // Process batch if size exceeded or start timer
     if (this.eventBatch.length >= CONFIG.EVENT_BATCH_SIZE) {
@@ -338,7 +393,9 @@ class MCPWebSocketServer extends EventEmitter {
     if (this.eventBatch.length === 0) return;
 
     const events = [...this.eventBatch];
+    const acceptances = this.batchAcceptances;
     this.eventBatch = [];
+    this.batchAcceptances = [];
 
     if (this.batchTimer) {
       clearTimeout(this.batchTimer);
@@ -347,6 +404,7 @@ class MCPWebSocketServer extends EventEmitter {
 
     // Store events
     const eventIds = events.map(event => this.db.createEvent(event));
+    acceptances.forEach(({ client, id }) => this.accept(client, id));
 
     // Emit events for analytics
     events.forEach((event, i) => {
@@ -423,10 +481,15 @@ class MCPWebSocketServer extends EventEmitter {
   }
 
   broadcast(message, channel = 'all') {
+    const frame = this.streamLog.append(channel, message);
     const data = JSON.stringify(message);
 
     this.clients.forEach(client => {
-      if (client.subscriptions.has(channel) || client.subscriptions.has('all')) {
+      if (client.stream) {
+        if (client.stream.isSubscribed(channel)) {
+          client.stream.deliver(frame);
+        }
+      } else if (client.subscriptions.has(channel) || client.subscriptions.has('all')) {
         if (client.ws.readyState === 1) {
           client.ws.send(data);
         }
@@ -459,8 +522,7 @@ class ContextManager {
   }
 
   calculateTokens(text) {
-    // Rough estimation: 1 token ≈ 4 characters
-    return Math.ceil(text.length / 4);
+    return countTokens(text);
   }
 
   async optimizeContext(sessionId) {
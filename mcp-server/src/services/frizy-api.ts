@@ -3,11 +3,13 @@ import logger from '../utils/logger.js';
 import type { 
   ApiResponse, 
   Block, 
+  BlockLane,
+  BlockStatus,
+  FrizyToolInputs,
   Project, 
-  BlockProgressInput, 
-  BlockStatusInput, 
-  ContextItemInput, 
-  InsightInput 
+  ProjectContext,
+  Session,
+  Suggestion
 } from '../types/frizy.js';
 
 export class FrizyApiService {
@@ -68,13 +70,53 @@ export class FrizyApiService {
   }
 
   // Block operations
-  async updateBlockProgress(input: BlockProgressInput): Promise<Block> {
+  async createBlock(input: FrizyToolInputs['frizy_create_block']): Promise<Block> {
+    const { project_id, ...block } = input;
+    const response = await this.client.post<ApiResponse<Block>>(
+      `/projects/${project_id}/blocks`,
+      block
+    );
+    
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to create block');
+    }
+    
+    return response.data.data;
+  }
+
+  async updateBlock(input: FrizyToolInputs['frizy_update_block']): Promise<Block> {
+    const { block_id, ...changes } = input;
+    const response = await this.client.patch<ApiResponse<Block>>(
+      `/blocks/${block_id}`,
+      changes
+    );
+    
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to update block');
+    }
+    
+    return response.data.data;
+  }
+
+  async moveBlock(input: FrizyToolInputs['frizy_move_block']): Promise<Block> {
+    const response = await this.client.patch<ApiResponse<Block>>(
+      `/blocks/${input.block_id}/lane`,
+      { lane: input.lane }
+    );
+    
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to move block');
+    }
+    
+    return response.data.data;
+  }
+
+  async updateBlockProgress(input: FrizyToolInputs['frizy_update_progress']): Promise<Block> {
     const response = await this.client.patch<ApiResponse<Block>>(
-      `/blocks/${input.blockId}/progress`,
+      `/blocks/${input.block_id}/progress`,
       {
         progress: input.progress,
-        notes: input.notes,
-        metadata: input.metadata
+        notes: input.notes
       }
     );
     
@@ -85,13 +127,12 @@ export class FrizyApiService {
     return response.data.data;
   }
 
-  async updateBlockStatus(input: BlockStatusInput): Promise<Block> {
+  async updateBlockStatus(input: FrizyToolInputs['frizy_update_status']): Promise<Block> {
     const response = await this.client.patch<ApiResponse<Block>>(
-      `/blocks/${input.blockId}/status`,
+      `/blocks/${input.block_id}/status`,
       {
         status: input.status,
-        notes: input.notes,
-        metadata: input.metadata
+        notes: input.notes
       }
     );
     
@@ -112,8 +153,10 @@ export class FrizyApiService {
     return response.data.data;
   }
 
-  async getProjectBlocks(projectId: string): Promise<Block[]> {
-    const response = await this.client.get<ApiResponse<Block[]>>(`/projects/${projectId}/blocks`);
+  async getProjectBlocks(projectId: string, filters: { lane?: BlockLane; status?: BlockStatus } = {}): Promise<Block[]> {
+    const response = await this.client.get<ApiResponse<Block[]>>(`/projects/${projectId}/blocks`, {
+      params: filters
+    });
     
     if (!response.data.success || !response.data.data) {
       throw new Error(response.data.error || 'Failed to get project blocks');
@@ -123,7 +166,7 @@ export class FrizyApiService {
   }
 
   // Context operations
-  async createContextItem(input: ContextItemInput): Promise<{ id: string }> {
+  async createContextItem(input: FrizyToolInputs['frizy_capture_context'] & { source: string }): Promise<{ id: string }> {
     const response = await this.client.post<ApiResponse<{ id: string }>>(
       '/context-items',
       input
@@ -136,15 +179,59 @@ export class FrizyApiService {
     return response.data.data;
   }
 
-  // Insight operations  
-  async captureInsight(input: InsightInput): Promise<{ id: string }> {
-    const response = await this.client.post<ApiResponse<{ id: string }>>(
-      '/insights',
-      input
+  async getProjectContext(input: FrizyToolInputs['frizy_get_context']): Promise<ProjectContext> {
+    const response = await this.client.get<ApiResponse<ProjectContext>>(`/projects/${input.project_id}/context`, {
+      params: {
+        query: input.query,
+        max_tokens: input.max_tokens,
+        include_history: input.include_history
+      }
+    });
+    
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get project context');
+    }
+    
+    return response.data.data;
+  }
+
+  // Session operations
+  async startSession(input: FrizyToolInputs['frizy_start_session']): Promise<Session> {
+    const response = await this.client.post<ApiResponse<Session>>(
+      `/projects/${input.project_id}/sessions`,
+      {
+        blockId: input.block_id,
+        sessionType: input.session_type
+      }
+    );
+    
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to start session');
+    }
+    
+    return response.data.data;
+  }
+
+  async endSession(input: FrizyToolInputs['frizy_end_session']): Promise<Session> {
+    const response = await this.client.post<ApiResponse<Session>>(
+      `/sessions/${input.session_id}/end`,
+      { summary: input.summary }
     );
     
     if (!response.data.success || !response.data.data) {
-      throw new Error(response.data.error || 'Failed to capture insight');
+      throw new Error(response.data.error || 'Failed to end session');
+    }
+    
+    return response.data.data;
+  }
+
+  async getSuggestions(input: FrizyToolInputs['frizy_get_suggestions']): Promise<Suggestion[]> {
+    const response = await this.client.get<ApiResponse<Suggestion[]>>(`/projects/${input.project_id}/suggestions`, {
+      params: { type: input.type }
+    });
+    
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to get suggestions');
     }
     
     return response.data.data;
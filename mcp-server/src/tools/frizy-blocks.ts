@@ -0,0 +1,118 @@
+import { parseToolInput, ToolInputError } from '@frizy/mcp-tools';
+import logger from '../utils/logger.js';
+import { frizyApi } from '../services/frizy-api.js';
+
+export async function handleFrizyCreateBlock(args: unknown): Promise<string> {
+  try {
+    const input = parseToolInput('frizy_create_block', args);
+
+    logger.info('Creating block', {
+      projectId: input.project_id,
+      title: input.title,
+      lane: input.lane
+    });
+
+    const block = await frizyApi.createBlock(input);
+
+    logger.info('Block created successfully', { blockId: block.id, title: block.title });
+
+    return `Successfully created block "${block.title}" in the ${block.lane} lane with ${block.priority} priority. Block ID: ${block.id}.`;
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    logger.error('Failed to create block', { error: errorMessage, args });
+
+    if (error instanceof ToolInputError) {
+      return errorMessage;
+    }
+
+    return `Failed to create block: ${errorMessage}`;
+  }
+}
+
+export async function handleFrizyUpdateBlock(args: unknown): Promise<string> {
+  try {
+    const input = parseToolInput('frizy_update_block', args);
+    const { project_id, block_id, ...changes } = input;
+    const fields = Object.keys(changes);
+
+    if (fields.length === 0) {
+      return 'Nothing to update: pass at least one of title, content, priority, effort or status.';
+    }
+
+    logger.info('Updating block', { projectId: project_id, blockId: block_id, fields });
+
+    const block = await frizyApi.updateBlock(input);
+
+    logger.info('Block updated successfully', { blockId: block.id, title: block.title });
+
+    return `Successfully updated ${fields.join(', ')} of block "${block.title}".`;
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    logger.error('Failed to update block', { error: errorMessage, args });
+
+    if (error instanceof ToolInputError) {
+      return errorMessage;
+    }
+
+    return `Failed to update block: ${errorMessage}`;
+  }
+}
+
+export async function handleFrizyMoveBlock(args: unknown): Promise<string> {
+  try {
+    const input = parseToolInput('frizy_move_block', args);
+
+    logger.info('Moving block', { blockId: input.block_id, lane: input.lane });
+
+    const block = await frizyApi.moveBlock(input);
+
+    logger.info('Block moved successfully', { blockId: block.id, lane: block.lane });
+
+    return `Successfully moved block "${block.title}" to the ${block.lane} lane.`;
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    logger.error('Failed to move block', { error: errorMessage, args });
+
+    if (error instanceof ToolInputError) {
+      return errorMessage;
+    }
+
+    return `Failed to move block: ${errorMessage}`;
+  }
+}
+
+export async function handleFrizyListBlocks(args: unknown): Promise<string> {
+  try {
+    const input = parseToolInput('frizy_list_blocks', args);
+
+    const blocks = await frizyApi.getProjectBlocks(input.project_id, {
+      ...(input.lane ? { lane: input.lane } : {}),
+      ...(input.status ? { status: input.status } : {})
+    });
+
+    logger.info('Listed blocks', { projectId: input.project_id, count: blocks.length });
+
+    if (blocks.length === 0) {
+      return 'No blocks found matching criteria.';
+    }
+
+    return [
+      `Project blocks${input.lane ? ` (${input.lane} lane)` : ''}${input.status ? ` (${input.status})` : ''}:`,
+      ...blocks.map(block => `- ${block.title} [${block.lane}] - ${block.status} (${block.progress}%) - ${block.id}`),
+      `Total: ${blocks.length} blocks`
+    ].join('\n');
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    logger.error('Failed to list blocks', { error: errorMessage, args });
+
+    if (error instanceof ToolInputError) {
+      return errorMessage;
+    }
+
+    return `Failed to list blocks: ${errorMessage}`;
+  }
+}
@@ -0,0 +1,55 @@
+import { parseToolInput, ToolInputError } from '@frizy/mcp-tools';
+import logger from '../utils/logger.js';
+import { frizyApi } from '../services/frizy-api.js';
+
+export async function handleFrizyStartSession(args: unknown): Promise<string> {
+  try {
+    const input = parseToolInput('frizy_start_session', args);
+
+    logger.info('Starting session', {
+      projectId: input.project_id,
+      blockId: input.block_id,
+      sessionType: input.session_type
+    });
+
+    const session = await frizyApi.startSession(input);
+
+    logger.info('Session started successfully', { sessionId: session.id });
+
+    return `Started ${session.sessionType} session. Session ID: ${session.id}. Pass it to frizy_end_session when you are done.`;
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    logger.error('Failed to start session', { error: errorMessage, args });
+
+    if (error instanceof ToolInputError) {
+      return errorMessage;
+    }
+
+    return `Failed to start session: ${errorMessage}`;
+  }
+}
+
+export async function handleFrizyEndSession(args: unknown): Promise<string> {
+  try {
+    const input = parseToolInput('frizy_end_session', args);
+
+    logger.info('Ending session', { projectId: input.project_id, sessionId: input.session_id });
+
+    const session = await frizyApi.endSession(input);
+
+    logger.info('Session ended successfully', { sessionId: session.id });
+
+    return `Ended session ${session.id}.${input.summary ? ' Summary saved.' : ''}`;
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    logger.error('Failed to end session', { error: errorMessage, args });
+
+    if (error instanceof ToolInputError) {
+      return errorMessage;
+    }
+
+    return `Failed to end session: ${errorMessage}`;
+  }
+}
@@ -0,0 +1,36 @@
+import { parseToolInput, ToolInputError } from '@frizy/mcp-tools';
+import logger from '../utils/logger.js';
+import { frizyApi } from '../services/frizy-api.js';
+
+export async function handleFrizySuggestions(args: unknown): Promise<string> {
+  try {
+    const input = parseToolInput('frizy_get_suggestions', args);
+
+    const suggestions = await frizyApi.getSuggestions(input);
+
+    logger.info('Fetched suggestions', {
+      projectId: input.project_id,
+      type: input.type,
+      count: suggestions.length
+    });
+
+    if (suggestions.length === 0) {
+      return 'Nothing to suggest right now.';
+    }
+
+    return [
+      'Suggestions:',
+      ...suggestions.map(suggestion => `- [${suggestion.type}] ${suggestion.message}`)
+    ].join('\n');
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    logger.error('Failed to get suggestions', { error: errorMessage, args });
+
+    if (error instanceof ToolInputError) {
+      return errorMessage;
+    }
+
+    return `Failed to get suggestions: ${errorMessage}`;
+  }
+}
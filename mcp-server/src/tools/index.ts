@@ -1,23 +1,33 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { frizyProgressTool, handleFrizyProgress } from './frizy-progress.js';
-import { frizyStatusTool, handleFrizyStatus } from './frizy-status.js';
-import { frizyContextTool, handleFrizyContext } from './frizy-context.js';
-import { frizyInsightTool, handleFrizyInsight } from './frizy-insight.js';
+import { FrizyToolName, listTools } from '@frizy/mcp-tools';
+import { handleFrizyProgress } from './frizy-progress.js';
+import { handleFrizyStatus } from './frizy-status.js';
+import { handleFrizyCaptureContext, handleFrizyGetContext } from './frizy-context.js';
+import {
+  handleFrizyCreateBlock,
+  handleFrizyUpdateBlock,
+  handleFrizyMoveBlock,
+  handleFrizyListBlocks
+} from './frizy-blocks.js';
+import { handleFrizyStartSession, handleFrizyEndSession } from './frizy-session.js';
+import { handleFrizySuggestions } from './frizy-suggestions.js';
 
-// Export all tools
-export const tools: Tool[] = [
-  frizyProgressTool,
-  frizyStatusTool,
-  frizyContextTool,
-  frizyInsightTool
-];
+// Tool definitions come from @frizy/mcp-tools, so this server lists exactly the tools the orchestrator does
+export const tools: Tool[] = listTools();
 
-// Tool handler mapping
-export const toolHandlers: Record<string, (args: unknown) => Promise<string>> = {
-  frizy_progress: handleFrizyProgress,
-  frizy_status: handleFrizyStatus,
-  frizy_context: handleFrizyContext,
-  frizy_insight: handleFrizyInsight
+// Tool handler mapping; typed by tool name so a tool added to the shared package needs a handler here
+export const toolHandlers: Record<FrizyToolName, (args: unknown) => Promise<string>> = {
+  frizy_create_block: handleFrizyCreateBlock,
+  frizy_update_block: handleFrizyUpdateBlock,
+  frizy_move_block: handleFrizyMoveBlock,
+  frizy_update_progress: handleFrizyProgress,
+  frizy_update_status: handleFrizyStatus,
+  frizy_list_blocks: handleFrizyListBlocks,
+  frizy_capture_context: handleFrizyCaptureContext,
+  frizy_get_context: handleFrizyGetContext,
+  frizy_start_session: handleFrizyStartSession,
+  frizy_end_session: handleFrizyEndSession,
+  frizy_get_suggestions: handleFrizySuggestions
 };
 
 // Helper function to get tool by name
@@ -26,11 +36,11 @@ export function getTool(name: string): Tool | undefined {
 }
 
 // Helper function to check if tool exists
-export function hasToolHandler(name: string): boolean {
+export function hasToolHandler(name: string): name is FrizyToolName {
   return name in toolHandlers;
 }
 
 // Get all tool names
 export function getToolNames(): string[] {
   return tools.map(tool => tool.name);
-}
\ No newline at end of file
+}
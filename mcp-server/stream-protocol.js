@@ -0,0 +1,212 @@
+// Framed Stream Protocol for MCP WebSocket clients
+//
+// A client opts in by sending { type: 'hello', protocol: 1 }. From then on broadcasts reach it as
+// { type: 'frame', seq, channel, message } for the channels it subscribes to. Clients ack with
+// { type: 'ack', seq } (cumulative) and resume with { type: 'subscribe', channel, since, epoch }.
+// Clients that never say hello keep receiving plain messages.
+//
+// server/services/mcp/StreamProtocol.ts is the TypeScript server's copy; changes belong in both,
+// and server/services/mcp/StreamProtocol.test.ts checks that they behave the same.
+import { nanoid } from 'nanoid';
+
+export const PROTOCOL_VERSION = 1;
+
+const DEFAULT_OPTIONS = {
+  retain: 5000, // Frames kept for replay
+  maxInFlight: 256, // Unacked frames before a client counts as behind
+  highWaterMark: 1024 * 1024, // Socket buffer bytes before a client counts as behind
+  maxPending: 1000, // Queued frames per client before the oldest are dropped
+  drainInterval: 100 // ms
+};
+
+const matches = (subscription, channel) => subscription === 'all' || subscription === channel;
+
+// Every broadcast, numbered. The epoch changes on restart so stale sequence numbers are detected.
+export class StreamLog {
+  constructor(options = {}) {
+    this.retain = options.retain || DEFAULT_OPTIONS.retain;
+    this.epoch = nanoid();
+    this.seq = 0;
+    this.frames = [];
+  }
+
+  append(channel, message) {
+    const frame = { type: 'frame', seq: ++this.seq, channel, message };
+    this.frames.push(frame);
+    if (this.frames.length > this.retain) {
+      this.frames.splice(0, this.frames.length - this.retain);
+    }
+    return frame;
+  }
+
+  // Frames after seq accepted by filter, plus the range that is no longer retained
+  since(seq, filter) {
+    const oldest = this.frames.length > 0 ? this.frames[0].seq : this.seq + 1;
+    const gap = seq + 1 < oldest ? { from: seq + 1, to: oldest - 1 } : null;
+    return {
+      frames: this.frames.filter(frame => frame.seq > seq && filter(frame)),
+      gap
+    };
+  }
+}
+
+// One framed connection: its subscriptions, unacked frames and the queue it builds up when behind
+export class StreamClient {
+  constructor(ws, log, coalesce = () => null, options = {}) {
+    this.ws = ws;
+    this.log = log;
+    this.coalesce = coalesce;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.subscriptions = new Set();
+    this.inFlight = [];
+    this.pending = [];
+    this.dropped = null;
+    this.drainTimer = null;
+  }
+
+  isSubscribed(channel) {
+    return [...this.subscriptions].some(subscription => matches(subscription, channel));
+  }
+
+  // Returns false for messages that aren't part of the protocol
+  handle(message) {
+    switch (message.type) {
+      case 'hello':
+        this.send({
+          type: 'welcome',
+          protocol: PROTOCOL_VERSION,
+          epoch: this.log.epoch,
+          seq: this.log.seq
+        });
+        for (const subscription of message.subscriptions || []) {
+          this.subscribe(subscription.channel, subscription.since, message.epoch);
+        }
+        return true;
+
+      case 'subscribe':
+        this.subscribe(message.channel, message.since, message.epoch);
+        return true;
+
+      case 'unsubscribe':
+        this.subscriptions.delete(message.channel);
+        this.send({ type: 'unsubscribed', channel: message.channel });
+        return true;
+
+      case 'ack':
+        this.inFlight = this.inFlight.filter(seq => seq > message.seq);
+        this.drain();
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  subscribe(channel = 'all', since, epoch) {
+    // Frames an existing subscription matched were delivered live already
+    const existing = [...this.subscriptions].filter(subscription => subscription !== channel);
+    const deliveredLive = frame => existing.some(subscription => matches(subscription, frame.channel));
+
+    this.subscriptions.add(channel);
+    this.send({ type: 'subscribed', channel, epoch: this.log.epoch, seq: this.log.seq });
+
+    if (since === undefined || since === null) return;
+
+    // Sequence numbers from before a restart mean nothing now
+    if (epoch && epoch !== this.log.epoch) {
+      this.send({ type: 'gap', channel, reason: 'restarted', from: 1, to: this.log.seq });
+      return;
+    }
+
+    const { frames, gap } = this.log.since(since, frame => matches(channel, frame.channel) && !deliveredLive(frame));
+    if (gap) {
+      this.send({ type: 'gap', channel, reason: 'expired', ...gap });
+    }
+    frames.forEach(frame => this.deliver(frame));
+  }
+
+  deliver(frame) {
+    if (this.pending.length > 0 || this.isBehind()) {
+      this.enqueue(frame);
+      this.scheduleDrain();
+      return;
+    }
+    this.sendFrame(frame);
+  }
+
+  close() {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+  }
+
+  isBehind() {
+    return this.inFlight.length >= this.options.maxInFlight || this.ws.bufferedAmount > this.options.highWaterMark;
+  }
+
+  // Frames sharing a coalesce key merge into the newest one, which moves to the back so seq stays ordered
+  enqueue(frame) {
+    const rule = this.coalesce(frame.message);
+    const key = rule ? `${frame.channel}:${rule.key}` : null;
+    let firstSeq = frame.seq;
+
+    const index = key ? this.lastPendingIndex(key) : -1;
+    // merge returns null to keep the two frames separate
+    const merged = index >= 0 ? rule.merge(this.pending[index].frame.message, frame.message) : null;
+    if (merged !== null) {
+      const [older] = this.pending.splice(index, 1);
+      firstSeq = older.firstSeq;
+      frame = { ...frame, message: merged, coalesced: (older.frame.coalesced || 1) + 1 };
+    }
+    this.pending.push({ key, frame, firstSeq });
+
+    if (this.pending.length > this.options.maxPending) {
+      const oldest = this.pending.shift();
+      this.dropped = {
+        from: Math.min(this.dropped?.from ?? oldest.firstSeq, oldest.firstSeq),
+        to: Math.max(this.dropped?.to ?? oldest.frame.seq, oldest.frame.seq)
+      };
+    }
+  }
+
+  lastPendingIndex(key) {
+    for (let index = this.pending.length - 1; index >= 0; index--) {
+      if (this.pending[index].key === key) return index;
+    }
+    return -1;
+  }
+
+  drain() {
+    if (this.dropped && !this.isBehind()) {
+      this.send({ type: 'gap', reason: 'overflow', ...this.dropped });
+      this.dropped = null;
+    }
+    while (this.pending.length > 0 && !this.isBehind()) {
+      this.sendFrame(this.pending.shift().frame);
+    }
+    if (this.pending.length > 0) {
+      this.scheduleDrain();
+    }
+  }
+
+  scheduleDrain() {
+    if (this.drainTimer) return;
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null;
+      if (this.ws.readyState === 1) this.drain();
+    }, this.options.drainInterval);
+  }
+
+  sendFrame(frame) {
+    if (this.ws.readyState !== 1) return;
+    this.ws.send(JSON.stringify(frame));
+    this.inFlight.push(frame.seq);
+  }
+
+  send(message) {
+    if (this.ws.readyState === 1) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+}
@@ -34,13 +34,15 @@ describe('frizy-progress tool', () => {
     mockFrizyApi.updateBlockProgress.mockResolvedValue(mockBlock);
 
     const result = await handleFrizyProgress({
-      blockId: 'block-123',
+      project_id: 'project-456',
+      block_id: 'block-123',
       progress: 75,
       notes: 'Made good progress'
     });
 
     expect(mockFrizyApi.updateBlockProgress).toHaveBeenCalledWith({
-      blockId: 'block-123',
+      project_id: 'project-456',
+      block_id: 'block-123',
       progress: 75,
       notes: 'Made good progress'
     });
@@ -55,7 +57,8 @@ describe('frizy-progress tool', () => {
     mockFrizyApi.updateBlockProgress.mockRejectedValue(new Error('API Error'));
 
     const result = await handleFrizyProgress({
-      blockId: 'block-123',
+      project_id: 'project-456',
+      block_id: 'block-123',
       progress: 50
     });
 
@@ -64,22 +67,25 @@ describe('frizy-progress tool', () => {
   });
 
   it('should validate input parameters', async () => {
-    // Test missing blockId
+    // Test missing block_id
     let result = await handleFrizyProgress({
+      project_id: 'project-456',
       progress: 50
     });
     expect(result).toContain('Invalid input');
-    expect(result).toContain('blockId');
+    expect(result).toContain('block_id');
 
     // Test invalid progress range
     result = await handleFrizyProgress({
-      blockId: 'block-123',
+      project_id: 'project-456',
+      block_id: 'block-123',
       progress: 150 // Invalid: > 100
     });
     expect(result).toContain('Invalid input');
 
     result = await handleFrizyProgress({
-      blockId: 'block-123',
+      project_id: 'project-456',
+      block_id: 'block-123',
       progress: -10 // Invalid: < 0
     });
     expect(result).toContain('Invalid input');
@@ -103,12 +109,14 @@ describe('frizy-progress tool', () => {
 
     // Test with minimal required parameters
     const result = await handleFrizyProgress({
-      blockId: 'block-123',
+      project_id: 'project-456',
+      block_id: 'block-123',
       progress: 30
     });
 
     expect(mockFrizyApi.updateBlockProgress).toHaveBeenCalledWith({
-      blockId: 'block-123',
+      project_id: 'project-456',
+      block_id: 'block-123',
       progress: 30
     });
 
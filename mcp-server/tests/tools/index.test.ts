@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { FRIZY_TOOL_NAMES } from '@frizy/mcp-tools';
+import { getToolNames, hasToolHandler, toolHandlers } from '../../src/tools/index.js';
+
+// The orchestrator's spec checks its tools/list against the same shared names
+describe('tool registry', () => {
+  it('should list exactly the shared tools, in the same order as the orchestrator', () => {
+    expect(getToolNames()).toEqual(FRIZY_TOOL_NAMES);
+  });
+
+  it('should have a handler for every listed tool and none besides', () => {
+    expect(Object.keys(toolHandlers).sort()).toEqual([...FRIZY_TOOL_NAMES].sort());
+    getToolNames().forEach(name => expect(hasToolHandler(name)).toBe(true));
+  });
+});
@@ -0,0 +1,132 @@
+import type { ZodIssue, ZodType, ZodTypeDef } from 'zod'
+
+export declare const BLOCK_LANES: readonly ['vision', 'goals', 'current', 'next', 'context']
+export declare const BLOCK_STATUSES: readonly ['not_started', 'in_progress', 'completed', 'blocked', 'cancelled']
+export declare const BLOCK_PRIORITIES: readonly ['low', 'medium', 'high', 'urgent']
+export declare const CONTEXT_TYPES: readonly ['decision', 'insight', 'solution', 'blocker', 'idea', 'learning', 'reference', 'note', 'next_step']
+export declare const IMPORTANCE_LEVELS: readonly ['low', 'medium', 'high']
+export declare const SUGGESTION_TYPES: readonly ['all', 'stale', 'ready_to_move', 'stuck', 'completion_opportunity']
+
+export type BlockLane = typeof BLOCK_LANES[number]
+export type BlockStatus = typeof BLOCK_STATUSES[number]
+export type BlockPriority = typeof BLOCK_PRIORITIES[number]
+export type ContextType = typeof CONTEXT_TYPES[number]
+export type Importance = typeof IMPORTANCE_LEVELS[number]
+export type SuggestionType = typeof SUGGESTION_TYPES[number]
+
+// Parsed arguments, with defaults applied, for each tool
+export interface FrizyToolInputs {
+  frizy_create_block: {
+    project_id: string
+    title: string
+    content?: string
+    lane: BlockLane
+    priority: BlockPriority
+    effort?: number
+  }
+  frizy_update_block: {
+    project_id: string
+    block_id: string
+    title?: string
+    content?: string
+    priority?: BlockPriority
+    effort?: number
+    status?: BlockStatus
+  }
+  frizy_move_block: {
+    project_id: string
+    block_id: string
+    lane: BlockLane
+  }
+  frizy_update_progress: {
+    project_id: string
+    block_id: string
+    progress: number
+    notes?: string
+  }
+  frizy_update_status: {
+    project_id: string
+    block_id: string
+    status: BlockStatus
+    notes?: string
+  }
+  frizy_list_blocks: {
+    project_id: string
+    lane?: BlockLane
+    status?: BlockStatus
+  }
+  frizy_capture_context: {
+    project_id: string
+    type: ContextType
+    title?: string
+    content: string
+    block_ids: string[]
+    tags: string[]
+    importance: Importance
+    confidence?: number
+  }
+  frizy_get_context: {
+    project_id: string
+    query?: string
+    max_tokens: number
+    include_history: boolean
+  }
+  frizy_start_session: {
+    project_id: string
+    block_id?: string
+    session_type: string
+  }
+  frizy_end_session: {
+    project_id: string
+    session_id: string
+    summary?: string
+  }
+  frizy_get_suggestions: {
+    project_id: string
+    type: SuggestionType
+  }
+}
+
+export type FrizyToolName = keyof FrizyToolInputs
+
+export interface FrizyToolDefinition<N extends FrizyToolName = FrizyToolName> {
+  name: N
+  description: string
+  input: ZodType<FrizyToolInputs[N], ZodTypeDef, unknown>
+}
+
+export interface JsonSchema {
+  type?: string
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: string[]
+  default?: unknown
+  [keyword: string]: unknown
+}
+
+// Same shape as an entry in an MCP tools/list result
+export interface McpToolDefinition {
+  name: FrizyToolName
+  description: string
+  inputSchema: JsonSchema & { type: 'object'; properties: Record<string, JsonSchema> }
+}
+
+export declare const FRIZY_TOOLS: ReadonlyArray<{ [N in FrizyToolName]: FrizyToolDefinition<N> }[FrizyToolName]>
+
+export declare const FRIZY_TOOL_NAMES: FrizyToolName[]
+
+export declare function isFrizyTool(name: string): name is FrizyToolName
+
+export declare class ToolInputError extends Error {
+  readonly toolName: FrizyToolName
+  readonly issues: ZodIssue[]
+  constructor(toolName: FrizyToolName, issues: ZodIssue[])
+}
+
+export declare function parseToolInput<N extends FrizyToolName>(name: N, args: unknown): FrizyToolInputs[N]
+
+export declare function listTools(): McpToolDefinition[]
+
+export declare function toJsonSchema(schema: ZodType): JsonSchema
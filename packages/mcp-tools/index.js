@@ -0,0 +1,229 @@
+// Shared MCP tool definitions for Frizy
+// Each tool's zod schema is the single source of truth: MCP servers validate calls with it and
+// advertise the JSON schema generated from it, so every server exposes the same tools with the
+// same parameters and enums.
+
+import { z } from 'zod'
+
+export const BLOCK_LANES = ['vision', 'goals', 'current', 'next', 'context']
+export const BLOCK_STATUSES = ['not_started', 'in_progress', 'completed', 'blocked', 'cancelled']
+export const BLOCK_PRIORITIES = ['low', 'medium', 'high', 'urgent']
+export const CONTEXT_TYPES = ['decision', 'insight', 'solution', 'blocker', 'idea', 'learning', 'reference', 'note', 'next_step']
+export const IMPORTANCE_LEVELS = ['low', 'medium', 'high']
+export const SUGGESTION_TYPES = ['all', 'stale', 'ready_to_move', 'stuck', 'completion_opportunity']
+
+const projectId = z.string().min(1).describe('ID of the project')
+const blockId = z.string().min(1).describe('ID of the block')
+
+export const FRIZY_TOOLS = [
+  {
+    name: 'frizy_create_block',
+    description: 'Create a new block on the project board',
+    input: z.object({
+      project_id: projectId,
+      title: z.string().min(1).describe('Title of the block'),
+      content: z.string().optional().describe('Content or description of the block'),
+      lane: z.enum(BLOCK_LANES).default('current').describe('Lane to place the block in'),
+      priority: z.enum(BLOCK_PRIORITIES).default('medium').describe('Priority of the block'),
+      effort: z.number().int().min(1).max(10).optional().describe('Effort estimate (1-10)')
+    })
+  },
+  {
+    name: 'frizy_update_block',
+    description: 'Update the title, content, priority, effort or status of a block',
+    input: z.object({
+      project_id: projectId,
+      block_id: blockId,
+      title: z.string().min(1).optional().describe('New title'),
+      content: z.string().optional().describe('New content'),
+      priority: z.enum(BLOCK_PRIORITIES).optional().describe('New priority'),
+      effort: z.number().int().min(1).max(10).optional().describe('New effort estimate (1-10)'),
+      status: z.enum(BLOCK_STATUSES).optional().describe('New status')
+    })
+  },
+  {
+    name: 'frizy_move_block',
+    description: 'Move a block to a different lane',
+    input: z.object({
+      project_id: projectId,
+      block_id: blockId,
+      lane: z.enum(BLOCK_LANES).describe('Target lane')
+    })
+  },
+  {
+    name: 'frizy_update_progress',
+    description: 'Update the progress of a block. Use this when you help make progress on a task.',
+    input: z.object({
+      project_id: projectId,
+      block_id: blockId,
+      progress: z.number().int().min(0).max(100).describe('Progress percentage (0-100)'),
+      notes: z.string().optional().describe('Notes about the progress made')
+    })
+  },
+  {
+    name: 'frizy_update_status',
+    description: 'Change the status of a block when a task is started, blocked, completed or cancelled',
+    input: z.object({
+      project_id: projectId,
+      block_id: blockId,
+      status: z.enum(BLOCK_STATUSES).describe('New status for the block'),
+      notes: z.string().optional().describe('Notes about the status change')
+    })
+  },
+  {
+    name: 'frizy_list_blocks',
+    description: 'List the blocks in a project, optionally filtered by lane or status',
+    input: z.object({
+      project_id: projectId,
+      lane: z.enum(BLOCK_LANES).optional().describe('Only blocks in this lane'),
+      status: z.enum(BLOCK_STATUSES).optional().describe('Only blocks with this status')
+    })
+  },
+  {
+    name: 'frizy_capture_context',
+    description: 'Capture a decision, insight, solution, blocker or other context worth keeping for the project',
+    input: z.object({
+      project_id: projectId,
+      type: z.enum(CONTEXT_TYPES).describe('Type of context being captured'),
+      title: z.string().optional().describe('Short title for the context item'),
+      content: z.string().min(1).describe('The context itself'),
+      block_ids: z.array(z.string().min(1)).default([]).describe('IDs of blocks this context relates to'),
+      tags: z.array(z.string()).default([]).describe('Tags to categorize the context'),
+      importance: z.enum(IMPORTANCE_LEVELS).default('medium').describe('How important this context is'),
+      confidence: z.number().min(0).max(1).optional().describe('Confidence in this insight (0-1)')
+    })
+  },
+  {
+    name: 'frizy_get_context',
+    description: 'Get the most relevant project context for the current work, within a token budget',
+    input: z.object({
+      project_id: projectId,
+      query: z.string().optional().describe('What you are working on, to focus the retrieval'),
+      max_tokens: z.number().int().min(100).default(4000).describe('Token budget for the response'),
+      include_history: z.boolean().default(false).describe('Include past sessions')
+    })
+  },
+  {
+    name: 'frizy_start_session',
+    description: 'Start a work session so activity and insights are tracked against the project',
+    input: z.object({
+      project_id: projectId,
+      block_id: blockId.optional().describe('Block the session focuses on'),
+      session_type: z.string().default('coding').describe('Kind of session, e.g. coding or planning')
+    })
+  },
+  {
+    name: 'frizy_end_session',
+    description: 'End a work session, optionally with a summary of what was done',
+    input: z.object({
+      project_id: projectId,
+      session_id: z.string().min(1).describe('ID returned by frizy_start_session'),
+      summary: z.string().optional().describe('Summary of the session')
+    })
+  },
+  {
+    name: 'frizy_get_suggestions',
+    description: 'Get suggestions for next steps: stale, stuck or nearly finished blocks and blocks ready to move',
+    input: z.object({
+      project_id: projectId,
+      type: z.enum(SUGGESTION_TYPES).default('all').describe('Kind of suggestions to return')
+    })
+  }
+]
+
+export const FRIZY_TOOL_NAMES = FRIZY_TOOLS.map(tool => tool.name)
+
+const toolsByName = new Map(FRIZY_TOOLS.map(tool => [tool.name, tool]))
+
+export function isFrizyTool(name) {
+  return toolsByName.has(name)
+}
+
+// Raised for arguments that don't match a tool's schema; servers report it as invalid params
+export class ToolInputError extends Error {
+  constructor(toolName, issues) {
+    super(`Invalid input for ${toolName}: ${issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join(', ')}`)
+    this.name = 'ToolInputError'
+    this.toolName = toolName
+    this.issues = issues
+  }
+}
+
+// Validate a tool call's arguments and apply defaults
+export function parseToolInput(name, args) {
+  const tool = toolsByName.get(name)
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`)
+  }
+
+  const result = tool.input.safeParse(args ?? {})
+  if (!result.success) {
+    throw new ToolInputError(name, result.error.issues)
+  }
+  return result.data
+}
+
+// Tool list in the shape MCP's tools/list returns
+export function listTools() {
+  return FRIZY_TOOLS.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toJsonSchema(tool.input)
+  }))
+}
+
+// JSON Schema for the zod constructs the tool schemas use
+export function toJsonSchema(schema) {
+  const def = schema._def
+  const described = json => (def.description ? { ...json, description: def.description } : json)
+
+  switch (def.typeName) {
+    case 'ZodObject': {
+      const shape = def.shape()
+      const properties = {}
+      const required = []
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value)
+        if (!value.isOptional()) required.push(key)
+      }
+      return described({
+        type: 'object',
+        properties,
+        ...(required.length > 0 ? { required } : {})
+      })
+    }
+    case 'ZodString': {
+      const json = { type: 'string' }
+      for (const check of def.checks) {
+        if (check.kind === 'min') json.minLength = check.value
+        if (check.kind === 'max') json.maxLength = check.value
+        if (check.kind === 'uuid') json.format = 'uuid'
+      }
+      return described(json)
+    }
+    case 'ZodNumber': {
+      const json = { type: def.checks.some(check => check.kind === 'int') ? 'integer' : 'number' }
+      for (const check of def.checks) {
+        if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value
+        if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value
+      }
+      return described(json)
+    }
+    case 'ZodBoolean':
+      return described({ type: 'boolean' })
+    case 'ZodEnum':
+      return described({ type: 'string', enum: [...def.values] })
+    case 'ZodArray':
+      return described({ type: 'array', items: toJsonSchema(def.type) })
+    case 'ZodOptional':
+      return { ...toJsonSchema(def.innerType), ...(def.description ? { description: def.description } : {}) }
+    case 'ZodDefault':
+      return {
+        ...toJsonSchema(def.innerType),
+        ...(def.description ? { description: def.description } : {}),
+        default: def.defaultValue()
+      }
+    default:
+      throw new Error(`toJsonSchema: unsupported zod type ${def.typeName}`)
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { FRIZY_TOOLS, FRIZY_TOOL_NAMES, ToolInputError, listTools, parseToolInput, toJsonSchema } from './index.js'
+
+// The smallest value a JSON schema property accepts
+function sampleValue(property) {
+  if (property.enum) return property.enum[0]
+  switch (property.type) {
+    case 'string':
+      return 'x'.repeat(property.minLength ?? 1)
+    case 'integer':
+    case 'number':
+      return property.minimum ?? 1
+    case 'boolean':
+      return true
+    case 'array':
+      return [sampleValue(property.items)]
+  }
+  throw new Error(`No sample for ${JSON.stringify(property)}`)
+}
+
+// Arguments holding only what the advertised schema requires
+const minimalArgs = schema =>
+  Object.fromEntries((schema.required ?? []).map(key => [key, sampleValue(schema.properties[key])]))
+
+describe.each(listTools().map(tool => [tool.name, tool]))('%s', (name, tool) => {
+  const { inputSchema } = tool
+  const properties = Object.entries(inputSchema.properties)
+
+  it('advertises every parameter of the zod schema', () => {
+    const shape = FRIZY_TOOLS.find(candidate => candidate.name === name).input.shape
+
+    expect(inputSchema.type).toBe('object')
+    expect(Object.keys(inputSchema.properties)).toEqual(Object.keys(shape))
+    properties.forEach(([, property]) => expect(property.description).toEqual(expect.any(String)))
+  })
+
+  it('accepts the required parameters alone and fills in the advertised defaults', () => {
+    const parsed = parseToolInput(name, minimalArgs(inputSchema))
+
+    properties
+      .filter(([, property]) => 'default' in property)
+      .forEach(([key, property]) => expect(parsed[key]).toEqual(property.default))
+  })
+
+  it('rejects arguments missing any required parameter', () => {
+    for (const key of inputSchema.required) {
+      const args = minimalArgs(inputSchema)
+      delete args[key]
+      expect(() => parseToolInput(name, args)).toThrow(ToolInputError)
+    }
+  })
+
+  it('enforces the advertised enums and bounds', () => {
+    for (const [key, property] of properties) {
+      const withValue = value => ({ ...minimalArgs(inputSchema), [key]: value })
+
+      if (property.enum) {
+        property.enum.forEach(value => expect(parseToolInput(name, withValue(value))[key]).toBe(value))
+        expect(() => parseToolInput(name, withValue('not-an-option'))).toThrow(ToolInputError)
+      }
+      if (property.minimum !== undefined) {
+        expect(() => parseToolInput(name, withValue(property.minimum - 1))).toThrow(ToolInputError)
+      }
+      if (property.maximum !== undefined) {
+        expect(parseToolInput(name, withValue(property.maximum))[key]).toBe(property.maximum)
+        expect(() => parseToolInput(name, withValue(property.maximum + 1))).toThrow(ToolInputError)
+      }
+      if (property.type === 'integer') {
+        expect(() => parseToolInput(name, withValue((property.minimum ?? 0) + 0.5))).toThrow(ToolInputError)
+      }
+      if (property.minLength) {
+        expect(() => parseToolInput(name, withValue(''))).toThrow(ToolInputError)
+      }
+    }
+  })
+})
+
+describe('toJsonSchema', () => {
+  it('describes the constructs the tool schemas use', () => {
+    const schema = z.object({
+      id: z.string().uuid().max(36).describe('Identifier'),
+      score: z.number().gt(0).lt(1),
+      tags: z.array(z.string()).default([]),
+      done: z.boolean().optional()
+    })
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid', maxLength: 36, description: 'Identifier' },
+        score: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 },
+        tags: { type: 'array', items: { type: 'string' }, default: [] },
+        done: { type: 'boolean' }
+      },
+      required: ['id', 'score']
+    })
+  })
+
+  it('fails loudly on zod types it cannot describe, wherever they are nested', () => {
+    expect(() => toJsonSchema(z.union([z.string(), z.number()]))).toThrow('unsupported zod type ZodUnion')
+    expect(() => toJsonSchema(z.object({ meta: z.record(z.string()) }))).toThrow('unsupported zod type ZodRecord')
+    expect(() => toJsonSchema(z.object({ when: z.date().optional() }))).toThrow('unsupported zod type ZodDate')
+  })
+})
+
+describe('tool list', () => {
+  it('lists each tool once, in definition order', () => {
+    expect(listTools().map(tool => tool.name)).toEqual(FRIZY_TOOL_NAMES)
+    expect(new Set(FRIZY_TOOL_NAMES).size).toBe(FRIZY_TOOL_NAMES.length)
+  })
+
+  it('refuses to parse arguments for an unknown tool', () => {
+    expect(() => parseToolInput('frizy_delete_everything', {})).toThrow('Unknown tool: frizy_delete_everything')
+  })
+})
@@ -0,0 +1,7 @@
+export declare const TOKENIZER_ENCODING: 'cl100k_base'
+
+export declare function encodeTokens(text: string | null | undefined): number[]
+
+export declare function countTokens(text: string | null | undefined): number
+
+export declare function truncateToTokens(text: string | null | undefined, maxTokens: number, ellipsis?: string): string
@@ -0,0 +1,29 @@
+// Shared tokenizer for Frizy context builders
+// Byte-pair encoding with the cl100k_base vocabulary, bundled so counting works offline.
+// Every context budget (compression pipeline, MCP server, orchestrator previews) is measured
+// with this module so a token limit means the same thing everywhere.
+
+import { encode, decode } from 'gpt-tokenizer/encoding/cl100k_base'
+
+export const TOKENIZER_ENCODING = 'cl100k_base'
+
+// Context is user content: special-token markers in it are counted as plain text, not rejected
+const ENCODE_OPTIONS = { disallowedSpecial: new Set() }
+
+export function encodeTokens(text) {
+  return encode(text || '', ENCODE_OPTIONS)
+}
+
+export function countTokens(text) {
+  return text ? encodeTokens(text).length : 0
+}
+
+// Longest prefix of the text that fits in maxTokens, cut on a token boundary
+export function truncateToTokens(text, maxTokens, ellipsis = '…') {
+  const tokens = encodeTokens(text)
+  if (tokens.length <= maxTokens) return text || ''
+  if (maxTokens <= 0) return ''
+
+  const room = Math.max(0, maxTokens - countTokens(ellipsis))
+  return decode(tokens.slice(0, room)).trimEnd() + ellipsis
+}
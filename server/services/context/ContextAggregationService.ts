@@ -92,7 +92,11 @@ export class ContextAggregationService extends EventEmitter {
         id: block.id,
         timestamp: block.timestamp || new Date().toISOString(),
         data: block,
-        ttl: 3600 // 1 hour in hot tier
+        ttl: 3600, // 1 hour in hot tier
+        projectId,
+        sessionId: block.references?.sessionId
+      }).catch(err => {
+        console.error('Failed to store event, no storage tier available:', err);
       });
     }
     
@@ -366,9 +370,8 @@ export class ContextAggregationService extends EventEmitter {
     startTime: Date,
     endTime: Date
   ): Promise<UnifiedBlock[]> {
-    const events = await this.storageManager.queryByTimeRange(
-      startTime,
-      endTime,
+    const { events } = await this.storageManager.queryEvents(
+      { start: startTime, end: endTime, projectId, allowPartial: true },
       1000
     );
     
@@ -379,6 +382,10 @@ export class ContextAggregationService extends EventEmitter {
     return this.storageManager.getMetrics();
   }
 
+  getStorageStatus() {
+    return this.storageManager.getStatus();
+  }
+
   stop() {
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
@@ -55,14 +55,24 @@ export class GitHubWebhookHandler extends EventEmitter {
     }, 3000); // Process every 3 seconds
   }
 
+  // Fails closed: without a secret nothing can be verified, so nothing is trusted
   verifyWebhookSignature(payload: string, signature: string): boolean {
     if (!this.webhookSecret) {
-      console.warn('No webhook secret configured, skipping verification');
-      return true;
+      console.error('No webhook secret configured (GITHUB_WEBHOOK_SECRET), rejecting webhook');
+      return false;
+    }
+
+    if (!signature) {
+      return false;
     }
 
     const hmac = crypto.createHmac('sha256', this.webhookSecret);
     const digest = 'sha256=' + hmac.update(payload).digest('hex');
+
+    // timingSafeEqual throws on buffers of different lengths
+    if (Buffer.byteLength(signature) !== Buffer.byteLength(digest)) {
+      return false;
+    }
     
     // Constant time comparison to prevent timing attacks
     return crypto.timingSafeEqual(
@@ -0,0 +1,109 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventWriteAheadLog, LoggedEvent } from './EventWriteAheadLog';
+
+interface TestEvent extends LoggedEvent {
+  value: number;
+}
+
+const event = (id: string, value = 0, second = 0): TestEvent => ({
+  id,
+  timestamp: new Date(Date.UTC(2024, 4, 1, 10, 0, second)).toISOString(),
+  type: 'tool_use',
+  value
+});
+
+describe('EventWriteAheadLog', () => {
+  let directory: string;
+  let logs: EventWriteAheadLog<TestEvent>[];
+
+  const openLog = async () => {
+    const log = new EventWriteAheadLog<TestEvent>({ directory, syncDelayMs: 1 });
+    logs.push(log);
+    await log.open();
+    return log;
+  };
+
+  const contents = async () => {
+    const files = (await readdir(directory)).sort();
+    return Promise.all(files.map(file => readFile(path.join(directory, file), 'utf8')));
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    directory = await mkdtemp(path.join(tmpdir(), 'event-wal-'));
+    logs = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(logs.map(log => log.close()));
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads appended events back after reopening, skipping a torn line', async () => {
+    const log = await openLog();
+    await log.append([event('e1'), event('e2')]);
+    await log.close();
+    const [file] = await readdir(directory);
+    await writeFile(path.join(directory, file), '{"id":"e3","tim', { flag: 'a' });
+
+    const reopened = await openLog();
+
+    expect(reopened.query({}).map(e => e.id)).toEqual(['e1', 'e2']);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('torn line'));
+  });
+
+  it('replays oldest first and deletes what it replayed', async () => {
+    const log = await openLog();
+    await log.append([event('e1', 0, 1)]);
+    await log.close();
+    const reopened = await openLog();
+    await reopened.append([event('e2', 0, 2)]);
+
+    const written: string[] = [];
+    const count = await reopened.replay(async events => {
+      written.push(...events.map(e => e.id));
+    });
+
+    expect(count).toBe(2);
+    expect(written).toEqual(['e1', 'e2']);
+    expect(reopened.size).toBe(0);
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('seals the file after a failed write and drops the partial batch', async () => {
+    const log = await openLog();
+    await log.append([event('e1')]);
+
+    const handle = (log as any).active.handle;
+    const write = handle.write.bind(handle);
+    vi.spyOn(handle, 'write').mockImplementationOnce(async (data: string) => {
+      await write(data.slice(0, 10));
+      throw new Error('disk full');
+    });
+
+    await expect(log.append([event('e2'), event('e3')])).rejects.toThrow('disk full');
+    await log.append([event('e4')]);
+
+    expect(log.get('e2')).toBeUndefined();
+    expect(await contents()).toEqual([
+      `${JSON.stringify(event('e1'))}\n`,
+      `${JSON.stringify(event('e4'))}\n`
+    ]);
+  });
+
+  it('keeps an event re-appended during replay', async () => {
+    const log = await openLog();
+    await log.append([event('e1', 1)]);
+
+    await log.replay(async () => {
+      await log.append([event('e1', 2)]);
+    });
+
+    expect(log.get('e1')?.value).toBe(2);
+    expect(log.size).toBe(1);
+    expect(await contents()).toEqual([`${JSON.stringify(event('e1', 2))}\n`]);
+  });
+});
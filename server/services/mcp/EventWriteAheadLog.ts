@@ -0,0 +1,221 @@
+import { mkdir, open, readdir, readFile, unlink } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import path from 'path';
+
+const LOG_SUFFIX = '.log';
+const DEFAULT_SYNC_DELAY_MS = 50;
+const REPLAY_BATCH_SIZE = 500;
+
+export interface LoggedEvent {
+  id: string;
+  timestamp: string;
+  type: string;
+  metadata?: { sessionId?: string };
+}
+
+export interface EventLogFilter {
+  type?: string;
+  sessionId?: string;
+  startTime?: Date;
+  endTime?: Date;
+  limit?: number;
+}
+
+// Append-only NDJSON files. Appends resolve once fsynced; appends arriving within syncDelayMs
+// share one fsync. Every open starts a new file, so a line torn by a crash is never appended to.
+export class EventWriteAheadLog<T extends LoggedEvent> {
+  private files = new Map<string, T[]>();
+  private byId = new Map<string, T>();
+  // The file holding each event's latest copy
+  private fileById = new Map<string, string>();
+  private active: { name: string; handle: FileHandle } | null = null;
+  private nextSequence = 0;
+  private pendingSyncs = new Map<FileHandle, Promise<void>>();
+  private closedHandles = new WeakSet<FileHandle>();
+  // Serializes writes, rotation and deletion against each other
+  private queue: Promise<unknown> = Promise.resolve();
+  private opened = false;
+
+  constructor(private config: { directory: string; syncDelayMs?: number }) {}
+
+  get isOpen(): boolean {
+    return this.opened;
+  }
+
+  get size(): number {
+    return this.byId.size;
+  }
+
+  async open(): Promise<void> {
+    if (this.opened) return;
+    await mkdir(this.config.directory, { recursive: true });
+
+    for (const file of (await readdir(this.config.directory)).filter(name => name.endsWith(LOG_SUFFIX)).sort()) {
+      const events: T[] = [];
+      for (const line of (await readFile(this.filePath(file), 'utf8')).split('\n')) {
+        if (line.length === 0) continue;
+        try {
+          events.push(JSON.parse(line));
+        } catch {
+          console.warn(`Skipping torn line in ${file}`);
+        }
+      }
+
+      if (events.length === 0) {
+        await unlink(this.filePath(file)).catch(() => undefined);
+        continue;
+      }
+      this.track(file, events);
+      this.nextSequence = Math.max(this.nextSequence, parseInt(file, 10) + 1);
+    }
+
+    this.opened = true;
+  }
+
+  async append(events: T[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const handle = await this.serialize(async () => {
+      if (!this.active) {
+        const name = `${String(this.nextSequence++).padStart(10, '0')}${LOG_SUFFIX}`;
+        this.active = { name, handle: await open(this.filePath(name), 'a') };
+      }
+      const active = this.active;
+      const { size } = await active.handle.stat();
+      try {
+        await active.handle.write(events.map(event => JSON.stringify(event)).join('\n') + '\n');
+      } catch (error) {
+        // Cut off whatever part of the batch reached the file and seal it, so the next append
+        // starts a fresh file instead of writing after a torn line
+        this.active = null;
+        await active.handle.truncate(size).catch(() => undefined);
+        await active.handle.close().catch(() => undefined);
+        this.closedHandles.add(active.handle);
+        throw error;
+      }
+      this.track(active.name, events);
+      return active.handle;
+    });
+
+    await this.sync(handle);
+  }
+
+  get(id: string): T | undefined {
+    return this.byId.get(id);
+  }
+
+  // Matches the getEvents filter, oldest first
+  query(filter: EventLogFilter): T[] {
+    const start = filter.startTime?.getTime() ?? -Infinity;
+    const end = filter.endTime?.getTime() ?? Infinity;
+
+    return [...this.byId.values()]
+      .filter(event => {
+        const time = Date.parse(event.timestamp);
+        return time >= start && time <= end
+          && (!filter.type || event.type === filter.type)
+          && (!filter.sessionId || event.metadata?.sessionId === filter.sessionId);
+      })
+      .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+      .slice(0, filter.limit || 100);
+  }
+
+  // Most recent first
+  recent(type: string, count: number): T[] {
+    return [...this.byId.values()]
+      .filter(event => event.type === type)
+      .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+      .slice(0, count);
+  }
+
+  // Hands every logged event to write, oldest file first, deleting each file once written.
+  // Appends made meanwhile land in a fresh file and wait for the next replay.
+  async replay(write: (events: T[]) => Promise<void>): Promise<number> {
+    await this.rotate();
+
+    let replayed = 0;
+    for (const file of [...this.files.keys()].sort()) {
+      if (file === this.active?.name) continue;
+
+      const events = this.files.get(file)!;
+      for (let offset = 0; offset < events.length; offset += REPLAY_BATCH_SIZE) {
+        await write(events.slice(offset, offset + REPLAY_BATCH_SIZE));
+      }
+
+      await this.serialize(async () => {
+        await unlink(this.filePath(file));
+        this.untrack(file);
+      });
+      replayed += events.length;
+    }
+
+    return replayed;
+  }
+
+  async close(): Promise<void> {
+    await this.rotate();
+    this.files.clear();
+    this.byId.clear();
+    this.fileById.clear();
+    this.opened = false;
+  }
+
+  // Seals the active file so replay can delete it
+  private async rotate(): Promise<void> {
+    await this.serialize(async () => {
+      if (!this.active) return;
+      const { handle } = this.active;
+      this.active = null;
+      // Covers every write queued before this one, including ones still waiting on a sync
+      await handle.sync();
+      await handle.close();
+      this.closedHandles.add(handle);
+    });
+  }
+
+  private sync(handle: FileHandle): Promise<void> {
+    let pending = this.pendingSyncs.get(handle);
+    if (!pending) {
+      pending = new Promise<void>(resolve => setTimeout(resolve, this.config.syncDelayMs ?? DEFAULT_SYNC_DELAY_MS))
+        .then(() => {
+          // Writes from here on wait for the next sync
+          this.pendingSyncs.delete(handle);
+          return this.serialize(async () => {
+            if (!this.closedHandles.has(handle)) await handle.sync();
+          });
+        });
+      this.pendingSyncs.set(handle, pending);
+    }
+    return pending;
+  }
+
+  private serialize<R>(operation: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private track(file: string, events: T[]) {
+    const logged = this.files.get(file) || [];
+    logged.push(...events);
+    this.files.set(file, logged);
+    for (const event of events) {
+      this.byId.set(event.id, event);
+      this.fileById.set(event.id, file);
+    }
+  }
+
+  private untrack(file: string) {
+    for (const event of this.files.get(file) || []) {
+      // Re-appended since, so a later file still holds it
+      if (this.fileById.get(event.id) !== file) continue;
+      this.byId.delete(event.id);
+      this.fileById.delete(event.id);
+    }
+    this.files.delete(file);
+  }
+
+  private filePath(name: string): string {
+    return path.join(this.config.directory, name);
+  }
+}
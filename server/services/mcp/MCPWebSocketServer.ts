@@ -1,7 +1,12 @@
-import { WebSocketServer } from 'ws';
+import { WebSocket, WebSocketServer } from 'ws';
 import { EventEmitter } from 'events';
 import { createClient } from 'redis';
 import * as pako from 'pako';
+import os from 'os';
+import path from 'path';
+import { EventLogFilter, EventWriteAheadLog } from './EventWriteAheadLog';
+import { Coalescer, PROTOCOL_VERSION, StreamClient, StreamLog } from './StreamProtocol';
+import { applyPatch, contentHash, diff, PatchOperation } from './jsonPatch';
 
 interface MCPEvent {
   id: string;
@@ -20,53 +25,187 @@ interface ProcessedEvent {
   id: string;
   timestamp: string;
   type: string;
+  // Set when payload is a patch against deltaRef rather than the full data
   deltaRef?: string;
-  contentHash?: string;
+  // Every event the patch depends on, nearest first; deltaChain[0] is deltaRef
+  deltaChain?: string[];
+  contentHash: string;
+  // JSON of the data or patch; base64 deflate when compressed
+  payload: string;
+  compressed?: boolean;
+  originalSize: number;
   size: number;
-  compressed?: Buffer;
   metadata: any;
 }
 
+interface DeltaReference {
+  id: string;
+  data: any;
+  chain: string[];
+}
+
+export interface MCPWebSocketServerOptions {
+  // How many patches may be stacked before an event is stored in full again
+  maxDeltaChainDepth?: number;
+  // Round-trip every event through its stored form before accepting it
+  verifyRoundTrip?: boolean;
+  // Where events are logged while Redis is unavailable
+  walDirectory?: string;
+}
+
+export interface DeltaVerificationReport {
+  checked: number;
+  passed: number;
+  failures: { id: string; reason: string }[];
+  originalBytes: number;
+  storedBytes: number;
+  // Only counts events that reconstructed correctly
+  savingsRatio: number;
+}
+
+export class DeltaChainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeltaChainError';
+  }
+}
+
+const EVENT_TYPES = ['tool_use', 'conversation', 'decision', 'error', 'context_update'];
+const EVENT_TTL_SECONDS = 3600;
+const COMPRESSION_THRESHOLD = 1024;
+const SIMILARITY_THRESHOLD = 0.8;
+const DEFAULT_MAX_DELTA_CHAIN_DEPTH = 5;
+const CACHE_LIMIT = 1000;
+const REDIS_RETRY_MS = 30000;
+const MAX_COALESCED_EVENTS = 500;
+
+// Context updates only matter in their latest form; other events a lagging client missed are batched
+const coalesceEvents: Coalescer = (message) => {
+  if (message.type === 'context_update') {
+    return { key: `context_update:${message.metadata?.sessionId}`, merge: (older, newer) => newer };
+  }
+  return {
+    key: 'batch',
+    merge: (older, newer) => {
+      const events = older.type === 'batch' ? older.events : [older];
+      return events.length >= MAX_COALESCED_EVENTS ? null : { type: 'batch', events: [...events, newer] };
+    }
+  };
+};
+
 export class MCPWebSocketServer extends EventEmitter {
   private wss: WebSocketServer | null = null;
+  // Broadcasts numbered for framed clients, which can resume from a sequence number
+  private streamLog = new StreamLog();
+  private streams = new Map<WebSocket, StreamClient>();
+  // Framed clients waiting to hear their event was stored
+  private awaitingAcceptance = new Map<string, StreamClient>();
   private redis: any;
   private eventBuffer: ProcessedEvent[] = [];
+  // Buffered or mid-flush events, so they can serve as delta references before they reach Redis
+  private pendingEvents = new Map<string, ProcessedEvent>();
   private flushInterval: NodeJS.Timeout | null = null;
-  private compressionCache = new Map<string, Buffer>();
+  private redisRetryInterval: NodeJS.Timeout | null = null;
+  private connectingRedis = false;
+  private replaying = false;
+  // Holds events while Redis is unavailable until they are replayed into it
+  private wal: EventWriteAheadLog<ProcessedEvent>;
+  private compressionCache = new Map<string, string>();
+  // Original data of recently processed events, so new deltas don't re-walk their reference's chain
+  private reconstructionCache = new Map<string, DeltaReference>();
+  private maxDeltaChainDepth: number;
+  private verifyRoundTrip: boolean;
+  private verification = { verified: 0, failed: 0 };
 
-  constructor(private port: number = 3001) {
+  constructor(private port: number = 3001, options: MCPWebSocketServerOptions = {}) {
     super();
+    this.maxDeltaChainDepth = options.maxDeltaChainDepth
+      ?? (Number(process.env.MCP_MAX_DELTA_CHAIN_DEPTH) || DEFAULT_MAX_DELTA_CHAIN_DEPTH);
+    this.verifyRoundTrip = options.verifyRoundTrip ?? process.env.MCP_VERIFY_DELTAS === 'true';
+    this.wal = new EventWriteAheadLog({
+      directory: options.walDirectory || process.env.MCP_WAL_DIR || path.join(os.homedir(), '.frizy', 'mcp-wal')
+    });
     this.initializeRedis();
   }
 
   private async initializeRedis() {
-    this.redis = createClient({
-      url: process.env.REDIS_URL || 'redis://localhost:6379'
+    if (this.connectingRedis) return;
+    this.connectingRedis = true;
+
+    const client = createClient({
+      url: process.env.REDIS_URL || 'redis://localhost:6379',
+      // Fail fast so events go to the local log; the retry timer reconnects
+      socket: { reconnectStrategy: false }
     });
     
-    this.redis.on('error', (err: any) => {
+    client.on('error', (err: any) => {
       console.error('Redis Client Error:', err);
     });
-    
-    await this.redis.connect().catch((err: any) => {
-      console.warn('Redis connection failed, using in-memory fallback:', err);
-      this.redis = null;
+    client.on('end', () => {
+      if (this.redis === client) {
+        console.warn('Redis connection lost, logging events locally');
+        this.redis = null;
+      }
     });
+    
+    try {
+      await client.connect();
+      this.redis = client;
+    } catch (err) {
+      console.warn('Redis connection failed, logging events locally:', err);
+    } finally {
+      this.connectingRedis = false;
+    }
+
+    await this.replayLog();
+  }
+
+  // Moves events logged while Redis was away into Redis, oldest first
+  private async replayLog() {
+    if (this.replaying || !this.redis || !this.wal.isOpen || this.wal.size === 0) return;
+    this.replaying = true;
+
+    try {
+      const replayed = await this.wal.replay(events => this.writeToRedis(events));
+      console.log(`Replayed ${replayed} logged events into Redis`);
+    } catch (error) {
+      console.error('Error replaying logged events into Redis:', error);
+    } finally {
+      this.replaying = false;
+    }
   }
 
   async start() {
+    await this.wal.open();
+    await this.replayLog();
+
     this.wss = new WebSocketServer({ port: this.port });
     
     this.wss.on('connection', (ws) => {
       console.log('MCP client connected');
       
       ws.on('message', async (message) => {
+        let stream: StreamClient | undefined;
+        let event: MCPEvent | undefined;
         try {
-          const event = JSON.parse(message.toString()) as MCPEvent;
+          const parsed = JSON.parse(message.toString());
+          if (parsed.type === 'hello' && !this.streams.has(ws)) {
+            if (parsed.protocol !== PROTOCOL_VERSION) {
+              ws.send(JSON.stringify({ type: 'error', error: `Unsupported protocol version: ${parsed.protocol}` }));
+              return;
+            }
+            this.streams.set(ws, new StreamClient(ws, this.streamLog, coalesceEvents));
+          }
+          stream = this.streams.get(ws);
+          if (stream?.handle(parsed)) return;
+
+          event = parsed as MCPEvent;
           const processed = await this.processEvent(event);
           
-          // Store in buffer for batch processing
-          this.eventBuffer.push(processed);
+          if (stream) {
+            this.awaitingAcceptance.set(processed.id, stream);
+          }
+          await this.ingest(processed);
           
           // Emit for real-time processing
           this.emit('mcpEvent', event);
@@ -75,105 +214,246 @@ export class MCPWebSocketServer extends EventEmitter {
           this.broadcast(event, ws);
         } catch (error) {
           console.error('Error processing MCP event:', error);
+          if (stream && event?.id) {
+            this.awaitingAcceptance.delete(event.id);
+            stream.send({ type: 'rejected', id: event.id, error: (error as Error).message });
+          }
         }
       });
       
       ws.on('close', () => {
+        const stream = this.streams.get(ws);
+        if (stream) {
+          stream.close();
+          this.streams.delete(ws);
+          for (const [id, waiting] of this.awaitingAcceptance) {
+            if (waiting === stream) this.awaitingAcceptance.delete(id);
+          }
+        }
         console.log('MCP client disconnected');
       });
     });
     
     // Start batch processing
     this.startBatchProcessor();
+    this.redisRetryInterval = setInterval(() => {
+      if (!this.redis) {
+        this.initializeRedis();
+      } else {
+        this.replayLog();
+      }
+    }, REDIS_RETRY_MS);
     
     console.log(`MCP WebSocket server running on port ${this.port}`);
   }
 
-  private async processEvent(event: MCPEvent): Promise<ProcessedEvent> {
-    const eventString = JSON.stringify(event.data);
-    const size = Buffer.byteLength(eventString);
-    
-    // Generate content hash for deduplication
-    const crypto = require('crypto');
-    const hash = crypto.createHash('sha256').update(eventString).digest('hex');
-    
-    // Compress if over 1KB
-    let compressed: Buffer | undefined;
-    if (size > 1024) {
-      if (this.compressionCache.has(hash)) {
-        compressed = this.compressionCache.get(hash);
-      } else {
-        compressed = Buffer.from(pako.deflate(eventString));
-        this.compressionCache.set(hash, compressed);
-        
-        // Limit cache size
-        if (this.compressionCache.size > 1000) {
-          const firstKey = this.compressionCache.keys().next().value;
-          this.compressionCache.delete(firstKey);
-        }
+  // Without Redis, events are logged immediately instead of waiting in memory for the next batch
+  private async ingest(processed: ProcessedEvent) {
+    if (!this.redis) {
+      try {
+        await this.wal.append([processed]);
+        this.settle([processed]);
+        return;
+      } catch (error) {
+        console.error('Error logging event locally:', error);
       }
     }
-    
-    // Check for delta from previous events
-    const deltaRef = await this.findDeltaReference(event);
-    
-    return {
+
+    // Store in buffer for batch processing
+    this.eventBuffer.push(processed);
+    this.pendingEvents.set(processed.id, processed);
+  }
+
+  private async processEvent(event: MCPEvent): Promise<ProcessedEvent> {
+    const hash = contentHash(event.data);
+    const full = this.encodeFull(event.data, hash);
+    let processed: ProcessedEvent = {
       id: event.id,
       timestamp: event.timestamp,
       type: event.type,
-      deltaRef,
       contentHash: hash,
-      size: compressed ? compressed.length : size,
-      compressed,
+      ...full,
+      originalSize: Buffer.byteLength(JSON.stringify(event.data)),
+      size: Buffer.byteLength(full.payload),
       metadata: event.metadata
     };
+
+    // Store a patch instead when a similar recent event makes it smaller
+    const reference = await this.findDeltaReference(event);
+    if (reference) {
+      const patch = this.encodePayload(diff(reference.data, event.data));
+      if (Buffer.byteLength(patch.payload) < processed.size) {
+        processed = {
+          ...processed,
+          ...patch,
+          deltaRef: reference.id,
+          deltaChain: [reference.id, ...reference.chain],
+          size: Buffer.byteLength(patch.payload)
+        };
+      }
+    }
+
+    if (this.verifyRoundTrip) {
+      processed = await this.verifyProcessed(processed, event.data);
+    }
+
+    this.remember(processed, event.data);
+    return processed;
   }
 
-  private async findDeltaReference(event: MCPEvent): Promise<string | undefined> {
-    if (!this.redis) return undefined;
-    
+  // Falls back to the full encoding when the stored form doesn't reproduce the event
+  private async verifyProcessed(processed: ProcessedEvent, data: any): Promise<ProcessedEvent> {
+    let reason: string;
     try {
-      // Look for similar recent events
-      const recentEvents = await this.redis.zRangeByScore(
-        `events:${event.type}`,
-        Date.now() - 3600000, // Last hour
-        Date.now(),
-        { LIMIT: { offset: 0, count: 10 } }
-      );
-      
-      // Simple similarity check (in production, use more sophisticated comparison)
-      for (const eventId of recentEvents) {
-        const stored = await this.redis.get(`event:${eventId}`);
-        if (stored) {
-          const storedEvent = JSON.parse(stored);
-          if (this.calculateSimilarity(event.data, storedEvent.data) > 0.8) {
-            return eventId;
-          }
+      const reconstructed = await this.reconstructData(processed);
+      if (contentHash(reconstructed) === processed.contentHash) {
+        this.verification.verified++;
+        return processed;
+      }
+      reason = 'content hash mismatch';
+    } catch (error) {
+      reason = (error as Error).message;
+    }
+
+    this.verification.failed++;
+    console.error(`Round-trip verification failed for event ${processed.id}: ${reason}`);
+    this.emit('verificationFailed', { id: processed.id, reason });
+
+    const full = this.encodeFull(data, processed.contentHash);
+    const { deltaRef, deltaChain, ...rest } = processed;
+    return { ...rest, ...full, size: Buffer.byteLength(full.payload) };
+  }
+
+  private encodeFull(data: any, hash: string): { payload: string; compressed: boolean } {
+    const cached = this.compressionCache.get(hash);
+    if (cached) {
+      return { payload: cached, compressed: true };
+    }
+
+    const encoded = this.encodePayload(data);
+    if (encoded.compressed) {
+      this.compressionCache.set(hash, encoded.payload);
+
+      // Limit cache size
+      if (this.compressionCache.size > CACHE_LIMIT) {
+        const firstKey = this.compressionCache.keys().next().value;
+        this.compressionCache.delete(firstKey!);
+      }
+    }
+    return encoded;
+  }
+
+  // Compresses JSON over 1KB, unless base64 overhead eats the gain
+  private encodePayload(value: any): { payload: string; compressed: boolean } {
+    const json = JSON.stringify(value);
+    if (Buffer.byteLength(json) <= COMPRESSION_THRESHOLD) {
+      return { payload: json, compressed: false };
+    }
+
+    const deflated = Buffer.from(pako.deflate(json)).toString('base64');
+    return deflated.length < Buffer.byteLength(json)
+      ? { payload: deflated, compressed: true }
+      : { payload: json, compressed: false };
+  }
+
+  private decodePayload(processed: ProcessedEvent): any {
+    const json = processed.compressed
+      ? pako.inflate(Buffer.from(processed.payload, 'base64'), { to: 'string' })
+      : processed.payload;
+    return JSON.parse(json);
+  }
+
+  private remember(processed: ProcessedEvent, data: any) {
+    this.reconstructionCache.set(processed.id, {
+      id: processed.id,
+      data: structuredClone(data),
+      chain: processed.deltaChain || []
+    });
+    if (this.reconstructionCache.size > CACHE_LIMIT) {
+      const firstKey = this.reconstructionCache.keys().next().value;
+      this.reconstructionCache.delete(firstKey!);
+    }
+  }
+
+  // The most similar recent event of the same type whose chain still has room for another patch
+  private async findDeltaReference(event: MCPEvent): Promise<DeltaReference | undefined> {
+    try {
+      const candidates = [...this.pendingEvents.values()]
+        .filter(pending => pending.type === event.type && pending.id !== event.id)
+        .slice(-10);
+      let remoteIds: string[] = [];
+
+      if (this.redis) {
+        // Most recent first, within the last hour
+        const recentIds: string[] = await this.redis.zRange(
+          `events:${event.type}`,
+          Date.now(),
+          Date.now() - 3600000,
+          { BY: 'SCORE', REV: true, LIMIT: { offset: 0, count: 10 } }
+        );
+        remoteIds = recentIds.filter(id => id !== event.id && !this.pendingEvents.has(id));
+      } else if (this.wal.isOpen) {
+        candidates.push(...this.wal.recent(event.type, 10).filter(logged => logged.id !== event.id));
+      }
+
+      // Recently processed candidates come from the cache; only misses are fetched and rebuilt
+      const references: DeltaReference[] = [];
+      const misses = candidates.filter(candidate => !this.reconstructionCache.has(candidate.id));
+      for (const id of [...candidates.map(candidate => candidate.id), ...remoteIds]) {
+        const cached = this.reconstructionCache.get(id);
+        if (cached) references.push(cached);
+      }
+
+      const uncachedIds = remoteIds.filter(id => !this.reconstructionCache.has(id));
+      if (this.redis && uncachedIds.length > 0) {
+        const stored: (string | null)[] = await this.redis.mGet(uncachedIds.map(id => `event:${id}`));
+        misses.push(...stored.filter((value): value is string => value !== null).map(value => JSON.parse(value)));
+      }
+
+      for (const candidate of misses) {
+        if ((candidate.deltaChain?.length || 0) >= this.maxDeltaChainDepth) continue;
+
+        // A candidate whose own chain is broken can't be a base
+        const data = await this.reconstructData(candidate).catch(() => undefined);
+        if (data === undefined) continue;
+        references.push({ id: candidate.id, data, chain: candidate.deltaChain || [] });
+      }
+
+      let best: { reference: DeltaReference; similarity: number } | undefined;
+      for (const reference of references) {
+        if (reference.chain.length >= this.maxDeltaChainDepth) continue;
+
+        const similarity = this.calculateSimilarity(event.data, reference.data);
+        if (similarity > SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+          best = { reference, similarity };
         }
       }
+
+      if (best) {
+        return best.reference;
+      }
     } catch (error) {
       console.error('Error finding delta reference:', error);
     }
-    
+
     return undefined;
   }
 
   private calculateSimilarity(data1: any, data2: any): number {
-    // Simple similarity calculation (in production, use better algorithm)
     const str1 = JSON.stringify(data1);
     const str2 = JSON.stringify(data2);
-    
+
     if (str1 === str2) return 1;
     if (str1.length === 0 || str2.length === 0) return 0;
-    
-    // Calculate Jaccard similarity on tokens
-    const tokens1 = new Set(str1.split(/\s+/));
-    const tokens2 = new Set(str2.split(/\s+/));
-    
+
+    // Jaccard similarity on the words and values, ignoring JSON punctuation
+    const tokens1 = new Set(str1.split(/[\s,:{}[\]"]+/).filter(Boolean));
+    const tokens2 = new Set(str2.split(/[\s,:{}[\]"]+/).filter(Boolean));
+
     const intersection = new Set([...tokens1].filter(x => tokens2.has(x)));
     const union = new Set([...tokens1, ...tokens2]);
-    
-    return intersection.size / union.size;
+
+    return union.size > 0 ? intersection.size / union.size : 0;
   }
 
   private startBatchProcessor() {
@@ -194,12 +474,56 @@ export class MCPWebSocketServer extends EventEmitter {
   }
 
   private async processBatch(events: ProcessedEvent[]) {
-    if (!this.redis) {
-      // Fallback to in-memory storage
-      console.log(`Processed batch of ${events.length} events (in-memory)`);
-      return;
+    if (this.redis) {
+      try {
+        await this.writeToRedis(events);
+        this.settle(events);
+        console.log(`Processed batch of ${events.length} events`);
+        return;
+      } catch (error) {
+        console.error('Error writing batch to Redis, logging it locally:', error);
+      }
     }
-    
+
+    await this.wal.append(await this.withoutExternalBases(events));
+    this.settle(events);
+    console.log(`Processed batch of ${events.length} events (logged locally)`);
+  }
+
+  // Stored in Redis or the local log: no longer pending, and framed senders hear it was accepted
+  private settle(events: ProcessedEvent[]) {
+    for (const event of events) {
+      this.pendingEvents.delete(event.id);
+
+      const stream = this.awaitingAcceptance.get(event.id);
+      if (stream) {
+        stream.send({ type: 'accepted', id: event.id });
+        this.awaitingAcceptance.delete(event.id);
+      }
+    }
+  }
+
+  // A logged patch must not depend on a Redis event, which can expire before the log is replayed
+  private async withoutExternalBases(events: ProcessedEvent[]): Promise<ProcessedEvent[]> {
+    const batchIds = new Set(events.map(event => event.id));
+
+    return Promise.all(events.map(async event => {
+      const external = (event.deltaChain || []).some(id => !batchIds.has(id) && !this.wal.get(id));
+      if (!external) return event;
+
+      try {
+        const data = this.reconstructionCache.get(event.id)?.data ?? await this.reconstructData(event);
+        const full = this.encodeFull(data, event.contentHash);
+        const { deltaRef, deltaChain, ...rest } = event;
+        return { ...rest, ...full, size: Buffer.byteLength(full.payload) };
+      } catch {
+        // Still worth logging; it reconstructs if its base is around at replay
+        return event;
+      }
+    }));
+  }
+
+  private async writeToRedis(events: ProcessedEvent[]) {
     const pipeline = this.redis.multi();
     
     for (const event of events) {
@@ -207,7 +531,12 @@ export class MCPWebSocketServer extends EventEmitter {
       const score = new Date(event.timestamp).getTime();
       
       // Store event
-      pipeline.set(key, JSON.stringify(event), { EX: 3600 }); // 1 hour TTL
+      pipeline.set(key, JSON.stringify(event), { EX: EVENT_TTL_SECONDS });
+
+      // Keep every event the patch depends on alive at least as long as the patch
+      for (const id of event.deltaChain || []) {
+        pipeline.expire(`event:${id}`, EVENT_TTL_SECONDS);
+      }
       
       // Add to sorted set by type
       pipeline.zAdd(`events:${event.type}`, { score, value: event.id });
@@ -219,15 +548,20 @@ export class MCPWebSocketServer extends EventEmitter {
     }
     
     await pipeline.exec();
-    console.log(`Processed batch of ${events.length} events`);
   }
 
   private broadcast(event: MCPEvent, sender: any) {
     if (!this.wss) return;
+    const frame = this.streamLog.append(event.type, event);
     
     this.wss.clients.forEach((client) => {
       if (client !== sender && client.readyState === 1) {
-        client.send(JSON.stringify(event));
+        const stream = this.streams.get(client);
+        if (!stream) {
+          client.send(JSON.stringify(event));
+        } else if (stream.isSubscribed(frame.channel)) {
+          stream.deliver(frame);
+        }
       }
     });
   }
@@ -236,10 +570,21 @@ export class MCPWebSocketServer extends EventEmitter {
     if (this.flushInterval) {
       clearInterval(this.flushInterval);
     }
+    if (this.redisRetryInterval) {
+      clearInterval(this.redisRetryInterval);
+    }
     
     if (this.wss) {
       this.wss.close();
     }
+
+    // Buffered events would otherwise be lost on shutdown
+    if (this.eventBuffer.length > 0) {
+      const batch = this.eventBuffer;
+      this.eventBuffer = [];
+      await this.processBatch(batch).catch(error => console.error('Error flushing events on shutdown:', error));
+    }
+    await this.wal.close();
     
     if (this.redis) {
       await this.redis.quit();
@@ -247,115 +592,217 @@ export class MCPWebSocketServer extends EventEmitter {
   }
 
   // Public API for querying events
-  async getEvents(filter: {
-    type?: string;
-    sessionId?: string;
-    startTime?: Date;
-    endTime?: Date;
-    limit?: number;
-  }): Promise<MCPEvent[]> {
-    if (!this.redis) {
-      console.warn('Redis not available, returning empty array');
-      return [];
+  async getEvents(filter: EventLogFilter): Promise<MCPEvent[]> {
+    const limit = filter.limit || 100;
+    // Logged events haven't reached Redis yet, so both are read and merged
+    const found = new Map<string, ProcessedEvent>();
+
+    if (this.wal.isOpen) {
+      for (const logged of this.wal.query(filter)) {
+        found.set(logged.id, logged);
+      }
     }
-    
-    try {
-      let key = filter.type ? `events:${filter.type}` : 'events:*';
-      if (filter.sessionId) {
-        key = `session:${filter.sessionId}`;
+
+    if (this.redis) {
+      try {
+        for (const stored of await this.queryRedis(filter)) {
+          found.set(stored.id, stored);
+        }
+      } catch (error) {
+        console.error('Error querying events:', error);
       }
-      
-      const startScore = filter.startTime ? filter.startTime.getTime() : '-inf';
-      const endScore = filter.endTime ? filter.endTime.getTime() : '+inf';
-      
-      const eventIds = await this.redis.zRangeByScore(
+    }
+
+    const ordered = [...found.values()]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .slice(0, limit);
+
+    const events: MCPEvent[] = [];
+    for (const processed of ordered) {
+      // Reconstruct original event from processed data
+      try {
+        events.push(await this.reconstructEvent(processed));
+      } catch (error) {
+        console.error(`Error reconstructing event ${processed.id}:`, error);
+      }
+    }
+    return events;
+  }
+
+  private async queryRedis(filter: EventLogFilter): Promise<ProcessedEvent[]> {
+    let keys = filter.type ? [`events:${filter.type}`] : EVENT_TYPES.map(type => `events:${type}`);
+    if (filter.sessionId) {
+      keys = [`session:${filter.sessionId}`];
+    }
+
+    const startScore = filter.startTime ? filter.startTime.getTime() : '-inf';
+    const endScore = filter.endTime ? filter.endTime.getTime() : '+inf';
+
+    const events: ProcessedEvent[] = [];
+    for (const key of keys) {
+      const eventIds: string[] = await this.redis.zRangeByScore(
         key,
         startScore,
         endScore,
         { LIMIT: { offset: 0, count: filter.limit || 100 } }
       );
-      
-      const events: MCPEvent[] = [];
-      for (const id of eventIds) {
-        const data = await this.redis.get(`event:${id}`);
-        if (data) {
-          const processed = JSON.parse(data) as ProcessedEvent;
-          // Reconstruct original event from processed data
-          events.push(await this.reconstructEvent(processed));
+      if (eventIds.length === 0) continue;
+
+      const stored: (string | null)[] = await this.redis.mGet(eventIds.map(id => `event:${id}`));
+      for (const data of stored) {
+        if (!data) continue;
+        const processed = JSON.parse(data) as ProcessedEvent;
+        if (!filter.type || processed.type === filter.type) {
+          events.push(processed);
         }
       }
-      
-      return events;
-    } catch (error) {
-      console.error('Error querying events:', error);
-      return [];
     }
+    return events;
   }
 
   private async reconstructEvent(processed: ProcessedEvent): Promise<MCPEvent> {
-    let data: any = {};
-    
-    if (processed.deltaRef && this.redis) {
-      // Fetch base event and apply delta
-      const baseData = await this.redis.get(`event:${processed.deltaRef}`);
-      if (baseData) {
-        const base = JSON.parse(baseData);
-        data = { ...base.data }; // Start with base data
-      }
-    }
-    
-    if (processed.compressed) {
-      // Decompress data
-      const decompressed = pako.inflate(processed.compressed, { to: 'string' });
-      data = JSON.parse(decompressed);
-    }
-    
     return {
       id: processed.id,
       timestamp: processed.timestamp,
       type: processed.type as any,
-      data,
+      data: await this.reconstructData(processed),
       metadata: processed.metadata
     };
   }
 
+  // Walks deltaRef back to a full event (or a cached one), then applies the patches forwards
+  private async reconstructData(processed: ProcessedEvent, options: { useCache?: boolean } = {}): Promise<any> {
+    const chain: ProcessedEvent[] = [processed];
+    let base: any;
+    let current = processed;
+
+    while (current.deltaRef) {
+      if (options.useCache !== false && this.reconstructionCache.has(current.deltaRef)) {
+        base = this.reconstructionCache.get(current.deltaRef)!.data;
+        break;
+      }
+      if (chain.length > this.maxDeltaChainDepth) {
+        throw new DeltaChainError(`Delta chain for event ${processed.id} is deeper than ${this.maxDeltaChainDepth}`);
+      }
+
+      const reference = await this.loadProcessed(current.deltaRef);
+      if (!reference) {
+        throw new DeltaChainError(`Delta reference ${current.deltaRef} for event ${processed.id} is missing`);
+      }
+      chain.push(reference);
+      current = reference;
+    }
+
+    let data = base;
+    for (let index = chain.length - 1; index >= 0; index--) {
+      const decoded = this.decodePayload(chain[index]);
+      data = chain[index].deltaRef ? applyPatch(data, decoded as PatchOperation[]) : decoded;
+    }
+    return data;
+  }
+
+  private async loadProcessed(id: string): Promise<ProcessedEvent | null> {
+    const local = this.pendingEvents.get(id) || this.wal.get(id);
+    if (local) return local;
+    if (!this.redis) return null;
+
+    const stored = await this.redis.get(`event:${id}`);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  // Rebuilds stored events from Redis alone and checks them against their content hash
+  async verifyStoredEvents(filter: { type?: string; limit?: number } = {}): Promise<DeltaVerificationReport> {
+    const report: DeltaVerificationReport = {
+      checked: 0,
+      passed: 0,
+      failures: [],
+      originalBytes: 0,
+      storedBytes: 0,
+      savingsRatio: 0
+    };
+    if (!this.redis) return report;
+
+    const limit = filter.limit || Infinity;
+    for (const type of filter.type ? [filter.type] : EVENT_TYPES) {
+      const ids: string[] = await this.redis.zRange(`events:${type}`, 0, -1);
+
+      for (const id of ids) {
+        if (report.checked >= limit) break;
+
+        const stored = await this.redis.get(`event:${id}`);
+        if (!stored) continue; // Expired
+
+        const processed = JSON.parse(stored) as ProcessedEvent;
+        report.checked++;
+        try {
+          const reconstructed = await this.reconstructData(processed, { useCache: false });
+          if (contentHash(reconstructed) !== processed.contentHash) {
+            report.failures.push({ id, reason: 'content hash mismatch' });
+            continue;
+          }
+        } catch (error) {
+          report.failures.push({ id, reason: (error as Error).message });
+          continue;
+        }
+
+        report.passed++;
+        report.originalBytes += processed.originalSize;
+        report.storedBytes += processed.size;
+      }
+    }
+
+    report.savingsRatio = report.originalBytes > 0 ? 1 - report.storedBytes / report.originalBytes : 0;
+    return report;
+  }
+
   // Analytics methods
   async getEventStats(sessionId?: string): Promise<{
     totalEvents: number;
     eventsByType: Record<string, number>;
     compressionRatio: number;
     storageSize: number;
+    deltaEvents: number;
+    // Logged while Redis was unavailable and not yet replayed
+    loggedEvents: number;
+    verification: { enabled: boolean; verified: number; failed: number };
   }> {
+    const verification = { enabled: this.verifyRoundTrip, ...this.verification };
     if (!this.redis) {
       return {
         totalEvents: 0,
         eventsByType: {},
         compressionRatio: 0,
-        storageSize: 0
+        storageSize: 0,
+        deltaEvents: 0,
+        loggedEvents: this.wal.size,
+        verification
       };
     }
     
     try {
-      const types = ['tool_use', 'conversation', 'decision', 'error', 'context_update'];
       const eventsByType: Record<string, number> = {};
       let totalEvents = 0;
       let originalSize = 0;
       let compressedSize = 0;
+      let deltaEvents = 0;
       
-      for (const type of types) {
+      for (const type of EVENT_TYPES) {
         const count = await this.redis.zCard(`events:${type}`);
         eventsByType[type] = count;
         totalEvents += count;
       }
       
-      // Sample events for compression stats
-      const sampleIds = await this.redis.zRange('events:*', 0, 100);
-      for (const id of sampleIds) {
-        const data = await this.redis.get(`event:${id}`);
-        if (data) {
-          const processed = JSON.parse(data) as ProcessedEvent;
-          originalSize += processed.size * 10; // Estimate original size
-          compressedSize += processed.size;
+      // Sample the most recent events of each type for compression stats
+      for (const type of EVENT_TYPES) {
+        const sampleIds = await this.redis.zRange(`events:${type}`, -20, -1);
+        for (const id of sampleIds) {
+          const data = await this.redis.get(`event:${id}`);
+          if (data) {
+            const processed = JSON.parse(data) as ProcessedEvent;
+            originalSize += processed.originalSize;
+            compressedSize += processed.size;
+            if (processed.deltaRef) deltaEvents++;
+          }
         }
       }
       
@@ -363,7 +810,10 @@ export class MCPWebSocketServer extends EventEmitter {
         totalEvents,
         eventsByType,
         compressionRatio: originalSize > 0 ? compressedSize / originalSize : 0,
-        storageSize: compressedSize
+        storageSize: compressedSize,
+        deltaEvents,
+        loggedEvents: this.wal.size,
+        verification
       };
     } catch (error) {
       console.error('Error getting event stats:', error);
@@ -371,7 +821,10 @@ export class MCPWebSocketServer extends EventEmitter {
         totalEvents: 0,
         eventsByType: {},
         compressionRatio: 0,
-        storageSize: 0
+        storageSize: 0,
+        deltaEvents: 0,
+        loggedEvents: this.wal.size,
+        verification
       };
     }
   }
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as javascript from '../../../mcp-server/stream-protocol.js';
+import * as typescript from './StreamProtocol';
+
+interface Options {
+  retain?: number;
+  maxInFlight?: number;
+  maxPending?: number;
+  drainInterval?: number;
+}
+
+// Both servers speak the protocol, so every spec here runs against both implementations
+const implementations = [
+  {
+    name: 'StreamProtocol.ts',
+    version: typescript.PROTOCOL_VERSION,
+    log: (options: Options) => new typescript.StreamLog(options.retain),
+    client: (socket: FakeSocket, log: any, coalesce: any, options: Options) =>
+      new typescript.StreamClient(socket, log, coalesce, { ...options, drainIntervalMs: options.drainInterval })
+  },
+  {
+    name: 'mcp-server/stream-protocol.js',
+    version: javascript.PROTOCOL_VERSION,
+    log: (options: Options) => new javascript.StreamLog(options),
+    client: (socket: FakeSocket, log: any, coalesce: any, options: Options) =>
+      new javascript.StreamClient(socket, log, coalesce, options)
+  }
+];
+
+class FakeSocket {
+  readyState = 1;
+  bufferedAmount = 0;
+  sent: any[] = [];
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  take(): any[] {
+    return this.sent.splice(0);
+  }
+}
+
+// Merges status updates for the same block
+const coalesce = (message: any) => message.blockId
+  ? { key: message.blockId, merge: (older: any, newer: any) => ({ ...older, ...newer }) }
+  : null;
+
+describe.each(implementations)('$name', implementation => {
+  let socket: FakeSocket;
+  let log: any;
+  let clients: any[];
+
+  const connect = (options: Options = {}) => {
+    const client = implementation.client(socket, log, coalesce, options);
+    clients.push(client);
+    return client;
+  };
+
+  const broadcast = (channel: string, message: any) => {
+    const frame = log.append(channel, message);
+    for (const client of clients) {
+      if (client.isSubscribed(channel)) client.deliver(frame);
+    }
+    return frame;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    socket = new FakeSocket();
+    log = implementation.log({ retain: 3 });
+    clients = [];
+  });
+
+  afterEach(() => {
+    clients.forEach(client => client.close());
+    vi.useRealTimers();
+  });
+
+  it('welcomes a client with the epoch and latest seq', () => {
+    broadcast('events', { n: 1 });
+    const client = connect();
+
+    expect(client.handle({ type: 'hello', protocol: 1 })).toBe(true);
+    expect(client.handle({ type: 'ping' })).toBe(false);
+    expect(socket.take()).toEqual([{ type: 'welcome', protocol: implementation.version, epoch: log.epoch, seq: 1 }]);
+  });
+
+  it('resumes a channel with the frames sent since', () => {
+    broadcast('events', { n: 1 });
+    broadcast('metrics', { n: 2 });
+    broadcast('events', { n: 3 });
+    const client = connect();
+
+    client.handle({ type: 'subscribe', channel: 'events', since: 1, epoch: log.epoch });
+
+    expect(socket.take()).toEqual([
+      { type: 'subscribed', channel: 'events', epoch: log.epoch, seq: 3 },
+      { type: 'frame', seq: 3, channel: 'events', message: { n: 3 } }
+    ]);
+  });
+
+  it('does not replay frames an existing subscription already delivered', () => {
+    const client = connect();
+    client.handle({ type: 'subscribe', channel: 'all' });
+    broadcast('events', { n: 1 });
+    socket.take();
+
+    client.handle({ type: 'subscribe', channel: 'events', since: 0, epoch: log.epoch });
+
+    expect(socket.take().filter(message => message.type === 'frame')).toEqual([]);
+  });
+
+  it('reports frames no longer retained as an expired gap', () => {
+    for (let n = 1; n <= 5; n++) broadcast('events', { n });
+    const client = connect();
+
+    client.handle({ type: 'subscribe', channel: 'events', since: 0, epoch: log.epoch });
+
+    const [, gap, ...frames] = socket.take();
+    expect(gap).toEqual({ type: 'gap', channel: 'events', reason: 'expired', from: 1, to: 2 });
+    expect(frames.map(frame => frame.seq)).toEqual([3, 4, 5]);
+  });
+
+  it('reports the whole log as a gap when resuming from another epoch', () => {
+    broadcast('events', { n: 1 });
+    const client = connect();
+
+    client.handle({ type: 'subscribe', channel: 'events', since: 1, epoch: 'previous-run' });
+
+    expect(socket.take()[1]).toEqual({ type: 'gap', channel: 'events', reason: 'restarted', from: 1, to: 1 });
+  });
+
+  it('queues frames while the client is behind and sends them once it acks', () => {
+    const client = connect({ maxInFlight: 1 });
+    client.handle({ type: 'subscribe', channel: 'all' });
+    socket.take();
+
+    broadcast('events', { n: 1 });
+    broadcast('events', { n: 2 });
+    expect(socket.take().map(frame => frame.seq)).toEqual([1]);
+
+    client.handle({ type: 'ack', seq: 1 });
+    expect(socket.take().map(frame => frame.seq)).toEqual([2]);
+  });
+
+  it('coalesces queued frames with the same key into the newest', () => {
+    const client = connect({ maxInFlight: 1 });
+    client.handle({ type: 'subscribe', channel: 'all' });
+    socket.take();
+
+    broadcast('blocks', { n: 1 });
+    broadcast('blocks', { blockId: 'b1', status: 'in_progress' });
+    broadcast('blocks', { n: 3 });
+    broadcast('blocks', { blockId: 'b1', progress: 50 });
+    client.handle({ type: 'ack', seq: 1 });
+    client.handle({ type: 'ack', seq: 3 });
+
+    expect(socket.take()).toEqual([
+      { type: 'frame', seq: 1, channel: 'blocks', message: { n: 1 } },
+      { type: 'frame', seq: 3, channel: 'blocks', message: { n: 3 } },
+      {
+        type: 'frame',
+        seq: 4,
+        channel: 'blocks',
+        message: { blockId: 'b1', status: 'in_progress', progress: 50 },
+        coalesced: 2
+      }
+    ]);
+  });
+
+  it('drops the oldest queued frames on overflow and reports them as a gap', () => {
+    const client = connect({ maxInFlight: 1, maxPending: 2 });
+    client.handle({ type: 'subscribe', channel: 'all' });
+    socket.take();
+
+    for (let n = 1; n <= 5; n++) broadcast('events', { n });
+    expect(socket.take().map(frame => frame.seq)).toEqual([1]);
+    client.handle({ type: 'ack', seq: 1 });
+
+    const sent = socket.take();
+    expect(sent[0]).toEqual({ type: 'gap', reason: 'overflow', from: 2, to: 3 });
+    expect(sent.slice(1).map(frame => frame.seq)).toEqual([4]);
+  });
+
+  it('drains the queue on a timer once the socket buffer empties', async () => {
+    const client = connect({ drainInterval: 100 });
+    client.handle({ type: 'subscribe', channel: 'all' });
+    socket.take();
+
+    socket.bufferedAmount = 2 * 1024 * 1024;
+    broadcast('events', { n: 1 });
+    expect(socket.take()).toEqual([]);
+
+    socket.bufferedAmount = 0;
+    await vi.advanceTimersByTimeAsync(100);
+    expect(socket.take().map(frame => frame.seq)).toEqual([1]);
+  });
+});
@@ -0,0 +1,251 @@
+import { randomUUID } from 'crypto';
+
+// Framed websocket protocol; mcp-server/stream-protocol.js speaks the same one, and
+// StreamProtocol.test.ts runs the same specs against both.
+// A client opts in with { type: 'hello', protocol: 1 }; broadcasts then arrive as frames on the
+// channels it subscribes to, it acks them cumulatively and resumes with subscribe { since, epoch }.
+export const PROTOCOL_VERSION = 1;
+
+export interface StreamFrame<M = any> {
+  type: 'frame';
+  seq: number;
+  channel: string;
+  message: M;
+  // How many broadcasts were merged into this frame while the client was behind
+  coalesced?: number;
+}
+
+export interface CoalesceRule<M = any> {
+  key: string;
+  // null keeps the two frames separate
+  merge: (older: M, newer: M) => M | null;
+}
+
+export type Coalescer<M = any> = (message: M) => CoalesceRule<M> | null;
+
+export interface StreamClientOptions {
+  // Unacked frames before a client counts as behind
+  maxInFlight?: number;
+  // Socket buffer bytes before a client counts as behind
+  highWaterMark?: number;
+  // Queued frames per client before the oldest are dropped
+  maxPending?: number;
+  drainIntervalMs?: number;
+}
+
+interface StreamSocket {
+  readyState: number;
+  bufferedAmount: number;
+  send(data: string): void;
+}
+
+interface QueuedFrame {
+  key: string | null;
+  frame: StreamFrame;
+  // Lowest seq merged into the frame
+  firstSeq: number;
+}
+
+const DEFAULT_RETAIN = 5000;
+const DEFAULT_OPTIONS: Required<StreamClientOptions> = {
+  maxInFlight: 256,
+  highWaterMark: 1024 * 1024,
+  maxPending: 1000,
+  drainIntervalMs: 100
+};
+const OPEN = 1;
+
+const matches = (subscription: string, channel: string) => subscription === 'all' || subscription === channel;
+
+// Every broadcast, numbered. The epoch changes on restart so stale sequence numbers are detected.
+export class StreamLog<M = any> {
+  readonly epoch = randomUUID();
+  private frames: StreamFrame<M>[] = [];
+  private latest = 0;
+
+  constructor(private retain: number = DEFAULT_RETAIN) {}
+
+  get seq(): number {
+    return this.latest;
+  }
+
+  append(channel: string, message: M): StreamFrame<M> {
+    const frame: StreamFrame<M> = { type: 'frame', seq: ++this.latest, channel, message };
+    this.frames.push(frame);
+    if (this.frames.length > this.retain) {
+      this.frames.splice(0, this.frames.length - this.retain);
+    }
+    return frame;
+  }
+
+  // Frames after seq accepted by filter, plus the range that is no longer retained
+  since(seq: number, filter: (frame: StreamFrame<M>) => boolean): {
+    frames: StreamFrame<M>[];
+    gap: { from: number; to: number } | null;
+  } {
+    const oldest = this.frames.length > 0 ? this.frames[0].seq : this.latest + 1;
+    return {
+      frames: this.frames.filter(frame => frame.seq > seq && filter(frame)),
+      gap: seq + 1 < oldest ? { from: seq + 1, to: oldest - 1 } : null
+    };
+  }
+}
+
+// One framed connection: its subscriptions, unacked frames and the queue it builds up when behind
+export class StreamClient<M = any> {
+  private subscriptions = new Set<string>();
+  private inFlight: number[] = [];
+  private pending: QueuedFrame[] = [];
+  private dropped: { from: number; to: number } | null = null;
+  private drainTimer: NodeJS.Timeout | null = null;
+  private options: Required<StreamClientOptions>;
+
+  constructor(
+    private socket: StreamSocket,
+    private log: StreamLog<M>,
+    private coalesce: Coalescer<M> = () => null,
+    options: StreamClientOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  isSubscribed(channel: string): boolean {
+    return [...this.subscriptions].some(subscription => matches(subscription, channel));
+  }
+
+  // Returns false for messages that aren't part of the protocol
+  handle(message: any): boolean {
+    switch (message?.type) {
+      case 'hello':
+        this.send({ type: 'welcome', protocol: PROTOCOL_VERSION, epoch: this.log.epoch, seq: this.log.seq });
+        for (const subscription of message.subscriptions || []) {
+          this.subscribe(subscription.channel, subscription.since, message.epoch);
+        }
+        return true;
+
+      case 'subscribe':
+        this.subscribe(message.channel, message.since, message.epoch);
+        return true;
+
+      case 'unsubscribe':
+        this.subscriptions.delete(message.channel);
+        this.send({ type: 'unsubscribed', channel: message.channel });
+        return true;
+
+      case 'ack':
+        this.inFlight = this.inFlight.filter(seq => seq > message.seq);
+        this.drain();
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  deliver(frame: StreamFrame<M>) {
+    if (this.pending.length > 0 || this.isBehind()) {
+      this.enqueue(frame);
+      this.scheduleDrain();
+      return;
+    }
+    this.sendFrame(frame);
+  }
+
+  send(message: any) {
+    if (this.socket.readyState === OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  close() {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+  }
+
+  private subscribe(channel: string = 'all', since?: number | null, epoch?: string) {
+    // Frames an existing subscription matched were delivered live already
+    const existing = [...this.subscriptions].filter(subscription => subscription !== channel);
+    const deliveredLive = (frame: StreamFrame<M>) => existing.some(subscription => matches(subscription, frame.channel));
+
+    this.subscriptions.add(channel);
+    this.send({ type: 'subscribed', channel, epoch: this.log.epoch, seq: this.log.seq });
+
+    if (since === undefined || since === null) return;
+
+    // Sequence numbers from before a restart mean nothing now
+    if (epoch && epoch !== this.log.epoch) {
+      this.send({ type: 'gap', channel, reason: 'restarted', from: 1, to: this.log.seq });
+      return;
+    }
+
+    const { frames, gap } = this.log.since(since, frame => matches(channel, frame.channel) && !deliveredLive(frame));
+    if (gap) {
+      this.send({ type: 'gap', channel, reason: 'expired', ...gap });
+    }
+    frames.forEach(frame => this.deliver(frame));
+  }
+
+  private isBehind(): boolean {
+    return this.inFlight.length >= this.options.maxInFlight || this.socket.bufferedAmount > this.options.highWaterMark;
+  }
+
+  // Frames sharing a coalesce key merge into the newest one, which moves to the back so seq stays ordered
+  private enqueue(frame: StreamFrame<M>) {
+    const rule = this.coalesce(frame.message);
+    const key = rule ? `${frame.channel}:${rule.key}` : null;
+    let firstSeq = frame.seq;
+
+    const index = key ? this.lastPendingIndex(key) : -1;
+    const merged = rule && index >= 0 ? rule.merge(this.pending[index].frame.message, frame.message) : null;
+    if (merged !== null) {
+      const [older] = this.pending.splice(index, 1);
+      firstSeq = older.firstSeq;
+      frame = { ...frame, message: merged, coalesced: (older.frame.coalesced || 1) + 1 };
+    }
+    this.pending.push({ key, frame, firstSeq });
+
+    if (this.pending.length > this.options.maxPending) {
+      const oldest = this.pending.shift()!;
+      this.dropped = {
+        from: Math.min(this.dropped?.from ?? oldest.firstSeq, oldest.firstSeq),
+        to: Math.max(this.dropped?.to ?? oldest.frame.seq, oldest.frame.seq)
+      };
+    }
+  }
+
+  private lastPendingIndex(key: string): number {
+    for (let index = this.pending.length - 1; index >= 0; index--) {
+      if (this.pending[index].key === key) return index;
+    }
+    return -1;
+  }
+
+  private drain() {
+    if (this.dropped && !this.isBehind()) {
+      this.send({ type: 'gap', reason: 'overflow', ...this.dropped });
+      this.dropped = null;
+    }
+    while (this.pending.length > 0 && !this.isBehind()) {
+      this.sendFrame(this.pending.shift()!.frame);
+    }
+    if (this.pending.length > 0) {
+      this.scheduleDrain();
+    }
+  }
+
+  private scheduleDrain() {
+    if (this.drainTimer) return;
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null;
+      if (this.socket.readyState === OPEN) this.drain();
+    }, this.options.drainIntervalMs);
+  }
+
+  private sendFrame(frame: StreamFrame<M>) {
+    if (this.socket.readyState !== OPEN) return;
+    this.socket.send(JSON.stringify(frame));
+    this.inFlight.push(frame.seq);
+  }
+}
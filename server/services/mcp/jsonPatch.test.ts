@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, canonicalJson, contentHash, diff, PatchError } from './jsonPatch';
+
+describe('diff and applyPatch', () => {
+  const cases: [string, any, any][] = [
+    ['changed members', { a: 1, b: { c: 'x' } }, { a: 2, b: { c: 'y', d: true } }],
+    ['removed members', { a: 1, b: 2 }, { a: 1 }],
+    ['growing arrays', { list: [1, 2] }, { list: [1, 3, 4, 5] }],
+    ['shrinking arrays', { list: [1, 2, 3, 4] }, { list: [0] }],
+    ['keys that need escaping', { 'a/b': 1, 'c~d': 2 }, { 'a/b': 3, 'c~d': 4 }],
+    ['type changes', { a: [1] }, { a: { b: 1 } }],
+    ['the document root', [1], 'text']
+  ];
+
+  it.each(cases)('round-trips %s', (_name, base, target) => {
+    expect(applyPatch(base, diff(base, target))).toEqual(target);
+  });
+
+  it('leaves the base untouched', () => {
+    const base = { a: { b: 1 } };
+    applyPatch(base, [{ op: 'replace', path: '/a/b', value: 2 }]);
+    expect(base).toEqual({ a: { b: 1 } });
+  });
+
+  it('does not mistake inherited members for present ones', () => {
+    expect(diff({ toString: 1 }, {})).toEqual([{ op: 'remove', path: '/toString' }]);
+    expect(() => applyPatch({}, [{ op: 'remove', path: '/toString' }])).toThrow(PatchError);
+  });
+
+  it('rejects paths that do not exist', () => {
+    expect(() => applyPatch({ a: 1 }, [{ op: 'replace', path: '/b', value: 1 }])).toThrow(PatchError);
+    expect(() => applyPatch({ list: [1] }, [{ op: 'remove', path: '/list/1' }])).toThrow(PatchError);
+    expect(() => applyPatch({}, [{ op: 'remove', path: '' }])).toThrow(PatchError);
+  });
+});
+
+describe('prototype pollution', () => {
+  it.each([
+    '/__proto__/polluted',
+    '/constructor/prototype/polluted',
+    '/a/__proto__'
+  ])('rejects %s', path => {
+    expect(() => applyPatch({ a: {} }, [{ op: 'add', path, value: 'yes' }])).toThrow(PatchError);
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it('replaces objects holding forbidden keys whole, as own data', () => {
+    const target = JSON.parse('{"a":{"__proto__":{"polluted":"yes"},"b":1}}');
+
+    const operations = diff({ a: { b: 1 } }, target);
+    const patched = applyPatch({ a: { b: 1 } }, operations);
+
+    expect(operations).toEqual([{ op: 'replace', path: '/a', value: target.a }]);
+    expect(Object.getPrototypeOf(patched.a)).toBe(Object.prototype);
+    expect(patched.a.polluted).toBeUndefined();
+    expect(({} as any).polluted).toBeUndefined();
+    expect(contentHash(patched)).toBe(contentHash(target));
+  });
+});
+
+describe('canonicalJson', () => {
+  it('sorts keys and drops undefined members', () => {
+    expect(canonicalJson({ b: 1, a: [undefined, { d: undefined, c: 2 }] })).toBe('{"a":[null,{"c":2}],"b":1}');
+  });
+});
@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+
+// The subset of RFC 6902 a structural diff needs
+export type PatchOperation =
+  | { op: 'add'; path: string; value: any }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: any };
+
+export class PatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapeToken(token: string): string {
+  return token.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Keys that reach an object's prototype instead of its own members; patches never address them
+const FORBIDDEN_TOKENS = new Set(['__proto__', 'constructor', 'prototype']);
+
+// Own members only, so inherited properties never read as present
+function own(value: Record<string, any>, key: string): any {
+  return Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+}
+
+// JSON with object keys sorted, so equal values always serialize (and hash) the same
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (isObject(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function contentHash(value: any): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+// Operations that turn base into target. Objects and arrays are walked member by member;
+// arrays are matched by index, with trailing items added or removed from the end.
+export function diff(base: any, target: any, path: string = ''): PatchOperation[] {
+  // Objects holding a forbidden key are replaced whole rather than patched member by member
+  const patchable = (value: Record<string, any>) => !Object.keys(value).some(key => FORBIDDEN_TOKENS.has(key));
+  if (isObject(base) && isObject(target) && patchable(base) && patchable(target)) {
+    const operations: PatchOperation[] = [];
+    for (const key of Object.keys(base)) {
+      if (own(target, key) === undefined && base[key] !== undefined) {
+        operations.push({ op: 'remove', path: `${path}/${escapeToken(key)}` });
+      }
+    }
+    for (const key of Object.keys(target)) {
+      if (target[key] === undefined) continue;
+      const childPath = `${path}/${escapeToken(key)}`;
+      if (own(base, key) === undefined) {
+        operations.push({ op: 'add', path: childPath, value: target[key] });
+      } else {
+        operations.push(...diff(base[key], target[key], childPath));
+      }
+    }
+    return operations;
+  }
+
+  if (Array.isArray(base) && Array.isArray(target)) {
+    const operations: PatchOperation[] = [];
+    const shared = Math.min(base.length, target.length);
+    for (let index = 0; index < shared; index++) {
+      operations.push(...diff(base[index], target[index], `${path}/${index}`));
+    }
+    for (let index = shared; index < target.length; index++) {
+      operations.push({ op: 'add', path: `${path}/${index}`, value: target[index] });
+    }
+    // From the end, so earlier removals don't shift later indexes
+    for (let index = base.length - 1; index >= shared; index--) {
+      operations.push({ op: 'remove', path: `${path}/${index}` });
+    }
+    return operations;
+  }
+
+  return canonicalJson(base) === canonicalJson(target) ? [] : [{ op: 'replace', path, value: target }];
+}
+
+// Applies operations to a copy of base
+export function applyPatch(base: any, operations: PatchOperation[]): any {
+  let document = structuredClone(base);
+
+  for (const operation of operations) {
+    if (operation.path === '') {
+      if (operation.op === 'remove') {
+        throw new PatchError('Cannot remove the document root');
+      }
+      document = structuredClone(operation.value);
+      continue;
+    }
+
+    const tokens = operation.path.split('/').slice(1).map(unescapeToken);
+    const forbidden = tokens.find(token => FORBIDDEN_TOKENS.has(token));
+    if (forbidden !== undefined) {
+      throw new PatchError(`Path ${operation.path} addresses forbidden key ${forbidden}`);
+    }
+    const last = tokens.pop()!;
+    let parent = document;
+    for (const token of tokens) {
+      if (parent === null || typeof parent !== 'object' || !Object.prototype.hasOwnProperty.call(parent, token)) {
+        throw new PatchError(`Path ${operation.path} does not exist`);
+      }
+      parent = parent[token];
+    }
+
+    if (Array.isArray(parent)) {
+      const index = last === '-' ? parent.length : Number(last);
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new PatchError(`Index ${last} is out of bounds at ${operation.path}`);
+      }
+      if (operation.op === 'add') {
+        parent.splice(index, 0, structuredClone(operation.value));
+      } else if (index >= parent.length) {
+        throw new PatchError(`Index ${last} is out of bounds at ${operation.path}`);
+      } else if (operation.op === 'remove') {
+        parent.splice(index, 1);
+      } else {
+        parent[index] = structuredClone(operation.value);
+      }
+    } else if (isObject(parent)) {
+      if (operation.op !== 'add' && !Object.prototype.hasOwnProperty.call(parent, last)) {
+        throw new PatchError(`Path ${operation.path} does not exist`);
+      }
+      if (operation.op === 'remove') {
+        delete parent[last];
+      } else {
+        Object.defineProperty(parent, last, {
+          value: structuredClone(operation.value),
+          writable: true,
+          enumerable: true,
+          configurable: true
+        });
+      }
+    } else {
+      throw new PatchError(`Path ${operation.path} does not exist`);
+    }
+  }
+
+  return document;
+}
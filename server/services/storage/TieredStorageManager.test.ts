@@ -0,0 +1,128 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeCursor, encodeCursor, TieredStorageManager } from './TieredStorageManager';
+import { FilesystemTier, StorageUnavailableError, StoredEvent, TierName } from './tiers';
+
+const event = (id: string, minute: number, extra: Partial<StoredEvent> = {}): StoredEvent => ({
+  id,
+  timestamp: new Date(Date.UTC(2024, 4, 1, 10, minute)).toISOString(),
+  data: JSON.stringify({ id }),
+  size: 10,
+  projectId: 'project-a',
+  type: 'tool_use',
+  ...extra
+});
+
+describe('TieredStorageManager queries', () => {
+  let root: string;
+  let managers: TieredStorageManager[];
+
+  const directory = (tier: TierName) => path.join(root, tier);
+
+  // Events are written straight into each tier's directory before the manager opens it
+  const seed = async (tier: TierName, events: StoredEvent[]) => {
+    const store = new FilesystemTier({ directory: directory(tier) });
+    await store.connect();
+    await store.put(events);
+  };
+
+  const open = async () => {
+    const manager = new TieredStorageManager({
+      tiers: Object.fromEntries((['hot', 'warm', 'cold'] as TierName[])
+        .map(tier => [tier, { backend: 'filesystem', directory: directory(tier) }]))
+    });
+    managers.push(manager);
+    await manager.ready;
+    return manager;
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    root = await mkdtemp(path.join(tmpdir(), 'tiered-storage-'));
+    managers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(managers.map(manager => manager.stop()));
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('merges the tiers into one (timestamp, id) ordering', async () => {
+    await seed('hot', [event('e5', 5), event('e3', 3)]);
+    await seed('warm', [event('e4', 4), event('e2', 2)]);
+    await seed('cold', [event('e1', 1), event('e0', 1)]);
+    const manager = await open();
+
+    const { events } = await manager.queryEvents({ order: 'asc' });
+
+    expect(events.map(e => [e.id, e.tier])).toEqual([
+      ['e0', 'cold'], ['e1', 'cold'], ['e2', 'warm'], ['e3', 'hot'], ['e4', 'warm'], ['e5', 'hot']
+    ]);
+    expect(events[0].data).toEqual({ id: 'e0' });
+  });
+
+  it('keeps one copy of an event caught mid-migration in two tiers', async () => {
+    await seed('hot', [event('moving', 2), event('e3', 3)]);
+    await seed('warm', [event('moving', 2), event('e1', 1)]);
+    const manager = await open();
+
+    const { events } = await manager.queryEvents({});
+
+    expect(events.map(e => e.id)).toEqual(['e3', 'moving', 'e1']);
+    expect(events[1].tier).toBe('hot');
+  });
+
+  it('pages through every tier with cursors, newest first', async () => {
+    await seed('hot', [event('e6', 6), event('e5', 5)]);
+    await seed('warm', [event('e4', 4), event('e3', 3)]);
+    await seed('cold', [event('e2', 2), event('e1', 1)]);
+    const manager = await open();
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await manager.queryEvents({ cursor }, 4);
+      seen.push(...page.events.map(e => e.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(['e6', 'e5', 'e4', 'e3', 'e2', 'e1']);
+  });
+
+  it('filters on project, type and time range in every tier', async () => {
+    await seed('hot', [event('match', 5), event('other-project', 5, { projectId: 'project-b' })]);
+    await seed('cold', [event('other-type', 2, { type: 'git_commit' }), event('too-old', 0)]);
+    const manager = await open();
+
+    const { events } = await manager.queryEvents({
+      projectId: 'project-a',
+      types: ['tool_use'],
+      start: new Date(Date.UTC(2024, 4, 1, 10, 1))
+    });
+
+    expect(events.map(e => e.id)).toEqual(['match']);
+  });
+
+  it('fails on an unavailable tier unless partial results are allowed', async () => {
+    await seed('hot', [event('e1', 1)]);
+    // A file where the warm tier's directory should be
+    await writeFile(directory('warm'), '');
+    const manager = await open();
+
+    expect(manager.getStatus().mode).toBe('degraded');
+    await expect(manager.queryEvents({})).rejects.toBeInstanceOf(StorageUnavailableError);
+
+    const page = await manager.queryEvents({ allowPartial: true });
+    expect(page.events.map(e => e.id)).toEqual(['e1']);
+    expect(page.skippedTiers).toEqual(['warm']);
+  });
+
+  it('round-trips cursors and rejects malformed ones', () => {
+    const position = { timestamp: '2024-05-01T10:00:00.000Z', id: 'e1' };
+    expect(decodeCursor(encodeCursor(position))).toEqual(position);
+    expect(() => decodeCursor('not-a-cursor')).toThrow('Invalid event cursor');
+  });
+});
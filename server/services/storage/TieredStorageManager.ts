@@ -1,16 +1,51 @@
 import { EventEmitter } from 'events';
-import { createClient } from 'redis';
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import * as pako from 'pako';
+import {
+  createStorageTier,
+  EventPosition,
+  StorageTier,
+  StorageTierConfig,
+  StorageUnavailableError,
+  StoredEvent,
+  TierName,
+  TierQuery
+} from './tiers';
+import { compareEvents } from './tiers/query';
 
-interface StorageEvent {
+interface StorageEvent extends StoredEvent {
+  tier: TierName;
+}
+
+export interface StoredEventRecord {
   id: string;
   timestamp: string;
   data: any;
-  size: number;
-  tier: 'hot' | 'warm' | 'cold';
-  compressed?: boolean;
-  s3Key?: string;
+  tier: TierName;
+  projectId?: string;
+  sessionId?: string;
+  type?: string;
+}
+
+export interface EventQuery {
+  // Both bounds inclusive
+  start?: Date;
+  end?: Date;
+  projectId?: string;
+  sessionId?: string;
+  types?: string[];
+  // Newest first by default
+  order?: 'asc' | 'desc';
+  // nextCursor from a previous page
+  cursor?: string;
+  // Skip unavailable tiers instead of failing; results may then be missing events
+  allowPartial?: boolean;
+}
+
+export interface EventPage {
+  events: StoredEventRecord[];
+  nextCursor: string | null;
+  // Tiers left out because they were unavailable (only with allowPartial)
+  skippedTiers: TierName[];
 }
 
 interface StorageMetrics {
@@ -22,32 +57,92 @@ interface StorageMetrics {
   costEstimate: number;
 }
 
+// disabled: not configured. unavailable: configured but failing, which puts the manager in degraded mode.
+export type TierState = 'ready' | 'unavailable' | 'disabled';
+
+export interface TierStatus {
+  tier: TierName;
+  backend: string | null;
+  state: TierState;
+  error?: string;
+  // When the tier entered its current state
+  since: string;
+}
+
+export interface StorageStatus {
+  mode: 'healthy' | 'degraded';
+  tiers: TierStatus[];
+  checkedAt: string;
+}
+
+export interface TieredStorageConfig {
+  // A tier set to null is disabled; a missing one falls back to the shorthands below
+  tiers?: Partial<Record<TierName, StorageTierConfig | null>>;
+  redis?: { url: string };
+  postgres?: { connectionString: string };
+  s3?: {
+    region: string;
+    bucket: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+  };
+  thresholds?: {
+    hotToWarm: number; // Hours
+    warmToCold: number; // Days
+    compressionSize: number; // Bytes
+  };
+}
+
+interface TierSlot {
+  tier: StorageTier | null;
+  status: TierStatus;
+}
+
+const TIER_ORDER: TierName[] = ['hot', 'warm', 'cold'];
+const MIGRATION_BATCH_SIZE = 100;
+const QUERY_PAGE_SIZE = 200;
+
+export function encodeCursor(position: EventPosition): string {
+  return Buffer.from(JSON.stringify({ t: position.timestamp, id: position.id })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): EventPosition {
+  try {
+    const { t, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof t === 'string' && typeof id === 'string' && !Number.isNaN(Date.parse(t))) {
+      return { timestamp: t, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid event cursor');
+}
+
+// One tier's side of a merged query: a buffered page and the position to continue from
+interface TierReader {
+  name: TierName;
+  tier: StorageTier;
+  buffer: StoredEvent[];
+  after?: EventPosition;
+  exhausted: boolean;
+}
+
+const countKey = (name: TierName) => `${name}Count` as const;
+
 export class TieredStorageManager extends EventEmitter {
-  private redis: any;
-  private s3Client: S3Client | null = null;
-  private pgPool: any = null; // PostgreSQL connection pool
+  private slots: Record<TierName, TierSlot>;
   private metricsCache: StorageMetrics;
   private migrationInterval: NodeJS.Timeout | null = null;
+  private lastCheckedAt = new Date().toISOString();
+  // Until the first connection attempts finish, failures are reported but nothing has "recovered"
+  private initialized = false;
 
-  constructor(
-    private config: {
-      redis?: { url: string };
-      postgres?: { connectionString: string };
-      s3?: {
-        region: string;
-        bucket: string;
-        accessKeyId?: string;
-        secretAccessKey?: string;
-      };
-      thresholds?: {
-        hotToWarm: number; // Hours
-        warmToCold: number; // Days
-        compressionSize: number; // Bytes
-      };
-    }
-  ) {
+  // Resolves once every configured tier has been tried; unreachable ones start out unavailable
+  readonly ready: Promise<void>;
+
+  constructor(private config: TieredStorageConfig) {
     super();
-    
+
     this.metricsCache = {
       hotCount: 0,
       warmCount: 0,
@@ -56,114 +151,137 @@ export class TieredStorageManager extends EventEmitter {
       compressionRatio: 1,
       costEstimate: 0
     };
-    
-    this.initialize();
+
+    const configs = this.resolveTierConfigs();
+    this.slots = {} as Record<TierName, TierSlot>;
+    for (const name of TIER_ORDER) {
+      const tierConfig = configs[name];
+      this.slots[name] = {
+        tier: tierConfig ? createStorageTier(tierConfig) : null,
+        status: {
+          tier: name,
+          backend: tierConfig?.backend || null,
+          state: tierConfig ? 'unavailable' : 'disabled',
+          error: tierConfig ? 'Connecting' : undefined,
+          since: new Date().toISOString()
+        }
+      };
+    }
+
+    this.ready = this.initialize();
+  }
+
+  private resolveTierConfigs(): Record<TierName, StorageTierConfig | null> {
+    const { tiers = {}, redis, postgres, s3 } = this.config;
+    const pick = (name: TierName, fallback: StorageTierConfig | null) =>
+      name in tiers ? tiers[name] ?? null : fallback;
+
+    return {
+      hot: pick('hot', { backend: 'redis', url: redis?.url || 'redis://localhost:6379' }),
+      warm: pick('warm', postgres ? { backend: 'postgres', connectionString: postgres.connectionString } : null),
+      cold: pick('cold', s3 ? { backend: 's3', ...s3 } : null)
+    };
   }
 
   private async initialize() {
-    // Initialize Redis (Hot tier)
-    await this.initializeRedis();
-    
-    // Initialize PostgreSQL (Warm tier)
-    await this.initializePostgres();
-    
-    // Initialize S3 (Cold tier)
-    this.initializeS3();
-    
+    await Promise.all(TIER_ORDER.map(name => this.connectTier(name)));
+    this.initialized = true;
+
+    const status = this.getStatus();
+    for (const tier of status.tiers) {
+      if (tier.state === 'ready') {
+        console.log(`Storage ${tier.tier} tier (${tier.backend}) connected`);
+      }
+    }
+    if (this.slots.cold.status.state === 'disabled') {
+      console.warn('No cold storage tier configured; events stay in the warm tier indefinitely');
+    }
+    this.emit('status', status);
+
     // Start migration scheduler
     this.startMigrationScheduler();
   }
 
-  private async initializeRedis() {
-    const redisUrl = this.config.redis?.url || 'redis://localhost:6379';
-    this.redis = createClient({ url: redisUrl });
-    
-    this.redis.on('error', (err: any) => {
-      console.error('Redis error:', err);
-      this.emit('error', { tier: 'hot', error: err });
-    });
-    
+  private async connectTier(name: TierName): Promise<boolean> {
+    const slot = this.slots[name];
+    if (!slot.tier) return false;
+
     try {
-      await this.redis.connect();
-      console.log('Redis (hot tier) connected');
+      await slot.tier.connect();
+      this.markReady(name);
+      return true;
     } catch (err) {
-      console.warn('Redis connection failed, using fallback:', err);
-      this.redis = null;
+      await slot.tier.close().catch(() => undefined);
+      this.markUnavailable(name, err);
+      return false;
     }
   }
 
-  private async initializePostgres() {
-    if (!this.config.postgres) {
-      console.log('PostgreSQL not configured, skipping warm tier');
-      return;
-    }
-    
-    try {
-      // Dynamic import to avoid dependency if not used
-      const { Pool } = await import('pg');
-      this.pgPool = new Pool({
-        connectionString: this.config.postgres.connectionString
-      });
-      
-      // Create table if not exists
-      await this.pgPool.query(`
-        CREATE TABLE IF NOT EXISTS events_warm (
-          id VARCHAR(255) PRIMARY KEY,
-          timestamp TIMESTAMPTZ NOT NULL,
-          data JSONB NOT NULL,
-          size INTEGER NOT NULL,
-          compressed BOOLEAN DEFAULT false,
-          created_at TIMESTAMPTZ DEFAULT NOW(),
-          accessed_at TIMESTAMPTZ DEFAULT NOW()
-        );
-        
-        CREATE INDEX IF NOT EXISTS idx_events_warm_timestamp ON events_warm(timestamp);
-        CREATE INDEX IF NOT EXISTS idx_events_warm_accessed ON events_warm(accessed_at);
-      `);
-      
-      console.log('PostgreSQL (warm tier) connected');
-    } catch (err) {
-      console.warn('PostgreSQL connection failed:', err);
-      this.pgPool = null;
+  private markReady(name: TierName) {
+    const slot = this.slots[name];
+    const recovered = this.initialized && slot.status.state === 'unavailable';
+    slot.status = { tier: name, backend: slot.status.backend, state: 'ready', since: new Date().toISOString() };
+
+    if (recovered) {
+      console.log(`Storage ${name} tier (${slot.status.backend}) recovered`);
+      this.emit('tierRecovered', { tier: name, backend: slot.status.backend });
     }
   }
 
-  private initializeS3() {
-    if (!this.config.s3) {
-      console.log('S3 not configured, skipping cold tier');
-      return;
+  private markUnavailable(name: TierName, err: unknown) {
+    const slot = this.slots[name];
+    const error = err instanceof Error ? err.message : String(err);
+    const changed = !this.initialized || slot.status.state !== 'unavailable';
+    slot.status = {
+      tier: name,
+      backend: slot.status.backend,
+      state: 'unavailable',
+      error,
+      since: changed ? new Date().toISOString() : slot.status.since
+    };
+
+    if (changed) {
+      console.warn(`Storage ${name} tier (${slot.status.backend}) unavailable, running degraded: ${error}`);
+      this.emit('tierUnavailable', { tier: name, backend: slot.status.backend, error });
     }
-    
+  }
+
+  // Runs an operation against a ready tier. A failure marks the tier unavailable until a health
+  // check reaches it again, and yields undefined so callers can move on to another tier.
+  private async useTier<T>(name: TierName, operation: (tier: StorageTier) => Promise<T>): Promise<T | undefined> {
+    const slot = this.slots[name];
+    if (!slot.tier || slot.status.state !== 'ready') return undefined;
+
     try {
-      this.s3Client = new S3Client({
-        region: this.config.s3.region,
-        credentials: this.config.s3.accessKeyId ? {
-          accessKeyId: this.config.s3.accessKeyId,
-          secretAccessKey: this.config.s3.secretAccessKey!
-        } : undefined // Use default credentials if not provided
-      });
-      
-      console.log('S3 (cold tier) configured');
+      return await operation(slot.tier);
     } catch (err) {
-      console.warn('S3 configuration failed:', err);
-      this.s3Client = null;
+      this.markUnavailable(name, err);
+      return undefined;
     }
   }
 
-  // Store event with automatic tiering
+  private isReady(name: TierName): boolean {
+    return this.slots[name].status.state === 'ready';
+  }
+
+  // Store event with automatic tiering; falls through to the next tier down when one is unavailable
   async store(event: {
     id: string;
     timestamp: string;
     data: any;
     ttl?: number;
+    projectId?: string;
+    sessionId?: string;
+    type?: string;
   }): Promise<StorageEvent> {
+    await this.ready;
     const dataStr = JSON.stringify(event.data);
     const size = Buffer.byteLength(dataStr);
     const threshold = this.config.thresholds?.compressionSize || 1024;
-    
+
     let compressed = false;
     let dataToStore = dataStr;
-    
+
     // Compress if over threshold
     if (size > threshold) {
       const compressedData = pako.deflate(dataStr);
@@ -172,107 +290,51 @@ export class TieredStorageManager extends EventEmitter {
         compressed = true;
       }
     }
-    
-    const storageEvent: StorageEvent = {
+
+    const storedEvent: StoredEvent = {
       id: event.id,
       timestamp: event.timestamp,
       data: dataToStore,
       size: compressed ? dataToStore.length : size,
-      tier: 'hot',
-      compressed
+      compressed,
+      projectId: event.projectId,
+      sessionId: event.sessionId,
+      type: event.type
     };
-    
-    // Store in hot tier (Redis)
-    if (this.redis) {
-      const ttl = event.ttl || 3600; // Default 1 hour TTL
-      await this.redis.set(
-        `event:${event.id}`,
-        JSON.stringify(storageEvent),
-        { EX: ttl }
-      );
-      
-      // Add to sorted set for time-based queries
-      await this.redis.zAdd('events:timeline', {
-        score: new Date(event.timestamp).getTime(),
-        value: event.id
+
+    for (const name of TIER_ORDER) {
+      const stored = await this.useTier(name, async tier => {
+        await tier.put([storedEvent], { ttlSeconds: event.ttl });
+        return true;
       });
-      
-      this.metricsCache.hotCount++;
-    } else {
-      // Fallback to in-memory if Redis not available
-      console.log('Stored event in memory (Redis unavailable):', event.id);
+
+      if (stored) {
+        this.metricsCache[countKey(name)]++;
+        const storageEvent: StorageEvent = { ...storedEvent, tier: name };
+        this.emit('stored', storageEvent);
+        return storageEvent;
+      }
     }
-    
-    this.emit('stored', storageEvent);
-    return storageEvent;
+
+    throw new StorageUnavailableError(`No storage tier accepted event ${event.id}: ${this.describeOutage()}`);
   }
 
   // Retrieve event from any tier
   async retrieve(eventId: string): Promise<any | null> {
-    // Check hot tier (Redis)
-    if (this.redis) {
-      const hotData = await this.redis.get(`event:${eventId}`);
-      if (hotData) {
-        const event = JSON.parse(hotData) as StorageEvent;
-        return await this.deserializeEvent(event);
-      }
-    }
-    
-    // Check warm tier (PostgreSQL)
-    if (this.pgPool) {
-      const result = await this.pgPool.query(
-        'SELECT * FROM events_warm WHERE id = $1',
-        [eventId]
-      );
-      
-      if (result.rows.length > 0) {
-        const row = result.rows[0];
-        
-        // Update access time
-        await this.pgPool.query(
-          'UPDATE events_warm SET accessed_at = NOW() WHERE id = $1',
-          [eventId]
-        );
-        
-        return await this.deserializeEvent({
-          id: row.id,
-          timestamp: row.timestamp,
-          data: row.data,
-          size: row.size,
-          tier: 'warm',
-          compressed: row.compressed
-        });
-      }
-    }
-    
-    // Check cold tier (S3)
-    if (this.s3Client && this.config.s3) {
-      try {
-        const command = new GetObjectCommand({
-          Bucket: this.config.s3.bucket,
-          Key: `events/${eventId}.json`
-        });
-        
-        const response = await this.s3Client.send(command);
-        const bodyStr = await response.Body?.transformToString();
-        
-        if (bodyStr) {
-          const event = JSON.parse(bodyStr) as StorageEvent;
-          return await this.deserializeEvent(event);
-        }
-      } catch (err: any) {
-        if (err.name !== 'NoSuchKey') {
-          console.error('S3 retrieval error:', err);
-        }
+    await this.ready;
+    for (const name of TIER_ORDER) {
+      const event = await this.useTier(name, tier => tier.get(eventId));
+      if (event) {
+        return this.deserializeEvent({ ...event, tier: name });
       }
     }
-    
+
     return null;
   }
 
-  private async deserializeEvent(event: StorageEvent): Promise<any> {
-    let data = event.data;
-    
+  private deserializeEvent(event: StorageEvent): StoredEventRecord {
+    let data: any = event.data;
+
     if (event.compressed && typeof data === 'string') {
       const compressed = Buffer.from(data, 'base64');
       const decompressed = pako.inflate(compressed, { to: 'string' });
@@ -280,128 +342,102 @@ export class TieredStorageManager extends EventEmitter {
     } else if (typeof data === 'string') {
       data = JSON.parse(data);
     }
-    
+
     return {
       id: event.id,
       timestamp: event.timestamp,
       data,
-      tier: event.tier
+      tier: event.tier,
+      projectId: event.projectId,
+      sessionId: event.sessionId,
+      type: event.type
     };
   }
 
   // Migration scheduler
   private startMigrationScheduler() {
     const interval = 60000; // Run every minute
-    
+
     this.migrationInterval = setInterval(async () => {
+      await this.checkHealth();
       await this.migrateHotToWarm();
       await this.migrateWarmToCold();
       await this.updateMetrics();
     }, interval);
   }
 
+  // Pings ready tiers and reconnects unavailable ones
+  async checkHealth(): Promise<StorageStatus> {
+    await Promise.all(TIER_ORDER.map(async name => {
+      const slot = this.slots[name];
+      if (!slot.tier) return;
+
+      if (slot.status.state === 'ready') {
+        await this.useTier(name, tier => tier.ping());
+      } else {
+        await slot.tier.close().catch(() => undefined);
+        await this.connectTier(name);
+      }
+    }));
+
+    this.lastCheckedAt = new Date().toISOString();
+    return this.getStatus();
+  }
+
+  getStatus(): StorageStatus {
+    const tiers = TIER_ORDER.map(name => ({ ...this.slots[name].status }));
+    return {
+      mode: tiers.some(tier => tier.state === 'unavailable') ? 'degraded' : 'healthy',
+      tiers,
+      checkedAt: this.lastCheckedAt
+    };
+  }
+
+  private describeOutage(): string {
+    return TIER_ORDER
+      .map(name => this.slots[name].status)
+      .map(status => `${status.tier}=${status.backend || 'none'} ${status.state}${status.error ? ` (${status.error})` : ''}`)
+      .join(', ');
+  }
+
   private async migrateHotToWarm() {
-    if (!this.redis || !this.pgPool) return;
-    
     const threshold = this.config.thresholds?.hotToWarm || 1; // 1 hour default
-    const cutoff = Date.now() - (threshold * 3600000);
-    
-    try {
-      // Get old events from Redis
-      const eventIds = await this.redis.zRangeByScore(
-        'events:timeline',
-        '-inf',
-        cutoff,
-        { LIMIT: { offset: 0, count: 100 } }
-      );
-      
-      for (const eventId of eventIds) {
-        const eventData = await this.redis.get(`event:${eventId}`);
-        if (eventData) {
-          const event = JSON.parse(eventData) as StorageEvent;
-          
-          // Move to PostgreSQL
-          await this.pgPool.query(
-            `INSERT INTO events_warm (id, timestamp, data, size, compressed)
-             VALUES ($1, $2, $3, $4, $5)
-             ON CONFLICT (id) DO NOTHING`,
-            [event.id, event.timestamp, event.data, event.size, event.compressed]
-          );
-          
-          // Remove from Redis
-          await this.redis.del(`event:${eventId}`);
-          await this.redis.zRem('events:timeline', eventId);
-          
-          this.metricsCache.hotCount--;
-          this.metricsCache.warmCount++;
-        }
-      }
-      
-      if (eventIds.length > 0) {
-        console.log(`Migrated ${eventIds.length} events from hot to warm tier`);
-      }
-    } catch (err) {
-      console.error('Hot to warm migration error:', err);
+    const moved = await this.migrate('hot', 'warm', new Date(Date.now() - (threshold * 3600000)));
+
+    if (moved > 0) {
+      console.log(`Migrated ${moved} events from hot to warm tier`);
     }
   }
 
   private async migrateWarmToCold() {
-    if (!this.pgPool || !this.s3Client || !this.config.s3) return;
-    
     const threshold = this.config.thresholds?.warmToCold || 7; // 7 days default
-    const cutoff = new Date(Date.now() - (threshold * 86400000));
-    
-    try {
-      // Get old events from PostgreSQL
-      const result = await this.pgPool.query(
-        `SELECT * FROM events_warm 
-         WHERE accessed_at < $1 
-         LIMIT 100`,
-        [cutoff]
-      );
-      
-      for (const row of result.rows) {
-        const event: StorageEvent = {
-          id: row.id,
-          timestamp: row.timestamp,
-          data: row.data,
-          size: row.size,
-          tier: 'cold',
-          compressed: row.compressed
-        };
-        
-        // Upload to S3
-        const command = new PutObjectCommand({
-          Bucket: this.config.s3.bucket,
-          Key: `events/${event.id}.json`,
-          Body: JSON.stringify(event),
-          ContentType: 'application/json',
-          Metadata: {
-            timestamp: event.timestamp,
-            compressed: String(event.compressed)
-          }
-        });
-        
-        await this.s3Client.send(command);
-        
-        // Remove from PostgreSQL
-        await this.pgPool.query(
-          'DELETE FROM events_warm WHERE id = $1',
-          [event.id]
-        );
-        
-        this.metricsCache.warmCount--;
-        this.metricsCache.coldCount++;
-      }
-      
-      if (result.rows.length > 0) {
-        console.log(`Migrated ${result.rows.length} events from warm to cold tier`);
-      }
-    } catch (err) {
-      console.error('Warm to cold migration error:', err);
+    const moved = await this.migrate('warm', 'cold', new Date(Date.now() - (threshold * 86400000)));
+
+    if (moved > 0) {
+      console.log(`Migrated ${moved} events from warm to cold tier`);
     }
   }
 
+  // Copies first and removes after, so an interrupted migration leaves events in both tiers, never neither.
+  // Events wait in place while the target tier is unavailable.
+  private async migrate(from: TierName, to: TierName, cutoff: Date): Promise<number> {
+    if (!this.isReady(from) || !this.isReady(to)) return 0;
+
+    const events = await this.useTier(from, tier => tier.olderThan(cutoff, MIGRATION_BATCH_SIZE));
+    if (!events || events.length === 0) return 0;
+
+    const copied = await this.useTier(to, async tier => {
+      await tier.put(events);
+      return true;
+    });
+    if (!copied) return 0;
+
+    await this.useTier(from, tier => tier.remove(events.map(event => event.id)));
+    this.metricsCache[countKey(from)] -= events.length;
+    this.metricsCache[countKey(to)] += events.length;
+    return events.length;
+  }
+
   private async updateMetrics() {
     const metrics: StorageMetrics = {
       hotCount: 0,
@@ -411,31 +447,20 @@ export class TieredStorageManager extends EventEmitter {
       compressionRatio: 1,
       costEstimate: 0
     };
-    
-    // Get hot tier metrics
-    if (this.redis) {
-      metrics.hotCount = await this.redis.zCard('events:timeline') || 0;
-      metrics.totalSize += metrics.hotCount * 1000; // Estimate 1KB per event
-    }
-    
-    // Get warm tier metrics
-    if (this.pgPool) {
-      const result = await this.pgPool.query(
-        'SELECT COUNT(*) as count, SUM(size) as total_size FROM events_warm'
-      );
-      metrics.warmCount = parseInt(result.rows[0].count) || 0;
-      metrics.totalSize += parseInt(result.rows[0].total_size) || 0;
+
+    // Unavailable tiers keep their last known counts
+    for (const name of TIER_ORDER) {
+      const stats = await this.useTier(name, tier => tier.stats());
+      metrics[countKey(name)] = stats ? stats.count : this.metricsCache[countKey(name)];
+      metrics.totalSize += stats ? stats.bytes : 0;
     }
-    
-    // Estimate cold tier (would need S3 ListObjects in production)
-    metrics.coldCount = this.metricsCache.coldCount;
-    
+
     // Calculate cost estimate (simplified)
-    metrics.costEstimate = 
+    metrics.costEstimate =
       (metrics.hotCount * 0.001) +  // Redis: $0.001 per event
       (metrics.warmCount * 0.0001) + // PostgreSQL: $0.0001 per event
       (metrics.coldCount * 0.00001); // S3: $0.00001 per event
-    
+
     this.metricsCache = metrics;
     this.emit('metricsUpdated', metrics);
   }
@@ -446,41 +471,114 @@ export class TieredStorageManager extends EventEmitter {
     endTime: Date,
     limit: number = 100
   ): Promise<any[]> {
-    const results: any[] = [];
-    
-    // Query hot tier
-    if (this.redis) {
-      const eventIds = await this.redis.zRangeByScore(
-        'events:timeline',
-        startTime.getTime(),
-        endTime.getTime(),
-        { LIMIT: { offset: 0, count: limit } }
-      );
-      
-      for (const id of eventIds) {
-        const event = await this.retrieve(id);
-        if (event) results.push(event);
+    const { events } = await this.queryEvents({ start: startTime, end: endTime, allowPartial: true }, limit);
+    return events;
+  }
+
+  // One page of a query across every tier; pass nextCursor back to continue
+  async queryEvents(query: EventQuery, limit: number = 100): Promise<EventPage> {
+    const skippedTiers: TierName[] = [];
+    const events: StoredEventRecord[] = [];
+
+    // One event past the page tells whether there is a next page
+    for await (const event of this.mergeTiers(query, skippedTiers)) {
+      events.push(event);
+      if (events.length > limit) break;
+    }
+
+    const hasMore = events.length > limit;
+    const page = events.slice(0, limit);
+    return {
+      events: page,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+      skippedTiers
+    };
+  }
+
+  // Every matching event across all tiers in (timestamp, id) order, fetched a page per tier at a
+  // time, so months of history can be walked without holding it in memory
+  stream(query: EventQuery): AsyncGenerator<StoredEventRecord> {
+    return this.mergeTiers(query, []);
+  }
+
+  // k-way merge of the tiers' ordered pages. An event caught mid-migration sits in two tiers with
+  // the same (timestamp, id), so its copies come out next to each other and only the first is kept.
+  private async *mergeTiers(query: EventQuery, skippedTiers: TierName[]): AsyncGenerator<StoredEventRecord> {
+    await this.ready;
+
+    const order = query.order || 'desc';
+    const tierQuery: TierQuery = {
+      start: query.start,
+      end: query.end,
+      projectId: query.projectId,
+      sessionId: query.sessionId,
+      types: query.types,
+      order,
+      after: query.cursor ? decodeCursor(query.cursor) : undefined
+    };
+
+    const readers: TierReader[] = [];
+    for (const name of TIER_ORDER) {
+      const slot = this.slots[name];
+      if (!slot.tier) continue;
+
+      if (slot.status.state !== 'ready') {
+        this.skipTier(name, query, skippedTiers);
+        continue;
+      }
+      readers.push({ name, tier: slot.tier, buffer: [], after: tierQuery.after, exhausted: false });
+    }
+
+    const direction = order === 'asc' ? 1 : -1;
+    let last: EventPosition | null = null;
+
+    while (true) {
+      // Filled in tier order: an event moving down is copied before it is removed, so reading
+      // the tier it leaves first means it is seen in at least one of them
+      for (const reader of readers) {
+        if (reader.buffer.length === 0 && !reader.exhausted) {
+          await this.fillReader(reader, tierQuery, query, skippedTiers);
+        }
+      }
+
+      let next: TierReader | null = null;
+      for (const reader of readers) {
+        if (reader.buffer.length === 0) continue;
+        if (!next || direction * compareEvents(reader.buffer[0], next.buffer[0]) < 0) {
+          next = reader;
+        }
       }
+      if (!next) return;
+
+      const event = next.buffer.shift()!;
+      if (last && compareEvents(last, event) === 0) continue;
+
+      last = event;
+      yield this.deserializeEvent({ ...event, tier: next.name });
     }
-    
-    // Query warm tier if needed
-    if (results.length < limit && this.pgPool) {
-      const remaining = limit - results.length;
-      const pgResults = await this.pgPool.query(
-        `SELECT id FROM events_warm 
-         WHERE timestamp BETWEEN $1 AND $2 
-         ORDER BY timestamp DESC 
-         LIMIT $3`,
-        [startTime, endTime, remaining]
-      );
-      
-      for (const row of pgResults.rows) {
-        const event = await this.retrieve(row.id);
-        if (event) results.push(event);
+  }
+
+  private async fillReader(reader: TierReader, tierQuery: TierQuery, query: EventQuery, skippedTiers: TierName[]) {
+    try {
+      const page = await reader.tier.query({ ...tierQuery, after: reader.after }, QUERY_PAGE_SIZE);
+      reader.buffer = page;
+      reader.exhausted = page.length < QUERY_PAGE_SIZE;
+      if (page.length > 0) {
+        reader.after = page[page.length - 1];
       }
+    } catch (err) {
+      this.markUnavailable(reader.name, err);
+      reader.buffer = [];
+      reader.exhausted = true;
+      this.skipTier(reader.name, query, skippedTiers);
+    }
+  }
+
+  private skipTier(name: TierName, query: EventQuery, skippedTiers: TierName[]) {
+    if (!query.allowPartial) {
+      throw new StorageUnavailableError(`Cannot query the ${name} storage tier: ${this.describeOutage()}`);
     }
-    
-    return results;
+    skippedTiers.push(name);
   }
 
   // Get current metrics
@@ -493,13 +591,7 @@ export class TieredStorageManager extends EventEmitter {
     if (this.migrationInterval) {
       clearInterval(this.migrationInterval);
     }
-    
-    if (this.redis) {
-      await this.redis.quit();
-    }
-    
-    if (this.pgPool) {
-      await this.pgPool.end();
-    }
+
+    await Promise.all(TIER_ORDER.map(name => this.slots[name].tier?.close()));
   }
-}
\ No newline at end of file
+}
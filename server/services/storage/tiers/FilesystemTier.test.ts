@@ -0,0 +1,168 @@
+import { mkdtemp, readdir, rm, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TieredStorageManager } from '../TieredStorageManager';
+import { FilesystemTier } from './FilesystemTier';
+import { StoredEvent } from './StorageTier';
+
+// Opens, syncs and renames made by the tier, in order, by file name
+const operations = vi.hoisted(() => [] as string[]);
+
+vi.mock('fs/promises', async importOriginal => {
+  const actual = await importOriginal<typeof import('fs/promises')>();
+  const name = (file: unknown) => path.basename(String(file));
+  return {
+    ...actual,
+    open: async (file: string, flags: string) => {
+      const handle = await actual.open(file, flags);
+      operations.push(`open ${name(file)}`);
+      const sync = handle.sync.bind(handle);
+      handle.sync = async () => {
+        operations.push(`sync ${name(file)}`);
+        return sync();
+      };
+      return handle;
+    },
+    rename: async (from: string, to: string) => {
+      operations.push(`rename ${name(from)} ${name(to)}`);
+      return actual.rename(from, to);
+    }
+  };
+});
+
+const event = (id: string, minute: number, projectId = 'project-a'): StoredEvent => ({
+  id,
+  timestamp: new Date(Date.UTC(2024, 4, 1, 10, minute)).toISOString(),
+  data: JSON.stringify({ id }),
+  size: 10,
+  projectId
+});
+
+describe('FilesystemTier', () => {
+  let directory: string;
+
+  const connect = async () => {
+    const tier = new FilesystemTier({ directory });
+    await tier.connect();
+    return tier;
+  };
+
+  beforeEach(async () => {
+    directory = path.join(await mkdtemp(path.join(tmpdir(), 'filesystem-tier-')), 'segments');
+    operations.length = 0;
+  });
+
+  afterEach(async () => {
+    await rm(path.dirname(directory), { recursive: true, force: true });
+  });
+
+  it('syncs each file under a temporary name and renames it into place, segment before manifest', async () => {
+    const tier = await connect();
+
+    await tier.put([event('e1', 1)]);
+
+    const [manifest, segment] = (await readdir(directory)).sort();
+    expect(segment).toMatch(/\.ndjson\.gz$/);
+    expect(manifest).toBe(segment.replace('.ndjson.gz', '.manifest.json'));
+    expect(operations).toEqual([
+      `open ${segment}.tmp`,
+      `sync ${segment}.tmp`,
+      `rename ${segment}.tmp ${segment}`,
+      `open ${manifest}.tmp`,
+      `sync ${manifest}.tmp`,
+      `rename ${manifest}.tmp ${manifest}`
+    ]);
+  });
+
+  it('serves what an earlier instance wrote once reopened', async () => {
+    await (await connect()).put([event('e1', 1), event('e2', 2, 'project-b')]);
+
+    const tier = await connect();
+
+    expect(await tier.get('e2')).toEqual(event('e2', 2, 'project-b'));
+    expect((await tier.query({ order: 'desc', projectId: 'project-a' }, 10)).map(e => e.id)).toEqual(['e1']);
+    expect(await tier.stats()).toMatchObject({ count: 2 });
+  });
+
+  it('rebuilds the manifest of a segment whose manifest was never written', async () => {
+    await (await connect()).put([event('e1', 1), event('e2', 2)]);
+    const manifest = (await readdir(directory)).find(file => file.endsWith('.manifest.json'))!;
+    await unlink(path.join(directory, manifest));
+
+    const tier = await connect();
+
+    expect(await readdir(directory)).toContain(manifest);
+    expect((await tier.olderThan(new Date('2024-05-02'), 10)).map(e => e.id)).toEqual(['e1', 'e2']);
+  });
+
+  it('ignores a temporary file left by an interrupted write', async () => {
+    await (await connect()).put([event('e1', 1)]);
+    await writeFile(path.join(directory, '20240501T100200000Z-deadbeef.ndjson.gz.tmp'), 'half a segm');
+
+    const tier = await connect();
+
+    expect(await tier.stats()).toMatchObject({ count: 1 });
+    expect(await tier.get('e1')).toEqual(event('e1', 1));
+  });
+
+  it('rewrites a segment without removed events and deletes it once empty', async () => {
+    const tier = await connect();
+    await tier.put([event('e1', 1), event('e2', 2)]);
+
+    await tier.remove(['e1']);
+    expect(await tier.get('e1')).toBeNull();
+    await expect((await connect()).get('e2')).resolves.toEqual(event('e2', 2));
+
+    await tier.remove(['e2']);
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('fails to connect or ping when the directory cannot be used', async () => {
+    const file = path.join(path.dirname(directory), 'not-a-directory');
+    await writeFile(file, '');
+    await expect(new FilesystemTier({ directory: file }).connect()).rejects.toThrow(/EEXIST/);
+
+    const tier = await connect();
+    await rm(directory, { recursive: true });
+    await expect(tier.ping()).rejects.toThrow(/ENOENT/);
+  });
+
+  describe('in a storage manager', () => {
+    let manager: TieredStorageManager;
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      manager = new TieredStorageManager({ tiers: { hot: { backend: 'filesystem', directory }, warm: null, cold: null } });
+      await manager.ready;
+    });
+
+    afterEach(async () => {
+      await manager.stop();
+      vi.restoreAllMocks();
+    });
+
+    it('reports degraded mode while the directory is unusable and recovers once it is', async () => {
+      const recovered = vi.fn();
+      manager.on('tierRecovered', recovered);
+      expect(manager.getStatus().mode).toBe('healthy');
+
+      await rm(directory, { recursive: true });
+      const degraded = await manager.checkHealth();
+      expect(degraded.mode).toBe('degraded');
+      expect(degraded.tiers[0]).toMatchObject({ tier: 'hot', backend: 'filesystem', state: 'unavailable', error: expect.stringMatching(/ENOENT/) });
+
+      // A file where the directory was, so reconnecting cannot simply recreate it
+      await writeFile(directory, '');
+      expect((await manager.checkHealth()).tiers[0]).toMatchObject({ state: 'unavailable', since: degraded.tiers[0].since });
+      expect(recovered).not.toHaveBeenCalled();
+
+      await unlink(directory);
+      const healthy = await manager.checkHealth();
+      expect(healthy.mode).toBe('healthy');
+      expect(healthy.tiers[0]).toMatchObject({ state: 'ready' });
+      expect(recovered).toHaveBeenCalledWith({ tier: 'hot', backend: 'filesystem' });
+    });
+  });
+});
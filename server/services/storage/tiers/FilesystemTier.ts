@@ -0,0 +1,80 @@
+import { constants } from 'fs';
+import { access, mkdir, open, readdir, readFile, rename, unlink } from 'fs/promises';
+import path from 'path';
+import { decodeSegment, describeSegment, SegmentManifest, SegmentTier } from './SegmentTier';
+
+const SEGMENT_SUFFIX = '.ndjson.gz';
+const MANIFEST_SUFFIX = '.manifest.json';
+
+// Compressed NDJSON segment files in a local directory, for installs without object storage
+export class FilesystemTier extends SegmentTier {
+  readonly backend = 'filesystem';
+
+  constructor(private config: { directory: string }) {
+    super();
+  }
+
+  protected async open(): Promise<void> {
+    await mkdir(this.config.directory, { recursive: true });
+    await this.check();
+  }
+
+  protected async check(): Promise<void> {
+    await access(this.config.directory, constants.R_OK | constants.W_OK);
+  }
+
+  // A crash between writing a segment and its manifest leaves the segment behind; its manifest is rebuilt
+  protected async listManifests(): Promise<SegmentManifest[]> {
+    const files = await readdir(this.config.directory);
+    const present = new Set(files);
+    const manifests: SegmentManifest[] = [];
+
+    for (const file of files.filter(name => name.endsWith(SEGMENT_SUFFIX))) {
+      const name = file.slice(0, -SEGMENT_SUFFIX.length);
+      const manifestPath = this.filePath(name, MANIFEST_SUFFIX);
+
+      if (present.has(path.basename(manifestPath))) {
+        manifests.push(JSON.parse(await readFile(manifestPath, 'utf8')));
+        continue;
+      }
+
+      const body = await this.readSegment(name);
+      const manifest = describeSegment(name, await decodeSegment(body), body.length);
+      await this.writeFileDurably(manifestPath, Buffer.from(JSON.stringify(manifest)));
+      manifests.push(manifest);
+    }
+
+    return manifests;
+  }
+
+  protected async readSegment(name: string): Promise<Buffer> {
+    return readFile(this.filePath(name, SEGMENT_SUFFIX));
+  }
+
+  protected async writeSegment(manifest: SegmentManifest, body: Buffer): Promise<void> {
+    await this.writeFileDurably(this.filePath(manifest.name, SEGMENT_SUFFIX), body);
+    await this.writeFileDurably(this.filePath(manifest.name, MANIFEST_SUFFIX), Buffer.from(JSON.stringify(manifest)));
+  }
+
+  protected async deleteSegment(name: string): Promise<void> {
+    await unlink(this.filePath(name, MANIFEST_SUFFIX)).catch(() => undefined);
+    await unlink(this.filePath(name, SEGMENT_SUFFIX)).catch(() => undefined);
+  }
+
+  private filePath(name: string, suffix: string): string {
+    return path.join(this.config.directory, `${name}${suffix}`);
+  }
+
+  // Written to a temporary file, synced, then renamed, so readers never see half a file
+  private async writeFileDurably(target: string, body: Buffer): Promise<void> {
+    const temporary = `${target}.tmp`;
+    const handle = await open(temporary, 'w');
+    try {
+      await handle.writeFile(body);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(temporary, target);
+  }
+}
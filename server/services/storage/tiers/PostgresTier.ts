@@ -0,0 +1,165 @@
+import { StorageTier, StoredEvent, TierQuery, TierStats } from './StorageTier';
+
+// Events in the events_warm table; reads bump accessed_at so frequently read events stay warm
+export class PostgresTier implements StorageTier {
+  readonly backend = 'postgres';
+  private pool: any = null;
+
+  constructor(private config: { connectionString: string }) {}
+
+  async connect(): Promise<void> {
+    // Dynamic import to avoid dependency if not used
+    const { Pool } = await import('pg');
+    const pool = new Pool({ connectionString: this.config.connectionString });
+    pool.on('error', () => {
+      // Idle client errors surface on the next query or health check
+    });
+
+    try {
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS events_warm (
+          id VARCHAR(255) PRIMARY KEY,
+          timestamp TIMESTAMPTZ NOT NULL,
+          data JSONB NOT NULL,
+          size INTEGER NOT NULL,
+          compressed BOOLEAN DEFAULT false,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          accessed_at TIMESTAMPTZ DEFAULT NOW()
+        );
+
+        ALTER TABLE events_warm ADD COLUMN IF NOT EXISTS project_id VARCHAR(255);
+        ALTER TABLE events_warm ADD COLUMN IF NOT EXISTS session_id VARCHAR(255);
+        ALTER TABLE events_warm ADD COLUMN IF NOT EXISTS event_type VARCHAR(255);
+
+        CREATE INDEX IF NOT EXISTS idx_events_warm_timestamp ON events_warm(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_events_warm_accessed ON events_warm(accessed_at);
+        CREATE INDEX IF NOT EXISTS idx_events_warm_project_timestamp ON events_warm(project_id, timestamp);
+        CREATE INDEX IF NOT EXISTS idx_events_warm_session_timestamp ON events_warm(session_id, timestamp);
+      `);
+    } catch (err) {
+      await pool.end().catch(() => undefined);
+      throw err;
+    }
+
+    this.pool = pool;
+  }
+
+  async ping(): Promise<void> {
+    await this.requirePool().query('SELECT 1');
+  }
+
+  async put(events: StoredEvent[]): Promise<void> {
+    const pool = this.requirePool();
+    for (const event of events) {
+      // data is stored as a JSON string so compressed (base64) payloads fit the JSONB column too
+      await pool.query(
+        `INSERT INTO events_warm (id, timestamp, data, size, compressed, project_id, session_id, event_type)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (id) DO NOTHING`,
+        [
+          event.id,
+          event.timestamp,
+          JSON.stringify(event.data),
+          event.size,
+          !!event.compressed,
+          event.projectId || null,
+          event.sessionId || null,
+          event.type || null
+        ]
+      );
+    }
+  }
+
+  async get(id: string): Promise<StoredEvent | null> {
+    const result = await this.requirePool().query(
+      'UPDATE events_warm SET accessed_at = NOW() WHERE id = $1 RETURNING *',
+      [id]
+    );
+    return result.rows.length > 0 ? this.toEvent(result.rows[0]) : null;
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.requirePool().query('DELETE FROM events_warm WHERE id = ANY($1)', [ids]);
+  }
+
+  async olderThan(cutoff: Date, limit: number): Promise<StoredEvent[]> {
+    const result = await this.requirePool().query(
+      `SELECT * FROM events_warm
+       WHERE accessed_at < $1
+       ORDER BY accessed_at
+       LIMIT $2`,
+      [cutoff, limit]
+    );
+    return result.rows.map((row: any) => this.toEvent(row));
+  }
+
+  // Ids are compared with the "C" collation so ties break in the same order as the other tiers
+  async query(query: TierQuery, limit: number): Promise<StoredEvent[]> {
+    const past = query.order === 'asc' ? '>' : '<';
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    const result = await this.requirePool().query(
+      `SELECT * FROM events_warm
+       WHERE ($1::timestamptz IS NULL OR timestamp >= $1)
+         AND ($2::timestamptz IS NULL OR timestamp <= $2)
+         AND ($3::text IS NULL OR project_id = $3)
+         AND ($4::text IS NULL OR session_id = $4)
+         AND ($5::text[] IS NULL OR event_type = ANY($5))
+         AND ($6::timestamptz IS NULL
+           OR timestamp ${past} $6
+           OR (timestamp = $6 AND id COLLATE "C" ${past} $7::text COLLATE "C"))
+       ORDER BY timestamp ${direction}, id COLLATE "C" ${direction}
+       LIMIT $8`,
+      [
+        query.start || null,
+        query.end || null,
+        query.projectId || null,
+        query.sessionId || null,
+        query.types && query.types.length > 0 ? query.types : null,
+        query.after?.timestamp || null,
+        query.after?.id || null,
+        limit
+      ]
+    );
+    return result.rows.map((row: any) => this.toEvent(row));
+  }
+
+  async stats(): Promise<TierStats> {
+    const result = await this.requirePool().query(
+      'SELECT COUNT(*) as count, SUM(size) as total_size FROM events_warm'
+    );
+    return {
+      count: parseInt(result.rows[0].count) || 0,
+      bytes: parseInt(result.rows[0].total_size) || 0
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end().catch(() => undefined);
+      this.pool = null;
+    }
+  }
+
+  private toEvent(row: any): StoredEvent {
+    return {
+      id: row.id,
+      timestamp: new Date(row.timestamp).toISOString(),
+      // Rows written before data was stored as a JSON string hold the payload itself
+      data: typeof row.data === 'string' ? row.data : JSON.stringify(row.data),
+      size: row.size,
+      compressed: row.compressed,
+      projectId: row.project_id || undefined,
+      sessionId: row.session_id || undefined,
+      type: row.event_type || undefined
+    };
+  }
+
+  private requirePool() {
+    if (!this.pool) {
+      throw new Error('PostgreSQL tier is not connected');
+    }
+    return this.pool;
+  }
+}
@@ -0,0 +1,137 @@
+import { createClient } from 'redis';
+import { matchesQuery } from './query';
+import { StorageTier, StoredEvent, TierQuery, TierStats } from './StorageTier';
+
+const TIMELINE_KEY = 'events:timeline';
+const DEFAULT_TTL_SECONDS = 3600;
+const QUERY_BATCH_SIZE = 500;
+
+const score = (value: number) => (Number.isFinite(value) ? value : value > 0 ? '+inf' : '-inf');
+
+// Events live under event:<id> with a TTL; the timeline sorted set orders them by timestamp
+export class RedisTier implements StorageTier {
+  readonly backend = 'redis';
+  private client: any = null;
+
+  constructor(private config: { url: string }) {}
+
+  async connect(): Promise<void> {
+    const client = createClient({
+      url: this.config.url,
+      // Fail fast instead of queueing commands forever; health checks reconnect
+      socket: { reconnectStrategy: false }
+    });
+    client.on('error', () => {
+      // Surfaced through the failing command or the next health check
+    });
+
+    await client.connect();
+    this.client = client;
+  }
+
+  async ping(): Promise<void> {
+    await this.requireClient().ping();
+  }
+
+  async put(events: StoredEvent[], options: { ttlSeconds?: number } = {}): Promise<void> {
+    const client = this.requireClient();
+    const ttl = options.ttlSeconds || DEFAULT_TTL_SECONDS;
+    const multi = client.multi();
+
+    for (const event of events) {
+      multi.set(`event:${event.id}`, JSON.stringify(event), { EX: ttl });
+      multi.zAdd(TIMELINE_KEY, { score: new Date(event.timestamp).getTime(), value: event.id });
+    }
+
+    await multi.exec();
+  }
+
+  async get(id: string): Promise<StoredEvent | null> {
+    const data = await this.requireClient().get(`event:${id}`);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const client = this.requireClient();
+    await client.del(ids.map(id => `event:${id}`));
+    await client.zRem(TIMELINE_KEY, ids);
+  }
+
+  async olderThan(cutoff: Date, limit: number): Promise<StoredEvent[]> {
+    const ids: string[] = await this.requireClient().zRangeByScore(
+      TIMELINE_KEY,
+      '-inf',
+      cutoff.getTime(),
+      { LIMIT: { offset: 0, count: limit } }
+    );
+    return this.load(ids);
+  }
+
+  // Members sharing a score are ordered by id, so timeline order is (timestamp, id). The hot tier
+  // is small, so filters are applied after loading each batch.
+  async query(query: TierQuery, limit: number): Promise<StoredEvent[]> {
+    const client = this.requireClient();
+    const ascending = query.order === 'asc';
+
+    let min = query.start ? query.start.getTime() : -Infinity;
+    let max = query.end ? query.end.getTime() : Infinity;
+    if (query.after) {
+      const position = Date.parse(query.after.timestamp);
+      if (ascending) min = Math.max(min, position);
+      else max = Math.min(max, position);
+    }
+
+    const results: StoredEvent[] = [];
+    for (let offset = 0; results.length < limit; offset += QUERY_BATCH_SIZE) {
+      const ids: string[] = await client.zRange(
+        TIMELINE_KEY,
+        score(ascending ? min : max),
+        score(ascending ? max : min),
+        { BY: 'SCORE', REV: !ascending, LIMIT: { offset, count: QUERY_BATCH_SIZE } }
+      );
+      if (ids.length === 0) break;
+
+      // Pruning expired ids here would shift the offsets
+      const events = await this.load(ids, { prune: false });
+      results.push(...events.filter(event => matchesQuery(event, query)));
+      if (ids.length < QUERY_BATCH_SIZE) break;
+    }
+
+    return results.slice(0, limit);
+  }
+
+  async stats(): Promise<TierStats> {
+    const count = await this.requireClient().zCard(TIMELINE_KEY) || 0;
+    return { count, bytes: count * 1000 }; // Estimate 1KB per event
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      await this.client.quit().catch(() => undefined);
+      this.client = null;
+    }
+  }
+
+  // Keys can expire before their timeline entry; those ids are dropped from the timeline
+  private async load(ids: string[], options: { prune?: boolean } = {}): Promise<StoredEvent[]> {
+    if (ids.length === 0) return [];
+
+    const client = this.requireClient();
+    const values: (string | null)[] = await client.mGet(ids.map(id => `event:${id}`));
+    const expired = ids.filter((_, index) => values[index] === null);
+    if (expired.length > 0 && options.prune !== false) {
+      await client.zRem(TIMELINE_KEY, expired);
+    }
+
+    return values.filter((value): value is string => value !== null).map(value => JSON.parse(value));
+  }
+
+  private requireClient() {
+    if (!this.client) {
+      throw new Error('Redis tier is not connected');
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+import { SegmentManifest, SegmentTier } from './SegmentTier';
+import { StoredEvent } from './StorageTier';
+
+const SEGMENT_SUFFIX = '.ndjson.gz';
+const MANIFEST_SUFFIX = '.manifest.json';
+
+// Segments as objects in an S3-compatible bucket
+export class S3Tier extends SegmentTier {
+  readonly backend = 's3';
+  private client: S3Client | null = null;
+
+  constructor(private config: {
+    region: string;
+    bucket: string;
+    prefix?: string;
+    endpoint?: string;
+    forcePathStyle?: boolean;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+  }) {
+    super();
+  }
+
+  protected async open(): Promise<void> {
+    this.client = new S3Client({
+      region: this.config.region,
+      endpoint: this.config.endpoint,
+      forcePathStyle: this.config.forcePathStyle,
+      credentials: this.config.accessKeyId ? {
+        accessKeyId: this.config.accessKeyId,
+        secretAccessKey: this.config.secretAccessKey!
+      } : undefined // Use default credentials if not provided
+    });
+    await this.check();
+  }
+
+  protected async check(): Promise<void> {
+    await this.requireClient().send(new HeadBucketCommand({ Bucket: this.config.bucket }));
+  }
+
+  // Events moved here before segments existed were stored one object each
+  async get(id: string): Promise<StoredEvent | null> {
+    const event = await super.get(id);
+    if (event) return event;
+
+    const body = await this.getObject(`${this.prefix}events/${id}.json`);
+    return body ? JSON.parse(body.toString('utf8')) : null;
+  }
+
+  protected async listManifests(): Promise<SegmentManifest[]> {
+    const manifests: SegmentManifest[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.requireClient().send(new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: `${this.prefix}segments/`,
+        ContinuationToken: continuationToken
+      }));
+
+      for (const object of page.Contents || []) {
+        if (!object.Key?.endsWith(MANIFEST_SUFFIX)) continue;
+        const body = await this.getObject(object.Key);
+        if (body) manifests.push(JSON.parse(body.toString('utf8')));
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return manifests;
+  }
+
+  protected async readSegment(name: string): Promise<Buffer> {
+    const body = await this.getObject(this.key(name, SEGMENT_SUFFIX));
+    if (!body) {
+      throw new Error(`Segment ${name} is missing from bucket ${this.config.bucket}`);
+    }
+    return body;
+  }
+
+  protected async writeSegment(manifest: SegmentManifest, body: Buffer): Promise<void> {
+    const client = this.requireClient();
+    await client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.key(manifest.name, SEGMENT_SUFFIX),
+      Body: body,
+      ContentType: 'application/x-ndjson',
+      ContentEncoding: 'gzip'
+    }));
+    await client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: this.key(manifest.name, MANIFEST_SUFFIX),
+      Body: JSON.stringify(manifest),
+      ContentType: 'application/json'
+    }));
+  }
+
+  protected async deleteSegment(name: string): Promise<void> {
+    await this.requireClient().send(new DeleteObjectsCommand({
+      Bucket: this.config.bucket,
+      Delete: {
+        Objects: [{ Key: this.key(name, MANIFEST_SUFFIX) }, { Key: this.key(name, SEGMENT_SUFFIX) }]
+      }
+    }));
+  }
+
+  async close(): Promise<void> {
+    await super.close();
+    this.client?.destroy();
+    this.client = null;
+  }
+
+  private get prefix(): string {
+    return this.config.prefix || '';
+  }
+
+  private key(name: string, suffix: string): string {
+    return `${this.prefix}segments/${name}${suffix}`;
+  }
+
+  private async getObject(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.requireClient().send(new GetObjectCommand({ Bucket: this.config.bucket, Key: key }));
+      const bytes = await response.Body?.transformToByteArray();
+      return bytes ? Buffer.from(bytes) : null;
+    } catch (err: any) {
+      if (err.name === 'NoSuchKey') return null;
+      throw err;
+    }
+  }
+
+  private requireClient(): S3Client {
+    if (!this.client) {
+      throw new Error('S3 tier is not connected');
+    }
+    return this.client;
+  }
+}
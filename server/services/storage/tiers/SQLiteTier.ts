@@ -0,0 +1,163 @@
+import { mkdir } from 'fs/promises';
+import path from 'path';
+import { StorageTier, StoredEvent, TierQuery, TierStats } from './StorageTier';
+
+// Single-file tier for self-hosted installs without a database server
+export class SQLiteTier implements StorageTier {
+  readonly backend = 'sqlite';
+  private db: any = null;
+
+  constructor(private config: { path: string }) {}
+
+  async connect(): Promise<void> {
+    // Dynamic import to avoid dependency if not used
+    const { default: Database } = await import('better-sqlite3');
+    await mkdir(path.dirname(path.resolve(this.config.path)), { recursive: true });
+
+    const db = new Database(this.config.path);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        id TEXT PRIMARY KEY,
+        timestamp INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        compressed INTEGER NOT NULL DEFAULT 0,
+        accessed_at INTEGER NOT NULL,
+        project_id TEXT,
+        session_id TEXT,
+        event_type TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_events_accessed ON events(accessed_at);
+      CREATE INDEX IF NOT EXISTS idx_events_project_timestamp ON events(project_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_events_session_timestamp ON events(session_id, timestamp);
+    `);
+
+    this.db = db;
+  }
+
+  async ping(): Promise<void> {
+    this.requireDb().prepare('SELECT 1').get();
+  }
+
+  async put(events: StoredEvent[]): Promise<void> {
+    const db = this.requireDb();
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO events (id, timestamp, data, size, compressed, accessed_at, project_id, session_id, event_type)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const now = Date.now();
+
+    db.transaction((batch: StoredEvent[]) => {
+      for (const event of batch) {
+        insert.run(
+          event.id,
+          new Date(event.timestamp).getTime(),
+          event.data,
+          event.size,
+          event.compressed ? 1 : 0,
+          now,
+          event.projectId ?? null,
+          event.sessionId ?? null,
+          event.type ?? null
+        );
+      }
+    })(events);
+  }
+
+  async get(id: string): Promise<StoredEvent | null> {
+    const db = this.requireDb();
+    const row = db.prepare('SELECT * FROM events WHERE id = ?').get(id);
+    if (!row) return null;
+
+    db.prepare('UPDATE events SET accessed_at = ? WHERE id = ?').run(Date.now(), id);
+    return this.toEvent(row);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const db = this.requireDb();
+    const remove = db.prepare('DELETE FROM events WHERE id = ?');
+    db.transaction((batch: string[]) => {
+      for (const id of batch) remove.run(id);
+    })(ids);
+  }
+
+  async olderThan(cutoff: Date, limit: number): Promise<StoredEvent[]> {
+    const rows = this.requireDb()
+      .prepare('SELECT * FROM events WHERE accessed_at < ? ORDER BY accessed_at LIMIT ?')
+      .all(cutoff.getTime(), limit);
+    return rows.map((row: any) => this.toEvent(row));
+  }
+
+  async query(query: TierQuery, limit: number): Promise<StoredEvent[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const past = query.order === 'asc' ? '>' : '<';
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    if (query.start) {
+      conditions.push('timestamp >= ?');
+      params.push(query.start.getTime());
+    }
+    if (query.end) {
+      conditions.push('timestamp <= ?');
+      params.push(query.end.getTime());
+    }
+    if (query.projectId) {
+      conditions.push('project_id = ?');
+      params.push(query.projectId);
+    }
+    if (query.sessionId) {
+      conditions.push('session_id = ?');
+      params.push(query.sessionId);
+    }
+    if (query.types && query.types.length > 0) {
+      conditions.push(`event_type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+    if (query.after) {
+      conditions.push(`(timestamp, id) ${past} (?, ?)`);
+      params.push(Date.parse(query.after.timestamp), query.after.id);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.requireDb()
+      .prepare(`SELECT * FROM events ${where} ORDER BY timestamp ${direction}, id ${direction} LIMIT ?`)
+      .all(...params, limit);
+    return rows.map((row: any) => this.toEvent(row));
+  }
+
+  async stats(): Promise<TierStats> {
+    const row = this.requireDb().prepare('SELECT COUNT(*) AS count, SUM(size) AS bytes FROM events').get();
+    return { count: row.count || 0, bytes: row.bytes || 0 };
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  private toEvent(row: any): StoredEvent {
+    return {
+      id: row.id,
+      timestamp: new Date(row.timestamp).toISOString(),
+      data: row.data,
+      size: row.size,
+      compressed: row.compressed === 1,
+      projectId: row.project_id ?? undefined,
+      sessionId: row.session_id ?? undefined,
+      type: row.event_type ?? undefined
+    };
+  }
+
+  private requireDb() {
+    if (!this.db) {
+      throw new Error('SQLite tier is not connected');
+    }
+    return this.db;
+  }
+}
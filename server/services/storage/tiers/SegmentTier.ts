@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import { matchesQuery, sortEvents } from './query';
+import { StorageTier, StoredEvent, TierQuery, TierStats } from './StorageTier';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Describes one segment without opening it; kept in memory so lookups only read the segment they need
+export interface SegmentManifest {
+  name: string;
+  count: number;
+  bytes: number;
+  minTimestamp: string;
+  maxTimestamp: string;
+  ids: string[];
+  // Lets project queries skip segments; missing from segments written before it was recorded
+  projectIds?: string[];
+}
+
+export async function encodeSegment(events: StoredEvent[]): Promise<Buffer> {
+  return gzipAsync(events.map(event => JSON.stringify(event)).join('\n') + '\n');
+}
+
+export async function decodeSegment(body: Buffer): Promise<StoredEvent[]> {
+  const text = (await gunzipAsync(body)).toString('utf8');
+  return text.split('\n').filter(line => line.length > 0).map(line => JSON.parse(line));
+}
+
+export function describeSegment(name: string, events: StoredEvent[], bytes: number): SegmentManifest {
+  const timestamps = events.map(event => new Date(event.timestamp).getTime());
+  return {
+    name,
+    count: events.length,
+    bytes,
+    minTimestamp: new Date(Math.min(...timestamps)).toISOString(),
+    maxTimestamp: new Date(Math.max(...timestamps)).toISOString(),
+    ids: events.map(event => event.id),
+    projectIds: [...new Set(events.map(event => event.projectId).filter((id): id is string => !!id))]
+  };
+}
+
+// Append-only gzip NDJSON segments, one per put. Subclasses only store and fetch blobs.
+export abstract class SegmentTier implements StorageTier {
+  abstract readonly backend: string;
+  private segments = new Map<string, SegmentManifest>();
+  // event id -> segment name
+  private index = new Map<string, string>();
+
+  protected abstract open(): Promise<void>;
+  protected abstract check(): Promise<void>;
+  protected abstract listManifests(): Promise<SegmentManifest[]>;
+  protected abstract readSegment(name: string): Promise<Buffer>;
+  // Writes the segment before its manifest, so a listed manifest always has its segment
+  protected abstract writeSegment(manifest: SegmentManifest, body: Buffer): Promise<void>;
+  protected abstract deleteSegment(name: string): Promise<void>;
+
+  async connect(): Promise<void> {
+    await this.open();
+
+    this.segments.clear();
+    this.index.clear();
+    for (const manifest of await this.listManifests()) {
+      this.track(manifest);
+    }
+  }
+
+  async ping(): Promise<void> {
+    await this.check();
+  }
+
+  async put(events: StoredEvent[]): Promise<void> {
+    // A retried migration can hand over events that already made it here
+    const fresh = events.filter(event => !this.index.has(event.id));
+    if (fresh.length === 0) return;
+
+    const name = `${fresh[0].timestamp.replace(/[:.]/g, '')}-${randomUUID().slice(0, 8)}`;
+    const body = await encodeSegment(fresh);
+    const manifest = describeSegment(name, fresh, body.length);
+
+    await this.writeSegment(manifest, body);
+    this.track(manifest);
+  }
+
+  async get(id: string): Promise<StoredEvent | null> {
+    const name = this.index.get(id);
+    if (!name) return null;
+
+    const events = await decodeSegment(await this.readSegment(name));
+    return events.find(event => event.id === id) || null;
+  }
+
+  // Rewrites each affected segment without the removed events
+  async remove(ids: string[]): Promise<void> {
+    const bySegment = new Map<string, Set<string>>();
+    for (const id of ids) {
+      const name = this.index.get(id);
+      if (!name) continue;
+      if (!bySegment.has(name)) bySegment.set(name, new Set());
+      bySegment.get(name)!.add(id);
+    }
+
+    for (const [name, removed] of bySegment) {
+      const remaining = (await decodeSegment(await this.readSegment(name))).filter(event => !removed.has(event.id));
+      this.untrack(name);
+
+      if (remaining.length === 0) {
+        await this.deleteSegment(name);
+      } else {
+        const body = await encodeSegment(remaining);
+        const manifest = describeSegment(name, remaining, body.length);
+        await this.writeSegment(manifest, body);
+        this.track(manifest);
+      }
+    }
+  }
+
+  async olderThan(cutoff: Date, limit: number): Promise<StoredEvent[]> {
+    const candidates = [...this.segments.values()]
+      .filter(segment => new Date(segment.minTimestamp) < cutoff)
+      .sort((a, b) => a.minTimestamp.localeCompare(b.minTimestamp));
+
+    let results: StoredEvent[] = [];
+    for (const segment of candidates) {
+      if (results.length >= limit && new Date(segment.minTimestamp) > new Date(results[limit - 1].timestamp)) {
+        break;
+      }
+
+      const events = await decodeSegment(await this.readSegment(segment.name));
+      results.push(...events.filter(event => new Date(event.timestamp) < cutoff));
+      results = results
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+        .slice(0, limit);
+    }
+
+    return results;
+  }
+
+  // Reads candidate segments in query order and stops once no remaining segment can make the cut
+  async query(query: TierQuery, limit: number): Promise<StoredEvent[]> {
+    const ascending = query.order === 'asc';
+    const lowest = Math.max(query.start?.getTime() ?? -Infinity, ascending && query.after ? Date.parse(query.after.timestamp) : -Infinity);
+    const highest = Math.min(query.end?.getTime() ?? Infinity, !ascending && query.after ? Date.parse(query.after.timestamp) : Infinity);
+
+    const candidates = [...this.segments.values()]
+      .filter(segment => Date.parse(segment.maxTimestamp) >= lowest && Date.parse(segment.minTimestamp) <= highest)
+      .filter(segment => !query.projectId || !segment.projectIds || segment.projectIds.includes(query.projectId))
+      .sort((a, b) => ascending
+        ? a.minTimestamp.localeCompare(b.minTimestamp)
+        : b.maxTimestamp.localeCompare(a.maxTimestamp));
+
+    let results: StoredEvent[] = [];
+    for (const segment of candidates) {
+      if (results.length >= limit) {
+        const cut = Date.parse(results[limit - 1].timestamp);
+        if (ascending ? Date.parse(segment.minTimestamp) > cut : Date.parse(segment.maxTimestamp) < cut) {
+          break;
+        }
+      }
+
+      const events = await decodeSegment(await this.readSegment(segment.name));
+      results.push(...events.filter(event => matchesQuery(event, query)));
+      results = sortEvents(results, query.order).slice(0, limit);
+    }
+
+    return results;
+  }
+
+  async stats(): Promise<TierStats> {
+    let count = 0;
+    let bytes = 0;
+    for (const segment of this.segments.values()) {
+      count += segment.count;
+      bytes += segment.bytes;
+    }
+    return { count, bytes };
+  }
+
+  async close(): Promise<void> {
+    this.segments.clear();
+    this.index.clear();
+  }
+
+  private track(manifest: SegmentManifest) {
+    this.segments.set(manifest.name, manifest);
+    for (const id of manifest.ids) {
+      this.index.set(id, manifest.name);
+    }
+  }
+
+  private untrack(name: string) {
+    const manifest = this.segments.get(name);
+    if (!manifest) return;
+
+    for (const id of manifest.ids) {
+      this.index.delete(id);
+    }
+    this.segments.delete(name);
+  }
+}
@@ -0,0 +1,86 @@
+export type TierName = 'hot' | 'warm' | 'cold';
+
+// An event as the tiers hold it: data is the serialized JSON payload, base64 deflate when compressed
+export interface StoredEvent {
+  id: string;
+  timestamp: string;
+  data: string;
+  size: number;
+  compressed?: boolean;
+  // Kept outside data so tiers can filter without decompressing
+  projectId?: string;
+  sessionId?: string;
+  type?: string;
+}
+
+// Events are ordered by timestamp, then id
+export interface EventPosition {
+  timestamp: string;
+  id: string;
+}
+
+export interface TierQuery {
+  // Both bounds inclusive
+  start?: Date;
+  end?: Date;
+  projectId?: string;
+  sessionId?: string;
+  types?: string[];
+  order: 'asc' | 'desc';
+  // Only events strictly past this position in the chosen order
+  after?: EventPosition;
+}
+
+export interface TierStats {
+  count: number;
+  bytes: number;
+}
+
+// One storage backend. Every method may throw when the backend is unreachable; the manager
+// turns that into a degraded status instead of dropping the tier silently.
+export interface StorageTier {
+  readonly backend: string;
+
+  // Opens connections and creates tables or directories; throws when the backend can't be used
+  connect(): Promise<void>;
+  // Cheap round trip used by health checks
+  ping(): Promise<void>;
+
+  put(events: StoredEvent[], options?: { ttlSeconds?: number }): Promise<void>;
+  get(id: string): Promise<StoredEvent | null>;
+  remove(ids: string[]): Promise<void>;
+
+  // Events due to move down a tier: last read before cutoff where the backend tracks reads,
+  // otherwise timestamped before it. Oldest first.
+  olderThan(cutoff: Date, limit: number): Promise<StoredEvent[]>;
+  // Matching events ordered by (timestamp, id) in query.order
+  query(query: TierQuery, limit: number): Promise<StoredEvent[]>;
+
+  stats(): Promise<TierStats>;
+  close(): Promise<void>;
+}
+
+export type StorageTierConfig =
+  | { backend: 'redis'; url: string }
+  | { backend: 'postgres'; connectionString: string }
+  | { backend: 'sqlite'; path: string }
+  // Compressed NDJSON segment files under directory
+  | { backend: 'filesystem'; directory: string }
+  // Any S3-compatible store; endpoint and forcePathStyle for MinIO, Ceph, R2 and the like
+  | {
+      backend: 's3';
+      region: string;
+      bucket: string;
+      prefix?: string;
+      endpoint?: string;
+      forcePathStyle?: boolean;
+      accessKeyId?: string;
+      secretAccessKey?: string;
+    };
+
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageUnavailableError';
+  }
+}
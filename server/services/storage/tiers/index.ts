@@ -0,0 +1,24 @@
+import { FilesystemTier } from './FilesystemTier';
+import { PostgresTier } from './PostgresTier';
+import { RedisTier } from './RedisTier';
+import { S3Tier } from './S3Tier';
+import { SQLiteTier } from './SQLiteTier';
+import { StorageTier, StorageTierConfig } from './StorageTier';
+
+export * from './StorageTier';
+export { FilesystemTier, PostgresTier, RedisTier, S3Tier, SQLiteTier };
+
+export function createStorageTier(config: StorageTierConfig): StorageTier {
+  switch (config.backend) {
+    case 'redis':
+      return new RedisTier(config);
+    case 'postgres':
+      return new PostgresTier(config);
+    case 'sqlite':
+      return new SQLiteTier(config);
+    case 'filesystem':
+      return new FilesystemTier(config);
+    case 's3':
+      return new S3Tier(config);
+  }
+}
@@ -0,0 +1,29 @@
+import { EventPosition, StoredEvent, TierQuery } from './StorageTier';
+
+// Ids compare by code unit, which matches the byte order Redis, SQLite and Postgres (COLLATE "C") use
+export function compareEvents(a: EventPosition, b: EventPosition): number {
+  const diff = Date.parse(a.timestamp) - Date.parse(b.timestamp);
+  if (diff !== 0) return diff;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function sortEvents<T extends EventPosition>(events: T[], order: 'asc' | 'desc'): T[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return events.sort((a, b) => direction * compareEvents(a, b));
+}
+
+export function isPast(event: EventPosition, query: TierQuery): boolean {
+  if (!query.after) return true;
+  const comparison = compareEvents(event, query.after);
+  return query.order === 'asc' ? comparison > 0 : comparison < 0;
+}
+
+export function matchesQuery(event: StoredEvent, query: TierQuery): boolean {
+  const timestamp = Date.parse(event.timestamp);
+  if (query.start && timestamp < query.start.getTime()) return false;
+  if (query.end && timestamp > query.end.getTime()) return false;
+  if (query.projectId && event.projectId !== query.projectId) return false;
+  if (query.sessionId && event.sessionId !== query.sessionId) return false;
+  if (query.types && query.types.length > 0 && !query.types.includes(event.type || '')) return false;
+  return isPast(event, query);
+}
@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react'
+import { KeyRound, Trash2 } from 'lucide-react'
+import { Button, Input, Card, CardContent, CardHeader, Badge } from '@/components/ui'
+import { projectService } from '@/lib/services/projectService'
+import {
+  apiTokenService,
+  API_TOKEN_SCOPES,
+  type ApiToken,
+  type ApiTokenScope,
+  type ApiTokenWithSecret
+} from '@/lib/services/apiTokens'
+
+// Personal and project API tokens for the orchestrator; a token is shown once, when it is created
+export function ApiTokens() {
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([])
+  const [name, setName] = useState('')
+  const [projectId, setProjectId] = useState('')
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['context:read', 'graph:read'])
+  const [expiresInDays, setExpiresInDays] = useState('90')
+  const [revealed, setRevealed] = useState<ApiTokenWithSecret | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    const [tokenResult, projectResult] = await Promise.all([
+      apiTokenService.list(),
+      projectService.getProjects()
+    ])
+    setTokens(tokenResult.data || [])
+    setProjects((projectResult.data || []).map(project => ({ id: project.id, name: project.name })))
+    setError(tokenResult.error || projectResult.error)
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope])
+  }
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    const { data, error } = await apiTokenService.create({
+      name: name.trim(),
+      scopes,
+      project_id: projectId || undefined,
+      expires_in_days: expiresInDays ? parseInt(expiresInDays) : undefined
+    })
+    setIsCreating(false)
+
+    if (error) {
+      setError(error)
+      return
+    }
+    setName('')
+    setRevealed(data)
+    load()
+  }
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Anything using it will stop working immediately.`)) {
+      return
+    }
+    const { error } = await apiTokenService.revoke(token.id)
+    if (error) setError(error)
+    load()
+  }
+
+  const projectName = (id: string | null) =>
+    id ? projects.find(project => project.id === id)?.name || id : 'All my projects'
+
+  const activeTokens = tokens.filter(token => !token.revoked_at)
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-lg font-semibold">API Tokens</h2>
+        <p className="text-sm text-muted-foreground">
+          For scripts, CI and remote MCP clients talking to the orchestrator
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary" />
+        ) : activeTokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No API tokens yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {activeTokens.map(token => (
+              <li key={token.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                <div className="space-y-1">
+                  <p className="flex items-center gap-2 text-sm font-medium">
+                    <KeyRound className="h-4 w-4" />
+                    {token.name}
+                    <code className="text-xs text-muted-foreground">{token.token_prefix}…</code>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {projectName(token.project_id)}
+                    {' · '}
+                    {token.last_used_at ? `Last used ${new Date(token.last_used_at).toLocaleDateString()}` : 'Never used'}
+                    {token.expires_at && ` · Expires ${new Date(token.expires_at).toLocaleDateString()}`}
+                  </p>
+                  <div className="flex gap-1">
+                    {token.scopes.map(scope => (
+                      <Badge key={scope} variant="secondary">{scope}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRevoke(token)} title="Revoke token">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {revealed && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-md">
+            <p className="text-sm text-green-600 font-medium">Token "{revealed.name}" created</p>
+            <p className="text-xs text-green-600 mt-1">Copy it now. It won't be shown again.</p>
+            <pre className="text-xs bg-background border rounded p-2 mt-2 overflow-x-auto">{revealed.token}</pre>
+            <Button variant="ghost" size="sm" onClick={() => setRevealed(null)} className="mt-2">
+              Done
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-3 pt-4 border-t">
+          <Input
+            label="Token name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. CI pipeline"
+            disabled={isCreating}
+          />
+
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Project</label>
+            <select
+              className="w-full mt-1 px-3 py-2 border border-border rounded-md text-sm"
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              disabled={isCreating}
+            >
+              <option value="">All my projects</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Scopes</label>
+            <div className="flex flex-wrap gap-4 mt-1">
+              {API_TOKEN_SCOPES.map(scope => (
+                <label key={scope.value} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope.value)}
+                    onChange={() => toggleScope(scope.value)}
+                    disabled={isCreating}
+                  />
+                  {scope.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Expires</label>
+            <select
+              className="w-full mt-1 px-3 py-2 border border-border rounded-md text-sm"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              disabled={isCreating}
+            >
+              <option value="30">In 30 days</option>
+              <option value="90">In 90 days</option>
+              <option value="365">In a year</option>
+              <option value="">Never</option>
+            </select>
+          </div>
+
+          <Button
+            onClick={handleCreate}
+            loading={isCreating}
+            disabled={!name.trim() || scopes.length === 0}
+          >
+            Create token
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,6 +3,7 @@ import { User, Mail, Clock, Settings, LogOut } from 'lucide-react'
 import { Button, Input, Card, CardContent, CardHeader, Badge } from '@/components/ui'
 import { useAuth } from '@/contexts/AuthContext'
 import type { User as DBUser } from '@/lib/database.types'
+import { ApiTokens } from './ApiTokens'
 
 interface UserProfileProps {
   onClose?: () => void
@@ -275,6 +276,9 @@ export function UserProfile({ onClose }: UserProfileProps) {
         </CardContent>
       </Card>
 
+      {/* API Tokens */}
+      <ApiTokens />
+
       {/* Account Actions */}
       <Card>
         <CardHeader>
@@ -0,0 +1,225 @@
+import { useMemo } from 'react'
+import { History, ArrowRight, X, RefreshCw } from 'lucide-react'
+import { Button, Badge } from '@/components/ui'
+import { useTimeTravelBoard } from '@/hooks/useTimeTravelBoard'
+import { BlockLane } from '@/lib/database.types'
+import type { BlockLaneChange } from '@/lib/events/time-travel'
+import { cn } from '@/utils'
+
+interface TimeTravelBoardProps {
+  projectId: string
+  onClose?: () => void
+  className?: string
+}
+
+const lanes = [
+  { lane: BlockLane.vision, title: 'Vision', icon: '🎯' },
+  { lane: BlockLane.goals, title: 'Goals', icon: '📋' },
+  { lane: BlockLane.current, title: 'Current Sprint', icon: '⚡' },
+  { lane: BlockLane.next, title: 'Next Sprint', icon: '📅' },
+  { lane: BlockLane.context, title: 'Context', icon: '📚' }
+]
+
+const formatMoment = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+
+const formatReason = (reason?: string) =>
+  reason ? reason.replace(/_/g, ' ') : 'no reason recorded'
+
+export function TimeTravelBoard({ projectId, onClose, className }: TimeTravelBoardProps) {
+  const {
+    board,
+    changes,
+    viewAt,
+    compareFrom,
+    startedAt,
+    endedAt,
+    loading,
+    error,
+    setViewAt,
+    setCompareFrom,
+    refresh
+  } = useTimeTravelBoard(projectId)
+
+  const range = useMemo(() => {
+    if (!startedAt || !endedAt) return null
+    return { min: new Date(startedAt).getTime(), max: new Date(endedAt).getTime() }
+  }, [startedAt, endedAt])
+
+  const changesByBlock = useMemo(
+    () => new Map<string, BlockLaneChange>(changes.map(change => [change.blockId, change])),
+    [changes]
+  )
+
+  if (loading) {
+    return (
+      <div className={cn('flex items-center justify-center h-64', className)}>
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Replaying project history...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className={cn('flex items-center justify-center h-64', className)}>
+        <div className="text-center">
+          <p className="text-red-600 mb-4">Failed to load board history</p>
+          <p className="text-muted-foreground text-sm">{error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!range || !board || !viewAt || !compareFrom) {
+    return (
+      <div className={cn('flex items-center justify-center h-64 text-muted-foreground text-sm', className)}>
+        No recorded history for this project yet
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('h-full flex flex-col', className)}>
+      {/* Timeline controls */}
+      <div className="p-6 border-b border-border bg-card/30">
+        <div className="max-w-7xl mx-auto space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <History className="w-5 h-5 text-primary" />
+              <h2 className="text-lg font-semibold">Board history</h2>
+              <Badge variant="secondary">{formatMoment(viewAt)}</Badge>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={refresh}>
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+              {onClose && (
+                <Button variant="outline" size="sm" onClick={onClose}>
+                  <X className="w-4 h-4 mr-1" />
+                  Back to live board
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <label className="block text-xs text-muted-foreground">
+            Compare from {formatMoment(compareFrom)}
+            <input
+              type="range"
+              min={range.min}
+              max={range.max}
+              value={new Date(compareFrom).getTime()}
+              onChange={e => setCompareFrom(new Date(Number(e.target.value)).toISOString())}
+              className="w-full accent-muted-foreground"
+            />
+          </label>
+
+          <label className="block text-xs text-muted-foreground">
+            Show board at {formatMoment(viewAt)}
+            <input
+              type="range"
+              min={range.min}
+              max={range.max}
+              value={new Date(viewAt).getTime()}
+              onChange={e => setViewAt(new Date(Number(e.target.value)).toISOString())}
+              className="w-full accent-primary"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex-1 p-6 overflow-auto">
+        <div className="max-w-7xl mx-auto space-y-6">
+          {/* Swim lanes as they were */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-5 gap-6">
+            {lanes.map(({ lane, title, icon }) => {
+              const laneBlocks = board[lane]
+
+              return (
+                <div key={lane} className="border border-border rounded-lg bg-card/50">
+                  <div className="p-4 border-b border-border flex items-center gap-2">
+                    <span className="text-lg">{icon}</span>
+                    <h3 className="font-semibold text-foreground">{title}</h3>
+                    <span className="text-xs px-2 py-1 bg-primary/10 text-primary rounded-full">
+                      {laneBlocks.length}
+                    </span>
+                  </div>
+                  <div className="p-4 space-y-3 min-h-[100px]">
+                    {laneBlocks.map(block => {
+                      const change = changesByBlock.get(block.id)
+
+                      return (
+                        <div
+                          key={block.id}
+                          className={cn(
+                            'p-3 rounded-lg border bg-card text-sm',
+                            change ? 'border-primary ring-2 ring-primary/20' : 'border-border'
+                          )}
+                        >
+                          <p className="font-medium text-foreground">{block.title}</p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {block.status.replace(/_/g, ' ')} • {block.progress}%
+                          </p>
+                          {change && (
+                            <p className="text-xs text-primary mt-2">
+                              Moved from {change.fromLane ?? 'new'}
+                            </p>
+                          )}
+                        </div>
+                      )
+                    })}
+                    {laneBlocks.length === 0 && (
+                      <div className="flex items-center justify-center h-24 text-muted-foreground text-xs border-2 border-dashed border-border rounded-lg">
+                        Empty at this point
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Lane moves between the two points */}
+          <div className="border border-border rounded-lg bg-card/50">
+            <div className="p-4 border-b border-border">
+              <h3 className="font-semibold text-foreground">
+                Lane moves between {formatMoment(compareFrom)} and {formatMoment(viewAt)}
+              </h3>
+            </div>
+            <div className="divide-y divide-border">
+              {changes.length === 0 && (
+                <p className="p-4 text-sm text-muted-foreground">No blocks changed lanes in this window</p>
+              )}
+              {changes.map(change => (
+                <div key={change.blockId} className="p-4 space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium text-foreground">{change.title}</span>
+                    <Badge variant="outline">{change.fromLane ?? 'new'}</Badge>
+                    <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                    <Badge variant="outline">{change.toLane ?? 'archived'}</Badge>
+                  </div>
+                  <ul className="space-y-1">
+                    {change.moves.map(move => (
+                      <li key={move.eventId} className="text-xs text-muted-foreground">
+                        {formatMoment(move.movedAt)}: {move.fromLane} → {move.toLane}
+                        <span className="ml-2 italic">({formatReason(move.reason)})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
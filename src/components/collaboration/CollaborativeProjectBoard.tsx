@@ -3,12 +3,14 @@ import { DragDropContext, Droppable, Draggable, DropResult, DroppableProvided, D
 // Removed SwimLane import - using inline lane structure instead
 import { BlockCardDB } from '../BlockCardDB'
 import { BlockModal } from '../BlockModal'
+import { TimeTravelBoard } from '../boards/TimeTravelBoard'
 import { PresenceIndicator } from './PresenceIndicator'
 import { LiveCursor, CollaborativeIndicator, ConflictIndicator } from './LiveCursor'
 import { AIImportButton, AIImportPrompt } from '@/components/ai'
 import { ContextPreview, CompactContextIndicator } from '@/components/context'
 import { SmartSuggestions, ProgressInsights } from '@/components/intelligence'
 import { useCollaborativeBlocks } from '@/hooks/useCollaborativeBlocks'
+import { useCriticalPath } from '@/hooks/useCriticalPath'
 import { useAuth } from '@/contexts/AuthContext'
 import { BlockLane, BlockStatus } from '@/lib/database.types'
 import type { Block } from '@/lib/database.types'
@@ -35,6 +37,8 @@ export function CollaborativeProjectBoard({
 }: CollaborativeProjectBoardProps) {
   const { user } = useAuth()
   const [isDragging, setIsDragging] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [goalBlockId, setGoalBlockId] = useState<string | null>(null)
   const [modalState, setModalState] = useState<{
     isOpen: boolean
     mode: 'create' | 'edit'
@@ -64,6 +68,15 @@ export function CollaborativeProjectBoard({
     updateCursorPosition
   } = useCollaborativeBlocks(projectId)
 
+  // Critical path overlay for the selected goal
+  const {
+    criticalPath,
+    pathSteps,
+    cycleBlockIds,
+    loading: criticalPathLoading,
+    error: criticalPathError
+  } = useCriticalPath(projectId, goalBlockId)
+
   // Track mouse movement for cursor sharing
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -450,6 +463,15 @@ export function CollaborativeProjectBoard({
     )
   }
 
+  // Show the board as it was at a past point in time
+  if (showHistory) {
+    return (
+      <div className={`h-full ${className || ''}`}>
+        <TimeTravelBoard projectId={projectId} onClose={() => setShowHistory(false)} />
+      </div>
+    )
+  }
+
   return (
     <div className={`h-full relative ${className || ''}`} ref={boardRef}>
       {/* Global Conflicts */}
@@ -488,6 +510,30 @@ export function CollaborativeProjectBoard({
             </div>
             
             <div className="flex items-center gap-4">
+              {/* Critical Path */}
+              <select
+                value={goalBlockId ?? ''}
+                onChange={(e) => setGoalBlockId(e.target.value || null)}
+                className="text-sm bg-transparent border border-border rounded px-2 py-1 text-muted-foreground"
+              >
+                <option value="">Critical path: off</option>
+                {blocks
+                  .filter(block => block.status !== BlockStatus.completed)
+                  .map(block => (
+                    <option key={block.id} value={block.id}>
+                      Goal: {block.title}
+                    </option>
+                  ))}
+              </select>
+
+              {/* Time Travel */}
+              <button
+                onClick={() => setShowHistory(true)}
+                className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+              >
+                🕒 History
+              </button>
+
               {/* AI Import Button */}
               <AIImportButton
                 onImportBlocks={handleAIImportBlocks}
@@ -507,6 +553,30 @@ export function CollaborativeProjectBoard({
         </div>
       </div>
 
+      {/* Critical Path Summary */}
+      {goalBlockId && (
+        <div className="px-6 py-2 border-b border-border bg-card/20 text-sm">
+          <div className="max-w-7xl mx-auto">
+            {criticalPathLoading && <span className="text-muted-foreground">Computing critical path...</span>}
+            {criticalPathError && <span className="text-red-600">{criticalPathError}</span>}
+            {criticalPath?.cycle && (
+              <span className="text-red-600">
+                ⚠️ Dependency cycle: {criticalPath.cycle
+                  .map(id => blocks.find(block => block.id === id)?.title ?? id)
+                  .join(' → ')}
+              </span>
+            )}
+            {criticalPath && !criticalPath.cycle && (
+              <span className="text-muted-foreground">
+                {criticalPath.path.length === 0
+                  ? `"${criticalPath.goal.title}" is already done`
+                  : `${criticalPath.path.length} blocks, ${criticalPath.total_effort} effort until "${criticalPath.goal.title}"`}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Drag and Drop Context */}
       <DragDropContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
         <div className="flex-1 overflow-hidden flex flex-col">
@@ -581,6 +651,8 @@ export function CollaborativeProjectBoard({
                                 const isLocked = block.status === BlockStatus.blocked
                                 const isAutoInjected = block.id === 'goals-1' || block.id === 'current-1'
                                 const hasConflict = conflicts.has(block.id)
+                                const pathStep = pathSteps.get(block.id)
+                                const inCycle = cycleBlockIds.has(block.id)
                                 
                                 return (
                                   <div key={block.id} className="relative">
@@ -596,7 +668,9 @@ export function CollaborativeProjectBoard({
                                           {...provided.dragHandleProps}
                                           className={`select-none ${
                                             isLocked ? 'cursor-not-allowed' : 'cursor-grab active:cursor-grabbing'
-                                          } ${hasConflict ? 'ring-2 ring-yellow-300' : ''}`}
+                                          } ${hasConflict ? 'ring-2 ring-yellow-300' : ''} ${
+                                            inCycle ? 'ring-2 ring-red-500 rounded-lg' : pathStep ? 'ring-2 ring-orange-400 rounded-lg' : ''
+                                          }`}
                                           style={{
                                             ...provided.draggableProps.style,
                                             transform: snapshot.isDragging
@@ -621,6 +695,13 @@ export function CollaborativeProjectBoard({
                                               />
                                             </div>
                                             
+                                            {/* Critical Path Step */}
+                                            {pathStep && (
+                                              <div className="absolute -top-2 -right-2 h-5 min-w-5 px-1 rounded-full bg-orange-400 text-white text-xs flex items-center justify-center">
+                                                {pathStep}
+                                              </div>
+                                            )}
+                                            
                                             {/* Collaborative Indicators */}
                                             <CollaborativeIndicator
                                               users={otherUsersPresence}
@@ -3,6 +3,7 @@ import { Save, Trash2, Archive, GitBranch, Link, Shield, Bell, Database } from '
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
+import { RepositoryLinks } from './RepositoryLinks';
 
 interface ProjectSettingsProps {
   projectId: string;
@@ -277,6 +278,10 @@ export function ProjectSettings({ projectId }: ProjectSettingsProps) {
                   </div>
                 </div>
               </div>
+
+              <div className="pt-6 border-t border-gray-800">
+                <RepositoryLinks projectId={projectId} />
+              </div>
             </div>
           )}
 
@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GitBranch, Plus, RefreshCw, Trash2, Inbox, Check, X } from 'lucide-react';
+import {
+  repositoryLinkService,
+  type RepositoryLink,
+  type RepositoryLinkWithSecret,
+  type QuarantinedDelivery
+} from '../../lib/services/repositoryLinks';
+
+interface RepositoryLinksProps {
+  projectId: string;
+}
+
+// Links GitHub repositories to a project and lets unmatched webhook deliveries be claimed
+export function RepositoryLinks({ projectId }: RepositoryLinksProps) {
+  const [links, setLinks] = useState<RepositoryLink[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedDelivery[]>([]);
+  const [newRepository, setNewRepository] = useState('');
+  const [revealed, setRevealed] = useState<RepositoryLinkWithSecret | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    const [linkResult, quarantineResult] = await Promise.all([
+      repositoryLinkService.list(projectId),
+      repositoryLinkService.listQuarantined()
+    ]);
+    setLinks(linkResult.data || []);
+    setQuarantined(quarantineResult.data || []);
+    setError(linkResult.error || quarantineResult.error);
+    setIsLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleLink = async () => {
+    const { data, error } = await repositoryLinkService.link(projectId, newRepository.trim());
+    if (error) {
+      setError(error);
+      return;
+    }
+    setNewRepository('');
+    setRevealed(data);
+    load();
+  };
+
+  const handleRotate = async (link: RepositoryLink) => {
+    if (!confirm(`Generate a new webhook secret for ${link.repository_full_name}? Deliveries signed with the old one will be rejected.`)) {
+      return;
+    }
+    const { data, error } = await repositoryLinkService.rotateSecret(link.id);
+    if (error) {
+      setError(error);
+      return;
+    }
+    setRevealed(data);
+  };
+
+  const handleUnlink = async (link: RepositoryLink) => {
+    if (!confirm(`Unlink ${link.repository_full_name}? Its webhook deliveries will be quarantined.`)) {
+      return;
+    }
+    const { error } = await repositoryLinkService.unlink(link.id);
+    if (error) setError(error);
+    load();
+  };
+
+  const handleAssign = async (delivery: QuarantinedDelivery) => {
+    const { error } = await repositoryLinkService.assignQuarantined(delivery.id, projectId);
+    if (error) setError(error);
+    load();
+  };
+
+  const handleDiscard = async (delivery: QuarantinedDelivery) => {
+    const { error } = await repositoryLinkService.discardQuarantined(delivery.id);
+    if (error) setError(error);
+    load();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium mb-2">Linked Repositories</label>
+        <p className="text-xs text-gray-500 mb-3">
+          Webhook deliveries from these repositories are recorded in this project
+        </p>
+
+        {isLoading ? (
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white" />
+        ) : links.length === 0 ? (
+          <p className="text-sm text-gray-400">No repositories linked yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {links.map(link => (
+              <li key={link.id} className="flex items-center justify-between bg-gray-800 rounded-lg px-4 py-2">
+                <span className="flex items-center gap-2 text-sm">
+                  <GitBranch className="h-4 w-4 text-blue-400" />
+                  {link.repository_full_name}
+                </span>
+                <span className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleRotate(link)}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title="Rotate webhook secret"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleUnlink(link)}
+                    className="p-1 text-gray-400 hover:text-red-400"
+                    title="Unlink repository"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2 mt-3">
+          <input
+            type="text"
+            value={newRepository}
+            onChange={(e) => setNewRepository(e.target.value)}
+            className="flex-1 bg-gray-800 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="owner/repository"
+          />
+          <button
+            onClick={handleLink}
+            disabled={!newRepository.includes('/')}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Link
+          </button>
+        </div>
+      </div>
+
+      {revealed && (
+        <div className="bg-blue-600/10 border border-blue-600/20 rounded-lg p-4">
+          <p className="text-sm text-blue-400 font-medium">
+            Webhook secret for {revealed.repository_full_name}
+          </p>
+          <p className="text-xs text-gray-300 mt-1">
+            Paste this into the repository's webhook settings. It won't be shown again.
+          </p>
+          <pre className="text-xs bg-gray-800 rounded p-2 mt-2 overflow-x-auto">{revealed.webhook_secret}</pre>
+          <button
+            onClick={() => setRevealed(null)}
+            className="text-xs text-gray-400 hover:text-white mt-2"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {quarantined.length > 0 && (
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium mb-2">
+            <Inbox className="h-4 w-4" />
+            Unassigned Deliveries ({quarantined.length})
+          </label>
+          <p className="text-xs text-gray-500 mb-3">
+            Received from repositories that aren't linked to any project
+          </p>
+          <ul className="space-y-2">
+            {quarantined.map(delivery => (
+              <li key={delivery.id} className="flex items-center justify-between bg-gray-800 rounded-lg px-4 py-2">
+                <span className="text-sm">
+                  <span className="text-gray-300">{delivery.repository_full_name || 'unknown repository'}</span>
+                  <span className="text-gray-500"> · {delivery.event_name} · {new Date(delivery.received_at).toLocaleString()}</span>
+                </span>
+                <span className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleAssign(delivery)}
+                    className="p-1 text-gray-400 hover:text-green-400"
+                    title="Record in this project"
+                  >
+                    <Check className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDiscard(delivery)}
+                    className="p-1 text-gray-400 hover:text-red-400"
+                    title="Discard"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Search, Send, Clock, GitBranch, FileText, Hash, ArrowUpRight, X } from 'lucide-react';
+import { Search, Send, Clock, GitBranch, FileText, Hash, ArrowUpRight, Filter } from 'lucide-react';
+import { searchContext, highlightSegments, type ContextSearchFilters, type ContextSearchItem } from '../../lib/search/context-search';
 
 interface SearchResult {
   id: string;
-  type: 'session' | 'block' | 'trace' | 'event' | 'file' | 'commit';
+  type: 'session' | 'block' | 'context' | 'trace' | 'event' | 'file' | 'commit';
   title: string;
   snippet: string;
+  // Matched terms wrapped in <mark>
+  highlight?: string;
   path: string[];
   timestamp?: string;
   relevance: number;
@@ -40,16 +43,29 @@ interface GitHubContext {
 }
 
 interface NaturalLanguageSearchProps {
+  projectId: string | null;
   sessions: any[];
   onNavigate: (type: string, id: string, metadata?: any) => void;
   githubContext?: GitHubContext;
 }
 
-export function NaturalLanguageSearch({ sessions, onNavigate, githubContext }: NaturalLanguageSearchProps) {
+type KindFilter = 'all' | 'block' | 'context';
+type DateFilter = 'any' | '7d' | '30d' | '90d';
+
+const LANES = ['vision', 'goals', 'current', 'next', 'context'];
+const STATUSES = ['not_started', 'in_progress', 'completed', 'blocked', 'cancelled'];
+const DATE_RANGES: Record<Exclude<DateFilter, 'any'>, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+export function NaturalLanguageSearch({ projectId, sessions, onNavigate, githubContext }: NaturalLanguageSearchProps) {
   const [query, setQuery] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [showContext, setShowContext] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [laneFilter, setLaneFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('any');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -61,94 +77,47 @@ export function NaturalLanguageSearch({ sessions, onNavigate, githubContext }: N
     scrollToBottom();
   }, [messages]);
 
-  const searchAcrossSessions = (searchQuery: string): SearchResult[] => {
-    const results: SearchResult[] = [];
-    const queryLower = searchQuery.toLowerCase();
-    const words = queryLower.split(' ').filter(w => w.length > 2);
-
-    // Search through sessions
-    sessions.forEach(session => {
-      // Search session level
-      if (session.title.toLowerCase().includes(queryLower) || 
-          session.summary.toLowerCase().includes(queryLower) ||
-          words.some(word => session.title.toLowerCase().includes(word) || 
-                            session.summary.toLowerCase().includes(word))) {
-        results.push({
-          id: session.id,
-          type: 'session',
-          title: session.title,
-          snippet: session.summary,
-          path: [session.title],
-          timestamp: session.startTime,
-          relevance: session.title.toLowerCase().includes(queryLower) ? 1.0 : 0.8,
-          metadata: { sessionId: session.id }
-        });
-      }
-
-      // Search blocks
-      session.blocks?.forEach(block => {
-        if (block.title.toLowerCase().includes(queryLower) || 
-            block.summary.toLowerCase().includes(queryLower) ||
-            words.some(word => block.title.toLowerCase().includes(word) || 
-                              block.summary.toLowerCase().includes(word))) {
-          results.push({
-            id: block.id,
-            type: 'block',
-            title: block.title,
-            snippet: block.summary,
-            path: [session.title, block.title],
-            timestamp: block.startTime,
-            relevance: block.title.toLowerCase().includes(queryLower) ? 0.9 : 0.7,
-            metadata: { sessionId: session.id, blockId: block.id }
-          });
-        }
-
-        // Search traces
-        block.traces?.forEach(trace => {
-          if (trace.name.toLowerCase().includes(queryLower) || 
-              trace.summary.toLowerCase().includes(queryLower) ||
-              words.some(word => trace.name.toLowerCase().includes(word) || 
-                                trace.summary.toLowerCase().includes(word))) {
-            results.push({
-              id: trace.id,
-              type: 'trace',
-              title: trace.name,
-              snippet: trace.summary,
-              path: [session.title, block.title, trace.name],
-              timestamp: trace.events?.[0]?.timestamp,
-              relevance: trace.name.toLowerCase().includes(queryLower) ? 0.8 : 0.6,
-              metadata: { sessionId: session.id, blockId: block.id, traceId: trace.id }
-            });
-          }
-
-          // Search events
-          trace.events?.forEach(event => {
-            const eventString = `${event.type} ${event.tool || ''} ${JSON.stringify(event.data)}`.toLowerCase();
-            if (eventString.includes(queryLower) ||
-                words.some(word => eventString.includes(word))) {
-              results.push({
-                id: event.id,
-                type: 'event',
-                title: `${event.type}${event.tool ? `: ${event.tool}` : ''}`,
-                snippet: JSON.stringify(event.data).slice(0, 100) + '...',
-                path: [session.title, block.title, trace.name, event.type],
-                timestamp: event.timestamp,
-                relevance: 0.5,
-                metadata: { sessionId: session.id, blockId: block.id, traceId: trace.id }
-              });
-            }
-          });
-        });
-      });
-    });
+  const buildFilters = (): ContextSearchFilters => {
+    const filters: ContextSearchFilters = {};
+    if (laneFilter) filters.lanes = [laneFilter];
+    if (statusFilter) filters.statuses = [statusFilter];
+    if (dateFilter !== 'any') {
+      filters.createdAfter = new Date(Date.now() - DATE_RANGES[dateFilter] * 24 * 60 * 60 * 1000).toISOString();
+    }
+    return filters;
+  };
 
-    // Sort by relevance and timestamp
-    return results.sort((a, b) => {
-      if (Math.abs(a.relevance - b.relevance) > 0.1) {
-        return b.relevance - a.relevance;
-      }
-      return (b.timestamp || '').localeCompare(a.timestamp || '');
-    }).slice(0, 20);
+  // Blocks are opened through the session that holds them, when one does
+  const toSearchResult = (item: ContextSearchItem): SearchResult => {
+    const isBlock = item.type.startsWith('block_');
+    const session = isBlock ? sessions.find(s => s.blocks?.some((b: any) => b.id === item.id)) : undefined;
+    const title = item.title || item.content.slice(0, 60);
+
+    return {
+      id: item.id,
+      type: isBlock ? 'block' : 'context',
+      title,
+      snippet: item.content.slice(0, 160),
+      highlight: item.highlight || undefined,
+      path: session ? [session.title, title] : [isBlock ? `${item.lane} lane` : item.type, title],
+      timestamp: item.created_at,
+      relevance: item.relevance_score,
+      metadata: isBlock ? { sessionId: session?.id, blockId: item.id } : undefined
+    };
+  };
+
+  const searchProject = async (searchQuery: string): Promise<SearchResult[]> => {
+    if (!projectId) {
+      throw new Error('Select a project to search');
+    }
+
+    const { results } = await searchContext(projectId, searchQuery, {
+      maxResults: 20,
+      includeBlocks: kindFilter !== 'context',
+      includeContext: kindFilter !== 'block',
+      filters: buildFilters()
+    });
+    return results.map(toSearchResult);
   };
 
   const generateNaturalResponse = (query: string, results: SearchResult[]): string => {
@@ -156,34 +125,20 @@ export function NaturalLanguageSearch({ sessions, onNavigate, githubContext }: N
       return `I couldn't find any results for "${query}". Try searching for specific tools, file names, or error messages.`;
     }
 
-    const sessionResults = results.filter(r => r.type === 'session');
     const blockResults = results.filter(r => r.type === 'block');
-    const traceResults = results.filter(r => r.type === 'trace');
-    const eventResults = results.filter(r => r.type === 'event');
+    const contextResults = results.filter(r => r.type === 'context');
 
     let response = `Found ${results.length} results for "${query}":\n\n`;
 
-    if (sessionResults.length > 0) {
-      response += `**Sessions (${sessionResults.length}):**\n`;
-      response += sessionResults.slice(0, 3).map(r => `• ${r.title}`).join('\n');
-      response += '\n\n';
-    }
-
     if (blockResults.length > 0) {
       response += `**Blocks (${blockResults.length}):**\n`;
       response += blockResults.slice(0, 3).map(r => `• ${r.title} (${r.path[0]})`).join('\n');
       response += '\n\n';
     }
 
-    if (traceResults.length > 0) {
-      response += `**Traces (${traceResults.length}):**\n`;
-      response += traceResults.slice(0, 3).map(r => `• ${r.title}`).join('\n');
-      response += '\n\n';
-    }
-
-    if (eventResults.length > 0) {
-      response += `**Events (${eventResults.length}):**\n`;
-      response += eventResults.slice(0, 3).map(r => `• ${r.title}`).join('\n');
+    if (contextResults.length > 0) {
+      response += `**Context (${contextResults.length}):**\n`;
+      response += contextResults.slice(0, 3).map(r => `• ${r.title}`).join('\n');
     }
 
     return response;
@@ -203,28 +158,34 @@ export function NaturalLanguageSearch({ sessions, onNavigate, githubContext }: N
     setIsSearching(true);
     setQuery('');
 
-    // Simulate search delay
-    setTimeout(() => {
-      const results = searchAcrossSessions(query);
-      const response = generateNaturalResponse(query, results);
-
-      const assistantMessage: ChatMessage = {
+    let assistantMessage: ChatMessage;
+    try {
+      const results = await searchProject(query);
+      assistantMessage = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: response,
+        content: generateNaturalResponse(query, results),
         results: results,
         timestamp: new Date().toISOString()
       };
+    } catch (error) {
+      assistantMessage = {
+        id: (Date.now() + 1).toString(),
+        type: 'assistant',
+        content: `Search failed: ${error instanceof Error ? error.message : 'unknown error'}`,
+        timestamp: new Date().toISOString()
+      };
+    }
 
-      setMessages(prev => [...prev, assistantMessage]);
-      setIsSearching(false);
-    }, 500);
+    setMessages(prev => [...prev, assistantMessage]);
+    setIsSearching(false);
   };
 
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'session': return 'bg-emerald-500';
       case 'block': return 'bg-blue-500';
+      case 'context': return 'bg-pink-500';
       case 'trace': return 'bg-purple-500';
       case 'event': return 'bg-amber-500';
       case 'file': return 'bg-teal-500';
@@ -242,15 +203,65 @@ export function NaturalLanguageSearch({ sessions, onNavigate, githubContext }: N
             <Search className="h-5 w-5 text-gray-400" />
             <h2 className="text-lg font-semibold">Natural Language Search</h2>
           </div>
-          <button
-            onClick={() => setShowContext(!showContext)}
-            className="text-sm text-gray-400 hover:text-white flex items-center gap-2"
-          >
-            <GitBranch className="h-4 w-4" />
-            {showContext ? 'Hide' : 'Show'} Context
-          </button>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className="text-sm text-gray-400 hover:text-white flex items-center gap-2"
+            >
+              <Filter className="h-4 w-4" />
+              Filters
+            </button>
+            <button
+              onClick={() => setShowContext(!showContext)}
+              className="text-sm text-gray-400 hover:text-white flex items-center gap-2"
+            >
+              <GitBranch className="h-4 w-4" />
+              {showContext ? 'Hide' : 'Show'} Context
+            </button>
+          </div>
         </div>
 
+        {/* Search Filters */}
+        {showFilters && (
+          <div className="mt-4 grid grid-cols-2 gap-2 text-sm">
+            <select
+              value={kindFilter}
+              onChange={(e) => setKindFilter(e.target.value as KindFilter)}
+              className="bg-gray-800 text-white px-2 py-1 rounded"
+            >
+              <option value="all">Blocks and context</option>
+              <option value="block">Blocks only</option>
+              <option value="context">Context only</option>
+            </select>
+            <select
+              value={dateFilter}
+              onChange={(e) => setDateFilter(e.target.value as DateFilter)}
+              className="bg-gray-800 text-white px-2 py-1 rounded"
+            >
+              <option value="any">Any time</option>
+              <option value="7d">Last 7 days</option>
+              <option value="30d">Last 30 days</option>
+              <option value="90d">Last 90 days</option>
+            </select>
+            <select
+              value={laneFilter}
+              onChange={(e) => setLaneFilter(e.target.value)}
+              className="bg-gray-800 text-white px-2 py-1 rounded"
+            >
+              <option value="">Any lane</option>
+              {LANES.map(lane => <option key={lane} value={lane}>{lane}</option>)}
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="bg-gray-800 text-white px-2 py-1 rounded"
+            >
+              <option value="">Any status</option>
+              {STATUSES.map(status => <option key={status} value={status}>{status.replace('_', ' ')}</option>)}
+            </select>
+          </div>
+        )}
+
         {/* GitHub Context Panel */}
         {showContext && githubContext && (
           <div className="mt-4 p-3 bg-gray-800 rounded-lg text-sm">
@@ -288,8 +299,8 @@ export function NaturalLanguageSearch({ sessions, onNavigate, githubContext }: N
         {messages.length === 0 && (
           <div className="text-center text-gray-500 mt-8">
             <Search className="h-12 w-12 mx-auto mb-4 opacity-50" />
-            <p className="text-lg mb-2">Ask anything about your sessions</p>
-            <p className="text-sm">Try: "Show me all debugging blocks" or "Find errors in the last session"</p>
+            <p className="text-lg mb-2">Search your project's blocks and context</p>
+            <p className="text-sm">Try: "authentication decisions" or "why did the migration fail"</p>
           </div>
         )}
 
@@ -328,7 +339,13 @@ export function NaturalLanguageSearch({ sessions, onNavigate, githubContext }: N
                             )}
                           </div>
                           <div className="font-medium text-sm">{result.title}</div>
-                          <div className="text-xs text-gray-400 mt-1">{result.snippet}</div>
+                          <div className="text-xs text-gray-400 mt-1">
+                            {result.highlight
+                              ? highlightSegments(result.highlight).map((segment, index) => segment.marked
+                                ? <mark key={index} className="bg-yellow-500/30 text-yellow-100 rounded px-0.5">{segment.text}</mark>
+                                : <span key={index}>{segment.text}</span>)
+                              : result.snippet}
+                          </div>
                           <div className="text-xs text-gray-500 mt-1">
                             {result.path.join(' → ')}
                           </div>
@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { fetchCriticalPath, type CriticalPath } from '@/lib/graph/critical-path'
+
+interface CriticalPathState {
+  criticalPath: CriticalPath | null
+  loading: boolean
+  error: string | null
+}
+
+// Critical path for the selected goal, plus per-block lookups for the board overlay.
+// Nothing is fetched until a goal is picked.
+export function useCriticalPath(projectId: string, goalBlockId: string | null) {
+  const [state, setState] = useState<CriticalPathState>({
+    criticalPath: null,
+    loading: false,
+    error: null
+  })
+
+  const loadCriticalPath = useCallback(async () => {
+    if (!goalBlockId) {
+      setState({ criticalPath: null, loading: false, error: null })
+      return
+    }
+
+    setState(prev => ({ ...prev, loading: true, error: null }))
+
+    try {
+      const criticalPath = await fetchCriticalPath(projectId, goalBlockId)
+      setState({ criticalPath, loading: false, error: null })
+    } catch (err) {
+      setState({
+        criticalPath: null,
+        loading: false,
+        error: err instanceof Error ? err.message : 'Failed to load critical path'
+      })
+    }
+  }, [projectId, goalBlockId])
+
+  useEffect(() => {
+    loadCriticalPath()
+  }, [loadCriticalPath])
+
+  // Position of each block on the path, 1-based
+  const pathSteps = useMemo(() => {
+    const steps = new Map<string, number>()
+    state.criticalPath?.path.forEach((block, index) => steps.set(block.id, index + 1))
+    return steps
+  }, [state.criticalPath])
+
+  const cycleBlockIds = useMemo(
+    () => new Set(state.criticalPath?.cycle ?? []),
+    [state.criticalPath]
+  )
+
+  return {
+    criticalPath: state.criticalPath,
+    pathSteps,
+    cycleBlockIds,
+    loading: state.loading,
+    error: state.error,
+    refresh: loadCriticalPath
+  }
+}
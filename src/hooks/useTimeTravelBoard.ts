@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import {
+  loadBoardHistory,
+  boardAt,
+  laneChangesBetween,
+  type BoardHistory,
+  type BoardState,
+  type BlockLaneChange
+} from '@/lib/events/time-travel'
+
+interface TimeTravelState {
+  history: BoardHistory | null
+  loading: boolean
+  error: string | null
+}
+
+// Loads a project's event history once and derives past boards from it on the client,
+// so scrubbing the slider never goes back to the database
+export function useTimeTravelBoard(projectId: string) {
+  const [state, setState] = useState<TimeTravelState>({
+    history: null,
+    loading: true,
+    error: null
+  })
+  const [viewAt, setViewAt] = useState<string | null>(null)
+  const [compareFrom, setCompareFrom] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    setState(prev => ({ ...prev, loading: true, error: null }))
+
+    try {
+      const history = await loadBoardHistory(projectId)
+      setState({ history, loading: false, error: null })
+      setViewAt(history.endedAt)
+      setCompareFrom(history.startedAt)
+    } catch (err) {
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: err instanceof Error ? err.message : 'Failed to load board history'
+      }))
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  const board: BoardState | null = useMemo(() => {
+    if (!state.history || !viewAt) return null
+    return boardAt(state.history, viewAt)
+  }, [state.history, viewAt])
+
+  const changes: BlockLaneChange[] = useMemo(() => {
+    if (!state.history || !viewAt || !compareFrom) return []
+    return laneChangesBetween(state.history, compareFrom, viewAt)
+  }, [state.history, viewAt, compareFrom])
+
+  return {
+    board,
+    changes,
+    viewAt,
+    compareFrom,
+    startedAt: state.history?.startedAt ?? null,
+    endedAt: state.history?.endedAt ?? null,
+    loading: state.loading,
+    error: state.error,
+    setViewAt,
+    setCompareFrom,
+    refresh: loadHistory
+  }
+}
@@ -4,33 +4,63 @@
 import { eventStore } from '../events/event-store'
 import { blockService, contextItemService } from '../database'
 import { insightService } from '../events/event-sourced-services'
-import type { Block, ContextItem } from '../database.types'
-
-// Compression strategies
-export type CompressionStrategy = 
+import type { Block } from '../database.types'
+import { countTokens } from '@frizy/tokenizer'
+import { BUILT_IN_STRATEGIES, renderItem, itemTitle, itemBody } from './compression-strategies'
+import type { CompressionStrategyDefinition } from './compression-strategies'
+import { ExtractiveSummarizer, createDefaultSummarizer } from './summarizers'
+import type { ContextSummarizer } from './summarizers'
+
+// Built-in compression strategies
+export type BuiltInCompressionStrategy =
   | 'preserve_insights'      // Keep insights and decisions, compress rest
   | 'preserve_recent'        // Keep recent activity, compress old
   | 'preserve_important'     // Keep high-priority and active items
   | 'preserve_relationships' // Keep items with strong relationships
   | 'adaptive'              // Use ML to determine what to keep
 
+// Built-in names, or the name of a strategy added with registerStrategy
+export type CompressionStrategy = BuiltInCompressionStrategy | (string & {})
+
 // Compression result
 export interface CompressionResult {
   originalSize: number
   compressedSize: number
   compressionRatio: number
   preservedItems: string[]
+  summarizedItems: string[]
   removedItems: string[]
+  // Item id -> summary that replaced its full text in the rendered context
+  summaries: Record<string, string>
+  // The compressed context document handed to Claude
+  renderedContext: string
   strategy: CompressionStrategy
   metadata: {
     timestamp: string
     reason: string
     preservationCriteria: string[]
+    summarizer: string
   }
 }
 
+// An item as it appears in the rendered document, in full or as a summary
+export interface ContextDocumentEntry {
+  item: ScoredContextItem
+  summary?: string
+}
+
+export interface ContextDocument {
+  projectId: string
+  strategy: CompressionStrategy
+  entries: ContextDocumentEntry[]
+  removedCount: number
+}
+
+export type { CompressionStrategyDefinition } from './compression-strategies'
+export type { ContextSummarizer } from './summarizers'
+
 // Context item with scoring
-interface ScoredContextItem {
+export interface ScoredContextItem {
   id: string
   type: 'block' | 'context_item' | 'insight' | 'session'
   data: any
@@ -43,8 +73,30 @@ interface ScoredContextItem {
 
 // Context compression pipeline
 export class ContextCompressionPipeline {
-  private readonly DEFAULT_TARGET_SIZE = 50000 // characters
+  private readonly DEFAULT_TARGET_SIZE = 12000 // tokens
   private readonly MIN_PRESERVATION_RATIO = 0.3 // Always preserve at least 30%
+  private readonly MIN_SUMMARY_TOKENS = 20 // below this an item is dropped instead
+  private readonly MAX_SUMMARY_TOKENS = 100
+
+  private strategies = new Map<string, CompressionStrategyDefinition>(
+    BUILT_IN_STRATEGIES.map(definition => [definition.name, definition])
+  )
+  private summarizer: ContextSummarizer | null
+  private fallbackSummarizer = new ExtractiveSummarizer()
+
+  constructor(options: { summarizer?: ContextSummarizer } = {}) {
+    // Resolved on first use so the Claude client is only created when compression runs
+    this.summarizer = options.summarizer || null
+  }
+
+  // Add a strategy or replace a built-in one
+  registerStrategy(definition: CompressionStrategyDefinition): void {
+    this.strategies.set(definition.name, definition)
+  }
+
+  setSummarizer(summarizer: ContextSummarizer): void {
+    this.summarizer = summarizer
+  }
 
   async compressProjectContext(
     projectId: string,
@@ -59,6 +111,7 @@ export class ContextCompressionPipeline {
     try {
       const strategy = options.strategy || 'adaptive'
       const targetSize = options.targetSize || this.DEFAULT_TARGET_SIZE
+      const definition = this.getStrategy(strategy)
 
       // 1. Gather all context items
       const allItems = await this.gatherContextItems(projectId)
@@ -69,7 +122,7 @@ export class ContextCompressionPipeline {
       // 3. Score items based on strategy
       const scoredItems = await this.scoreContextItems(
         allItems,
-        strategy,
+        definition,
         {
           projectId,
           preserveBlocks: options.preserveBlocks,
@@ -85,20 +138,43 @@ export class ContextCompressionPipeline {
         strategy
       )
 
-      // 5. Create compressed context
-      const compressedSize = this.calculateContextSize(preservedItems)
-      const compressionRatio = compressedSize / originalSize
+      // 5. Summarize the rest into whatever room is left
+      const preservedIds = new Set(preservedItems.map(item => item.id))
+      const remaining = scoredItems
+        .filter(item => !preservedIds.has(item.id))
+        .sort((a, b) => b.score - a.score)
+      const summaries = await this.summarizeItems(
+        remaining,
+        targetSize - this.calculateContextSize(preservedItems)
+      )
+      const removedItems = remaining
+        .filter(item => summaries[item.id] === undefined)
+        .map(item => item.id)
 
-      // 6. Record compression event
+      // 6. Render the compressed context
+      const renderedContext = definition.render({
+        projectId,
+        strategy,
+        entries: [
+          ...preservedItems.map(item => ({ item })),
+          ...remaining
+            .filter(item => summaries[item.id] !== undefined)
+            .map(item => ({ item, summary: summaries[item.id] }))
+        ],
+        removedCount: removedItems.length
+      })
+      const compressedSize = countTokens(renderedContext)
+      const compressionRatio = originalSize > 0 ? compressedSize / originalSize : 1
+
+      // 7. Record compression event
       await this.recordCompressionEvent(projectId, {
         originalSize,
         compressedSize,
         compressionRatio,
         strategy,
         preservedItems: preservedItems.map(item => item.id),
-        removedItems: allItems
-          .filter(item => !preservedItems.find(p => p.id === item.id))
-          .map(item => item.id)
+        summarizedItems: Object.keys(summaries),
+        removedItems
       })
 
       return {
@@ -106,14 +182,16 @@ export class ContextCompressionPipeline {
         compressedSize,
         compressionRatio,
         preservedItems: preservedItems.map(item => item.id),
-        removedItems: allItems
-          .filter(item => !preservedItems.find(p => p.id === item.id))
-          .map(item => item.id),
+        summarizedItems: Object.keys(summaries),
+        removedItems,
+        summaries,
+        renderedContext,
         strategy,
         metadata: {
           timestamp: new Date().toISOString(),
           reason: `Compressed using ${strategy} strategy`,
-          preservationCriteria: this.getPreservationCriteria(strategy)
+          preservationCriteria: definition.preservationCriteria,
+          summarizer: this.getSummarizer().name
         }
       }
     } catch (error: any) {
@@ -191,10 +269,10 @@ export class ContextCompressionPipeline {
     }
   }
 
-  // Score context items based on strategy
+  // Score context items: shared importance and recency scoring plus the strategy's own
   private async scoreContextItems(
     items: ScoredContextItem[],
-    strategy: CompressionStrategy,
+    definition: CompressionStrategyDefinition,
     options: {
       projectId: string
       preserveBlocks?: string[]
@@ -216,60 +294,9 @@ export class ContextCompressionPipeline {
       if (item.importance > 0.7) reasons.push('high-importance')
 
       // Strategy-specific scoring
-      switch (strategy) {
-        case 'preserve_insights':
-          if (item.type === 'insight') {
-            score += 50
-            reasons.push('insight-item')
-          }
-          if (item.data.type === 'decision') {
-            score += 30
-            reasons.push('decision-type')
-          }
-          break
-
-        case 'preserve_recent':
-          const lastAccessed = new Date(item.lastAccessed)
-          const daysSinceAccess = (now.getTime() - lastAccessed.getTime()) / (1000 * 60 * 60 * 24)
-          if (daysSinceAccess < 7) {
-            score += 40
-            reasons.push('accessed-recently')
-          } else if (daysSinceAccess < 30) {
-            score += 20
-            reasons.push('accessed-this-month')
-          }
-          break
-
-        case 'preserve_important':
-          if (item.type === 'block') {
-            const block = item.data as Block
-            if (block.priority === 'urgent') {
-              score += 40
-              reasons.push('urgent-priority')
-            } else if (block.priority === 'high') {
-              score += 25
-              reasons.push('high-priority')
-            }
-            if (block.status === 'in_progress') {
-              score += 30
-              reasons.push('in-progress')
-            }
-          }
-          break
-
-        case 'preserve_relationships':
-          const relationshipCount = item.relationships.length
-          score += relationshipCount * 5
-          if (relationshipCount > 3) reasons.push('highly-connected')
-          if (relationshipCount > 0) reasons.push('has-relationships')
-          break
-
-        case 'adaptive':
-          // Combine multiple factors
-          score += this.calculateAdaptiveScore(item, items)
-          reasons.push('adaptive-scoring')
-          break
-      }
+      const strategyScore = definition.score(item, { now, allItems: items })
+      score += strategyScore.score
+      reasons.push(...strategyScore.reasons)
 
       // Force preservation for specific items
       if (options.preserveBlocks?.includes(item.id)) {
@@ -295,40 +322,6 @@ export class ContextCompressionPipeline {
     })
   }
 
-  // Calculate adaptive score using multiple factors
-  private calculateAdaptiveScore(item: ScoredContextItem, allItems: ScoredContextItem[]): number {
-    let score = 0
-
-    // Recency factor (0-20 points)
-    const now = new Date()
-    const lastAccessed = new Date(item.lastAccessed)
-    const daysSinceAccess = (now.getTime() - lastAccessed.getTime()) / (1000 * 60 * 60 * 24)
-    const recencyScore = Math.max(0, 20 - daysSinceAccess / 7)
-    score += recencyScore
-
-    // Relationship centrality (0-15 points)
-    const centralityScore = Math.min(15, item.relationships.length * 3)
-    score += centralityScore
-
-    // Type-specific factors
-    if (item.type === 'insight') {
-      score += 15 // Insights are valuable
-      if (item.data.importance === 'high') score += 10
-    } else if (item.type === 'block') {
-      const block = item.data as Block
-      if (block.status === 'in_progress') score += 10
-      if (block.priority === 'urgent') score += 8
-      if (block.claude_sessions > 0) score += 5
-    }
-
-    // Content richness (longer content = more valuable)
-    const contentLength = JSON.stringify(item.data).length
-    const contentScore = Math.min(10, contentLength / 1000)
-    score += contentScore
-
-    return score
-  }
-
   // Select items to preserve based on scores and target size
   private selectItemsToPreserve(
     scoredItems: ScoredContextItem[],
@@ -367,14 +360,65 @@ export class ContextCompressionPipeline {
     return preservedItems
   }
 
-  // Calculate size of context items
+  // Calculate size of context items in tokens
   private calculateContextSize(items: ScoredContextItem[]): number {
     return items.reduce((total, item) => total + this.calculateItemSize(item), 0)
   }
 
-  // Calculate size of individual item
+  // Calculate tokens of an individual item as it would be rendered in full
   private calculateItemSize(item: ScoredContextItem): number {
-    return JSON.stringify(item.data).length
+    return countTokens(renderItem(item))
+  }
+
+  // Summarize items in score order until the budget runs out; the rest are dropped
+  private async summarizeItems(
+    items: ScoredContextItem[],
+    budget: number
+  ): Promise<Record<string, string>> {
+    const summaries: Record<string, string> = {}
+    if (items.length === 0) return summaries
+
+    const perItem = Math.min(
+      this.MAX_SUMMARY_TOKENS,
+      Math.max(this.MIN_SUMMARY_TOKENS, Math.floor(budget / items.length))
+    )
+    let remainingBudget = budget
+
+    for (const item of items) {
+      // Heading plus the separator tokens around the summary
+      const overhead = countTokens(renderItem(item, '')) + 2
+      const maxTokens = Math.min(perItem, remainingBudget - overhead)
+      if (maxTokens < this.MIN_SUMMARY_TOKENS) break
+
+      const request = { id: item.id, title: itemTitle(item), text: itemBody(item), maxTokens }
+      let summary: string
+      try {
+        summary = await this.getSummarizer().summarize(request)
+      } catch (error) {
+        console.error(`Summarizer failed for ${item.id}, using extractive summary:`, error)
+        summary = await this.fallbackSummarizer.summarize(request)
+      }
+
+      summaries[item.id] = summary
+      remainingBudget -= overhead + countTokens(summary)
+    }
+
+    return summaries
+  }
+
+  private getSummarizer(): ContextSummarizer {
+    if (!this.summarizer) {
+      this.summarizer = createDefaultSummarizer()
+    }
+    return this.summarizer
+  }
+
+  private getStrategy(strategy: CompressionStrategy): CompressionStrategyDefinition {
+    const definition = this.strategies.get(strategy)
+    if (!definition) {
+      throw new Error(`Unknown compression strategy: ${strategy}`)
+    }
+    return definition
   }
 
   // Calculate block importance
@@ -439,6 +483,7 @@ export class ContextCompressionPipeline {
       compressionRatio: number
       strategy: CompressionStrategy
       preservedItems: string[]
+      summarizedItems: string[]
       removedItems: string[]
     }
   ): Promise<void> {
@@ -458,19 +503,6 @@ export class ContextCompressionPipeline {
     }
   }
 
-  // Get preservation criteria for strategy
-  private getPreservationCriteria(strategy: CompressionStrategy): string[] {
-    const criteria: Record<CompressionStrategy, string[]> = {
-      preserve_insights: ['insights', 'decisions', 'high-importance'],
-      preserve_recent: ['recent-activity', 'last-7-days', 'current-work'],
-      preserve_important: ['urgent-blocks', 'in-progress', 'high-priority'],
-      preserve_relationships: ['connected-items', 'dependencies', 'relationships'],
-      adaptive: ['multi-factor', 'recency', 'importance', 'relationships', 'activity']
-    }
-
-    return criteria[strategy] || ['unknown']
-  }
-
   // Get compression statistics for a project
   async getCompressionHistory(projectId: string): Promise<any[]> {
     try {
@@ -484,6 +516,7 @@ export class ContextCompressionPipeline {
           compressedSize: event.data.compressedSize,
           compressionRatio: event.data.compressionRatio,
           preservedItems: event.data.preservedItems.length,
+          summarizedItems: event.data.summarizedItems?.length || 0,
           removedItems: event.data.removedItems.length
         }))
         .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
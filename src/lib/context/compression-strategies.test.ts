@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import type { ContextDocument, ContextDocumentEntry, ScoredContextItem } from './compression-pipeline'
+import { BUILT_IN_STRATEGIES, renderItem } from './compression-strategies'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+const item = (id: string, type: ScoredContextItem['type'], score: number, daysAgo: number, data: any, relationships: string[] = []): ScoredContextItem => ({
+  id,
+  type,
+  data,
+  score,
+  reasons: [],
+  relationships,
+  lastAccessed: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+  importance: 0
+})
+
+const decision = item('decision-jwt', 'context_item', 90, 40,
+  { type: 'decision', title: 'Use JWT', content: 'Signed tokens.\nRotated weekly.' }, ['block-billing'])
+const insight = item('insight-retries', 'insight', 80, 2,
+  { type: 'risk_pattern', importance: 'high', title: 'Retries mask outages', content: 'Alert on retry rate.' }, ['block-login', 'block-billing'])
+const login = item('block-login', 'block', 70, 1,
+  { title: 'Login flow', lane: 'current', status: 'in_progress', priority: 'high', progress: 40, content: 'Wire refresh.' })
+const billing = item('block-billing', 'block', 50, 100,
+  { title: 'Billing', lane: 'next', status: 'blocked', priority: 'urgent' })
+const notes = item('note-meeting', 'context_item', 30, 10,
+  { type: 'note', title: 'Meeting notes', content: 'A long transcript of the planning meeting.' }, ['block-login'])
+
+// Deliberately out of score order; the note was summarized
+const ENTRIES: ContextDocumentEntry[] = [
+  { item: billing },
+  { item: notes, summary: 'Login ships Friday.' },
+  { item: login },
+  { item: decision },
+  { item: insight }
+]
+
+const render = (strategy: string, entries = ENTRIES) => {
+  const document: ContextDocument = { projectId: 'project-1', strategy, entries, removedCount: 3 }
+  return BUILT_IN_STRATEGIES.find(definition => definition.name === strategy)!.render(document)
+}
+
+// Section headings and item titles, in document order
+const outline = (rendered: string) =>
+  rendered
+    .split('\n')
+    .filter(line => line.startsWith('## ') || line.startsWith('- **'))
+    .map(line => line.startsWith('## ') ? line : line.slice(4, line.indexOf('**', 4)))
+
+describe('compression strategy rendering', () => {
+  it('renders a header, titled sections and one bullet per item', () => {
+    expect(render('preserve_insights')).toBe([
+      '# Project context (preserve_insights)',
+      '4 items in full, 1 summarized, 3 omitted',
+      '',
+      '## Decisions',
+      '- **Use JWT** (decision)',
+      '  Signed tokens.',
+      '  Rotated weekly.',
+      '',
+      '## Insights',
+      '- **Retries mask outages** (risk pattern, high)',
+      '  Alert on retry rate.',
+      '',
+      '## Blocks',
+      '- **Login flow** (current, in progress, high, 40%)',
+      '  Wire refresh.',
+      '- **Billing** (next, blocked, urgent, 0%)',
+      '',
+      '## Background',
+      '- **Meeting notes** (note) [summary]',
+      '  Login ships Friday.'
+    ].join('\n'))
+  })
+
+  it('groups by status for preserve_important, leaving empty sections out', () => {
+    expect(outline(render('preserve_important'))).toEqual([
+      '## In progress', 'Login flow',
+      '## Blocked', 'Billing',
+      '## Supporting context', 'Use JWT', 'Retries mask outages', 'Meeting notes'
+    ])
+  })
+
+  it('buckets by last access for preserve_recent, newest first', () => {
+    expect(outline(render('preserve_recent'))).toEqual([
+      '## This week', 'Login flow', 'Retries mask outages',
+      '## This month', 'Meeting notes',
+      '## Older', 'Use JWT', 'Billing'
+    ])
+  })
+
+  it('follows each block with the items pointing at it for preserve_relationships, each item once', () => {
+    expect(outline(render('preserve_relationships'))).toEqual([
+      '## Login flow and related', 'Login flow', 'Retries mask outages', 'Meeting notes',
+      '## Billing and related', 'Billing', 'Use JWT'
+    ])
+    expect(outline(render('preserve_relationships', ENTRIES.filter(entry => entry.item.type !== 'block')))).toEqual([
+      '## Unlinked', 'Use JWT', 'Retries mask outages', 'Meeting notes'
+    ])
+  })
+
+  it('groups by item type for adaptive', () => {
+    expect(outline(render('adaptive'))).toEqual([
+      '## Blocks', 'Login flow', 'Billing',
+      '## Insights', 'Retries mask outages',
+      '## Context', 'Use JWT', 'Meeting notes'
+    ])
+  })
+
+  it('renders an empty document as the header alone', () => {
+    expect(render('adaptive', [])).toBe('# Project context (adaptive)\n0 items in full, 0 summarized, 3 omitted')
+  })
+})
+
+describe('renderItem', () => {
+  it('marks a summary even when it is empty, and shows the id when an item has no title', () => {
+    expect(renderItem(notes, '')).toBe('- **Meeting notes** (note) [summary]')
+    expect(renderItem(item('session-1', 'session', 0, 0, {}))).toBe('- **session-1** (session)')
+  })
+})
@@ -0,0 +1,252 @@
+// Compression strategies for the context compression pipeline
+// Each strategy scores items (on top of the pipeline's shared scoring) and renders the kept
+// and summarized items into the context document Claude receives
+
+import type { Block } from '../database.types'
+import type {
+  CompressionStrategy,
+  ScoredContextItem,
+  ContextDocument,
+  ContextDocumentEntry
+} from './compression-pipeline'
+
+export interface StrategyScoringContext {
+  now: Date
+  allItems: ScoredContextItem[]
+}
+
+export interface CompressionStrategyDefinition {
+  name: CompressionStrategy
+  preservationCriteria: string[]
+  score(item: ScoredContextItem, context: StrategyScoringContext): { score: number; reasons: string[] }
+  render(document: ContextDocument): string
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+const daysSince = (timestamp: string, now: Date) =>
+  (now.getTime() - new Date(timestamp).getTime()) / DAY_MS
+
+// Title of an item regardless of its type
+export function itemTitle(item: ScoredContextItem): string {
+  return item.data.title || item.data.name || item.id
+}
+
+// Full text of an item, the part a summarizer shortens
+export function itemBody(item: ScoredContextItem): string {
+  return (item.data.content || item.data.description || '').trim()
+}
+
+// Short metadata shown next to the title
+function itemMeta(item: ScoredContextItem): string {
+  switch (item.type) {
+    case 'block': {
+      const block = item.data as Block
+      return [block.lane, block.status?.replace(/_/g, ' '), block.priority, `${block.progress ?? 0}%`]
+        .filter(Boolean)
+        .join(', ')
+    }
+    case 'insight':
+      return [item.data.type?.replace(/_/g, ' '), item.data.importance].filter(Boolean).join(', ')
+    case 'context_item':
+      return item.data.type || 'context'
+    default:
+      return item.type
+  }
+}
+
+// One item as a markdown bullet; summarized items are marked so Claude knows detail was cut
+export function renderItem(item: ScoredContextItem, summary?: string): string {
+  const meta = itemMeta(item)
+  const heading = `- **${itemTitle(item)}**${meta ? ` (${meta})` : ''}${summary !== undefined ? ' [summary]' : ''}`
+  const body = summary !== undefined ? summary : itemBody(item)
+  return body ? `${heading}\n  ${body.replace(/\n+/g, '\n  ')}` : heading
+}
+
+const renderEntry = (entry: ContextDocumentEntry) => renderItem(entry.item, entry.summary)
+
+const byScore = (a: ContextDocumentEntry, b: ContextDocumentEntry) => b.item.score - a.item.score
+
+// Header plus titled sections; empty sections are left out
+function renderSections(
+  document: ContextDocument,
+  sections: { title: string; entries: ContextDocumentEntry[] }[]
+): string {
+  const summarized = document.entries.filter(entry => entry.summary !== undefined).length
+  const header = [
+    `# Project context (${document.strategy})`,
+    `${document.entries.length - summarized} items in full, ${summarized} summarized, ${document.removedCount} omitted`
+  ].join('\n')
+
+  const body = sections
+    .filter(section => section.entries.length > 0)
+    .map(section => `## ${section.title}\n${section.entries.map(renderEntry).join('\n')}`)
+
+  return [header, ...body].join('\n\n')
+}
+
+const isDecision = (item: ScoredContextItem) =>
+  item.data.type === 'decision' || item.data.type === 'problem_solution'
+
+const preserveInsights: CompressionStrategyDefinition = {
+  name: 'preserve_insights',
+  preservationCriteria: ['insights', 'decisions', 'high-importance'],
+  score(item) {
+    let score = 0
+    const reasons: string[] = []
+    if (item.type === 'insight') {
+      score += 50
+      reasons.push('insight-item')
+    }
+    if (item.data.type === 'decision') {
+      score += 30
+      reasons.push('decision-type')
+    }
+    return { score, reasons }
+  },
+  render(document) {
+    const entries = [...document.entries].sort(byScore)
+    return renderSections(document, [
+      { title: 'Decisions', entries: entries.filter(e => isDecision(e.item)) },
+      { title: 'Insights', entries: entries.filter(e => e.item.type === 'insight' && !isDecision(e.item)) },
+      { title: 'Blocks', entries: entries.filter(e => e.item.type === 'block') },
+      { title: 'Background', entries: entries.filter(e => e.item.type === 'context_item' && !isDecision(e.item)) }
+    ])
+  }
+}
+
+const preserveRecent: CompressionStrategyDefinition = {
+  name: 'preserve_recent',
+  preservationCriteria: ['recent-activity', 'last-7-days', 'current-work'],
+  score(item, { now }) {
+    const days = daysSince(item.lastAccessed, now)
+    if (days < 7) return { score: 40, reasons: ['accessed-recently'] }
+    if (days < 30) return { score: 20, reasons: ['accessed-this-month'] }
+    return { score: 0, reasons: [] }
+  },
+  render(document) {
+    // Newest first, bucketed by age so Claude can tell current work from history
+    const now = new Date()
+    const entries = [...document.entries].sort(
+      (a, b) => new Date(b.item.lastAccessed).getTime() - new Date(a.item.lastAccessed).getTime()
+    )
+    const age = (entry: ContextDocumentEntry) => daysSince(entry.item.lastAccessed, now)
+    return renderSections(document, [
+      { title: 'This week', entries: entries.filter(e => age(e) < 7) },
+      { title: 'This month', entries: entries.filter(e => age(e) >= 7 && age(e) < 30) },
+      { title: 'Older', entries: entries.filter(e => age(e) >= 30) }
+    ])
+  }
+}
+
+const preserveImportant: CompressionStrategyDefinition = {
+  name: 'preserve_important',
+  preservationCriteria: ['urgent-blocks', 'in-progress', 'high-priority'],
+  score(item) {
+    let score = 0
+    const reasons: string[] = []
+    if (item.type === 'block') {
+      const block = item.data as Block
+      if (block.priority === 'urgent') {
+        score += 40
+        reasons.push('urgent-priority')
+      } else if (block.priority === 'high') {
+        score += 25
+        reasons.push('high-priority')
+      }
+      if (block.status === 'in_progress') {
+        score += 30
+        reasons.push('in-progress')
+      }
+    }
+    return { score, reasons }
+  },
+  render(document) {
+    const entries = [...document.entries].sort(byScore)
+    const blocks = entries.filter(e => e.item.type === 'block')
+    const status = (entry: ContextDocumentEntry) => (entry.item.data as Block).status
+    return renderSections(document, [
+      { title: 'In progress', entries: blocks.filter(e => status(e) === 'in_progress') },
+      { title: 'Blocked', entries: blocks.filter(e => status(e) === 'blocked') },
+      { title: 'Other blocks', entries: blocks.filter(e => status(e) !== 'in_progress' && status(e) !== 'blocked') },
+      { title: 'Supporting context', entries: entries.filter(e => e.item.type !== 'block') }
+    ])
+  }
+}
+
+const preserveRelationships: CompressionStrategyDefinition = {
+  name: 'preserve_relationships',
+  preservationCriteria: ['connected-items', 'dependencies', 'relationships'],
+  score(item) {
+    const count = item.relationships.length
+    const reasons: string[] = []
+    if (count > 3) reasons.push('highly-connected')
+    if (count > 0) reasons.push('has-relationships')
+    return { score: count * 5, reasons }
+  },
+  render(document) {
+    // Each block is followed by the kept items that point at it
+    const entries = [...document.entries].sort(byScore)
+    const blocks = entries.filter(e => e.item.type === 'block')
+    const attached = new Set<string>()
+
+    const clusters = blocks.map(block => {
+      const related = entries.filter(e =>
+        e.item.type !== 'block' && !attached.has(e.item.id) && e.item.relationships.includes(block.item.id)
+      )
+      related.forEach(e => attached.add(e.item.id))
+      return { title: `${itemTitle(block.item)} and related`, entries: [block, ...related] }
+    })
+
+    return renderSections(document, [
+      ...clusters,
+      { title: 'Unlinked', entries: entries.filter(e => e.item.type !== 'block' && !attached.has(e.item.id)) }
+    ])
+  }
+}
+
+const adaptive: CompressionStrategyDefinition = {
+  name: 'adaptive',
+  preservationCriteria: ['multi-factor', 'recency', 'importance', 'relationships', 'activity'],
+  score(item, { now }) {
+    let score = 0
+
+    // Recency factor (0-20 points)
+    score += Math.max(0, 20 - daysSince(item.lastAccessed, now) / 7)
+
+    // Relationship centrality (0-15 points)
+    score += Math.min(15, item.relationships.length * 3)
+
+    // Type-specific factors
+    if (item.type === 'insight') {
+      score += 15 // Insights are valuable
+      if (item.data.importance === 'high') score += 10
+    } else if (item.type === 'block') {
+      const block = item.data as Block
+      if (block.status === 'in_progress') score += 10
+      if (block.priority === 'urgent') score += 8
+      if (block.claude_sessions > 0) score += 5
+    }
+
+    // Content richness (longer content = more valuable)
+    score += Math.min(10, JSON.stringify(item.data).length / 1000)
+
+    return { score, reasons: ['adaptive-scoring'] }
+  },
+  render(document) {
+    const entries = [...document.entries].sort(byScore)
+    return renderSections(document, [
+      { title: 'Blocks', entries: entries.filter(e => e.item.type === 'block') },
+      { title: 'Insights', entries: entries.filter(e => e.item.type === 'insight') },
+      { title: 'Context', entries: entries.filter(e => e.item.type !== 'block' && e.item.type !== 'insight') }
+    ])
+  }
+}
+
+export const BUILT_IN_STRATEGIES: CompressionStrategyDefinition[] = [
+  preserveInsights,
+  preserveRecent,
+  preserveImportant,
+  preserveRelationships,
+  adaptive
+]
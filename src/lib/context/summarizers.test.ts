@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest'
+import { countTokens } from '@frizy/tokenizer'
+import type { ClaudeAPIService } from '../../services/claude/ClaudeAPIService'
+import { ClaudeSummarizer, ExtractiveSummarizer, type SummaryRequest } from './summarizers'
+
+const ITEM: SummaryRequest = {
+  id: 'context-1',
+  title: 'Login token refresh',
+  text: [
+    'Login retries fail when the refresh token has expired.',
+    'The dashboard colours were updated last sprint.',
+    'Marketing asked about the launch date again.',
+    'We decided that an expired refresh token triggers one silent login retry.',
+    'Unrelated cleanup removed some dead CSS.'
+  ].join(' '),
+  maxTokens: 30
+}
+
+const claudeReplying = (response: { content: string; model: string; stop_reason?: string }) => {
+  const sendMessage = vi.fn().mockResolvedValue(response)
+  return { claude: { sendMessage } as unknown as ClaudeAPIService, sendMessage }
+}
+
+describe('ExtractiveSummarizer', () => {
+  const summarizer = new ExtractiveSummarizer()
+
+  it('returns text that already fits unchanged', async () => {
+    expect(await summarizer.summarize({ ...ITEM, text: '  Short note.\n', maxTokens: 10 })).toBe('Short note.')
+    expect(await summarizer.summarize({ ...ITEM, text: '' })).toBe('')
+  })
+
+  it.each([1, 4, 12, 20, 30, 45])('keeps the summary within %i tokens', async maxTokens => {
+    const summary = await summarizer.summarize({ ...ITEM, maxTokens })
+
+    expect(summary).not.toBe('')
+    expect(countTokens(summary)).toBeLessThanOrEqual(maxTokens)
+  })
+
+  it('keeps the sentences about the title, in their original order', async () => {
+    const summary = await summarizer.summarize({ ...ITEM, maxTokens: 30 })
+
+    expect(summary).toBe(
+      'Login retries fail when the refresh token has expired. We decided that an expired refresh token triggers one silent login retry.'
+    )
+  })
+
+  it('favours the opening sentence over a slightly more relevant later one', async () => {
+    // The later sentence repeats every word of the first and adds one more
+    const first = 'Expired tokens break login retries.'
+    const later = 'Login retries break expired tokens again.'
+    const filler = 'The launch date moved. Marketing wants new colours. Someone removed dead CSS.'
+    // Room for either sentence, not both
+    const request = (text: string) => ({ ...ITEM, title: '', text, maxTokens: countTokens(later) })
+
+    expect(await summarizer.summarize(request(`${first} ${filler} ${later}`))).toBe(first)
+    expect(await summarizer.summarize(request(`${later} ${filler} ${first}`))).toBe(later)
+  })
+
+  it('cuts down the best sentence when no sentence fits whole', async () => {
+    const summary = await summarizer.summarize({ ...ITEM, maxTokens: 6 })
+
+    expect(summary).toBe('Login retries fail when the…')
+  })
+})
+
+describe('ClaudeSummarizer', () => {
+  it('returns the completion, cut to the token budget', async () => {
+    const { claude, sendMessage } = claudeReplying({
+      content: `  ${'Silent login retry on expired refresh tokens. '.repeat(10)}\n`,
+      model: 'claude-3-5-sonnet',
+      stop_reason: 'end_turn'
+    })
+
+    const summary = await new ClaudeSummarizer(claude).summarize(ITEM)
+
+    expect(summary).toMatch(/^Silent login retry/)
+    expect(countTokens(summary)).toBeLessThanOrEqual(ITEM.maxTokens)
+    expect(sendMessage.mock.calls[0][0][0].content).toContain('at most 30 tokens')
+    expect(sendMessage.mock.calls[0][0][0].content).toContain('Title: Login token refresh')
+  })
+
+  it.each([
+    ['a simulated reply', { content: 'I can help you with:', model: 'simulated-response', stop_reason: 'stop_sequence' }],
+    ['an API error', { content: 'I\'m currently unable to connect to the Claude API.', model: 'simulated', stop_reason: 'error' }],
+    ['an error from a real model', { content: 'Overloaded', model: 'claude-3-5-sonnet', stop_reason: 'error' }]
+  ])('falls back to the extractive summary on %s', async (_, response) => {
+    const { claude } = claudeReplying(response)
+
+    expect(await new ClaudeSummarizer(claude).summarize(ITEM)).toBe(await new ExtractiveSummarizer().summarize(ITEM))
+  })
+})
@@ -0,0 +1,113 @@
+// Summarizers for the context compression pipeline
+// Turn a low-scoring context item into a short summary instead of dropping it outright
+
+import { countTokens, truncateToTokens } from '@frizy/tokenizer'
+import { ClaudeAPIService } from '../../services/claude/ClaudeAPIService'
+
+export interface SummaryRequest {
+  id: string
+  title: string
+  text: string
+  maxTokens: number
+}
+
+export interface ContextSummarizer {
+  readonly name: string
+  summarize(request: SummaryRequest): Promise<string>
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'if',
+  'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'then', 'there',
+  'this', 'to', 'was', 'we', 'were', 'will', 'with'
+])
+
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+
+const contentWords = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9_]+/g) || []).filter(word => !STOP_WORDS.has(word))
+
+// Local extractive summarizer: keeps the sentences whose words are most frequent in the item,
+// favouring the opening sentence, and returns them in their original order
+export class ExtractiveSummarizer implements ContextSummarizer {
+  readonly name = 'extractive'
+
+  async summarize({ title, text, maxTokens }: SummaryRequest): Promise<string> {
+    const sentences = splitSentences(text)
+    if (sentences.length === 0) return ''
+    if (countTokens(text) <= maxTokens) return text.trim()
+
+    // Title words count double: they say what the item is about
+    const frequencies = new Map<string, number>()
+    const countWords = (words: string[], weight: number) =>
+      words.forEach(word => frequencies.set(word, (frequencies.get(word) || 0) + weight))
+    countWords(contentWords(text), 1)
+    countWords(contentWords(title), 2)
+
+    const ranked = sentences
+      .map((sentence, index) => {
+        const words = contentWords(sentence)
+        const weight = words.reduce((sum, word) => sum + (frequencies.get(word) || 0), 0)
+        const score = words.length > 0 ? weight / Math.sqrt(words.length) : 0
+        return { sentence, index, tokens: countTokens(sentence), score: index === 0 ? score * 1.5 : score }
+      })
+      .sort((a, b) => b.score - a.score)
+
+    const picked: typeof ranked = []
+    let used = 0
+    for (const candidate of ranked) {
+      // Joining sentences with a space costs at most one token each
+      const added = candidate.tokens + (picked.length > 0 ? 1 : 0)
+      if (used + added > maxTokens) continue
+      picked.push(candidate)
+      used += added
+    }
+
+    // Nothing fits whole: fall back to the best sentence, cut down
+    if (picked.length === 0) {
+      return truncateToTokens(ranked[0].sentence, maxTokens)
+    }
+
+    return picked
+      .sort((a, b) => a.index - b.index)
+      .map(candidate => candidate.sentence)
+      .join(' ')
+  }
+}
+
+// Abstractive summaries from Claude; falls back to the extractive summarizer whenever
+// the API does not return a real completion
+export class ClaudeSummarizer implements ContextSummarizer {
+  readonly name = 'claude'
+  private fallback = new ExtractiveSummarizer()
+
+  constructor(private claude: ClaudeAPIService = new ClaudeAPIService()) {}
+
+  async summarize(request: SummaryRequest): Promise<string> {
+    const response = await this.claude.sendMessage(
+      [
+        {
+          role: 'user',
+          content: `Summarize this project context item in at most ${request.maxTokens} tokens. Keep decisions, blockers and concrete next steps. Reply with the summary only.\n\nTitle: ${request.title}\n\n${request.text}`
+        }
+      ],
+      'You compress project context for a coding assistant. Be terse and factual.'
+    )
+
+    if (response.stop_reason === 'error' || response.model.startsWith('simulated')) {
+      return this.fallback.summarize(request)
+    }
+
+    return truncateToTokens(response.content.trim(), request.maxTokens)
+  }
+}
+
+// Claude when an API key is configured, the local extractive summarizer otherwise
+export function createDefaultSummarizer(): ContextSummarizer {
+  const claude = new ClaudeAPIService()
+  return claude.isConfigured() ? new ClaudeSummarizer(claude) : new ExtractiveSummarizer()
+}
@@ -340,6 +340,53 @@ export interface Database {
           search_vector?: unknown | null
         }
       }
+      relationships: {
+        Row: {
+          id: string
+          project_id: string | null
+          source_id: string
+          source_type: string
+          target_id: string
+          target_type: string
+          relationship_type: string
+          strength: string
+          confidence: number
+          metadata: Json
+          version: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          project_id?: string | null
+          source_id: string
+          source_type: string
+          target_id: string
+          target_type: string
+          relationship_type: string
+          strength?: string
+          confidence?: number
+          metadata?: Json
+          version?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          project_id?: string | null
+          source_id?: string
+          source_type?: string
+          target_id?: string
+          target_type?: string
+          relationship_type?: string
+          strength?: string
+          confidence?: number
+          metadata?: Json
+          version?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -396,6 +443,9 @@ export type ContextItem = Database['public']['Tables']['context_items']['Row']
 export type ContextItemInsert = Database['public']['Tables']['context_items']['Insert']
 export type ContextItemUpdate = Database['public']['Tables']['context_items']['Update']
 
+export type RelationshipRow = Database['public']['Tables']['relationships']['Row']
+export type RelationshipInsert = Database['public']['Tables']['relationships']['Insert']
+
 // Extended types with relationships
 export type ProjectWithStats = Project & {
   total_blocks: number
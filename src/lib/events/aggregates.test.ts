@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { FakeSupabase } from '../../test/fake-supabase'
+import { supabase } from '../supabase'
+import { eventStore } from './event-store'
+import type { DomainEvent } from './event-store'
+import { AggregateRepository, blockReducer, foldEvents, projectReducer, relationshipReducer } from './aggregates'
+import type { BlockState } from './aggregates'
+
+vi.mock('../supabase', async () => {
+  const { FakeSupabase } = await import('../../test/fake-supabase')
+  return {
+    supabase: new FakeSupabase({
+      unique: { events: [['aggregate_id', 'version']], snapshots: [['aggregate_id']] }
+    })
+  }
+})
+
+const db = supabase as unknown as FakeSupabase
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111'
+const BLOCK_ID = '22222222-2222-4222-8222-222222222222'
+
+let version = 0
+const event = (type: string, data: any, aggregateId = BLOCK_ID): DomainEvent => {
+  version++
+  return {
+    id: `event-${version}`,
+    type,
+    aggregateId,
+    aggregateType: 'block',
+    version,
+    timestamp: `2024-05-01T10:00:${String(version).padStart(2, '0')}.000Z`,
+    data
+  } as DomainEvent
+}
+
+const blockCreated = () =>
+  event('BlockCreated', { projectId: PROJECT_ID, title: 'Login form', lane: 'next', priority: 'high', tags: ['auth'] })
+
+describe('reducers', () => {
+  beforeEach(() => {
+    version = 0
+  })
+
+  it('folds a block through its lifecycle', () => {
+    const events = [
+      blockCreated(),
+      event('BlockMoved', { fromLane: 'next', toLane: 'current' }),
+      event('BlockUpdated', { changes: { progress: 60, energy_level: 'high', unknown_column: 'x' } }),
+      event('BlockCompleted', { changes: { progress: 100 } })
+    ]
+
+    expect(foldEvents(blockReducer, events)).toEqual({
+      id: BLOCK_ID,
+      projectId: PROJECT_ID,
+      createdBy: undefined,
+      title: 'Login form',
+      content: '',
+      lane: 'current',
+      status: 'completed',
+      progress: 100,
+      priority: 'high',
+      energyLevel: 'high',
+      complexity: undefined,
+      tags: ['auth'],
+      lastWorked: null,
+      isArchived: false,
+      createdAt: '2024-05-01T10:00:01.000Z',
+      updatedAt: '2024-05-01T10:00:04.000Z'
+    })
+  })
+
+  it('marks an archived block and ignores events before a block exists', () => {
+    const moved = event('BlockMoved', { fromLane: 'next', toLane: 'current' })
+    expect(blockReducer(null, moved)).toBeNull()
+
+    const archived = foldEvents(blockReducer, [blockCreated(), event('BlockArchived', {})])
+    expect(archived).toMatchObject({ isArchived: true, updatedAt: '2024-05-01T10:00:03.000Z' })
+  })
+
+  it('continues from an initial state', () => {
+    const initial = foldEvents(blockReducer, [blockCreated()]) as BlockState
+
+    const state = foldEvents(blockReducer, [event('BlockUpdated', { changes: { title: 'Signup form' } })], initial)
+
+    expect(state).toMatchObject({ title: 'Signup form', lane: 'next' })
+  })
+
+  it('folds project updates and archiving', () => {
+    const state = foldEvents(projectReducer, [
+      event('ProjectCreated', { name: 'Frizy' }, PROJECT_ID),
+      event('ProjectUpdated', { newState: { name: 'Frizy 2', is_active: false }, changes: { settings: { theme: 'dark' } } }, PROJECT_ID),
+      event('ProjectArchived', {}, PROJECT_ID)
+    ])
+
+    expect(state).toMatchObject({
+      id: PROJECT_ID,
+      name: 'Frizy 2',
+      description: null,
+      settings: { theme: 'dark' },
+      isActive: false,
+      isArchived: true
+    })
+  })
+
+  it('keeps relationship fields an update leaves out', () => {
+    const state = foldEvents(relationshipReducer, [
+      event('RelationshipCreated', {
+        sourceId: 'a',
+        sourceType: 'block',
+        targetId: 'b',
+        targetType: 'block',
+        relationshipType: 'depends_on',
+        strength: 'weak',
+        confidence: 0.4
+      }, 'relationship-1'),
+      event('RelationshipUpdated', { strength: 'strong' }, 'relationship-1')
+    ])
+
+    expect(state).toMatchObject({ sourceId: 'a', targetId: 'b', strength: 'strong', confidence: 0.4 })
+  })
+})
+
+describe('AggregateRepository', () => {
+  const repository = new AggregateRepository(3)
+
+  const append = (type: any, data: any) => eventStore.appendEvent(BLOCK_ID, 'block', type, data)
+  const progress = async (...values: number[]) => {
+    for (const value of values) await append('BlockUpdated', { changes: { progress: value } })
+  }
+  const snapshots = () => db.rows('snapshots')
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    db.reset()
+    await append('BlockCreated', { projectId: PROJECT_ID, title: 'Login form', lane: 'next', priority: 'high' })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('snapshots the head once enough events accumulate and starts later loads from it', async () => {
+    await progress(10)
+    expect(await repository.loadBlock(BLOCK_ID)).toMatchObject({ version: 2, fromSnapshot: false })
+    expect(snapshots()).toHaveLength(0)
+
+    await progress(20)
+    await repository.loadBlock(BLOCK_ID)
+    expect(snapshots()).toMatchObject([{ aggregate_id: BLOCK_ID, version: 3, state: { progress: 20 } }])
+
+    await progress(30)
+    const fromVersion = vi.spyOn(eventStore, 'getEventsForAggregate')
+    expect(await repository.loadBlock(BLOCK_ID)).toMatchObject({ version: 4, fromSnapshot: true, state: { progress: 30 } })
+    expect(fromVersion).toHaveBeenCalledWith(BLOCK_ID, 4)
+  })
+
+  it('replaces the snapshot of an aggregate rather than adding another', async () => {
+    await progress(10, 20)
+    await repository.loadBlock(BLOCK_ID)
+    await progress(30, 40, 50)
+    await repository.loadBlock(BLOCK_ID)
+
+    expect(snapshots()).toMatchObject([{ aggregate_id: BLOCK_ID, version: 6, state: { progress: 50 } }])
+  })
+
+  it('loads a historical version without a later snapshot and without snapshotting it', async () => {
+    await progress(10, 20, 30, 40)
+    await repository.loadBlock(BLOCK_ID)
+
+    const past = await repository.load<BlockState>(BLOCK_ID, 'block', 2)
+
+    expect(past).toMatchObject({ version: 2, fromSnapshot: false, state: { progress: 10 } })
+    expect(snapshots()).toMatchObject([{ version: 5 }])
+  })
+
+  describe('loadStreams', () => {
+    const streams = async () => new Map([[BLOCK_ID, await eventStore.getEventsForAggregate(BLOCK_ID)]])
+
+    it('folds only the events after each snapshot, with one snapshot lookup for all streams', async () => {
+      await progress(10, 20)
+      await repository.loadBlock(BLOCK_ID)
+      // The snapshot says something the log does not, so starting from it is visible
+      snapshots()[0].state.title = 'From snapshot'
+      await progress(30)
+      const lookups = vi.spyOn(eventStore, 'getSnapshots')
+
+      const loaded = await repository.loadStreams<BlockState>('block', await streams())
+
+      expect(lookups).toHaveBeenCalledTimes(1)
+      expect(loaded.get(BLOCK_ID)).toMatchObject({
+        version: 4,
+        fromSnapshot: true,
+        state: { title: 'From snapshot', progress: 30 }
+      })
+    })
+
+    it('replays the whole stream when the snapshot is ahead of it', async () => {
+      snapshots().push({ aggregate_id: BLOCK_ID, aggregate_type: 'block', version: 9, state: { title: 'Stale' } })
+
+      const loaded = await repository.loadStreams<BlockState>('block', await streams())
+
+      expect(loaded.get(BLOCK_ID)).toMatchObject({ version: 1, fromSnapshot: false, state: { title: 'Login form' } })
+    })
+
+    it('takes snapshots only when asked to', async () => {
+      await progress(10, 20, 30)
+
+      await repository.loadStreams('block', await streams(), { takeSnapshots: false })
+      expect(snapshots()).toHaveLength(0)
+
+      await repository.loadStreams('block', await streams())
+      expect(snapshots()).toMatchObject([{ version: 4 }])
+    })
+  })
+})
@@ -0,0 +1,351 @@
+// Aggregate rehydration for Frizy
+// Folds event streams back into project, block, session and relationship state
+
+import { eventStore } from './event-store'
+import type { BaseEvent, DomainEvent } from './event-store'
+
+// Take a snapshot once this many events have accumulated past the last one
+export const DEFAULT_SNAPSHOT_INTERVAL = 50
+
+export type AggregateType = 'project' | 'block' | 'session' | 'relationship'
+
+export interface ProjectState {
+  id: string
+  userId?: string
+  name: string
+  description?: string | null
+  mood?: string | null
+  settings: any
+  isActive: boolean
+  isArchived: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface BlockState {
+  id: string
+  projectId: string
+  createdBy?: string
+  title: string
+  content: string
+  lane: string
+  status: string
+  progress: number
+  priority: string
+  energyLevel: string
+  complexity: string
+  tags: string[]
+  lastWorked?: string | null
+  isArchived: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SessionState {
+  id: string
+  projectId: string
+  sessionId: string
+  userId?: string
+  mcpStatus: string
+  contextAtStart: any
+  contextAtEnd?: any
+  durationMinutes?: number
+  insights: string[]
+  achievements: string[]
+  nextSteps: string[]
+  activityCount: number
+  startedAt: string
+  endedAt?: string
+}
+
+export interface RelationshipState {
+  id: string
+  sourceId: string
+  sourceType: string
+  targetId: string
+  targetType: string
+  relationshipType: string
+  strength: string
+  confidence?: number
+  projectId?: string
+  metadata?: any
+  createdAt: string
+  updatedAt: string
+}
+
+// A reducer folds one event into aggregate state; state is null until the creation event
+export type AggregateReducer<S> = (state: S | null, event: DomainEvent) => S | null
+
+// Fields of BlockUpdated changes that map onto BlockState
+const BLOCK_FIELD_MAP: Record<string, keyof BlockState> = {
+  title: 'title',
+  content: 'content',
+  lane: 'lane',
+  status: 'status',
+  progress: 'progress',
+  priority: 'priority',
+  energy_level: 'energyLevel',
+  complexity: 'complexity',
+  tags: 'tags',
+  last_worked: 'lastWorked'
+}
+
+export const projectReducer: AggregateReducer<ProjectState> = (state, event) => {
+  switch (event.type) {
+    case 'ProjectCreated':
+      return {
+        id: event.aggregateId,
+        userId: event.metadata?.userId ?? event.userId,
+        name: event.data.name,
+        description: event.data.description ?? null,
+        mood: event.data.mood ?? null,
+        settings: event.data.settings ?? {},
+        isActive: true,
+        isArchived: false,
+        createdAt: event.metadata?.createdAt ?? event.timestamp,
+        updatedAt: event.timestamp
+      }
+    case 'ProjectUpdated':
+      if (!state) return state
+      return {
+        ...state,
+        name: event.data.newState.name ?? state.name,
+        description: event.data.newState.description ?? state.description,
+        mood: event.data.newState.mood ?? state.mood,
+        isActive: event.data.newState.is_active ?? state.isActive,
+        settings: event.data.changes.settings ?? state.settings,
+        updatedAt: event.timestamp
+      }
+    default:
+      if (state && (event as BaseEvent).type === 'ProjectArchived') {
+        return { ...state, isArchived: true, isActive: false, updatedAt: event.timestamp }
+      }
+      return state
+  }
+}
+
+export const blockReducer: AggregateReducer<BlockState> = (state, event) => {
+  switch (event.type) {
+    case 'BlockCreated':
+      return {
+        id: event.aggregateId,
+        projectId: event.data.projectId,
+        createdBy: event.metadata?.createdBy ?? event.userId,
+        title: event.data.title,
+        content: event.data.content ?? '',
+        lane: event.data.lane,
+        status: 'not_started',
+        progress: 0,
+        priority: event.data.priority,
+        energyLevel: event.data.energyLevel,
+        complexity: event.data.complexity,
+        tags: event.data.tags ?? [],
+        lastWorked: null,
+        isArchived: false,
+        createdAt: event.metadata?.createdAt ?? event.timestamp,
+        updatedAt: event.timestamp
+      }
+    case 'BlockMoved':
+      if (!state) return state
+      return { ...state, lane: event.data.toLane, updatedAt: event.timestamp }
+    case 'BlockUpdated':
+    case 'BlockCompleted': {
+      if (!state) return state
+      const next: BlockState = { ...state, updatedAt: event.timestamp }
+      for (const [column, value] of Object.entries(event.data.changes ?? {})) {
+        const field = BLOCK_FIELD_MAP[column]
+        if (field) (next as any)[field] = value
+      }
+      if (event.type === 'BlockCompleted') next.status = 'completed'
+      return next
+    }
+    default:
+      if (state && (event as BaseEvent).type === 'BlockArchived') {
+        return { ...state, isArchived: true, updatedAt: event.timestamp }
+      }
+      return state
+  }
+}
+
+export const sessionReducer: AggregateReducer<SessionState> = (state, event) => {
+  switch (event.type) {
+    case 'SessionStarted':
+      return {
+        id: event.aggregateId,
+        projectId: event.data.projectId,
+        sessionId: event.data.sessionId,
+        userId: event.metadata?.userId ?? event.userId,
+        mcpStatus: event.data.mcpStatus,
+        contextAtStart: event.data.contextAtStart,
+        insights: [],
+        achievements: [],
+        nextSteps: [],
+        activityCount: 0,
+        startedAt: event.metadata?.startedAt ?? event.timestamp
+      }
+    case 'SessionEnded':
+      if (!state) return state
+      return {
+        ...state,
+        contextAtEnd: event.data.contextAtEnd,
+        durationMinutes: event.data.duration,
+        insights: event.data.insights ?? state.insights,
+        achievements: event.data.achievements ?? state.achievements,
+        nextSteps: event.data.nextSteps ?? state.nextSteps,
+        mcpStatus: event.metadata?.mcpStatus ?? state.mcpStatus,
+        endedAt: event.metadata?.endedAt ?? event.timestamp
+      }
+    default:
+      if (state && (event as BaseEvent).type === 'SessionActivityTracked') {
+        return { ...state, activityCount: state.activityCount + 1 }
+      }
+      return state
+  }
+}
+
+export const relationshipReducer: AggregateReducer<RelationshipState> = (state, event) => {
+  switch (event.type) {
+    case 'RelationshipCreated':
+      return {
+        id: event.aggregateId,
+        sourceId: event.data.sourceId,
+        sourceType: event.data.sourceType,
+        targetId: event.data.targetId,
+        targetType: event.data.targetType,
+        relationshipType: event.data.relationshipType,
+        strength: event.data.strength,
+        confidence: event.data.confidence,
+        projectId: event.data.projectId,
+        metadata: event.data.metadata,
+        createdAt: event.timestamp,
+        updatedAt: event.timestamp
+      }
+    case 'RelationshipUpdated':
+      if (!state) return state
+      return {
+        ...state,
+        strength: event.data.strength ?? state.strength,
+        confidence: event.data.confidence ?? state.confidence,
+        metadata: event.data.metadata ?? state.metadata,
+        updatedAt: event.timestamp
+      }
+    default:
+      return state
+  }
+}
+
+export const AGGREGATE_REDUCERS: { [K in AggregateType]: AggregateReducer<any> } = {
+  project: projectReducer,
+  block: blockReducer,
+  session: sessionReducer,
+  relationship: relationshipReducer
+}
+
+// Fold a list of events (in version order) onto an initial state
+export function foldEvents<S>(
+  reducer: AggregateReducer<S>,
+  events: BaseEvent[],
+  initialState: S | null = null
+): S | null {
+  return events.reduce<S | null>(
+    (state, event) => reducer(state, event as DomainEvent),
+    initialState
+  )
+}
+
+export interface RehydratedAggregate<S> {
+  state: S | null
+  version: number
+  fromSnapshot: boolean
+}
+
+// Loads aggregates from their latest snapshot plus the events appended since
+export class AggregateRepository {
+  constructor(private snapshotInterval: number = DEFAULT_SNAPSHOT_INTERVAL) {}
+
+  async load<S>(
+    aggregateId: string,
+    aggregateType: AggregateType,
+    toVersion?: number
+  ): Promise<RehydratedAggregate<S>> {
+    // Snapshots only help when they are at or before the requested version
+    const snapshot = await eventStore.getSnapshot(aggregateId)
+    const usableSnapshot =
+      snapshot && (toVersion === undefined || snapshot.version <= toVersion) ? snapshot : null
+
+    const snapshotVersion: number = usableSnapshot?.version ?? 0
+    const events = await eventStore.getEventsForAggregate(aggregateId, snapshotVersion + 1)
+    const pending = toVersion === undefined
+      ? events
+      : events.filter(event => event.version <= toVersion)
+
+    // Only snapshot the head of the stream, never a historical view
+    return this.rehydrate<S>(aggregateId, aggregateType, usableSnapshot, pending, toVersion === undefined)
+  }
+
+  // Rehydrate many aggregates from event streams already in hand (full streams in version order),
+  // with one batched snapshot lookup instead of a query per aggregate
+  async loadStreams<S>(
+    aggregateType: AggregateType,
+    streams: Map<string, BaseEvent[]>,
+    options: { takeSnapshots?: boolean } = {}
+  ): Promise<Map<string, RehydratedAggregate<S>>> {
+    const snapshots = new Map<string, any>()
+    const rows = await eventStore.getSnapshots(Array.from(streams.keys()))
+    rows.forEach(row => snapshots.set(row.aggregate_id, row))
+
+    const loaded = new Map<string, RehydratedAggregate<S>>()
+    for (const [aggregateId, stream] of streams) {
+      // A snapshot ahead of the log it was taken from is stale, so the stream is replayed instead
+      const snapshot = snapshots.get(aggregateId)
+      const head = stream.length > 0 ? stream[stream.length - 1].version : 0
+      const usableSnapshot = snapshot && snapshot.version <= head ? snapshot : null
+
+      const pending = stream.filter(event => event.version > (usableSnapshot?.version ?? 0))
+      loaded.set(
+        aggregateId,
+        await this.rehydrate<S>(aggregateId, aggregateType, usableSnapshot, pending, options.takeSnapshots ?? true)
+      )
+    }
+    return loaded
+  }
+
+  private async rehydrate<S>(
+    aggregateId: string,
+    aggregateType: AggregateType,
+    snapshot: { version: number; state: S } | null,
+    pending: BaseEvent[],
+    takeSnapshot: boolean
+  ): Promise<RehydratedAggregate<S>> {
+    const reducer = AGGREGATE_REDUCERS[aggregateType] as AggregateReducer<S>
+    const snapshotVersion = snapshot?.version ?? 0
+
+    const state = foldEvents(reducer, pending, snapshot?.state ?? null)
+    const version = pending.length > 0 ? pending[pending.length - 1].version : snapshotVersion
+
+    if (takeSnapshot && state && version - snapshotVersion >= this.snapshotInterval) {
+      await eventStore.createSnapshot(aggregateId, aggregateType, state, version)
+    }
+
+    return { state, version, fromSnapshot: Boolean(snapshot) }
+  }
+
+  async loadBlock(blockId: string): Promise<RehydratedAggregate<BlockState>> {
+    return this.load<BlockState>(blockId, 'block')
+  }
+
+  async loadProject(projectId: string): Promise<RehydratedAggregate<ProjectState>> {
+    return this.load<ProjectState>(projectId, 'project')
+  }
+
+  async loadSession(sessionId: string): Promise<RehydratedAggregate<SessionState>> {
+    return this.load<SessionState>(sessionId, 'session')
+  }
+
+  async loadRelationship(relationshipId: string): Promise<RehydratedAggregate<RelationshipState>> {
+    return this.load<RelationshipState>(relationshipId, 'relationship')
+  }
+}
+
+// Singleton repository instance
+export const aggregateRepository = new AggregateRepository()
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { FakeSupabase } from '../../test/fake-supabase'
+import { supabase } from '../supabase'
+import { eventStore, ConcurrencyConflictError } from './event-store'
+import { eventSourcedBlockService } from './event-sourced-services'
+
+vi.mock('../supabase', async () => {
+  const { FakeSupabase } = await import('../../test/fake-supabase')
+  return { supabase: new FakeSupabase({ unique: { events: [['aggregate_id', 'version']] } }) }
+})
+
+const db = supabase as unknown as FakeSupabase
+
+const BLOCK_ID = '22222222-2222-4222-8222-222222222222'
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111'
+
+const events = () => db.rows('events').filter(row => row.aggregate_id === BLOCK_ID)
+const lastEvent = () => events()[events().length - 1]
+const block = () => db.rows('blocks').find(row => row.id === BLOCK_ID)
+
+// Another writer's change, appended straight to the log and applied to the read model
+async function concurrentUpdate(changes: Record<string, any>) {
+  await eventStore.appendEvent(BLOCK_ID, 'block', 'BlockUpdated', { projectId: PROJECT_ID, changes })
+  Object.assign(block()!, changes)
+}
+
+describe('eventSourcedBlockService', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    db.reset()
+    db.rows('blocks').push({
+      id: BLOCK_ID,
+      project_id: PROJECT_ID,
+      title: 'Login form',
+      content: '',
+      lane: 'current',
+      status: 'not_started',
+      progress: 0,
+      priority: 'medium'
+    })
+    await eventStore.appendEvent(BLOCK_ID, 'block', 'BlockCreated', {
+      projectId: PROJECT_ID,
+      title: 'Login form',
+      lane: 'current',
+      priority: 'medium'
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('rejects an append against a stale expected version', async () => {
+    await concurrentUpdate({ title: 'Signup form' })
+
+    await expect(eventStore.appendEvent(BLOCK_ID, 'block', 'BlockMoved', { toLane: 'next' }, undefined, 1))
+      .rejects.toMatchObject({ name: 'ConcurrencyConflictError', expectedVersion: 1, actualVersion: 2 })
+    expect(events()).toHaveLength(2)
+  })
+
+  it('maps a unique violation from a racing writer to a concurrency conflict', async () => {
+    // The other writer takes version 2 after this one read version 1
+    await concurrentUpdate({ title: 'Signup form' })
+    vi.spyOn(eventStore, 'getAggregateVersion').mockResolvedValueOnce(1)
+
+    const append = eventStore.appendEvent(BLOCK_ID, 'block', 'BlockMoved', { toLane: 'next' })
+
+    await expect(append).rejects.toBeInstanceOf(ConcurrencyConflictError)
+    await expect(append).rejects.toMatchObject({ expectedVersion: 1, actualVersion: 2 })
+  })
+
+  it('rebases a write onto intervening events that touched other fields', async () => {
+    await concurrentUpdate({ title: 'Signup form' })
+
+    const result = await eventSourcedBlockService.moveBlock(BLOCK_ID, 'next', 'user_action', { expectedVersion: 1 })
+
+    expect(result.error).toBeNull()
+    expect(result.data).toMatchObject({ lane: 'next', title: 'Signup form' })
+    expect(events().map(event => [event.version, event.type])).toEqual([
+      [1, 'BlockCreated'],
+      [2, 'BlockUpdated'],
+      [3, 'BlockMoved']
+    ])
+  })
+
+  it('rebases when another writer appends between the read and the append', async () => {
+    const append = eventStore.appendEvent.bind(eventStore)
+    vi.spyOn(eventStore, 'appendEvent').mockImplementationOnce(async (...args) => {
+      await concurrentUpdate({ title: 'Signup form' })
+      return append(...args)
+    })
+
+    const result = await eventSourcedBlockService.updateBlock(BLOCK_ID, { progress: 40 })
+
+    expect(result.error).toBeNull()
+    expect(result.data).toMatchObject({ progress: 40, title: 'Signup form' })
+    expect(lastEvent()).toMatchObject({ version: 3, data: { changes: { progress: 40 } } })
+  })
+
+  it('refuses to rebase over intervening events that touched the same fields', async () => {
+    await concurrentUpdate({ title: 'Signup form' })
+
+    const result = await eventSourcedBlockService.updateBlock(BLOCK_ID, { title: 'Login page' }, { expectedVersion: 1 })
+
+    expect(result).toEqual({
+      data: null,
+      error: 'Concurrency conflict on 22222222-2222-4222-8222-222222222222: expected version 1, current version 2'
+    })
+    expect(events()).toHaveLength(2)
+    expect(block()!.title).toBe('Signup form')
+  })
+
+  it('repairs the read model from the log when its write fails after the append', async () => {
+    db.failNext('blocks', 'update', { code: '57014', message: 'statement timeout' })
+
+    const result = await eventSourcedBlockService.moveBlock(BLOCK_ID, 'next')
+
+    expect(result.error).toBeNull()
+    expect(result.data).toMatchObject({ id: BLOCK_ID, lane: 'next' })
+  })
+
+  it('reports a read model it could not repair', async () => {
+    db.failNext('blocks', 'update', { code: '57014', message: 'statement timeout' })
+    db.failNext('blocks', 'upsert', { code: '57014', message: 'statement timeout' })
+
+    const result = await eventSourcedBlockService.moveBlock(BLOCK_ID, 'next')
+
+    expect(result.data).toBeNull()
+    expect(result.error).toContain('statement timeout; repair failed: statement timeout')
+    expect(lastEvent().type).toBe('BlockMoved')
+  })
+})
@@ -1,7 +1,9 @@
 // Event-sourced service layer
 // Wraps existing database operations with event sourcing
 
-import { eventStore, createEvent } from './event-store'
+import { eventStore, createEvent, ConcurrencyConflictError } from './event-store'
+import { rebuildBlockReadModel } from './read-model-rebuild'
+import type { BaseEvent } from './event-store'
 import { blockService, projectService, sessionService, contextItemService } from '../database'
 import type { 
   Project, 
@@ -101,8 +103,106 @@ export const eventSourcedProjectService = {
   ...projectService
 }
 
+// Options for block writes made against a possibly stale view of the block
+export interface BlockWriteOptions {
+  // Aggregate version the caller's view was built from; omit to write against the latest version
+  expectedVersion?: number
+  // How many times to rebase onto newer versions before giving up
+  maxRetries?: number
+}
+
+const DEFAULT_MAX_REBASE_RETRIES = 3
+
+// Block fields written by an event, used to tell whether two concurrent writes collide
+function blockFieldsTouchedBy(event: BaseEvent): string[] {
+  switch (event.type) {
+    case 'BlockMoved':
+      return ['lane']
+    case 'BlockUpdated':
+    case 'BlockCompleted':
+      return Object.keys(event.data?.changes || {})
+    default:
+      return []
+  }
+}
+
+// Run a block write with optimistic concurrency. When other writers got in first, the
+// intervening events are inspected: if they touched none of the fields this write changes
+// the write is rebased onto the new version and retried, otherwise the conflict is raised
+// so the caller can reload instead of silently overwriting someone else's edit.
+async function withBlockRebase<T>(
+  blockId: string,
+  fields: string[],
+  options: BlockWriteOptions | undefined,
+  write: (block: Block, version: number) => Promise<ApiResponse<T>>
+): Promise<ApiResponse<T>> {
+  const maxRetries = options?.maxRetries ?? DEFAULT_MAX_REBASE_RETRIES
+  let baseVersion = options?.expectedVersion
+
+  for (let attempt = 0; ; attempt++) {
+    const currentVersion = await eventStore.getAggregateVersion(blockId)
+
+    if (baseVersion !== undefined && baseVersion < currentVersion) {
+      const intervening = await eventStore.getEventsForAggregate(blockId, baseVersion + 1)
+      const collides = intervening.some(event =>
+        blockFieldsTouchedBy(event).some(field => fields.includes(field))
+      )
+      if (collides) {
+        throw new ConcurrencyConflictError(blockId, baseVersion, currentVersion)
+      }
+    }
+
+    const currentResult = await blockService.getBlock(blockId)
+    if (currentResult.error || !currentResult.data) {
+      return { data: null, error: currentResult.error }
+    }
+
+    try {
+      return await write(currentResult.data, currentVersion)
+    } catch (error) {
+      if (!(error instanceof ConcurrencyConflictError) || attempt >= maxRetries) {
+        throw error
+      }
+      // Someone appended between our read and write; rebase onto what we last saw
+      baseVersion = currentVersion
+    }
+  }
+}
+
+// Apply a block write to the read model after its event is already in the log. A failed write is
+// repaired by replaying the block's events; if that fails too the divergence is reported, not dropped.
+async function syncBlockReadModel(
+  blockId: string,
+  write: () => Promise<ApiResponse<Block>>
+): Promise<ApiResponse<Block>> {
+  const result = await write()
+  if (!result.error && result.data) {
+    return result
+  }
+
+  let rebuildError: string | null = null
+  try {
+    await rebuildBlockReadModel(blockId)
+    const rebuilt = await blockService.getBlock(blockId)
+    if (!rebuilt.error && rebuilt.data) {
+      return rebuilt
+    }
+    rebuildError = rebuilt.error
+  } catch (error: any) {
+    rebuildError = error.message
+  }
+
+  return {
+    data: null,
+    error: `Block ${blockId} change was recorded but the read model is out of date (${result.error}; repair failed: ${rebuildError}); rebuild the project read model`
+  }
+}
+
 // Event-sourced block service
 export const eventSourcedBlockService = {
+  // Delegate other methods to existing service; spread first so the overrides below win
+  ...blockService,
+
   async createBlock(block: BlockInsert): Promise<ApiResponse<Block>> {
     try {
       // Create block using existing service
@@ -138,105 +238,92 @@ export const eventSourcedBlockService = {
     }
   },
 
-  async moveBlock(id: string, newLane: string): Promise<ApiResponse<Block>> {
+  async moveBlock(
+    id: string,
+    newLane: string,
+    reason: string = 'user_action',
+    options?: BlockWriteOptions
+  ): Promise<ApiResponse<Block>> {
     try {
-      // Get current block state
-      const currentResult = await blockService.getBlock(id)
-      if (currentResult.error || !currentResult.data) {
-        return currentResult
-      }
-
-      const currentBlock = currentResult.data
-
-      // Move block using existing service
-      const result = await blockService.moveBlock(id, newLane)
-      if (result.error || !result.data) {
-        return result
-      }
-
-      // Append event
-      await eventStore.appendEvent(
-        id,
-        'block',
-        'BlockMoved',
-        {
-          projectId: currentBlock.project_id,
-          fromLane: currentBlock.lane,
-          toLane: newLane,
-          reason: 'user_action'
-        },
-        {
-          movedAt: result.data.updated_at,
-          previousStatus: currentBlock.status,
-          newStatus: result.data.status
-        }
-      )
+      return await withBlockRebase(id, ['lane'], options, async (currentBlock, version) => {
+        // Append first so a stale move is rejected before it touches the read model
+        await eventStore.appendEvent(
+          id,
+          'block',
+          'BlockMoved',
+          {
+            projectId: currentBlock.project_id,
+            fromLane: currentBlock.lane,
+            toLane: newLane,
+            reason
+          },
+          {
+            movedAt: new Date().toISOString(),
+            previousStatus: currentBlock.status,
+            // Moving between lanes leaves status alone
+            newStatus: currentBlock.status
+          },
+          version
+        )
 
-      return result
+        return syncBlockReadModel(id, () => blockService.moveBlock(id, newLane))
+      })
     } catch (error: any) {
       return { data: null, error: error.message }
     }
   },
 
-  async updateBlock(id: string, updates: BlockUpdate): Promise<ApiResponse<Block>> {
+  async updateBlock(
+    id: string,
+    updates: BlockUpdate,
+    options?: BlockWriteOptions
+  ): Promise<ApiResponse<Block>> {
     try {
-      // Get current state
-      const currentResult = await blockService.getBlock(id)
-      if (currentResult.error || !currentResult.data) {
-        return currentResult
-      }
-
-      const currentBlock = currentResult.data
-
-      // Update block using existing service
-      const result = await blockService.updateBlock(id, updates)
-      if (result.error || !result.data) {
-        return result
-      }
-
-      // Determine event type based on changes
-      let eventType: 'BlockUpdated' | 'BlockCompleted' = 'BlockUpdated'
-      if (updates.status === 'completed' && currentBlock.status !== 'completed') {
-        eventType = 'BlockCompleted'
-      }
+      return await withBlockRebase(id, Object.keys(updates), options, async (currentBlock, version) => {
+        // Determine event type based on changes
+        let eventType: 'BlockUpdated' | 'BlockCompleted' = 'BlockUpdated'
+        if (updates.status === 'completed' && currentBlock.status !== 'completed') {
+          eventType = 'BlockCompleted'
+        }
 
-      // Append event
-      await eventStore.appendEvent(
-        id,
-        'block',
-        eventType,
-        {
-          projectId: currentBlock.project_id,
-          changes: updates,
-          previousState: {
-            title: currentBlock.title,
-            content: currentBlock.content,
-            status: currentBlock.status,
-            progress: currentBlock.progress,
-            priority: currentBlock.priority
+        const newState = { ...currentBlock, ...updates }
+
+        // Append first so a stale update is rejected before it touches the read model
+        await eventStore.appendEvent(
+          id,
+          'block',
+          eventType,
+          {
+            projectId: currentBlock.project_id,
+            changes: updates,
+            previousState: {
+              title: currentBlock.title,
+              content: currentBlock.content,
+              status: currentBlock.status,
+              progress: currentBlock.progress,
+              priority: currentBlock.priority
+            },
+            newState: {
+              title: newState.title,
+              content: newState.content,
+              status: newState.status,
+              progress: newState.progress,
+              priority: newState.priority
+            }
           },
-          newState: {
-            title: result.data.title,
-            content: result.data.content,
-            status: result.data.status,
-            progress: result.data.progress,
-            priority: result.data.priority
-          }
-        },
-        {
-          updatedAt: result.data.updated_at,
-          lastWorked: result.data.last_worked
-        }
-      )
+          {
+            updatedAt: new Date().toISOString(),
+            lastWorked: newState.last_worked
+          },
+          version
+        )
 
-      return result
+        return syncBlockReadModel(id, () => blockService.updateBlock(id, updates))
+      })
     } catch (error: any) {
       return { data: null, error: error.message }
     }
-  },
-
-  // Delegate other methods to existing service
-  ...blockService
+  }
 }
 
 // Event-sourced session service
@@ -500,7 +587,7 @@ export const eventAnalyticsService = {
     }
   },
 
-  private getEventDescription(event: any): string {
+  getEventDescription(event: any): string {
     switch (event.type) {
       case 'ProjectCreated':
         return `Created project "${event.data.name}"`
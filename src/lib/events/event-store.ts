@@ -64,6 +64,30 @@ export interface BlockCreatedEvent extends BaseEvent {
   }
 }
 
+export interface ProjectUpdatedEvent extends BaseEvent {
+  type: 'ProjectUpdated'
+  data: {
+    changes: Record<string, any>
+    previousState: Record<string, any>
+    newState: {
+      name: string
+      description?: string | null
+      mood?: string | null
+      is_active: boolean
+    }
+  }
+}
+
+export interface BlockUpdatedEvent extends BaseEvent {
+  type: 'BlockUpdated' | 'BlockCompleted'
+  data: {
+    projectId: string
+    changes: Record<string, any>
+    previousState: Record<string, any>
+    newState: Record<string, any>
+  }
+}
+
 export interface BlockMovedEvent extends BaseEvent {
   type: 'BlockMoved'
   data: {
@@ -84,6 +108,19 @@ export interface SessionStartedEvent extends BaseEvent {
   }
 }
 
+export interface SessionEndedEvent extends BaseEvent {
+  type: 'SessionEnded'
+  data: {
+    projectId: string
+    sessionId: string
+    contextAtEnd?: any
+    duration?: number
+    insights?: string[]
+    achievements?: string[]
+    nextSteps?: string[]
+  }
+}
+
 export interface InsightCapturedEvent extends BaseEvent {
   type: 'InsightCaptured'
   data: {
@@ -119,7 +156,19 @@ export interface RelationshipCreatedEvent extends BaseEvent {
     targetId: string
     targetType: string
     relationshipType: string
-    strength: number
+    strength: string
+    confidence?: number
+    projectId?: string
+    metadata?: any
+  }
+}
+
+export interface RelationshipUpdatedEvent extends BaseEvent {
+  type: 'RelationshipUpdated'
+  data: {
+    projectId?: string
+    strength?: string
+    confidence?: number
     metadata?: any
   }
 }
@@ -127,12 +176,37 @@ export interface RelationshipCreatedEvent extends BaseEvent {
 // Union type for all events
 export type DomainEvent = 
   | ProjectCreatedEvent
+  | ProjectUpdatedEvent
   | BlockCreatedEvent
+  | BlockUpdatedEvent
   | BlockMovedEvent
   | SessionStartedEvent
+  | SessionEndedEvent
   | InsightCapturedEvent
   | ContextCompressedEvent
   | RelationshipCreatedEvent
+  | RelationshipUpdatedEvent
+
+// Raised when an append was based on a stale aggregate version
+export class ConcurrencyConflictError extends Error {
+  readonly aggregateId: string
+  readonly expectedVersion: number
+  readonly actualVersion: number
+
+  constructor(aggregateId: string, expectedVersion: number, actualVersion: number) {
+    super(`Concurrency conflict on ${aggregateId}: expected version ${expectedVersion}, current version ${actualVersion}`)
+    this.name = 'ConcurrencyConflictError'
+    this.aggregateId = aggregateId
+    this.expectedVersion = expectedVersion
+    this.actualVersion = actualVersion
+  }
+}
+
+// Postgres unique_violation, raised when two writers race for the same (aggregate_id, version)
+const UNIQUE_VIOLATION = '23505'
+
+// Ids per .in() filter; PostgREST sends them in the URL, which a large project would overflow
+const SNAPSHOT_BATCH_SIZE = 200
 
 // Event store implementation
 export class EventStore {
@@ -170,20 +244,11 @@ export class EventStore {
       // Get current user
       const { data: { user } } = await supabase.auth.getUser()
       
-      // Get current version for optimistic concurrency
-      const { data: lastEvent } = await supabase
-        .from('events')
-        .select('version')
-        .eq('aggregate_id', aggregateId)
-        .order('version', { ascending: false })
-        .limit(1)
-        .single()
+      const currentVersion = await this.getAggregateVersion(aggregateId)
 
-      const currentVersion = lastEvent?.version || 0
-      
       // Check expected version for optimistic concurrency
       if (expectedVersion !== undefined && currentVersion !== expectedVersion) {
-        throw new Error(`Concurrency conflict: expected version ${expectedVersion}, current version ${currentVersion}`)
+        throw new ConcurrencyConflictError(aggregateId, expectedVersion, currentVersion)
       }
 
       const event: BaseEvent = {
@@ -198,7 +263,7 @@ export class EventStore {
         userId: user?.id
       }
 
-      const { data: savedEvent, error } = await supabase
+      const { error } = await supabase
         .from('events')
         .insert({
           id: event.id,
@@ -214,7 +279,17 @@ export class EventStore {
         .select()
         .single()
 
-      if (error) throw error
+      if (error) {
+        // Another writer took this version between our read and insert
+        if (error.code === UNIQUE_VIOLATION) {
+          throw new ConcurrencyConflictError(
+            aggregateId,
+            expectedVersion ?? currentVersion,
+            await this.getAggregateVersion(aggregateId)
+          )
+        }
+        throw error
+      }
 
       // Publish event for real-time subscribers
       await this.publishEvent(event)
@@ -226,6 +301,21 @@ export class EventStore {
     }
   }
 
+  // Get current version of an aggregate (0 when it has no events yet)
+  async getAggregateVersion(aggregateId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('events')
+      .select('version')
+      .eq('aggregate_id', aggregateId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return data?.version || 0
+  }
+
   // Get events for aggregate
   async getEventsForAggregate(
     aggregateId: string,
@@ -424,7 +514,8 @@ export class EventStore {
     version: number
   ): Promise<void> {
     try {
-      await supabase
+      // One snapshot row per aggregate, replaced as the stream grows
+      const { error } = await supabase
         .from('snapshots')
         .upsert({
           aggregate_id: aggregateId,
@@ -432,7 +523,9 @@ export class EventStore {
           version,
           state,
           created_at: new Date().toISOString()
-        })
+        }, { onConflict: 'aggregate_id' })
+
+      if (error) throw error
     } catch (error) {
       console.error('Failed to create snapshot:', error)
       throw error
@@ -458,6 +551,31 @@ export class EventStore {
       throw error
     }
   }
+
+  // Get the latest snapshot of each of several aggregates, one query per batch of ids
+  async getSnapshots(aggregateIds: string[]): Promise<any[]> {
+    const latest = new Map<string, any>()
+
+    try {
+      for (let start = 0; start < aggregateIds.length; start += SNAPSHOT_BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from('snapshots')
+          .select('*')
+          .in('aggregate_id', aggregateIds.slice(start, start + SNAPSHOT_BATCH_SIZE))
+          .order('version', { ascending: true })
+
+        if (error) throw error
+
+        // Ascending order, so the newest snapshot of each aggregate is the one left standing
+        for (const row of (data || []) as any[]) latest.set(row.aggregate_id, row)
+      }
+
+      return Array.from(latest.values())
+    } catch (error) {
+      console.error('Failed to get snapshots:', error)
+      throw error
+    }
+  }
 }
 
 // Event store helpers
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { FakeSupabase } from '../../test/fake-supabase'
+import { supabase } from '../supabase'
+import { eventStore } from './event-store'
+import { aggregateRepository, DEFAULT_SNAPSHOT_INTERVAL } from './aggregates'
+import { rebuildBlockReadModel, rebuildReadModel } from './read-model-rebuild'
+
+vi.mock('../supabase', async () => {
+  const { FakeSupabase } = await import('../../test/fake-supabase')
+  return {
+    supabase: new FakeSupabase({
+      unique: {
+        events: [['aggregate_id', 'version']],
+        snapshots: [['aggregate_id']],
+        relationships: [['source_id', 'target_id', 'relationship_type']]
+      }
+    })
+  }
+})
+
+const db = supabase as unknown as FakeSupabase
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111'
+const LOGIN = '22222222-2222-4222-8222-222222222222'
+const SEARCH = '33333333-3333-4333-8333-333333333333'
+const AGGREGATES = [PROJECT_ID, LOGIN, SEARCH, 'relationship-1']
+
+const append = (aggregateId: string, aggregateType: string, type: any, data: any) =>
+  eventStore.appendEvent(aggregateId, aggregateType, type, data)
+
+const createBlock = (blockId: string, title: string) =>
+  append(blockId, 'block', 'BlockCreated', { projectId: PROJECT_ID, title, lane: 'next', priority: 'medium' })
+
+const row = (table: string, id: string) => db.rows(table).find(candidate => candidate.id === id)
+
+describe('read model rebuild', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    db.reset()
+
+    // The project log, read the way getProjectEvents returns it
+    vi.spyOn(eventStore, 'getProjectEvents').mockImplementation(async () => {
+      const streams = await Promise.all(AGGREGATES.map(id => eventStore.getEventsForAggregate(id)))
+      return streams.flat().sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    })
+
+    await append(PROJECT_ID, 'project', 'ProjectCreated', { name: 'Frizy' })
+    await createBlock(LOGIN, 'Login form')
+    await append(LOGIN, 'block', 'BlockMoved', { fromLane: 'next', toLane: 'current' })
+    await createBlock(SEARCH, 'Search')
+    await append(SEARCH, 'block', 'BlockArchived', {})
+    await append('relationship-1', 'relationship', 'RelationshipCreated', {
+      sourceId: LOGIN,
+      sourceType: 'block',
+      targetId: SEARCH,
+      targetType: 'block',
+      relationshipType: 'depends_on',
+      strength: 'strong',
+      projectId: PROJECT_ID
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('rebuildReadModel', () => {
+    it('rewrites the project, live blocks and relationships and drops archived blocks', async () => {
+      db.rows('blocks').push({ id: LOGIN, project_id: PROJECT_ID, title: 'Drifted', lane: 'vision' })
+      db.rows('blocks').push({ id: SEARCH, project_id: PROJECT_ID, title: 'Search', lane: 'next' })
+
+      const report = await rebuildReadModel(PROJECT_ID)
+
+      expect(report).toEqual({
+        projectId: PROJECT_ID,
+        eventsReplayed: 6,
+        projectRebuilt: true,
+        blocksRebuilt: 1,
+        blocksArchived: 1,
+        relationshipsRebuilt: 1,
+        orphansRemoved: 0,
+        dryRun: false
+      })
+      expect(row('projects', PROJECT_ID)).toMatchObject({ name: 'Frizy', is_archived: false })
+      expect(row('blocks', LOGIN)).toMatchObject({ title: 'Login form', lane: 'current' })
+      expect(row('blocks', SEARCH)).toBeUndefined()
+      expect(db.rows('relationships')).toMatchObject([{ source_id: LOGIN, target_id: SEARCH, version: 1 }])
+    })
+
+    it('prunes block rows with no event history when asked to', async () => {
+      db.rows('blocks').push({ id: 'orphan', project_id: PROJECT_ID, title: 'Made outside the log' })
+
+      const report = await rebuildReadModel(PROJECT_ID, { pruneOrphans: true })
+
+      expect(report.orphansRemoved).toBe(1)
+      expect(db.rows('blocks').map(block => block.id)).toEqual([LOGIN])
+    })
+
+    it('rehydrates through the repository, starting from block snapshots', async () => {
+      const loadStreams = vi.spyOn(aggregateRepository, 'loadStreams')
+      db.rows('snapshots').push({
+        aggregate_id: LOGIN,
+        aggregate_type: 'block',
+        version: 1,
+        state: { id: LOGIN, projectId: PROJECT_ID, title: 'Login form (snapshot)', lane: 'next', isArchived: false },
+        created_at: '2024-05-01T10:00:00.000Z'
+      })
+
+      await rebuildReadModel(PROJECT_ID)
+
+      expect(loadStreams.mock.calls.map(([type]) => type)).toEqual(['project', 'block'])
+      expect(row('blocks', LOGIN)).toMatchObject({ title: 'Login form (snapshot)', lane: 'current' })
+    })
+
+    it('snapshots long streams, except on a dry run which writes nothing', async () => {
+      for (let progress = 1; progress <= DEFAULT_SNAPSHOT_INTERVAL; progress++) {
+        await append(LOGIN, 'block', 'BlockUpdated', { changes: { progress } })
+      }
+
+      const dryRun = await rebuildReadModel(PROJECT_ID, { dryRun: true })
+      expect(dryRun).toMatchObject({ dryRun: true, projectRebuilt: true, blocksRebuilt: 1, blocksArchived: 1 })
+      expect(db.rows('snapshots')).toHaveLength(0)
+      expect(db.rows('blocks')).toHaveLength(0)
+      expect(db.rows('projects')).toHaveLength(0)
+
+      await rebuildReadModel(PROJECT_ID)
+      expect(db.rows('snapshots')).toMatchObject([{ aggregate_id: LOGIN, version: DEFAULT_SNAPSHOT_INTERVAL + 2 }])
+    })
+  })
+
+  describe('rebuildBlockReadModel', () => {
+    it('rewrites a block row from the block loaded through the repository', async () => {
+      const loadBlock = vi.spyOn(aggregateRepository, 'loadBlock')
+      db.rows('blocks').push({ id: LOGIN, project_id: PROJECT_ID, title: 'Login form', lane: 'next' })
+
+      const block = await rebuildBlockReadModel(LOGIN)
+
+      expect(loadBlock).toHaveBeenCalledWith(LOGIN)
+      expect(block).toMatchObject({ lane: 'current' })
+      expect(row('blocks', LOGIN)).toMatchObject({ lane: 'current' })
+    })
+
+    it('deletes the row of an archived block and ignores a block with no events', async () => {
+      db.rows('blocks').push({ id: SEARCH, project_id: PROJECT_ID, title: 'Search', lane: 'next' })
+
+      expect(await rebuildBlockReadModel(SEARCH)).toMatchObject({ isArchived: true })
+      expect(row('blocks', SEARCH)).toBeUndefined()
+      expect(await rebuildBlockReadModel('unknown-block')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,184 @@
+// Read model rebuild for Frizy
+// Regenerates the blocks, projects and relationships tables from the event log to recover from projection drift
+
+import { supabase } from '../supabase'
+import { eventStore } from './event-store'
+import type { BaseEvent } from './event-store'
+import { aggregateRepository } from './aggregates'
+import type { BlockState, ProjectState } from './aggregates'
+import { relationshipRowsFromEvents, writeRelationshipRows } from '../graph/relationship-projection'
+
+export interface RebuildOptions {
+  // Delete block rows in the project that have no event history (created outside event sourcing)
+  pruneOrphans?: boolean
+  // Report what would change without writing
+  dryRun?: boolean
+}
+
+export interface RebuildReport {
+  projectId: string
+  eventsReplayed: number
+  projectRebuilt: boolean
+  blocksRebuilt: number
+  blocksArchived: number
+  relationshipsRebuilt: number
+  orphansRemoved: number
+  dryRun: boolean
+}
+
+// Group events by aggregate, keeping version order within each stream
+function groupByAggregate(events: BaseEvent[], aggregateType: string): Map<string, BaseEvent[]> {
+  const streams = new Map<string, BaseEvent[]>()
+  events
+    .filter(event => event.aggregateType === aggregateType)
+    .forEach(event => {
+      const stream = streams.get(event.aggregateId) || []
+      stream.push(event)
+      streams.set(event.aggregateId, stream)
+    })
+  streams.forEach(stream => stream.sort((a, b) => a.version - b.version))
+  return streams
+}
+
+function toProjectRow(state: ProjectState) {
+  return {
+    id: state.id,
+    user_id: state.userId,
+    name: state.name,
+    description: state.description,
+    mood: state.mood,
+    settings: state.settings,
+    is_active: state.isActive,
+    is_archived: state.isArchived,
+    created_at: state.createdAt,
+    updated_at: state.updatedAt
+  }
+}
+
+function toBlockRow(state: BlockState) {
+  return {
+    id: state.id,
+    project_id: state.projectId,
+    created_by: state.createdBy,
+    title: state.title,
+    content: state.content,
+    lane: state.lane,
+    status: state.status,
+    progress: state.progress,
+    priority: state.priority,
+    energy_level: state.energyLevel,
+    complexity: state.complexity,
+    tags: state.tags,
+    last_worked: state.lastWorked,
+    created_at: state.createdAt,
+    updated_at: state.updatedAt
+  }
+}
+
+// Rebuild the project row and all of its block rows from the event log. Aggregates are rehydrated
+// through the repository, starting from snapshots that do not run ahead of the log.
+export async function rebuildReadModel(
+  projectId: string,
+  options: RebuildOptions = {}
+): Promise<RebuildReport> {
+  const events = await eventStore.getProjectEvents(projectId)
+
+  const report: RebuildReport = {
+    projectId,
+    eventsReplayed: events.length,
+    projectRebuilt: false,
+    blocksRebuilt: 0,
+    blocksArchived: 0,
+    relationshipsRebuilt: 0,
+    orphansRemoved: 0,
+    dryRun: Boolean(options.dryRun)
+  }
+
+  // A dry run writes nothing, snapshots included
+  const takeSnapshots = !options.dryRun
+  const projectStreams = new Map<string, BaseEvent[]>()
+  const projectStream = groupByAggregate(events, 'project').get(projectId)
+  if (projectStream) projectStreams.set(projectId, projectStream)
+
+  const projects = await aggregateRepository.loadStreams<ProjectState>('project', projectStreams, { takeSnapshots })
+  const project = projects.get(projectId)?.state ?? null
+
+  const blocks: BlockState[] = []
+  const loadedBlocks = await aggregateRepository.loadStreams<BlockState>(
+    'block',
+    groupByAggregate(events, 'block'),
+    { takeSnapshots }
+  )
+  loadedBlocks.forEach(({ state }) => {
+    if (state) blocks.push(state)
+  })
+
+  const liveBlocks = blocks.filter(block => !block.isArchived)
+  const archivedBlocks = blocks.filter(block => block.isArchived)
+  const relationships = relationshipRowsFromEvents(events)
+
+  if (options.dryRun) {
+    report.projectRebuilt = Boolean(project)
+    report.blocksRebuilt = liveBlocks.length
+    report.blocksArchived = archivedBlocks.length
+    report.relationshipsRebuilt = relationships.length
+    return report
+  }
+
+  if (project) {
+    const { error } = await supabase.from('projects').upsert(toProjectRow(project) as any)
+    if (error) throw error
+    report.projectRebuilt = true
+  }
+
+  if (liveBlocks.length > 0) {
+    const { error } = await supabase.from('blocks').upsert(liveBlocks.map(toBlockRow) as any)
+    if (error) throw error
+    report.blocksRebuilt = liveBlocks.length
+  }
+
+  if (archivedBlocks.length > 0) {
+    const { error } = await supabase
+      .from('blocks')
+      .delete()
+      .in('id', archivedBlocks.map(block => block.id))
+    if (error) throw error
+    report.blocksArchived = archivedBlocks.length
+  }
+
+  await writeRelationshipRows(relationships)
+  report.relationshipsRebuilt = relationships.length
+
+  if (options.pruneOrphans) {
+    const knownIds = new Set(blocks.map(block => block.id))
+    const { data: existing, error } = await supabase
+      .from('blocks')
+      .select('id')
+      .eq('project_id', projectId)
+    if (error) throw error
+
+    const orphanIds = (existing || [])
+      .map((row: { id: string }) => row.id)
+      .filter(id => !knownIds.has(id))
+
+    if (orphanIds.length > 0) {
+      const { error: deleteError } = await supabase.from('blocks').delete().in('id', orphanIds)
+      if (deleteError) throw deleteError
+      report.orphansRemoved = orphanIds.length
+    }
+  }
+
+  return report
+}
+
+// Rewrite a single block row from its event stream, for when a read-model write failed after its event was appended
+export async function rebuildBlockReadModel(blockId: string): Promise<BlockState | null> {
+  const { state: block } = await aggregateRepository.loadBlock(blockId)
+  if (!block) return null
+
+  const { error } = block.isArchived
+    ? await supabase.from('blocks').delete().eq('id', blockId)
+    : await supabase.from('blocks').upsert(toBlockRow(block) as any)
+  if (error) throw error
+  return block
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { FakeSupabase } from '../../test/fake-supabase'
+import { supabase } from '../supabase'
+import { eventStore } from './event-store'
+import type { BaseEvent } from './event-store'
+import { boardAt, laneChangesBetween, loadBoardHistory } from './time-travel'
+
+vi.mock('../supabase', async () => {
+  const { FakeSupabase } = await import('../../test/fake-supabase')
+  return { supabase: new FakeSupabase() }
+})
+
+const db = supabase as unknown as FakeSupabase
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111'
+const LOGIN = 'block-login'
+const SEARCH = 'block-search'
+const BILLING = 'block-billing'
+
+const at = (hour: number) => `2024-05-01T${String(hour).padStart(2, '0')}:00:00.000Z`
+
+let log: BaseEvent[] = []
+
+function record(aggregateId: string, hour: number, type: string, data: any) {
+  const version = log.filter(event => event.aggregateId === aggregateId).length + 1
+  log.push({ id: `${aggregateId}-${version}`, type, aggregateId, aggregateType: 'block', version, timestamp: at(hour), data })
+}
+
+const created = (blockId: string, hour: number, title: string, lane: string) =>
+  record(blockId, hour, 'BlockCreated', { projectId: PROJECT_ID, title, lane, priority: 'medium' })
+
+const moved = (blockId: string, hour: number, fromLane: string, toLane: string, reason?: string) =>
+  record(blockId, hour, 'BlockMoved', { fromLane, toLane, reason })
+
+const titles = (blocks: { title: string }[]) => blocks.map(block => block.title).sort()
+
+describe('time travel', () => {
+  beforeEach(() => {
+    db.reset()
+    log = []
+    created(LOGIN, 1, 'Login form', 'next')
+    created(SEARCH, 2, 'Search', 'next')
+    moved(LOGIN, 3, 'next', 'current', 'picked up')
+    created(BILLING, 4, 'Billing', 'goals')
+    moved(SEARCH, 5, 'next', 'current')
+    moved(LOGIN, 6, 'current', 'context', 'shipped')
+    record(SEARCH, 7, 'BlockArchived', {})
+
+    vi.spyOn(eventStore, 'getProjectEvents').mockImplementation(async () => log)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('boardAt', () => {
+    it('places each block in the lane it was in at the time', async () => {
+      const history = await loadBoardHistory(PROJECT_ID)
+
+      const board = boardAt(history, at(3))
+
+      expect(titles(board.current)).toEqual(['Login form'])
+      expect(titles(board.next)).toEqual(['Search'])
+      expect(board.goals).toEqual([])
+      expect(history).toMatchObject({ startedAt: at(1), endedAt: at(7) })
+    })
+
+    it('leaves out blocks created later and blocks archived by then', async () => {
+      const history = await loadBoardHistory(PROJECT_ID)
+
+      expect(Object.values(boardAt(history, at(0))).flat()).toEqual([])
+      const board = boardAt(history, at(7))
+      expect(titles(board.context)).toEqual(['Login form'])
+      expect(titles(board.goals)).toEqual(['Billing'])
+      expect(board.current).toEqual([])
+    })
+
+    it('starts from a snapshot taken before the time and replays the log otherwise', async () => {
+      db.rows('snapshots').push({
+        aggregate_id: LOGIN,
+        aggregate_type: 'block',
+        version: 2,
+        state: { id: LOGIN, title: 'Login form (snapshot)', lane: 'current', isArchived: false },
+        created_at: at(4)
+      })
+      const history = await loadBoardHistory(PROJECT_ID)
+
+      expect(titles(boardAt(history, at(5)).current)).toEqual(['Login form (snapshot)', 'Search'])
+      expect(titles(boardAt(history, at(3)).current)).toEqual(['Login form'])
+    })
+
+    it('uses the newest snapshot of a block whatever order the rows come back in', async () => {
+      const snapshot = (version: number, title: string) => ({
+        aggregate_id: LOGIN,
+        aggregate_type: 'block',
+        version,
+        state: { id: LOGIN, title, lane: 'current', isArchived: false },
+        created_at: at(4)
+      })
+      db.rows('snapshots').push(snapshot(2, 'Newest'), snapshot(1, 'Oldest'))
+
+      const history = await loadBoardHistory(PROJECT_ID)
+
+      expect(history.snapshots.get(LOGIN)).toMatchObject({ version: 2, state: { title: 'Newest' } })
+    })
+
+    it('fetches the snapshots of a large project in batches', async () => {
+      const blockIds = Array.from({ length: 450 }, (_, i) => `block-${i}`)
+      blockIds.forEach(blockId => created(blockId, 8, blockId, 'current'))
+
+      const history = await loadBoardHistory(PROJECT_ID)
+
+      expect(db.inFilters.map(filter => filter.size)).toEqual([200, 200, 53])
+      expect(boardAt(history, at(8)).current).toHaveLength(450)
+    })
+  })
+
+  describe('laneChangesBetween', () => {
+    it('explains each lane change in the window with its moves, oldest first', async () => {
+      const history = await loadBoardHistory(PROJECT_ID)
+
+      const changes = laneChangesBetween(history, at(2), at(6))
+
+      expect(changes.map(change => [change.blockId, change.fromLane, change.toLane])).toEqual([
+        [SEARCH, 'next', 'current'],
+        [LOGIN, 'next', 'context']
+      ])
+      expect(changes[1].moves).toMatchObject([
+        { eventId: `${LOGIN}-2`, fromLane: 'next', toLane: 'current', reason: 'picked up', movedAt: at(3) },
+        { eventId: `${LOGIN}-3`, fromLane: 'current', toLane: 'context', reason: 'shipped', movedAt: at(6) }
+      ])
+    })
+
+    it('excludes moves made exactly at the start of the window and includes those at the end', async () => {
+      const history = await loadBoardHistory(PROJECT_ID)
+
+      const changes = laneChangesBetween(history, at(3), at(5))
+
+      expect(changes.map(change => change.blockId)).toEqual([SEARCH])
+    })
+
+    it('reports blocks created or archived within the window without a lane on that side', async () => {
+      created(BILLING + '-2', 8, 'Invoices', 'next')
+      moved(BILLING + '-2', 9, 'next', 'current')
+      const history = await loadBoardHistory(PROJECT_ID)
+
+      const changes = laneChangesBetween(history, at(4), at(9))
+
+      expect(changes.map(change => [change.title, change.fromLane, change.toLane])).toEqual([
+        ['Search', 'next', null],
+        ['Login form', 'current', 'context'],
+        ['Invoices', null, 'current']
+      ])
+    })
+
+    it('accepts the window bounds in either order', async () => {
+      const history = await loadBoardHistory(PROJECT_ID)
+
+      expect(laneChangesBetween(history, at(6), at(2))).toEqual(laneChangesBetween(history, at(2), at(6)))
+      expect(laneChangesBetween(history, at(7), at(9))).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,157 @@
+// Time travel over the project event log
+// Rebuilds the swim lane board as it was at any past timestamp and explains lane moves between two points
+
+import { eventStore } from './event-store'
+import type { BaseEvent, BlockMovedEvent } from './event-store'
+import { blockReducer, foldEvents } from './aggregates'
+import type { BlockState } from './aggregates'
+import type { BlockLaneType } from '../database.types'
+
+const BOARD_LANES: BlockLaneType[] = ['vision', 'goals', 'current', 'next', 'context']
+
+export type BoardState = Record<BlockLaneType, BlockState[]>
+
+interface BlockSnapshot {
+  version: number
+  state: BlockState
+  createdAt: string
+}
+
+// Everything needed to render the board at any point, loaded once per project
+export interface BoardHistory {
+  projectId: string
+  streams: Map<string, BaseEvent[]>
+  snapshots: Map<string, BlockSnapshot>
+  startedAt: string | null
+  endedAt: string | null
+}
+
+export interface LaneMove {
+  eventId: string
+  blockId: string
+  fromLane: string
+  toLane: string
+  reason?: string
+  movedAt: string
+  userId?: string
+}
+
+export interface BlockLaneChange {
+  blockId: string
+  title: string
+  // Lane at the start of the window, null if the block did not exist yet
+  fromLane: string | null
+  // Lane at the end of the window, null if the block was archived in between
+  toLane: string | null
+  moves: LaneMove[]
+}
+
+const toTime = (timestamp: string) => new Date(timestamp).getTime()
+
+// Load block event streams and their snapshots for a project
+export async function loadBoardHistory(projectId: string): Promise<BoardHistory> {
+  const events = await eventStore.getProjectEvents(projectId)
+
+  const streams = new Map<string, BaseEvent[]>()
+  events
+    .filter(event => event.aggregateType === 'block')
+    .forEach(event => {
+      const stream = streams.get(event.aggregateId) || []
+      stream.push(event)
+      streams.set(event.aggregateId, stream)
+    })
+  streams.forEach(stream => stream.sort((a, b) => a.version - b.version))
+
+  const snapshots = new Map<string, BlockSnapshot>()
+  const rows = await eventStore.getSnapshots(Array.from(streams.keys()))
+  rows.forEach(row => {
+    snapshots.set(row.aggregate_id, {
+      version: row.version,
+      state: row.state,
+      createdAt: row.created_at
+    })
+  })
+
+  return {
+    projectId,
+    streams,
+    snapshots,
+    startedAt: events.length > 0 ? events[0].timestamp : null,
+    endedAt: events.length > 0 ? events[events.length - 1].timestamp : null
+  }
+}
+
+// State of a single block at a timestamp, starting from its snapshot when it predates that time
+function blockAt(history: BoardHistory, blockId: string, at: number): BlockState | null {
+  const stream = history.streams.get(blockId) || []
+  const snapshot = history.snapshots.get(blockId)
+  const usable = snapshot && toTime(snapshot.createdAt) <= at ? snapshot : null
+
+  const pending = stream.filter(event =>
+    event.version > (usable?.version ?? 0) && toTime(event.timestamp) <= at
+  )
+
+  return foldEvents(blockReducer, pending, usable?.state ?? null)
+}
+
+// The board exactly as it was at the given timestamp
+export function boardAt(history: BoardHistory, at: string): BoardState {
+  const time = toTime(at)
+  const board = Object.fromEntries(BOARD_LANES.map(lane => [lane, []])) as unknown as BoardState
+
+  history.streams.forEach((_, blockId) => {
+    const block = blockAt(history, blockId, time)
+    if (!block || block.isArchived) return
+
+    const lane = block.lane as BlockLaneType
+    if (board[lane]) board[lane].push(block)
+  })
+
+  return board
+}
+
+// Blocks that moved lanes within (from, to], each with the BlockMoved events that explain it
+export function laneChangesBetween(
+  history: BoardHistory,
+  from: string,
+  to: string
+): BlockLaneChange[] {
+  const start = Math.min(toTime(from), toTime(to))
+  const end = Math.max(toTime(from), toTime(to))
+  const changes: BlockLaneChange[] = []
+
+  history.streams.forEach((stream, blockId) => {
+    const moves: LaneMove[] = stream
+      .filter(event => event.type === 'BlockMoved')
+      .filter(event => toTime(event.timestamp) > start && toTime(event.timestamp) <= end)
+      .map(event => {
+        const moved = event as BlockMovedEvent
+        return {
+          eventId: moved.id,
+          blockId,
+          fromLane: moved.data.fromLane,
+          toLane: moved.data.toLane,
+          reason: moved.data.reason,
+          movedAt: moved.timestamp,
+          userId: moved.userId
+        }
+      })
+
+    if (moves.length === 0) return
+
+    const before = blockAt(history, blockId, start)
+    const after = blockAt(history, blockId, end)
+
+    changes.push({
+      blockId,
+      title: after?.title ?? before?.title ?? blockId,
+      fromLane: before ? before.lane : null,
+      toLane: after && !after.isArchived ? after.lane : null,
+      moves
+    })
+  })
+
+  return changes.sort((a, b) =>
+    toTime(a.moves[a.moves.length - 1].movedAt) - toTime(b.moves[b.moves.length - 1].movedAt)
+  )
+}
@@ -2,6 +2,9 @@
 // Integrates all components of the Frizy Build Guide v2.0
 
 import { eventStore } from './events/event-store'
+import { aggregateRepository } from './events/aggregates'
+import { rebuildReadModel } from './events/read-model-rebuild'
+import type { RebuildOptions, RebuildReport } from './events/read-model-rebuild'
 import { 
   eventSourcedProjectService,
   eventSourcedBlockService,
@@ -173,6 +176,8 @@ export class FrizyCore {
   ): Promise<{
     sessionId: string
     context: any
+    // Rendered compressed context document, null when compression is off
+    compressedContext: string | null
     suggestions: any[]
     activeCollaborators: any[]
   }> {
@@ -187,7 +192,8 @@ export class FrizyCore {
       })
 
       // Get project context with compression if needed
-      let context = sessionResult.context
+      const context = sessionResult.context
+      let compressedContext: string | null = null
       if (this.config.enableContextCompression && options.compressionLevel !== 'none') {
         const compressionResult = await compressionPipeline.compressProjectContext(
           projectId,
@@ -198,7 +204,8 @@ export class FrizyCore {
         )
         
         // Update context with compressed version
-        console.log(`📦 Context compressed: ${compressionResult.compressionRatio.toFixed(2)}x ratio`)
+        compressedContext = compressionResult.renderedContext
+        console.log(`📦 Context compressed: ${compressionResult.compressionRatio.toFixed(2)}x ratio, ${compressionResult.summarizedItems.length} items summarized`)
       }
 
       // Get AI suggestions
@@ -218,6 +225,7 @@ export class FrizyCore {
       return {
         sessionId: sessionResult.sessionId,
         context,
+        compressedContext,
         suggestions,
         activeCollaborators
       }
@@ -375,6 +383,22 @@ export class FrizyCore {
     }
   }
 
+  // Regenerate the blocks, projects and relationships tables for a project from its event log
+  async rebuildProjectReadModel(
+    projectId: string,
+    options: RebuildOptions = {}
+  ): Promise<RebuildReport> {
+    try {
+      console.log(`🔁 Rebuilding read model for project ${projectId}...`)
+      const report = await rebuildReadModel(projectId, options)
+      console.log(`✅ Rebuilt ${report.blocksRebuilt} blocks and ${report.relationshipsRebuilt} relationships from ${report.eventsReplayed} events`)
+      return report
+    } catch (error: any) {
+      console.error(`❌ Failed to rebuild read model for project ${projectId}:`, error)
+      throw error
+    }
+  }
+
   // Health check for all Frizy systems
   async healthCheck(): Promise<{
     status: 'healthy' | 'degraded' | 'unhealthy'
@@ -432,9 +456,9 @@ export class FrizyCore {
   // Helper methods
   private getCompressionTargetSize(level: 'light' | 'aggressive'): number {
     switch (level) {
-      case 'light': return 100000 // 100KB
-      case 'aggressive': return 50000 // 50KB
-      default: return 75000 // 75KB
+      case 'light': return 25000 // tokens
+      case 'aggressive': return 12000
+      default: return 18000
     }
   }
 
@@ -496,6 +520,7 @@ export class FrizyCore {
 // Export configured services for direct use
 export {
   eventStore,
+  aggregateRepository,
   eventSourcedProjectService,
   eventSourcedBlockService,
   eventSourcedSessionService,
@@ -0,0 +1,71 @@
+// Critical path client
+// Asks the orchestrator's GraphQL API which chain of unfinished blocks gates a goal
+
+import { orchestratorAuthHeaders } from '../services/orchestrator'
+
+const GRAPHQL_URL = import.meta.env.VITE_ORCHESTRATOR_GRAPHQL_URL || 'http://localhost:4001/'
+
+export interface CriticalPathBlock {
+  id: string
+  title: string
+  status: string
+  effort: number | null
+}
+
+export interface CriticalPathNode {
+  block: CriticalPathBlock
+  duration: number
+  estimated: boolean
+  earliest_start: number
+  earliest_finish: number
+  slack: number
+  critical: boolean
+}
+
+export interface CriticalPath {
+  goal: CriticalPathBlock
+  path: CriticalPathBlock[]
+  total_effort: number
+  nodes: CriticalPathNode[]
+  // Block ids in a dependency loop, first id repeated at the end
+  cycle: string[] | null
+}
+
+const CRITICAL_PATH_QUERY = `
+  query CriticalPath($projectId: ID!, $goalBlockId: ID!) {
+    criticalPath(projectId: $projectId, goalBlockId: $goalBlockId) {
+      goal { id title status effort }
+      path { id title status effort }
+      total_effort
+      nodes {
+        block { id title status effort }
+        duration
+        estimated
+        earliest_start
+        earliest_finish
+        slack
+        critical
+      }
+      cycle
+    }
+  }
+`
+
+export async function fetchCriticalPath(projectId: string, goalBlockId: string): Promise<CriticalPath> {
+  const response = await fetch(GRAPHQL_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await orchestratorAuthHeaders()) },
+    body: JSON.stringify({ query: CRITICAL_PATH_QUERY, variables: { projectId, goalBlockId } })
+  })
+
+  if (!response.ok) {
+    throw new Error(`Critical path request failed: ${response.status}`)
+  }
+
+  const { data, errors } = await response.json()
+  if (errors?.length) {
+    throw new Error(errors[0].message)
+  }
+
+  return data.criticalPath
+}
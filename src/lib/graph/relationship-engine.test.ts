@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { FakeSupabase } from '../../test/fake-supabase'
+import { supabase } from '../supabase'
+import { RelationshipEngine } from './relationship-engine'
+import type { GraphRelationship } from './relationship-engine'
+
+vi.mock('../supabase', async () => {
+  const { FakeSupabase } = await import('../../test/fake-supabase')
+  return { supabase: new FakeSupabase() }
+})
+
+const db = supabase as unknown as FakeSupabase
+
+// login -depends_on-> api -related_to-> search -blocks-> login, so the three form a cycle,
+// and search -references-> the design doc; billing has no edges at all
+const EDGES: [string, string, string, string, string][] = [
+  ['login-api', 'login', 'api', 'depends_on', 'strong'],
+  ['api-search', 'api', 'search', 'related_to', 'weak'],
+  ['search-login', 'search', 'login', 'blocks', 'medium'],
+  ['search-doc', 'search', 'design-doc', 'references', 'critical']
+]
+
+const ids = (items: { nodeId: string }[]) => items.map(item => item.nodeId)
+const edgeIds = (edges: GraphRelationship[]) => edges.map(edge => edge.id).sort()
+
+describe('RelationshipEngine traversal', () => {
+  let engine: RelationshipEngine
+
+  beforeEach(() => {
+    db.reset()
+    engine = new RelationshipEngine()
+
+    EDGES.forEach(([id, source, target, type, strength]) => {
+      db.rows('relationships').push({
+        id,
+        source_id: source,
+        source_type: 'block',
+        target_id: target,
+        target_type: target === 'design-doc' ? 'context_item' : 'block',
+        relationship_type: type,
+        strength,
+        confidence: 0.8,
+        metadata: { createdBy: 'user' },
+        created_at: '2024-05-01T10:00:00.000Z',
+        updated_at: '2024-05-01T10:00:00.000Z'
+      })
+    })
+    ;['login', 'api', 'search', 'billing'].forEach(id => {
+      db.rows('blocks').push({ id, title: `Block ${id}`, lane: 'current', status: 'in_progress', priority: 'high', progress: 0 })
+    })
+  })
+
+  describe('getNeighbors', () => {
+    it('returns the nodes one hop away in either direction by default', async () => {
+      const neighbors = await engine.getNeighbors('login')
+
+      expect(ids(neighbors).sort()).toEqual(['api', 'search'])
+      expect(neighbors.find(neighbor => neighbor.nodeId === 'search')!.via.id).toBe('search-login')
+    })
+
+    it('reaches each node once at its shortest depth around a cycle', async () => {
+      const neighbors = await engine.getNeighbors('login', { maxDepth: 5 })
+
+      expect(neighbors.map(neighbor => [neighbor.nodeId, neighbor.depth])).toEqual([
+        ['api', 1],
+        ['search', 1],
+        ['design-doc', 2]
+      ])
+    })
+
+    it('follows only the requested direction, relationship types, strengths and node types', async () => {
+      expect(ids(await engine.getNeighbors('login', { direction: 'outgoing', maxDepth: 5 }))).toEqual(['api', 'search', 'design-doc'])
+      expect(ids(await engine.getNeighbors('login', { direction: 'incoming' }))).toEqual(['search'])
+      expect(ids(await engine.getNeighbors('api', { minStrength: 'strong', maxDepth: 3 }))).toEqual(['login'])
+      expect(ids(await engine.getNeighbors('search', { relationshipTypes: ['references'] }))).toEqual(['design-doc'])
+      expect(ids(await engine.getNeighbors('search', { excludeTypes: ['context_item'] })).sort()).toEqual(['api', 'login'])
+    })
+
+    it('returns nothing for a node without edges', async () => {
+      expect(await engine.getNeighbors('billing', { maxDepth: 3 })).toEqual([])
+    })
+  })
+
+  describe('findShortestPath', () => {
+    it('takes the fewest hops, following edges against their direction when allowed', async () => {
+      const path = await engine.findShortestPath('login', 'design-doc')
+
+      expect(path!.nodeIds).toEqual(['login', 'search', 'design-doc'])
+      expect(path!.relationships.map(edge => edge.id)).toEqual(['search-login', 'search-doc'])
+    })
+
+    it('walks the cycle the long way round when only outgoing edges may be followed', async () => {
+      const path = await engine.findShortestPath('api', 'login', { direction: 'outgoing' })
+
+      expect(path!.nodeIds).toEqual(['api', 'search', 'login'])
+      expect(path!.relationships.map(edge => [edge.sourceId, edge.targetId])).toEqual([
+        ['api', 'search'],
+        ['search', 'login']
+      ])
+    })
+
+    it('returns null when the target is out of reach or beyond maxDepth', async () => {
+      expect(await engine.findShortestPath('login', 'billing')).toBeNull()
+      expect(await engine.findShortestPath('login', 'design-doc', { maxDepth: 1 })).toBeNull()
+      expect(await engine.findShortestPath('login', 'design-doc', { minStrength: 'critical' })).toBeNull()
+    })
+
+    it('returns a single-node path from a node to itself', async () => {
+      expect(await engine.findShortestPath('login', 'login')).toEqual({ nodeIds: ['login'], relationships: [] })
+    })
+  })
+
+  describe('extractSubgraph', () => {
+    it('keeps the nodes within reach and every followable edge between them', async () => {
+      const subgraph = await engine.extractSubgraph([{ id: 'api', type: 'block' }], { maxDepth: 1 })
+
+      expect(subgraph.nodes.map(node => node.id).sort()).toEqual(['api', 'login', 'search'])
+      // search-login joins two reached nodes, though the walk never needed it
+      expect(edgeIds(subgraph.relationships)).toEqual(['api-search', 'login-api', 'search-login'])
+    })
+
+    it('loads node details with their edges and leaves out filtered edges', async () => {
+      const subgraph = await engine.extractSubgraph([{ id: 'search', type: 'block' }], {
+        maxDepth: 1,
+        relationshipTypes: ['blocks', 'references']
+      })
+
+      expect(edgeIds(subgraph.relationships)).toEqual(['search-doc', 'search-login'])
+      const login = subgraph.nodes.find(node => node.id === 'login')!
+      expect(login).toMatchObject({ type: 'block', title: 'Block login', importance: 0.75 })
+      expect(edgeIds(login.relationships.incoming)).toEqual(['search-login'])
+      expect(edgeIds(login.relationships.outgoing)).toEqual(['login-api'])
+      expect(subgraph.nodes.find(node => node.id === 'design-doc')).toMatchObject({ type: 'context_item', title: 'design-doc' })
+    })
+  })
+})
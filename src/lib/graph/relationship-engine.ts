@@ -1,10 +1,13 @@
 // Graph Relationship Engine
 // Creates and manages relationships between blocks, context items, sessions, and insights
 
+import { v4 as uuidv4 } from 'uuid'
+import { supabase } from '../supabase'
 import { eventStore } from '../events/event-store'
 import { blockService, contextItemService } from '../database'
 import { insightService } from '../events/event-sourced-services'
-import type { Block, ContextItem } from '../database.types'
+import type { Block, ContextItem, RelationshipRow } from '../database.types'
+import { projectRelationshipEvent } from './relationship-projection'
 
 // Relationship types
 export type RelationshipType = 
@@ -23,6 +26,9 @@ export type RelationshipType =
 // Relationship strength levels
 export type RelationshipStrength = 'weak' | 'medium' | 'strong' | 'critical'
 
+// Weakest to strongest, for minStrength filtering
+const STRENGTH_ORDER: RelationshipStrength[] = ['weak', 'medium', 'strong', 'critical']
+
 // Graph node types
 export type NodeType = 'block' | 'context_item' | 'insight' | 'session' | 'user' | 'project'
 
@@ -69,14 +75,43 @@ export interface GraphQueryOptions {
   minStrength?: RelationshipStrength
   maxDepth?: number
   includeMetadata?: boolean
+  // Which way edges may be followed from a node; defaults to both
+  direction?: 'outgoing' | 'incoming' | 'both'
+}
+
+// A node reached by a traversal, with the edge that first reached it
+export interface GraphNeighbor {
+  nodeId: string
+  nodeType: NodeType
+  depth: number
+  via: GraphRelationship
+}
+
+// Nodes from start to end with the edge taken at each step
+export interface GraphPath {
+  nodeIds: string[]
+  relationships: GraphRelationship[]
 }
 
+export interface GraphSubgraph {
+  nodes: GraphNode[]
+  relationships: GraphRelationship[]
+}
+
+// Picks the node an edge leads to from nodeId, or null if the edge is not followed
+type EdgeFollower = (nodeId: string, edge: GraphRelationship) => { id: string; type: NodeType } | null
+
+const DEFAULT_PATH_DEPTH = 10
+
+// Node importance for blocks, from their priority
+const PRIORITY_IMPORTANCE: Record<string, number> = { low: 0.25, medium: 0.5, high: 0.75, urgent: 1 }
+
 // Relationship engine
 export class RelationshipEngine {
   private relationshipCache: Map<string, GraphRelationship[]> = new Map()
   private nodeCache: Map<string, GraphNode> = new Map()
 
-  // Create a new relationship
+  // Create a relationship, or update the existing edge with the same source, target and type
   async createRelationship(
     sourceId: string,
     sourceType: NodeType,
@@ -89,27 +124,35 @@ export class RelationshipEngine {
       reason?: string
       evidence?: string[]
       context?: any
-    } = { createdBy: 'system' }
+    } = { createdBy: 'system' },
+    projectId?: string
   ): Promise<GraphRelationship> {
     try {
-      const relationshipId = `rel-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-      
-      const relationship: GraphRelationship = {
-        id: relationshipId,
-        sourceId,
-        sourceType,
-        targetId,
-        targetType,
-        relationshipType,
-        strength,
-        confidence: this.calculateRelationshipConfidence(relationshipType, metadata),
-        createdAt: new Date().toISOString(),
-        lastUpdated: new Date().toISOString(),
-        metadata
+      const confidence = this.calculateRelationshipConfidence(relationshipType, metadata)
+      const existing = await this.findRelationship(sourceId, targetId, relationshipType)
+
+      if (existing) {
+        // Detection reruns land here; only record a change when the edge actually changed
+        if (existing.strength === strength && existing.confidence === confidence) {
+          return existing
+        }
+
+        const event = await eventStore.appendEvent(
+          existing.id,
+          'relationship',
+          'RelationshipUpdated',
+          { projectId, strength, confidence, metadata }
+        )
+        await projectRelationshipEvent(event)
+        this.invalidateCache(sourceId, targetId)
+
+        return { ...existing, strength, confidence, metadata, lastUpdated: event.timestamp }
       }
 
+      const relationshipId = uuidv4()
+
       // Record relationship creation event
-      await eventStore.appendEvent(
+      const event = await eventStore.appendEvent(
         relationshipId,
         'relationship',
         'RelationshipCreated',
@@ -120,14 +163,29 @@ export class RelationshipEngine {
           targetType,
           relationshipType,
           strength,
+          confidence,
+          projectId,
           metadata
         }
       )
 
-      // Update cache
+      // Update the relationships projection and cache
+      await projectRelationshipEvent(event)
       this.invalidateCache(sourceId, targetId)
 
-      return relationship
+      return {
+        id: relationshipId,
+        sourceId,
+        sourceType,
+        targetId,
+        targetType,
+        relationshipType,
+        strength,
+        confidence,
+        createdAt: event.timestamp,
+        lastUpdated: event.timestamp,
+        metadata
+      }
     } catch (error: any) {
       throw new Error(`Failed to create relationship: ${error.message}`)
     }
@@ -208,7 +266,8 @@ export class RelationshipEngine {
                 reason: 'temporal_sequence',
                 evidence: [`Events occurred ${hoursApart.toFixed(1)} hours apart`],
                 context: { timeDiff: hoursApart }
-              }
+              },
+              projectId
             ))
           }
         }
@@ -226,7 +285,8 @@ export class RelationshipEngine {
               createdBy: 'system',
               reason: 'block_created_in_session',
               evidence: ['Block created during session']
-            }
+            },
+            projectId
           ))
         }
       }
@@ -274,7 +334,8 @@ export class RelationshipEngine {
                 reason: 'high_semantic_similarity',
                 evidence: [`Text similarity: ${(similarity * 100).toFixed(1)}%`],
                 context: { similarity }
-              }
+              },
+              projectId
             ))
           }
         }
@@ -301,7 +362,8 @@ export class RelationshipEngine {
                 reason: 'semantic_reference',
                 evidence: [`Content similarity: ${(similarity * 100).toFixed(1)}%`],
                 context: { similarity }
-              }
+              },
+              projectId
             ))
           }
         }
@@ -336,7 +398,8 @@ export class RelationshipEngine {
               createdBy: 'user',
               reason: 'explicit_dependency',
               evidence: ['User-defined dependency']
-            }
+            },
+            projectId
           ))
         }
 
@@ -353,7 +416,8 @@ export class RelationshipEngine {
               createdBy: 'user',
               reason: 'explicit_blocker',
               evidence: ['User-defined blocker']
-            }
+            },
+            projectId
           ))
         }
       }
@@ -416,7 +480,8 @@ export class RelationshipEngine {
                 reason: 'shared_blocks',
                 evidence: [`Collaborated on ${commonBlocks.length} blocks`],
                 context: { commonBlocks }
-              }
+              },
+              projectId
             ))
           }
         }
@@ -441,14 +506,14 @@ export class RelationshipEngine {
   }> {
     try {
       const relationships = await this.getRelationshipsForNode(nodeId, nodeType, options)
-      const nodeIds = new Set([nodeId])
+      const refs = new Map<string, NodeType>([[nodeId, nodeType]])
       
       relationships.forEach(rel => {
-        nodeIds.add(rel.sourceId)
-        nodeIds.add(rel.targetId)
+        refs.set(rel.sourceId, rel.sourceType)
+        refs.set(rel.targetId, rel.targetType)
       })
 
-      const nodes = await this.getNodes([...nodeIds])
+      const nodes = await this.getNodes([...refs].map(([id, type]) => ({ id, type })))
       const centerNode = nodes.find(n => n.id === nodeId)!
       const connectedNodes = nodes.filter(n => n.id !== nodeId)
 
@@ -462,6 +527,186 @@ export class RelationshipEngine {
     }
   }
 
+  // Nodes reachable from a node within maxDepth hops (default 1), nearest first
+  async getNeighbors(nodeId: string, options: GraphQueryOptions = {}): Promise<GraphNeighbor[]> {
+    try {
+      const { reached } = await this.traverse([nodeId], options.maxDepth ?? 1, this.edgeFollower(options))
+      return [...reached.values()].sort((a, b) => a.depth - b.depth)
+    } catch (error: any) {
+      throw new Error(`Failed to get neighbors: ${error.message}`)
+    }
+  }
+
+  // Everything a block depends on: its depends_on targets and the blocks that block it,
+  // followed transitively unless transitive is false
+  async getDependencies(
+    blockId: string,
+    options: { transitive?: boolean; maxDepth?: number; minStrength?: RelationshipStrength } = {}
+  ): Promise<GraphNeighbor[]> {
+    try {
+      const maxDepth = options.transitive === false ? 1 : options.maxDepth ?? DEFAULT_PATH_DEPTH
+      const minRank = STRENGTH_ORDER.indexOf(options.minStrength ?? 'weak')
+
+      const follow: EdgeFollower = (nodeId, edge) => {
+        if (STRENGTH_ORDER.indexOf(edge.strength) < minRank) return null
+        if (edge.relationshipType === 'depends_on' && edge.sourceId === nodeId) {
+          return { id: edge.targetId, type: edge.targetType }
+        }
+        if (edge.relationshipType === 'blocks' && edge.targetId === nodeId) {
+          return { id: edge.sourceId, type: edge.sourceType }
+        }
+        return null
+      }
+
+      const { reached } = await this.traverse([blockId], maxDepth, follow)
+      return [...reached.values()].sort((a, b) => a.depth - b.depth)
+    } catch (error: any) {
+      throw new Error(`Failed to get dependencies: ${error.message}`)
+    }
+  }
+
+  // Fewest-hop path between two nodes, or null if none exists within maxDepth
+  async findShortestPath(
+    fromId: string,
+    toId: string,
+    options: GraphQueryOptions = {}
+  ): Promise<GraphPath | null> {
+    try {
+      if (fromId === toId) return { nodeIds: [fromId], relationships: [] }
+
+      const follow = this.edgeFollower(options)
+      const maxDepth = options.maxDepth ?? DEFAULT_PATH_DEPTH
+      const parents = new Map<string, { from: string; edge: GraphRelationship }>()
+      const visited = new Set([fromId])
+      let frontier = [fromId]
+
+      for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+        const edgesByNode = await this.getEdgesForNodes(frontier)
+        const next: string[] = []
+
+        for (const nodeId of frontier) {
+          for (const edge of edgesByNode.get(nodeId) || []) {
+            const neighbor = follow(nodeId, edge)
+            if (!neighbor || visited.has(neighbor.id)) continue
+
+            visited.add(neighbor.id)
+            parents.set(neighbor.id, { from: nodeId, edge })
+            next.push(neighbor.id)
+
+            if (neighbor.id === toId) {
+              // Walk the parent links back to the start
+              const nodeIds = [toId]
+              const relationships: GraphRelationship[] = []
+              let current = toId
+              while (current !== fromId) {
+                const step = parents.get(current)!
+                relationships.unshift(step.edge)
+                nodeIds.unshift(step.from)
+                current = step.from
+              }
+              return { nodeIds, relationships }
+            }
+          }
+        }
+
+        frontier = next
+      }
+
+      return null
+    } catch (error: any) {
+      throw new Error(`Failed to find path: ${error.message}`)
+    }
+  }
+
+  // Nodes within maxDepth hops (default 2) of the roots and the matching edges between them
+  async extractSubgraph(
+    roots: Array<{ id: string; type: NodeType }>,
+    options: GraphQueryOptions = {}
+  ): Promise<GraphSubgraph> {
+    try {
+      const follow = this.edgeFollower(options)
+      const { reached } = await this.traverse(
+        roots.map(root => root.id),
+        options.maxDepth ?? 2,
+        follow
+      )
+
+      const refs = new Map<string, NodeType>(roots.map(root => [root.id, root.type]))
+      reached.forEach(neighbor => refs.set(neighbor.nodeId, neighbor.nodeType))
+
+      // Induced subgraph: every followable edge whose ends both made it in, including edges
+      // between nodes on the last hop, which the walk itself never expanded
+      const edges = new Map<string, GraphRelationship>()
+      const edgesByNode = await this.getEdgesForNodes([...refs.keys()])
+      edgesByNode.forEach(nodeEdges => nodeEdges.forEach(edge => edges.set(edge.id, edge)))
+
+      const relationships = [...edges.values()].filter(edge =>
+        refs.has(edge.sourceId) && refs.has(edge.targetId) &&
+        (follow(edge.sourceId, edge) !== null || follow(edge.targetId, edge) !== null)
+      )
+
+      const nodes = await this.getNodes([...refs].map(([id, type]) => ({ id, type })))
+      return { nodes, relationships }
+    } catch (error: any) {
+      throw new Error(`Failed to extract subgraph: ${error.message}`)
+    }
+  }
+
+  // Breadth-first walk from the start nodes; returns each reached node once, at its shortest depth
+  private async traverse(
+    startIds: string[],
+    maxDepth: number,
+    follow: EdgeFollower
+  ): Promise<{ reached: Map<string, GraphNeighbor> }> {
+    const reached = new Map<string, GraphNeighbor>()
+    const visited = new Set(startIds)
+    let frontier = [...startIds]
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const edgesByNode = await this.getEdgesForNodes(frontier)
+      const next: string[] = []
+
+      for (const nodeId of frontier) {
+        for (const edge of edgesByNode.get(nodeId) || []) {
+          const neighbor = follow(nodeId, edge)
+          if (!neighbor || visited.has(neighbor.id)) continue
+
+          visited.add(neighbor.id)
+          reached.set(neighbor.id, { nodeId: neighbor.id, nodeType: neighbor.type, depth, via: edge })
+          next.push(neighbor.id)
+        }
+      }
+
+      frontier = next
+    }
+
+    return { reached }
+  }
+
+  // Edge filter built from the query options
+  private edgeFollower(options: GraphQueryOptions): EdgeFollower {
+    const direction = options.direction || 'both'
+    const minRank = STRENGTH_ORDER.indexOf(options.minStrength ?? 'weak')
+
+    return (nodeId, edge) => {
+      if (options.relationshipTypes && !options.relationshipTypes.includes(edge.relationshipType)) return null
+      if (STRENGTH_ORDER.indexOf(edge.strength) < minRank) return null
+
+      let neighbor: { id: string; type: NodeType } | null = null
+      if (edge.sourceId === nodeId && direction !== 'incoming') {
+        neighbor = { id: edge.targetId, type: edge.targetType }
+      } else if (edge.targetId === nodeId && direction !== 'outgoing') {
+        neighbor = { id: edge.sourceId, type: edge.sourceType }
+      }
+      if (!neighbor) return null
+
+      if (options.includeTypes && !options.includeTypes.includes(neighbor.type)) return null
+      if (options.excludeTypes?.includes(neighbor.type)) return null
+
+      return neighbor
+    }
+  }
+
   // Calculate relationship confidence
   private calculateRelationshipConfidence(
     relationshipType: RelationshipType,
@@ -535,22 +780,138 @@ export class RelationshipEngine {
     return filtered
   }
 
-  // Get relationships for a specific node
+  // Get relationships for a specific node, up to options.maxDepth hops out (default 1)
   private async getRelationshipsForNode(
     nodeId: string,
     nodeType: NodeType,
     options: GraphQueryOptions
   ): Promise<GraphRelationship[]> {
-    // This would query from the relationships table in production
-    // For now, return empty array as placeholder
-    return []
+    const { reached } = await this.traverse([nodeId], options.maxDepth ?? 1, this.edgeFollower(options))
+    return [...reached.values()].map(neighbor => neighbor.via)
+  }
+
+  // Existing edge with the same natural key, if any
+  private async findRelationship(
+    sourceId: string,
+    targetId: string,
+    relationshipType: RelationshipType
+  ): Promise<GraphRelationship | null> {
+    const { data, error } = await supabase
+      .from('relationships')
+      .select('*')
+      .eq('source_id', sourceId)
+      .eq('target_id', targetId)
+      .eq('relationship_type', relationshipType)
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? this.mapRelationshipRow(data) : null
+  }
+
+  // All edges touching each node, loading uncached nodes in one query
+  private async getEdgesForNodes(nodeIds: string[]): Promise<Map<string, GraphRelationship[]>> {
+    const result = new Map<string, GraphRelationship[]>()
+    const missing = nodeIds.filter(id => {
+      const cached = this.relationshipCache.get(id)
+      if (cached) result.set(id, cached)
+      return !cached
+    })
+
+    if (missing.length > 0) {
+      const list = missing.join(',')
+      const { data, error } = await supabase
+        .from('relationships')
+        .select('*')
+        .or(`source_id.in.(${list}),target_id.in.(${list})`)
+
+      if (error) throw error
+
+      const edges = (data || []).map(row => this.mapRelationshipRow(row))
+      missing.forEach(id => {
+        const nodeEdges = edges.filter(edge => edge.sourceId === id || edge.targetId === id)
+        this.relationshipCache.set(id, nodeEdges)
+        result.set(id, nodeEdges)
+      })
+    }
+
+    return result
   }
 
-  // Get nodes by IDs
-  private async getNodes(nodeIds: string[]): Promise<GraphNode[]> {
-    // This would fetch nodes from various tables based on their types
-    // For now, return empty array as placeholder
-    return []
+  private mapRelationshipRow(row: RelationshipRow): GraphRelationship {
+    return {
+      id: row.id,
+      sourceId: row.source_id,
+      sourceType: row.source_type as NodeType,
+      targetId: row.target_id,
+      targetType: row.target_type as NodeType,
+      relationshipType: row.relationship_type as RelationshipType,
+      strength: row.strength as RelationshipStrength,
+      confidence: row.confidence,
+      createdAt: row.created_at,
+      lastUpdated: row.updated_at,
+      metadata: (row.metadata as GraphRelationship['metadata']) || { createdBy: 'system' }
+    }
+  }
+
+  // Get nodes by IDs; blocks and context items are loaded, other types get a bare node
+  private async getNodes(refs: Array<{ id: string; type: NodeType }>): Promise<GraphNode[]> {
+    const missing = refs.filter(ref => !this.nodeCache.has(ref.id))
+    const idsOfType = (type: NodeType) => missing.filter(ref => ref.type === type).map(ref => ref.id)
+    const edgesByNode = await this.getEdgesForNodes(refs.map(ref => ref.id))
+
+    const withEdges = (node: Omit<GraphNode, 'relationships'>): GraphNode => {
+      const edges = edgesByNode.get(node.id) || []
+      return {
+        ...node,
+        relationships: {
+          incoming: edges.filter(edge => edge.targetId === node.id),
+          outgoing: edges.filter(edge => edge.sourceId === node.id)
+        }
+      }
+    }
+
+    const blockIds = idsOfType('block')
+    if (blockIds.length > 0) {
+      const { data, error } = await supabase.from('blocks').select('*').in('id', blockIds)
+      if (error) throw error
+      ;(data as Block[] || []).forEach(block => {
+        this.nodeCache.set(block.id, withEdges({
+          id: block.id,
+          type: 'block',
+          title: block.title,
+          content: block.content,
+          metadata: { lane: block.lane, status: block.status, priority: block.priority, progress: block.progress },
+          lastActivity: block.last_worked || block.updated_at,
+          importance: PRIORITY_IMPORTANCE[block.priority] ?? 0.5
+        }))
+      })
+    }
+
+    const contextIds = idsOfType('context_item')
+    if (contextIds.length > 0) {
+      const { data, error } = await supabase.from('context_items').select('*').in('id', contextIds)
+      if (error) throw error
+      ;(data as ContextItem[] || []).forEach(item => {
+        this.nodeCache.set(item.id, withEdges({
+          id: item.id,
+          type: 'context_item',
+          title: item.title,
+          content: item.content,
+          metadata: { type: item.type, tags: item.tags },
+          lastActivity: item.accessed_at || item.updated_at,
+          importance: item.confidence_score
+        }))
+      })
+    }
+
+    return refs.map(ref => this.nodeCache.get(ref.id) || withEdges({
+      id: ref.id,
+      type: ref.type,
+      title: ref.id,
+      metadata: {},
+      lastActivity: '',
+      importance: 0
+    }))
   }
 
   // Invalidate caches
@@ -570,17 +931,16 @@ export class RelationshipEngine {
     mostConnectedNodes: Array<{ nodeId: string; nodeType: NodeType; connectionCount: number }>
   }> {
     try {
-      // Get relationship events for the project
-      const events = await eventStore.getEventsByType('RelationshipCreated')
-      const projectRelationships = events.filter(e => 
-        e.data.sourceId === projectId || 
-        e.data.targetId === projectId ||
-        // This would need better filtering based on project membership
-        true
-      )
+      const { data, error } = await supabase
+        .from('relationships')
+        .select('*')
+        .eq('project_id', projectId)
+
+      if (error) throw error
+      const relationships = (data || []).map(row => this.mapRelationshipRow(row))
 
       const stats = {
-        totalRelationships: projectRelationships.length,
+        totalRelationships: relationships.length,
         relationshipsByType: {} as Record<RelationshipType, number>,
         relationshipsByStrength: {} as Record<RelationshipStrength, number>,
         averageConfidence: 0,
@@ -589,18 +949,29 @@ export class RelationshipEngine {
 
       // Calculate statistics
       let totalConfidence = 0
-      projectRelationships.forEach(event => {
-        const rel = event.data
+      const degrees = new Map<string, { nodeId: string; nodeType: NodeType; connectionCount: number }>()
+      const countNode = (nodeId: string, nodeType: NodeType) => {
+        const entry = degrees.get(nodeId) || { nodeId, nodeType, connectionCount: 0 }
+        entry.connectionCount++
+        degrees.set(nodeId, entry)
+      }
+
+      relationships.forEach(rel => {
         stats.relationshipsByType[rel.relationshipType] = 
           (stats.relationshipsByType[rel.relationshipType] || 0) + 1
         stats.relationshipsByStrength[rel.strength] = 
           (stats.relationshipsByStrength[rel.strength] || 0) + 1
-        totalConfidence += this.calculateRelationshipConfidence(rel.relationshipType, rel.metadata)
+        totalConfidence += rel.confidence
+        countNode(rel.sourceId, rel.sourceType)
+        countNode(rel.targetId, rel.targetType)
       })
 
-      stats.averageConfidence = projectRelationships.length > 0 
-        ? totalConfidence / projectRelationships.length 
+      stats.averageConfidence = relationships.length > 0 
+        ? totalConfidence / relationships.length 
         : 0
+      stats.mostConnectedNodes = [...degrees.values()]
+        .sort((a, b) => b.connectionCount - a.connectionCount)
+        .slice(0, 10)
 
       return stats
     } catch (error: any) {
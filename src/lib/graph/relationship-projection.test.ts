@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { FakeSupabase } from '../../test/fake-supabase'
+import { supabase } from '../supabase'
+import type { BaseEvent } from '../events/event-store'
+import { projectRelationshipEvent } from './relationship-projection'
+
+vi.mock('../supabase', async () => {
+  const { FakeSupabase } = await import('../../test/fake-supabase')
+  return {
+    supabase: new FakeSupabase({ unique: { relationships: [['source_id', 'target_id', 'relationship_type']] } })
+  }
+})
+
+const db = supabase as unknown as FakeSupabase
+
+const event = (aggregateId: string, version: number, type: string, data: any): BaseEvent => ({
+  id: `${aggregateId}-${version}`,
+  type,
+  aggregateId,
+  aggregateType: 'relationship',
+  version,
+  timestamp: `2024-05-01T10:0${version}:00.000Z`,
+  data
+})
+
+const created = (aggregateId: string, strength: string) =>
+  event(aggregateId, 1, 'RelationshipCreated', {
+    sourceId: 'login',
+    sourceType: 'block',
+    targetId: 'api',
+    targetType: 'block',
+    relationshipType: 'depends_on',
+    strength
+  })
+
+describe('projectRelationshipEvent', () => {
+  beforeEach(() => {
+    db.reset()
+  })
+
+  it('applies an update on top of the current row', async () => {
+    await projectRelationshipEvent(created('relationship-1', 'weak'))
+    await projectRelationshipEvent(event('relationship-1', 2, 'RelationshipUpdated', { strength: 'strong', confidence: 0.9 }))
+
+    expect(db.rows('relationships')).toMatchObject([
+      { id: 'relationship-1', strength: 'strong', confidence: 0.9, version: 2, created_at: '2024-05-01T10:01:00.000Z' }
+    ])
+  })
+
+  it('folds a second stream for the same edge onto the existing row instead of failing', async () => {
+    await projectRelationshipEvent(created('relationship-1', 'weak'))
+
+    await expect(projectRelationshipEvent(created('relationship-2', 'critical'))).resolves.toBeUndefined()
+
+    expect(db.rows('relationships')).toMatchObject([
+      { id: 'relationship-2', source_id: 'login', target_id: 'api', strength: 'critical' }
+    ])
+  })
+
+  it('ignores an update for an edge it has no row for', async () => {
+    await projectRelationshipEvent(event('relationship-1', 2, 'RelationshipUpdated', { strength: 'strong' }))
+
+    expect(db.rows('relationships')).toEqual([])
+  })
+})
@@ -0,0 +1,116 @@
+// Relationships projection
+// Keeps the relationships table in step with RelationshipCreated / RelationshipUpdated events
+
+import { supabase } from '../supabase'
+import { eventStore } from '../events/event-store'
+import type { BaseEvent } from '../events/event-store'
+import { relationshipReducer, foldEvents } from '../events/aggregates'
+import type { RelationshipState } from '../events/aggregates'
+import type { RelationshipInsert, RelationshipRow } from '../database.types'
+
+export function toRelationshipRow(state: RelationshipState, version: number): RelationshipInsert {
+  return {
+    id: state.id,
+    project_id: state.projectId ?? null,
+    source_id: state.sourceId,
+    source_type: state.sourceType,
+    target_id: state.targetId,
+    target_type: state.targetType,
+    relationship_type: state.relationshipType,
+    strength: state.strength,
+    confidence: state.confidence ?? 0.5,
+    metadata: state.metadata ?? {},
+    version,
+    created_at: state.createdAt,
+    updated_at: state.updatedAt
+  }
+}
+
+// Apply a relationship event on top of the current row
+export async function projectRelationshipEvent(event: BaseEvent): Promise<void> {
+  const { data, error } = await supabase
+    .from('relationships')
+    .select('*')
+    .eq('id', event.aggregateId)
+    .maybeSingle()
+  if (error) throw error
+
+  const existing = data as RelationshipRow | null
+
+  const current: RelationshipState | null = existing
+    ? {
+        id: existing.id,
+        projectId: existing.project_id ?? undefined,
+        sourceId: existing.source_id,
+        sourceType: existing.source_type,
+        targetId: existing.target_id,
+        targetType: existing.target_type,
+        relationshipType: existing.relationship_type,
+        strength: existing.strength,
+        confidence: existing.confidence,
+        metadata: existing.metadata,
+        createdAt: existing.created_at,
+        updatedAt: existing.updated_at
+      }
+    : null
+
+  const next = foldEvents(relationshipReducer, [event], current)
+  if (!next) return
+
+  // Same natural key as writeRelationshipRows, so a second stream for an existing edge updates its row
+  const { error: upsertError } = await supabase
+    .from('relationships')
+    .upsert(toRelationshipRow(next, event.version) as any, { onConflict: 'source_id,target_id,relationship_type' })
+  if (upsertError) throw upsertError
+}
+
+// Fold a project's relationship streams into rows. Streams that fold to the same
+// (source, target, type) edge are collapsed onto the most recently updated one.
+export function relationshipRowsFromEvents(events: BaseEvent[]): RelationshipInsert[] {
+  const streams = new Map<string, BaseEvent[]>()
+  events
+    .filter(event => event.aggregateType === 'relationship')
+    .forEach(event => {
+      const stream = streams.get(event.aggregateId) || []
+      stream.push(event)
+      streams.set(event.aggregateId, stream)
+    })
+
+  const edges = new Map<string, RelationshipInsert>()
+  streams.forEach(stream => {
+    stream.sort((a, b) => a.version - b.version)
+    const state = foldEvents(relationshipReducer, stream)
+    if (!state) return
+
+    const row = toRelationshipRow(state, stream[stream.length - 1].version)
+    const key = `${row.source_id}:${row.target_id}:${row.relationship_type}`
+    const kept = edges.get(key)
+    if (!kept || (kept.updated_at ?? '') < (row.updated_at ?? '')) {
+      edges.set(key, row)
+    }
+  })
+
+  return Array.from(edges.values())
+}
+
+// Upsert relationship rows on their natural key
+export async function writeRelationshipRows(rows: RelationshipInsert[]): Promise<void> {
+  if (rows.length === 0) return
+
+  const { error } = await supabase
+    .from('relationships')
+    .upsert(rows as any, { onConflict: 'source_id,target_id,relationship_type' })
+  if (error) throw error
+}
+
+// Regenerate a project's relationship rows from the event log
+export async function rebuildRelationships(
+  projectId: string,
+  options: { dryRun?: boolean } = {}
+): Promise<number> {
+  const rows = relationshipRowsFromEvents(await eventStore.getProjectEvents(projectId))
+  if (!options.dryRun) {
+    await writeRelationshipRows(rows)
+  }
+  return rows.length
+}
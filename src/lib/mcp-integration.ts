@@ -8,6 +8,7 @@ import type {
   ActiveSession 
 } from './session-tracker'
 import type { Block, Project, ContextItem } from './database.types'
+import { listTools } from '@frizy/mcp-tools'
 
 // MCP Message Types (based on MCP specification)
 export interface MCPRequest {
@@ -79,150 +80,9 @@ export interface MCPTool {
   }
 }
 
-// Frizy tools available to Claude via MCP
-export const FRIZY_MCP_TOOLS: MCPTool[] = [
-  {
-    name: 'frizy_start_session',
-    description: 'Start a new Claude session for tracking work and insights',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        projectId: { type: 'string', description: 'ID of the project to track' }
-      },
-      required: ['projectId']
-    }
-  },
-  {
-    name: 'frizy_capture_insight',
-    description: 'Capture an insight, decision, or learning from the current session',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        type: { 
-          type: 'string', 
-          enum: ['decision', 'problem_solution', 'idea', 'learning', 'blocker', 'next_step'],
-          description: 'Type of insight being captured'
-        },
-        title: { type: 'string', description: 'Brief title for the insight' },
-        content: { type: 'string', description: 'Detailed content or explanation' },
-        relatedBlockIds: { 
-          type: 'array', 
-          items: { type: 'string' },
-          description: 'IDs of blocks related to this insight'
-        },
-        importance: {
-          type: 'string',
-          enum: ['low', 'medium', 'high'],
-          description: 'Importance level of this insight'
-        }
-      },
-      required: ['type', 'title', 'content']
-    }
-  },
-  {
-    name: 'frizy_get_context',
-    description: 'Get the current project context including blocks, insights, and activity',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        projectId: { type: 'string', description: 'ID of the project' },
-        includeHistory: { 
-          type: 'boolean', 
-          description: 'Whether to include historical sessions and insights',
-          default: false
-        }
-      },
-      required: ['projectId']
-    }
-  },
-  {
-    name: 'frizy_create_block',
-    description: 'Create a new block in the project',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        projectId: { type: 'string', description: 'ID of the project' },
-        title: { type: 'string', description: 'Title of the block' },
-        content: { type: 'string', description: 'Content/description of the block' },
-        lane: {
-          type: 'string',
-          enum: ['vision', 'goals', 'current', 'next', 'context'],
-          description: 'Which swim lane to place the block in'
-        },
-        priority: {
-          type: 'string',
-          enum: ['low', 'medium', 'high', 'urgent'],
-          description: 'Priority level of the block'
-        },
-        tags: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Tags to categorize the block'
-        }
-      },
-      required: ['projectId', 'title', 'lane']
-    }
-  },
-  {
-    name: 'frizy_update_block',
-    description: 'Update an existing block',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        blockId: { type: 'string', description: 'ID of the block to update' },
-        updates: {
-          type: 'object',
-          properties: {
-            title: { type: 'string' },
-            content: { type: 'string' },
-            status: {
-              type: 'string',
-              enum: ['not_started', 'in_progress', 'blocked', 'completed', 'archived']
-            },
-            progress: { type: 'number', minimum: 0, maximum: 100 },
-            priority: {
-              type: 'string',
-              enum: ['low', 'medium', 'high', 'urgent']
-            }
-          },
-          description: 'Fields to update on the block'
-        }
-      },
-      required: ['blockId', 'updates']
-    }
-  },
-  {
-    name: 'frizy_get_suggestions',
-    description: 'Get AI-powered suggestions for project organization and next steps',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        projectId: { type: 'string', description: 'ID of the project' },
-        type: {
-          type: 'string',
-          enum: ['all', 'stale', 'ready_to_move', 'stuck', 'completion_opportunity'],
-          description: 'Type of suggestions to get',
-          default: 'all'
-        }
-      },
-      required: ['projectId']
-    }
-  },
-  {
-    name: 'frizy_end_session',
-    description: 'End the current session and generate a summary',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        generateSummary: {
-          type: 'boolean',
-          description: 'Whether to generate a session summary',
-          default: true
-        }
-      }
-    }
-  }
-]
+// Frizy tools available to Claude via MCP. Defined once in @frizy/mcp-tools, which both MCP
+// servers also list, so the tools shown here are exactly the ones a server exposes.
+export const FRIZY_MCP_TOOLS: MCPTool[] = listTools()
 
 // MCP Message handlers interface
 export interface MCPHandlers {
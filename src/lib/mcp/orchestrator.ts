@@ -339,7 +339,11 @@ export class MCPOrchestrator {
     reason?: string
   }): Promise<{ block: Block }> {
     try {
-      const result = await eventSourcedBlockService.moveBlock(params.blockId, params.toLane)
+      const result = await eventSourcedBlockService.moveBlock(
+        params.blockId,
+        params.toLane,
+        params.reason || 'mcp_action'
+      )
 
       if (result.error || !result.data) {
         throw new Error(result.error || 'Failed to move block')
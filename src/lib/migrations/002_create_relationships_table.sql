@@ -0,0 +1,41 @@
+-- Migration: Create relationships projection
+-- Read model of RelationshipCreated / RelationshipUpdated events, queried by the graph traversal API
+
+CREATE TABLE IF NOT EXISTS relationships (
+  -- Same id as the relationship aggregate in the event log
+  id UUID PRIMARY KEY,
+  project_id UUID,
+  source_id TEXT NOT NULL,
+  source_type VARCHAR(50) NOT NULL,
+  target_id TEXT NOT NULL,
+  target_type VARCHAR(50) NOT NULL,
+  relationship_type VARCHAR(50) NOT NULL,
+  strength VARCHAR(20) NOT NULL DEFAULT 'medium'
+    CHECK (strength IN ('weak', 'medium', 'strong', 'critical')),
+  confidence REAL NOT NULL DEFAULT 0.5,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Detection reruns update the existing edge instead of adding a duplicate
+  UNIQUE(source_id, target_id, relationship_type)
+);
+
+-- Traversal walks edges from either end
+CREATE INDEX IF NOT EXISTS idx_relationships_source ON relationships(source_id, relationship_type);
+CREATE INDEX IF NOT EXISTS idx_relationships_target ON relationships(target_id, relationship_type);
+CREATE INDEX IF NOT EXISTS idx_relationships_project ON relationships(project_id);
+
+ALTER TABLE relationships ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can access relationships in projects they own
+CREATE POLICY relationships_user_policy ON relationships
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT user_id FROM projects
+      WHERE id = relationships.project_id
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON relationships TO authenticated;
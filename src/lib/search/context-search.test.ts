@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest'
+import { highlightSegments } from './context-search'
+
+vi.mock('../supabase', async () => {
+  const { FakeSupabase } = await import('../../test/fake-supabase')
+  return { supabase: new FakeSupabase() }
+})
+
+describe('highlightSegments', () => {
+  it('splits a highlight into plain and marked segments in order', () => {
+    expect(highlightSegments('Retry the <mark>login</mark> call before <mark>refreshing</mark> tokens')).toEqual([
+      { text: 'Retry the ', marked: false },
+      { text: 'login', marked: true },
+      { text: ' call before ', marked: false },
+      { text: 'refreshing', marked: true },
+      { text: ' tokens', marked: false }
+    ])
+  })
+
+  it('drops the empty segments around adjacent and edge marks', () => {
+    expect(highlightSegments('<mark>login</mark><mark>flow</mark>')).toEqual([
+      { text: 'login', marked: true },
+      { text: 'flow', marked: true }
+    ])
+  })
+
+  it('returns the whole text unmarked when nothing matched, and nothing for an empty highlight', () => {
+    expect(highlightSegments('Semantic match … only')).toEqual([{ text: 'Semantic match … only', marked: false }])
+    expect(highlightSegments('')).toEqual([])
+  })
+
+  it('keeps other markup and unbalanced tags as plain text', () => {
+    expect(highlightSegments('<b>bold</b> and <mark>open')).toEqual([{ text: '<b>bold</b> and <mark>open', marked: false }])
+  })
+})
@@ -0,0 +1,125 @@
+// Context search client
+// Hybrid keyword + semantic search over a project's blocks and context items via the orchestrator's GraphQL API
+
+import { orchestratorAuthHeaders } from '../services/orchestrator'
+
+const GRAPHQL_URL = import.meta.env.VITE_ORCHESTRATOR_GRAPHQL_URL || 'http://localhost:4001/'
+
+export interface ContextSearchFilters {
+  // A context item type, "block_<lane>", or "block" for every block
+  types?: string[]
+  // Lanes and statuses only exist on blocks, so setting either leaves context items out
+  lanes?: string[]
+  statuses?: string[]
+  createdAfter?: string
+  createdBefore?: string
+}
+
+export interface ContextSearchItem {
+  id: string
+  type: string
+  title: string | null
+  content: string
+  relevance_score: number
+  source: string
+  lane: string | null
+  status: string | null
+  created_at: string
+  // Matched terms wrapped in <mark>
+  highlight: string | null
+  token_count: number
+  keyword_rank: number | null
+  semantic_rank: number | null
+}
+
+export interface ContextSearchResult {
+  query: string
+  results: ContextSearchItem[]
+  total_results: number
+  processing_time: number
+  // False when the orchestrator could only rank by keywords
+  semantic: boolean
+}
+
+const CONTEXT_SEARCH_QUERY = `
+  query ContextSearch(
+    $projectId: ID!
+    $query: String!
+    $maxResults: Int
+    $includeBlocks: Boolean
+    $includeContext: Boolean
+    $filters: ContextSearchFilters
+  ) {
+    contextSearch(
+      projectId: $projectId
+      query: $query
+      maxResults: $maxResults
+      includeBlocks: $includeBlocks
+      includeContext: $includeContext
+      filters: $filters
+    ) {
+      query
+      results {
+        id
+        type
+        title
+        content
+        relevance_score
+        source
+        lane
+        status
+        created_at
+        highlight
+        token_count
+        keyword_rank
+        semantic_rank
+      }
+      total_results
+      processing_time
+      semantic
+    }
+  }
+`
+
+export async function searchContext(
+  projectId: string,
+  query: string,
+  options: {
+    maxResults?: number
+    includeBlocks?: boolean
+    includeContext?: boolean
+    filters?: ContextSearchFilters
+  } = {}
+): Promise<ContextSearchResult> {
+  const { maxResults = 20, includeBlocks = true, includeContext = true, filters } = options
+
+  const response = await fetch(GRAPHQL_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await orchestratorAuthHeaders()) },
+    body: JSON.stringify({
+      query: CONTEXT_SEARCH_QUERY,
+      variables: { projectId, query, maxResults, includeBlocks, includeContext, filters }
+    })
+  })
+
+  if (!response.ok) {
+    throw new Error(`Context search request failed: ${response.status}`)
+  }
+
+  const { data, errors } = await response.json()
+  if (errors?.length) {
+    throw new Error(errors[0].message)
+  }
+
+  return data.contextSearch
+}
+
+// Splits a highlight into plain and <mark>ed segments so it can be rendered without innerHTML
+export function highlightSegments(highlight: string): Array<{ text: string; marked: boolean }> {
+  return highlight
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(part => part.length > 0)
+    .map(part => part.startsWith('<mark>') && part.endsWith('</mark>')
+      ? { text: part.slice(6, -7), marked: true }
+      : { text: part, marked: false })
+}
@@ -0,0 +1,46 @@
+// API tokens client
+// Creates and revokes the signed-in user's tokens for the orchestrator REST, GraphQL and MCP APIs
+
+import { orchestratorRequest } from './orchestrator'
+
+export type ApiTokenScope = 'events:write' | 'context:read' | 'graph:read'
+
+export const API_TOKEN_SCOPES: { value: ApiTokenScope; label: string }[] = [
+  { value: 'events:write', label: 'Write events' },
+  { value: 'context:read', label: 'Read context' },
+  { value: 'graph:read', label: 'Read project graph' }
+]
+
+export interface ApiToken {
+  id: string
+  project_id: string | null
+  name: string
+  token_prefix: string
+  scopes: ApiTokenScope[]
+  last_used_at: string | null
+  expires_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+// Only returned when a token is created
+export interface ApiTokenWithSecret extends ApiToken {
+  token: string
+}
+
+export const apiTokenService = {
+  list() {
+    return orchestratorRequest<ApiToken[]>('/api/tokens')
+  },
+
+  create(input: { name: string; scopes: ApiTokenScope[]; project_id?: string; expires_in_days?: number }) {
+    return orchestratorRequest<ApiTokenWithSecret>('/api/tokens', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    })
+  },
+
+  revoke(tokenId: string) {
+    return orchestratorRequest<null>(`/api/tokens/${tokenId}`, { method: 'DELETE' })
+  }
+}
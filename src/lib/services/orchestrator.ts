@@ -0,0 +1,28 @@
+// Orchestrator API client
+// Shared fetch helper that signs requests with the Supabase session so the orchestrator can check project membership
+
+import { supabase } from '../supabase'
+
+export const ORCHESTRATOR_API_URL = import.meta.env.VITE_ORCHESTRATOR_API_URL || 'http://localhost:4000'
+
+export async function orchestratorAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
+
+export async function orchestratorRequest<T>(path: string, init?: RequestInit): Promise<{ data: T | null; error: string | null }> {
+  try {
+    const response = await fetch(`${ORCHESTRATOR_API_URL}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(await orchestratorAuthHeaders()), ...init?.headers }
+    })
+    const body = await response.json()
+
+    if (!response.ok || !body.success) {
+      return { data: null, error: body.error || `Request failed: ${response.status}` }
+    }
+    return { data: body.data ?? null, error: null }
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : 'Orchestrator unreachable' }
+  }
+}
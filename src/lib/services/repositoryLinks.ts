@@ -0,0 +1,65 @@
+// Repository links client
+// Manages which GitHub repositories feed webhook events into a project, via the orchestrator API
+
+import { orchestratorRequest as request } from './orchestrator'
+
+export interface RepositoryLink {
+  id: string
+  project_id: string
+  repository_full_name: string
+  has_webhook_secret: boolean
+  created_at: string
+  updated_at: string
+}
+
+// Only returned when a link is created or its secret rotated
+export interface RepositoryLinkWithSecret extends Omit<RepositoryLink, 'has_webhook_secret'> {
+  webhook_secret: string
+}
+
+export interface QuarantinedDelivery {
+  id: string
+  delivery_id: string | null
+  repository_full_name: string | null
+  event_name: string
+  status: 'pending' | 'assigned' | 'discarded'
+  received_at: string
+}
+
+export const repositoryLinkService = {
+  list(projectId: string) {
+    return request<RepositoryLink[]>(`/api/projects/${projectId}/repositories`)
+  },
+
+  link(projectId: string, repositoryFullName: string) {
+    return request<RepositoryLinkWithSecret>(`/api/projects/${projectId}/repositories`, {
+      method: 'POST',
+      body: JSON.stringify({ repository_full_name: repositoryFullName })
+    })
+  },
+
+  rotateSecret(linkId: string) {
+    return request<RepositoryLinkWithSecret>(`/api/repositories/${linkId}/rotate-secret`, { method: 'POST' })
+  },
+
+  unlink(linkId: string) {
+    return request<null>(`/api/repositories/${linkId}`, { method: 'DELETE' })
+  },
+
+  listQuarantined(repositoryFullName?: string) {
+    const query = new URLSearchParams({ status: 'pending' })
+    if (repositoryFullName) query.set('repository', repositoryFullName)
+    return request<QuarantinedDelivery[]>(`/api/webhooks/github/quarantine?${query}`)
+  },
+
+  assignQuarantined(deliveryId: string, projectId: string) {
+    return request<QuarantinedDelivery>(`/api/webhooks/github/quarantine/${deliveryId}/assign`, {
+      method: 'POST',
+      body: JSON.stringify({ project_id: projectId })
+    })
+  },
+
+  discardQuarantined(deliveryId: string) {
+    return request<QuarantinedDelivery>(`/api/webhooks/github/quarantine/${deliveryId}/discard`, { method: 'POST' })
+  }
+}
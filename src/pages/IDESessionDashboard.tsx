@@ -1586,6 +1586,7 @@ export function IDESessionDashboard() {
             </div>
             <div className="flex-1 overflow-hidden">
               <NaturalLanguageSearch 
+                projectId={currentProjectId}
                 sessions={sessions}
                 onNavigate={handleNavigateFromSearch}
                 githubContext={getGitHubContext()}
@@ -22,6 +22,10 @@ export class ClaudeAPIService {
     }
   }
 
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
   async sendMessage(messages: ClaudeMessage[], systemPrompt?: string): Promise<ClaudeResponse> {
     try {
       // Check if we have an API key
@@ -0,0 +1,233 @@
+// In-memory stand-in for the Supabase client in specs, covering the query builder calls the
+// event store and projections make. Mock '../supabase' with an instance of it.
+
+type Row = Record<string, any>
+type Operation = 'select' | 'insert' | 'upsert' | 'update' | 'delete'
+
+export interface QueryError {
+  code: string
+  message: string
+}
+
+export interface FakeSupabaseOptions {
+  // Unique constraints per table besides the id primary key, e.g. { events: [['aggregate_id', 'version']] }
+  unique?: Record<string, string[][]>
+}
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {}
+  // Every .in() filter made, so specs can check how many ids went into one request
+  inFilters: { table: string; column: string; size: number }[] = []
+  auth = {
+    getUser: async () => ({ data: { user: null }, error: null })
+  }
+  private failures: { table: string; operation: Operation; error: QueryError }[] = []
+  private nextId = 1
+
+  constructor(private options: FakeSupabaseOptions = {}) {}
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ||= [])
+  }
+
+  reset() {
+    this.tables = {}
+    this.inFilters = []
+    this.failures = []
+  }
+
+  // The next matching operation on the table resolves with this error instead
+  failNext(table: string, operation: Operation, error: QueryError) {
+    this.failures.push({ table, operation, error })
+  }
+
+  from(table: string) {
+    return new FakeQuery(this, table)
+  }
+
+  takeFailure(table: string, operation: Operation): QueryError | null {
+    const index = this.failures.findIndex(failure => failure.table === table && failure.operation === operation)
+    return index === -1 ? null : this.failures.splice(index, 1)[0].error
+  }
+
+  constraints(table: string): string[][] {
+    return [['id'], ...(this.options.unique?.[table] || [])]
+  }
+
+  generateId(): string {
+    return `00000000-0000-4000-8000-${String(this.nextId++).padStart(12, '0')}`
+  }
+}
+
+const sameOn = (columns: string[], a: Row, b: Row) => columns.every(column => a[column] === b[column])
+
+class FakeQuery implements PromiseLike<{ data: any; error: QueryError | null }> {
+  private operation: Operation = 'select'
+  private filters: ((row: Row) => boolean)[] = []
+  private payload: Row[] = []
+  private changes: Row = {}
+  private conflictColumns = ['id']
+  private ordering: { column: string; ascending: boolean }[] = []
+  private maxRows: number | null = null
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(private client: FakeSupabase, private table: string) {}
+
+  // After a write, select() only asks for the written rows back
+  select(_columns?: string) {
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.operation = 'insert'
+    this.payload = [rows].flat()
+    return this
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.operation = 'upsert'
+    this.payload = [rows].flat()
+    this.conflictColumns = (options.onConflict || 'id').split(',').map(column => column.trim())
+    return this
+  }
+
+  update(changes: Row) {
+    this.operation = 'update'
+    this.changes = changes
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  in(column: string, values: any[]) {
+    this.client.inFilters.push({ table: this.table, column, size: values.length })
+    this.filters.push(row => values.includes(row[column]))
+    return this
+  }
+
+  // PostgREST's or= syntax, for the eq and in operators only, e.g. 'source_id.in.(a,b),target_id.eq.c'
+  or(expression: string) {
+    const conditions = expression.split(/,(?![^(]*\))/).map(condition => {
+      const [, column, operator, value] = condition.match(/^(\w+)\.(eq|in)\.(.*)$/) || []
+      if (!column) throw new Error(`FakeSupabase: unsupported or() condition ${condition}`)
+      const values = operator === 'in' ? value.replace(/^\(|\)$/g, '').split(',') : [value]
+      return (row: Row) => values.includes(String(row[column]))
+    })
+    this.filters.push(row => conditions.some(condition => condition(row)))
+    return this
+  }
+
+  gte(column: string, value: any) {
+    this.filters.push(row => row[column] >= value)
+    return this
+  }
+
+  lte(column: string, value: any) {
+    this.filters.push(row => row[column] <= value)
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.ordering.push({ column, ascending: options.ascending ?? true })
+    return this
+  }
+
+  limit(count: number) {
+    this.maxRows = count
+    return this
+  }
+
+  single() {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = { data: any; error: QueryError | null }, TResult2 = never>(
+    onfulfilled?: ((value: { data: any; error: QueryError | null }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private execute(): { data: any; error: QueryError | null } {
+    const failure = this.client.takeFailure(this.table, this.operation)
+    if (failure) return { data: null, error: failure }
+
+    const table = this.client.rows(this.table)
+    const matches = () => table.filter(row => this.filters.every(filter => filter(row)))
+    let result: Row[]
+
+    switch (this.operation) {
+      case 'select':
+        result = matches().sort((a, b) => {
+          for (const { column, ascending } of this.ordering) {
+            if (a[column] === b[column]) continue
+            return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1)
+          }
+          return 0
+        })
+        if (this.maxRows !== null) result = result.slice(0, this.maxRows)
+        break
+
+      case 'insert':
+      case 'upsert': {
+        result = []
+        for (const row of this.payload) {
+          const existing = this.operation === 'upsert'
+            ? table.find(candidate => sameOn(this.conflictColumns, candidate, row))
+            : undefined
+          if (existing) {
+            Object.assign(existing, row)
+            result.push(existing)
+            continue
+          }
+
+          const stored = { ...row, id: row.id ?? this.client.generateId() }
+          const violated = this.client.constraints(this.table)
+            .find(columns => table.some(candidate => sameOn(columns, candidate, stored)))
+          if (violated) {
+            return {
+              data: null,
+              error: { code: '23505', message: `duplicate key value violates unique constraint (${violated.join(', ')})` }
+            }
+          }
+          table.push(stored)
+          result.push(stored)
+        }
+        break
+      }
+
+      case 'update':
+        result = matches()
+        result.forEach(row => Object.assign(row, this.changes))
+        break
+
+      case 'delete':
+        result = matches()
+        this.client.tables[this.table] = table.filter(row => !result.includes(row))
+        break
+    }
+
+    const copies = result.map(row => structuredClone(row))
+    if (this.mode === 'many') return { data: copies, error: null }
+    if (copies.length === 1) return { data: copies[0], error: null }
+    if (copies.length === 0 && this.mode === 'maybeSingle') return { data: null, error: null }
+    return {
+      data: null,
+      error: { code: 'PGRST116', message: `JSON object requested, ${copies.length} rows returned` }
+    }
+  }
+}
@@ -5,6 +5,8 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_ANON_KEY: string
   readonly VITE_ANTHROPIC_API_KEY: string
   readonly VITE_DEV_MODE: string
+  readonly VITE_ORCHESTRATOR_GRAPHQL_URL?: string
+  readonly VITE_ORCHESTRATOR_API_URL?: string
   readonly SUPABASE_KEY: string
 }
 
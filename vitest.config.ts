@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Specs for the Node services under server/, the app's lib code and the shared packages, kept next to the code they cover
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['server/**/*.test.ts', 'src/**/*.test.ts', 'packages/**/*.test.js']
+  }
+})